@@ -1,5 +1,6 @@
 import { api } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { callerProjectId } from "../auth/tenancy";
 
 const analyticsDB = SQLDatabase.named("blockchain");
 
@@ -21,6 +22,10 @@ export interface NetworkActivity {
   contractCount: number;
   totalValue: string;
   lastActivity: Date;
+  // From ingested block headers; unset until the block tracker has run.
+  headBlock?: number;
+  avgBlockTime?: number;
+  baseFeePerGas?: string;
 }
 
 export interface TokenAnalytics {
@@ -71,17 +76,18 @@ function calculateHolderPercentage(balance: string, totalSupply: bigint): number
 
 // API: Blockchain overview dashboard
 export const getOverview = api<void, BlockchainOverview>(
-  { expose: true, method: "GET", path: "/analytics/overview" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/overview", tags: ["scope:analytics:read"] },
   async () => {
+    const projectId = callerProjectId();
     const overview = await analyticsDB.queryRow<BlockchainOverview>`
       SELECT 
-        (SELECT COUNT(*) FROM networks WHERE is_active = true) AS "totalNetworks",
-        (SELECT COUNT(*) FROM smart_contracts) AS "totalContracts",
-        (SELECT COUNT(*) FROM wallets) AS "totalWallets",
-        (SELECT COUNT(*) FROM tokens) AS "totalTokens",
-        (SELECT COUNT(*) FROM nft_metadata) AS "totalNFTs",
-        (SELECT COUNT(*) FROM transactions) AS "totalTransactions",
-        (SELECT COUNT(*) FROM transactions WHERE status = 'pending') AS "pendingTransactions"
+        (SELECT COUNT(*) FROM networks WHERE is_active = true AND project_id = ${projectId}) AS "totalNetworks",
+        (SELECT COUNT(*) FROM smart_contracts WHERE project_id = ${projectId}) AS "totalContracts",
+        (SELECT COUNT(*) FROM wallets WHERE project_id = ${projectId}) AS "totalWallets",
+        (SELECT COUNT(*) FROM tokens WHERE project_id = ${projectId}) AS "totalTokens",
+        (SELECT COUNT(*) FROM nft_metadata WHERE project_id = ${projectId}) AS "totalNFTs",
+        (SELECT COUNT(*) FROM transactions WHERE project_id = ${projectId}) AS "totalTransactions",
+        (SELECT COUNT(*) FROM transactions WHERE status = 'pending' AND project_id = ${projectId}) AS "pendingTransactions"
     `;
     return overview!;
   }
@@ -89,7 +95,7 @@ export const getOverview = api<void, BlockchainOverview>(
 
 // API: Network activity statistics
 export const getNetworkActivity = api<void, NetworkActivityResponse>(
-  { expose: true, method: "GET", path: "/analytics/networks" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/networks", tags: ["scope:analytics:read"] },
   async () => {
     const activities = await analyticsDB.queryAll<NetworkActivity>`
       SELECT 
@@ -98,7 +104,10 @@ export const getNetworkActivity = api<void, NetworkActivityResponse>(
         COALESCE(tx_stats.transaction_count, 0) AS "transactionCount",
         COALESCE(contract_stats.contract_count, 0) AS "contractCount",
         COALESCE(tx_stats.total_value, '0') AS "totalValue",
-        COALESCE(tx_stats.last_activity, n.created_at) AS "lastActivity"
+        COALESCE(tx_stats.last_activity, n.created_at) AS "lastActivity",
+        block_stats.head_block AS "headBlock",
+        block_stats.avg_block_time AS "avgBlockTime",
+        block_stats.base_fee_per_gas AS "baseFeePerGas"
       FROM networks n
       LEFT JOIN (
         SELECT 
@@ -116,7 +125,21 @@ export const getNetworkActivity = api<void, NetworkActivityResponse>(
         FROM smart_contracts
         GROUP BY network_id
       ) contract_stats ON n.id = contract_stats.network_id
-      WHERE n.is_active = true
+      LEFT JOIN LATERAL (
+        SELECT 
+          head.number AS head_block,
+          head.base_fee_per_gas::text AS base_fee_per_gas,
+          (
+            SELECT EXTRACT(EPOCH FROM MAX(b.timestamp) - MIN(b.timestamp)) / NULLIF(MAX(b.number) - MIN(b.number), 0)
+            FROM blocks b
+            WHERE b.network_id = n.id AND b.timestamp >= NOW() - INTERVAL '1 hour'
+          )::float AS avg_block_time
+        FROM blocks head
+        WHERE head.network_id = n.id
+        ORDER BY head.number DESC
+        LIMIT 1
+      ) block_stats ON true
+      WHERE n.is_active = true AND n.project_id = ${callerProjectId()}
       ORDER BY "transactionCount" DESC
     `;
     return { activities };
@@ -125,7 +148,7 @@ export const getNetworkActivity = api<void, NetworkActivityResponse>(
 
 // API: Token analytics (top 20 tokens by holder count)
 export const getTokenAnalytics = api<void, TokenAnalyticsResponse>(
-  { expose: true, method: "GET", path: "/analytics/tokens" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/tokens", tags: ["scope:analytics:read"] },
   async () => {
     const analytics = await analyticsDB.queryAll<TokenAnalytics>`
       SELECT 
@@ -149,9 +172,10 @@ export const getTokenAnalytics = api<void, TokenAnalyticsResponse>(
           sc.id AS contract_id,
           COUNT(tx.id) AS transaction_count
         FROM smart_contracts sc
-        LEFT JOIN transactions tx ON sc.address = tx.contract_address
+        LEFT JOIN transactions tx ON sc.address = tx.contract_address AND tx.project_id = sc.project_id
         GROUP BY sc.id
       ) tx_stats ON t.contract_id = tx_stats.contract_id
+      WHERE t.project_id = ${callerProjectId()}
       ORDER BY "holderCount" DESC
       LIMIT 20
     `;
@@ -161,9 +185,10 @@ export const getTokenAnalytics = api<void, TokenAnalyticsResponse>(
 
 // API: Daily statistics for last N days (default 30)
 export const getDailyStats = api<{ days?: number }, DailyStatsResponse>(
-  { expose: true, method: "GET", path: "/analytics/daily" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/daily", tags: ["scope:analytics:read"] },
   async (req) => {
     const days = req.days && req.days > 0 ? req.days : 30;
+    const projectId = callerProjectId();
     const stats = await analyticsDB.queryAll<DailyStats>`
       WITH date_series AS (
         SELECT generate_series(
@@ -179,7 +204,7 @@ export const getDailyStats = api<{ days?: number }, DailyStatsResponse>(
           COUNT(DISTINCT from_address) + COUNT(DISTINCT to_address) AS unique_users,
           SUM(value)::text AS total_value
         FROM transactions
-        WHERE created_at >= CURRENT_DATE - INTERVAL '${days} days'
+        WHERE created_at >= CURRENT_DATE - INTERVAL '${days} days' AND project_id = ${projectId}
         GROUP BY DATE(created_at)
       ),
       daily_wallets AS (
@@ -187,7 +212,7 @@ export const getDailyStats = api<{ days?: number }, DailyStatsResponse>(
           DATE(created_at) AS date,
           COUNT(*) AS new_wallets
         FROM wallets
-        WHERE created_at >= CURRENT_DATE - INTERVAL '${days} days'
+        WHERE created_at >= CURRENT_DATE - INTERVAL '${days} days' AND project_id = ${projectId}
         GROUP BY DATE(created_at)
       )
       SELECT 
@@ -207,7 +232,7 @@ export const getDailyStats = api<{ days?: number }, DailyStatsResponse>(
 
 // API: Top token holders for specific token
 export const getTopHolders = api<{ tokenId: number; limit?: number }, TopHoldersResponse>(
-  { expose: true, method: "GET", path: "/analytics/tokens/:tokenId/holders" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/tokens/:tokenId/holders", tags: ["scope:analytics:read"] },
   async (req) => {
     const limit = req.limit && req.limit > 0 ? req.limit : 10;
 
@@ -215,7 +240,7 @@ export const getTopHolders = api<{ tokenId: number; limit?: number }, TopHolders
     const token = await analyticsDB.queryRow<{ totalSupply: string }>`
       SELECT COALESCE(total_supply, '0')::text AS "totalSupply"
       FROM tokens
-      WHERE id = ${req.tokenId}
+      WHERE id = ${req.tokenId} AND project_id = ${callerProjectId()}
     `;
     if (!token) throw new Error("Token not found");
     const totalSupply = BigInt(token.totalSupply);
@@ -250,19 +275,36 @@ export const getHealthMetrics = api<
     lastBlockHeight: number;
     totalGasUsed: string;
     avgGasPrice: string;
+    avgBaseFee: string;
   }
 >(
-  { expose: true, method: "GET", path: "/analytics/health" },
+  { expose: true, auth: true, method: "GET", path: "/analytics/health", tags: ["scope:analytics:read"] },
   async () => {
+    const projectId = callerProjectId();
     const metrics = await analyticsDB.queryRow<{
       avgBlockTime: number;
       networkStatus: string;
       lastBlockHeight: number;
       totalGasUsed: string;
       avgGasPrice: string;
+      avgBaseFee: string;
     }>`
+      WITH recent_blocks AS (
+        SELECT 
+          b.number,
+          b.base_fee_per_gas,
+          EXTRACT(EPOCH FROM b.timestamp - parent.timestamp) AS block_time
+        FROM blocks b
+        JOIN networks n ON n.id = b.network_id AND n.project_id = ${projectId}
+        LEFT JOIN blocks parent ON parent.network_id = b.network_id AND parent.number = b.number - 1
+        WHERE b.timestamp >= NOW() - INTERVAL '1 hour'
+      ),
+      recent_transactions AS (
+        SELECT * FROM transactions
+        WHERE created_at >= NOW() - INTERVAL '1 hour' AND project_id = ${projectId}
+      )
       SELECT 
-        COALESCE(AVG(EXTRACT(EPOCH FROM (confirmed_at - created_at))), 0) AS "avgBlockTime",
+        COALESCE((SELECT AVG(block_time) FROM recent_blocks), 0)::float AS "avgBlockTime",
         CASE 
           WHEN COUNT(CASE WHEN status = 'failed' THEN 1 END) > COUNT(*) * 0.1 
           THEN 'degraded'
@@ -270,11 +312,13 @@ export const getHealthMetrics = api<
           THEN 'congested'
           ELSE 'healthy'
         END AS "networkStatus",
-        COALESCE(MAX(block_number), 0) AS "lastBlockHeight",
+        COALESCE((
+          SELECT MAX(b.number) FROM blocks b JOIN networks n ON n.id = b.network_id WHERE n.project_id = ${projectId}
+        ), MAX(block_number), 0) AS "lastBlockHeight",
         COALESCE(SUM(gas_used), 0)::text AS "totalGasUsed",
-        COALESCE(AVG(gas_price), 0)::text AS "avgGasPrice"
-      FROM transactions
-      WHERE created_at >= NOW() - INTERVAL '1 hour'
+        COALESCE(AVG(gas_price), 0)::text AS "avgGasPrice",
+        COALESCE((SELECT ROUND(AVG(base_fee_per_gas)) FROM recent_blocks), 0)::text AS "avgBaseFee"
+      FROM recent_transactions
     `;
     return metrics!;
   }
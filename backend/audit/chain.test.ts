@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { AuditEntryFields, ChainedAuditEntry, GENESIS_HASH, auditEntryHash, canonicalJson, findChainBreak } from "./chain";
+
+function fields(overrides: Partial<AuditEntryFields> = {}): AuditEntryFields {
+  return {
+    projectId: 1,
+    actor: "user-1",
+    apiKeyId: null,
+    ipAddress: "203.0.113.7",
+    operation: "wallet.create",
+    targetType: "wallet",
+    targetId: "1",
+    before: null,
+    after: { address: "0x01", label: "hot" },
+    result: "success",
+    errorMessage: null,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+// Links each entry to the one before it, the way the trail stores them.
+function chain(...entries: AuditEntryFields[]): ChainedAuditEntry[] {
+  let prevHash = GENESIS_HASH;
+  return entries.map((entry, i) => {
+    const hash = auditEntryHash(prevHash, entry);
+    const chained = { ...entry, id: i + 1, prevHash, hash };
+    prevHash = hash;
+    return chained;
+  });
+}
+
+describe("audit hash chain", () => {
+  const entries = chain(
+    fields(),
+    fields({ operation: "wallet.update", before: { label: "hot" }, after: { label: "cold" } }),
+    fields({ operation: "wallet.delete", result: "denied", errorMessage: "missing scope" })
+  );
+
+  it("verifies an intact chain", () => {
+    expect(findChainBreak(GENESIS_HASH, entries)).toBeNull();
+    expect(findChainBreak(entries[0].hash, entries.slice(1))).toBeNull();
+  });
+
+  it("finds an entry whose contents were edited", () => {
+    const tampered = entries.map((entry) => (entry.id === 2 ? { ...entry, after: { label: "hot" } } : entry));
+
+    expect(findChainBreak(GENESIS_HASH, tampered)).toEqual({ id: 2, reason: "Entry hash does not match its contents" });
+  });
+
+  it("finds the entry after one that was removed", () => {
+    const removed = entries.filter((entry) => entry.id !== 2);
+
+    expect(findChainBreak(GENESIS_HASH, removed)).toEqual({ id: 3, reason: "Entry does not link to the previous entry" });
+  });
+
+  it("finds a rewritten entry even when its own hash was recomputed", () => {
+    const rewritten = [...entries];
+    const forged = fields({ actor: "user-2" });
+    rewritten[0] = { ...forged, id: 1, prevHash: GENESIS_HASH, hash: auditEntryHash(GENESIS_HASH, forged) };
+
+    expect(findChainBreak(GENESIS_HASH, rewritten)).toEqual({ id: 2, reason: "Entry does not link to the previous entry" });
+  });
+
+  it("hashes states the same whatever their key order", () => {
+    const reordered = entries.map((entry) => (entry.id === 1 ? { ...entry, after: { label: "hot", address: "0x01" } } : entry));
+
+    expect(canonicalJson({ b: [{ d: 1, c: 2 }], a: null })).toBe('{"a":null,"b":[{"c":2,"d":1}]}');
+    expect(findChainBreak(GENESIS_HASH, reordered)).toBeNull();
+  });
+});
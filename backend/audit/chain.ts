@@ -0,0 +1,75 @@
+import { createHash } from "node:crypto";
+
+// Hash chain of the audit trail. Each entry's hash covers its stored fields and
+// the previous entry's hash, so editing or removing a row breaks every hash after
+// it. Kept free of Encore imports so the chain can be checked anywhere.
+
+// prev_hash of the first entry.
+export const GENESIS_HASH = "0".repeat(64);
+
+export type AuditResult = "success" | "denied" | "failure";
+
+// Snapshot of an entity's audited fields; only JSON values.
+export type AuditState = Record<string, unknown>;
+
+// The fields covered by an entry's hash, as stored.
+export interface AuditEntryFields {
+  projectId: number | null;
+  actor: string | null;
+  apiKeyId: number | null;
+  ipAddress: string | null;
+  operation: string;
+  targetType: string | null;
+  targetId: string | null;
+  before: AuditState | null;
+  after: AuditState | null;
+  result: AuditResult;
+  errorMessage: string | null;
+  createdAt: Date;
+}
+
+// A stored entry with its link to the one before it.
+export interface ChainedAuditEntry extends AuditEntryFields {
+  id: number;
+  prevHash: string;
+  hash: string;
+}
+
+export interface ChainBreak {
+  id: number;
+  reason: string;
+}
+
+// JSON with object keys sorted at every level; JSONB does not keep key order.
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function auditEntryHash(prevHash: string, entry: AuditEntryFields): string {
+  const payload = canonicalJson({ ...entry, createdAt: entry.createdAt.toISOString(), prevHash });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// The first entry, in id order, that does not link to prevHash and the entries
+// before it or whose hash does not match its contents; null when all do.
+export function findChainBreak(prevHash: string, entries: ChainedAuditEntry[]): ChainBreak | null {
+  for (const { id, prevHash: storedPrevHash, hash, ...fields } of entries) {
+    if (storedPrevHash !== prevHash) {
+      return { id, reason: "Entry does not link to the previous entry" };
+    }
+    if (auditEntryHash(prevHash, fields) !== hash) {
+      return { id, reason: "Entry hash does not match its contents" };
+    }
+    prevHash = hash;
+  }
+  return null;
+}
@@ -0,0 +1,9 @@
+import { Service } from "encore.dev/service";
+import { requireScopes } from "../auth/authorization";
+import { idempotency } from "../auth/idempotency";
+import { apiKeyRateLimit } from "../auth/rate_limit";
+import { auditTrail } from "./trail";
+
+export default new Service("audit", {
+  middlewares: [apiKeyRateLimit, auditTrail, requireScopes, idempotency],
+});
@@ -0,0 +1,266 @@
+import { APIError, api } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { z } from "zod";
+import { callerProjectId } from "../auth/tenancy";
+import { AuditResult, AuditState, ChainedAuditEntry, GENESIS_HASH, findChainBreak } from "./chain";
+
+// Query, export and verification of the audit trail written by trail.ts.
+
+const auditDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const AUDIT_EVENTS_PATH = "/audit/events";
+const AUDIT_EXPORT_PATH = "/audit/events/export";
+const AUDIT_VERIFY_PATH = "/audit/verify";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const MAX_EXPORT_ROWS = 10_000;
+// Rows hashed per query while verifying the chain.
+const VERIFY_BATCH_SIZE = 1_000;
+
+// --- Type Definitions ---
+
+export interface AuditEvent {
+  id: number;
+  actor?: string;
+  apiKeyId?: number;
+  ipAddress?: string;
+  operation: string;
+  targetType?: string;
+  targetId?: string;
+  before?: AuditState;
+  after?: AuditState;
+  result: AuditResult;
+  errorMessage?: string;
+  prevHash: string;
+  hash: string;
+  createdAt: Date;
+}
+
+const AuditFilterSchema = z.object({
+  actor: z.string().optional(),
+  apiKeyId: z.number().int().positive().optional(),
+  operation: z.string().max(64).optional(),
+  targetType: z.string().max(64).optional(),
+  targetId: z.string().max(255).optional(),
+  result: z.enum(["success", "denied", "failure"]).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+export type AuditEventFilters = z.infer<typeof AuditFilterSchema>;
+
+export interface ListAuditEventsRequest extends AuditEventFilters {
+  page?: number;
+  limit?: number;
+}
+
+export interface ListAuditEventsResponse {
+  // Newest first.
+  events: AuditEvent[];
+  total: number;
+}
+
+export interface ExportAuditEventsRequest extends AuditEventFilters {
+  format?: "json" | "csv";
+}
+
+export interface ExportAuditEventsResponse {
+  format: "json" | "csv";
+  filename: string;
+  count: number;
+  // Oldest first, with prevHash and hash so the export can be checked on its own.
+  content: string;
+}
+
+export interface VerifyAuditChainResponse {
+  valid: boolean;
+  checked: number;
+  // First entry whose hash or link does not match.
+  firstInvalidId?: number;
+  reason?: string;
+}
+
+const AUDIT_EVENT_FIELDS = `
+  id,
+  project_id as "projectId",
+  actor,
+  api_key_id as "apiKeyId",
+  ip_address as "ipAddress",
+  operation,
+  target_type as "targetType",
+  target_id as "targetId",
+  before_state as "before",
+  after_state as "after",
+  result,
+  error_message as "errorMessage",
+  prev_hash as "prevHash",
+  hash,
+  created_at as "createdAt"
+`;
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  "id",
+  "createdAt",
+  "actor",
+  "apiKeyId",
+  "ipAddress",
+  "operation",
+  "targetType",
+  "targetId",
+  "result",
+  "errorMessage",
+  "before",
+  "after",
+  "prevHash",
+  "hash",
+];
+
+// --- Helper Functions ---
+
+function parseFilters(req: AuditEventFilters): AuditEventFilters {
+  const parsed = AuditFilterSchema.safeParse(req);
+  if (!parsed.success) {
+    throw APIError.invalidArgument(`Invalid filters: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+// WHERE clause for the caller's project and the given filters.
+function buildWhereClause(filters: AuditEventFilters): { clause: string; params: any[] } {
+  const conditions = ["project_id = $1"];
+  const params: any[] = [callerProjectId()];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace("?", `$${params.length}`));
+  };
+  if (filters.actor) add("actor = ?", filters.actor);
+  if (filters.apiKeyId) add("api_key_id = ?", filters.apiKeyId);
+  if (filters.operation) add("operation = ?", filters.operation);
+  if (filters.targetType) add("target_type = ?", filters.targetType);
+  if (filters.targetId) add("target_id = ?", filters.targetId);
+  if (filters.result) add("result = ?", filters.result);
+  if (filters.from) add("created_at >= ?", new Date(filters.from));
+  if (filters.to) add("created_at < ?", new Date(filters.to));
+  return { clause: `WHERE ${conditions.join(" AND ")}`, params };
+}
+
+function toAuditEvent({ projectId, ...row }: ChainedAuditEntry): AuditEvent {
+  return {
+    ...row,
+    actor: row.actor ?? undefined,
+    apiKeyId: row.apiKeyId ?? undefined,
+    ipAddress: row.ipAddress ?? undefined,
+    targetType: row.targetType ?? undefined,
+    targetId: row.targetId ?? undefined,
+    before: row.before ?? undefined,
+    after: row.after ?? undefined,
+    errorMessage: row.errorMessage ?? undefined,
+  };
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(events: AuditEvent[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(event[column])).join(","));
+  }
+  return lines.join("\n") + "\n";
+}
+
+// --- API Endpoints ---
+
+// Query the project's audit trail
+export const listAuditEvents = api<ListAuditEventsRequest, ListAuditEventsResponse>(
+  { expose: true, auth: true, method: "GET", path: AUDIT_EVENTS_PATH, tags: ["scope:audit:read"] },
+  async ({ page = 1, limit = DEFAULT_LIMIT, ...req }) => {
+    const filters = parseFilters(req);
+    const pageSize = Math.min(Math.max(1, limit), MAX_LIMIT);
+    const offset = (Math.max(1, page) - 1) * pageSize;
+    const { clause, params } = buildWhereClause(filters);
+
+    const rows = await auditDB.rawQueryAll<ChainedAuditEntry>(
+      `
+        SELECT ${AUDIT_EVENT_FIELDS}
+        FROM audit_events
+        ${clause}
+        ORDER BY id DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      ...params,
+      pageSize,
+      offset
+    );
+    const count = await auditDB.rawQueryRow<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM audit_events ${clause}`,
+      ...params
+    );
+    return { events: rows.map(toAuditEvent), total: count?.count ?? 0 };
+  }
+);
+
+// Export the project's audit trail as JSON or CSV
+export const exportAuditEvents = api<ExportAuditEventsRequest, ExportAuditEventsResponse>(
+  { expose: true, auth: true, method: "GET", path: AUDIT_EXPORT_PATH, tags: ["scope:audit:read"] },
+  async ({ format = "json", ...req }) => {
+    if (format !== "json" && format !== "csv") {
+      throw APIError.invalidArgument("format must be json or csv");
+    }
+    const filters = parseFilters(req);
+    const { clause, params } = buildWhereClause(filters);
+    const count = await auditDB.rawQueryRow<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM audit_events ${clause}`,
+      ...params
+    );
+    if (count!.count > MAX_EXPORT_ROWS) {
+      throw APIError.invalidArgument(`${count!.count} entries match; narrow the filters to at most ${MAX_EXPORT_ROWS}`);
+    }
+
+    const rows = await auditDB.rawQueryAll<ChainedAuditEntry>(
+      `SELECT ${AUDIT_EVENT_FIELDS} FROM audit_events ${clause} ORDER BY id`,
+      ...params
+    );
+    const events = rows.map(toAuditEvent);
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    return {
+      format,
+      filename: `audit-events-${stamp}.${format}`,
+      count: events.length,
+      content: format === "csv" ? toCsv(events) : JSON.stringify(events, null, 2),
+    };
+  }
+);
+
+// Recompute the hash chain over every entry, of all projects, and report the first break
+export const verifyAuditChain = api<void, VerifyAuditChainResponse>(
+  { expose: true, auth: true, method: "GET", path: AUDIT_VERIFY_PATH, tags: ["scope:audit:verify"] },
+  async () => {
+    let prevHash = GENESIS_HASH;
+    let lastId = 0;
+    let checked = 0;
+    for (;;) {
+      const rows = await auditDB.rawQueryAll<ChainedAuditEntry>(
+        `SELECT ${AUDIT_EVENT_FIELDS} FROM audit_events WHERE id > $1 ORDER BY id LIMIT $2`,
+        lastId,
+        VERIFY_BATCH_SIZE
+      );
+      const broken = findChainBreak(prevHash, rows);
+      if (broken) {
+        const passed = rows.findIndex((row) => row.id === broken.id);
+        return { valid: false, checked: checked + passed, firstInvalidId: broken.id, reason: broken.reason };
+      }
+      checked += rows.length;
+      if (rows.length < VERIFY_BATCH_SIZE) {
+        return { valid: true, checked };
+      }
+      prevHash = rows[rows.length - 1].hash;
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+);
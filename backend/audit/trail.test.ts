@@ -0,0 +1,113 @@
+import { APIError, HandlerResponse, MiddlewareRequest } from "encore.dev/api";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { setCurrentRequest } from "../test/encore/req_meta";
+import { closeDatabases } from "../test/encore/sqldb";
+import { listAuditEvents, verifyAuditChain } from "./events";
+import { auditChange, auditTarget, auditTrail } from "./trail";
+
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+
+// A request to an endpoint with the given tags, made the current one.
+function requestFor(tags: string[], headers: Record<string, string> = {}): MiddlewareRequest {
+  const req = new MiddlewareRequest();
+  const meta = { type: "api-call", api: { tags }, headers, middlewareData: req.data };
+  setCurrentRequest(meta);
+  return Object.assign(req, { requestMeta: meta });
+}
+
+// Runs handler behind the audit middleware.
+function call(tags: string[], handler: () => Promise<void>, headers: Record<string, string> = {}) {
+  return auditTrail(requestFor(tags, headers), async () => {
+    await handler();
+    return new HandlerResponse({});
+  });
+}
+
+afterEach(() => {
+  setCurrentRequest(undefined);
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("auditTrail", () => {
+  it("records the caller, target and changed fields of a tagged call", async () => {
+    setAuthData(ALICE);
+
+    await call(
+      ["scope:networks:write", "audit:network.update"],
+      async () => {
+        auditTarget("network", 7);
+        auditChange({ name: "Sepolia", isActive: true }, { name: "Sepolia", isActive: false });
+      },
+      // The gateway appends the address it saw; the first entry is client-supplied.
+      { "x-forwarded-for": "198.51.100.9, 203.0.113.7" }
+    );
+
+    const { events } = await listAuditEvents({ operation: "network.update" });
+    expect(events).toEqual([
+      expect.objectContaining({
+        actor: ALICE.userID,
+        ipAddress: "203.0.113.7",
+        targetType: "network",
+        targetId: "7",
+        before: { isActive: true },
+        after: { isActive: false },
+        result: "success",
+      }),
+    ]);
+  });
+
+  it("records denied and failed calls and passes their errors on", async () => {
+    setAuthData(ALICE);
+
+    await expect(
+      call(["audit:token.mint"], async () => {
+        throw APIError.permissionDenied("Missing required scope: tokens:mint");
+      })
+    ).rejects.toMatchObject({ code: "permission_denied" });
+    await expect(
+      call(["audit:token.burn"], async () => {
+        throw new Error("RPC unavailable");
+      })
+    ).rejects.toThrow("RPC unavailable");
+
+    const { events } = await listAuditEvents({});
+    expect(events.slice(0, 2).map(({ operation, result, errorMessage }) => [operation, result, errorMessage])).toEqual([
+      ["token.burn", "failure", "RPC unavailable"],
+      ["token.mint", "denied", "Missing required scope: tokens:mint"],
+    ]);
+  });
+
+  it("ignores untagged endpoints", async () => {
+    setAuthData(ALICE);
+    const before = (await listAuditEvents({})).total;
+
+    await call(["scope:networks:read"], async () => {
+      auditTarget("network", 1);
+    });
+
+    expect((await listAuditEvents({})).total).toBe(before);
+  });
+
+  it("skips calls replayed from an idempotency key", async () => {
+    setAuthData(ALICE);
+    const before = (await listAuditEvents({})).total;
+
+    await auditTrail(requestFor(["idempotent", "audit:token.create"]), async (req) => {
+      req.data.idempotentReplay = true;
+      return new HandlerResponse({});
+    });
+
+    expect((await listAuditEvents({})).total).toBe(before);
+  });
+
+  it("links every entry into a chain that verifies", async () => {
+    setAuthData(ALICE);
+
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 3 });
+  });
+});
@@ -0,0 +1,179 @@
+import { APIError, middleware } from "encore.dev/api";
+import { currentRequest } from "encore.dev";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { AuditEntryFields, AuditResult, AuditState, GENESIS_HASH, auditEntryHash, canonicalJson } from "./chain";
+
+// Audit trail of privileged operations. Endpoints opt in with an
+// `audit:<operation>` tag (e.g. `tags: ["scope:tokens:mint", "audit:token.mint"]`);
+// the middleware below appends one entry per call with the caller, the outcome
+// and whatever target and before/after state the handler reported through
+// auditTarget and auditChange. Entries are hash-chained (see chain.ts) and
+// checked by verifyAuditChain.
+
+const auditDB = SQLDatabase.named("blockchain");
+
+export const AUDIT_TAG_PREFIX = "audit:";
+
+// Serializes appends so each entry links to the one before it.
+const CHAIN_LOCK_KEY = 0x61756469;
+
+// Proxies in front of the service that append to X-Forwarded-For (the Encore gateway).
+// Entries left of the ones they added are supplied by the client and not trusted.
+const TRUSTED_PROXY_HOPS = 1;
+
+// Filled in by the handler while the call runs.
+interface AuditContext {
+  targetType?: string;
+  targetId?: string;
+  before?: AuditState | null;
+  after?: AuditState | null;
+}
+
+// --- Helper Functions ---
+
+function auditContext(): AuditContext | undefined {
+  const req = currentRequest();
+  return req?.type === "api-call" ? (req.middlewareData?.audit as AuditContext | undefined) : undefined;
+}
+
+// Keeps the fields whose values differ; creations and deletions keep the whole snapshot.
+function diffStates(before: AuditState | null, after: AuditState | null) {
+  if (!before || !after) {
+    return { before, after };
+  }
+  const changedBefore: AuditState = {};
+  const changedAfter: AuditState = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (canonicalJson(before[key]) !== canonicalJson(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+// Round-trips through JSON so the hash is computed over what JSONB stores.
+function jsonState(state: AuditState | null | undefined): AuditState | null {
+  return state ? JSON.parse(JSON.stringify(state)) : null;
+}
+
+// The address the outermost trusted proxy received the request from, counted
+// from the right of X-Forwarded-For; null when fewer hops were recorded.
+function clientIp(headers: Record<string, string | string[]>): string | null {
+  const header = headers["x-forwarded-for"];
+  const hops = (Array.isArray(header) ? header.join(",") : header ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] ?? null;
+}
+
+function outcome(err: unknown): { result: AuditResult; errorMessage: string } {
+  const message = (err as Error)?.message ?? String(err);
+  const code = err instanceof APIError ? err.code : undefined;
+  const denied = code === "permission_denied" || code === "unauthenticated";
+  return { result: denied ? "denied" : "failure", errorMessage: message };
+}
+
+async function appendAuditEntry(entry: Omit<AuditEntryFields, "createdAt">): Promise<void> {
+  const tx = await auditDB.begin();
+  try {
+    await tx.exec`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`;
+    const last = await tx.queryRow<{ hash: string }>`
+      SELECT hash FROM audit_events ORDER BY id DESC LIMIT 1
+    `;
+    const prevHash = last?.hash ?? GENESIS_HASH;
+    const fields: AuditEntryFields = { ...entry, createdAt: new Date() };
+    const hash = auditEntryHash(prevHash, fields);
+    await tx.exec`
+      INSERT INTO audit_events (
+        project_id, actor, api_key_id, ip_address, operation, target_type, target_id,
+        before_state, after_state, result, error_message, prev_hash, hash, created_at
+      )
+      VALUES (
+        ${fields.projectId}, ${fields.actor}, ${fields.apiKeyId}, ${fields.ipAddress}, ${fields.operation},
+        ${fields.targetType}, ${fields.targetId},
+        ${fields.before === null ? null : JSON.stringify(fields.before)}::jsonb,
+        ${fields.after === null ? null : JSON.stringify(fields.after)}::jsonb,
+        ${fields.result}, ${fields.errorMessage}, ${prevHash}, ${hash}, ${fields.createdAt}
+      )
+    `;
+    await tx.commit();
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
+
+// --- Handler API ---
+
+// Names the entity an audited call acts on.
+export function auditTarget(type: string, id: string | number) {
+  const ctx = auditContext();
+  if (ctx) {
+    ctx.targetType = type;
+    ctx.targetId = String(id);
+  }
+}
+
+// Records the target's state around the change; null before a creation or after a deletion.
+export function auditChange(before: AuditState | null, after: AuditState | null) {
+  const ctx = auditContext();
+  if (ctx) {
+    ctx.before = before;
+    ctx.after = after;
+  }
+}
+
+// --- Middleware ---
+
+// Registered on every service after the rate limiter and before scope checks,
+// so denied attempts are recorded too. A failed append is logged rather than
+// failing a call whose effects are already committed.
+export const auditTrail = middleware(async (req, next) => {
+  const meta = req.requestMeta;
+  const tag = meta?.type === "api-call" ? meta.api.tags.find((t) => t.startsWith(AUDIT_TAG_PREFIX)) : undefined;
+  if (!tag || meta?.type !== "api-call") {
+    return next(req);
+  }
+  const ctx: AuditContext = {};
+  req.data.audit = ctx;
+
+  const record = async (result: AuditResult, errorMessage: string | null) => {
+    const auth = getAuthData();
+    const { before, after } = diffStates(jsonState(ctx.before), jsonState(ctx.after));
+    const operation = tag.slice(AUDIT_TAG_PREFIX.length);
+    try {
+      await appendAuditEntry({
+        projectId: auth?.projectId ?? null,
+        actor: auth?.userID ?? null,
+        apiKeyId: auth?.apiKeyId ?? null,
+        ipAddress: clientIp(meta.headers),
+        operation,
+        targetType: ctx.targetType ?? null,
+        targetId: ctx.targetId ?? null,
+        before,
+        after,
+        result,
+        errorMessage,
+      });
+    } catch (err) {
+      log.error("audit entry could not be written", { operation, result, error: (err as Error).message });
+    }
+  };
+
+  try {
+    const resp = await next(req);
+    // A replayed idempotent call (see auth/idempotency.ts) did not run the operation again.
+    if (!req.data.idempotentReplay) {
+      await record("success", null);
+    }
+    return resp;
+  } catch (err) {
+    const { result, errorMessage } = outcome(err);
+    await record(result, errorMessage);
+    throw err;
+  }
+});
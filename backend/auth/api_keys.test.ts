@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_ORGANIZATION_ID, DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { createApiKey, listApiKeys, revokeApiKey, rotateApiKey } from "./api_keys";
+import { auth } from "./auth";
+import { getSession } from "./sessions";
+
+const db = SQLDatabase.named("blockchain");
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+
+function authenticate(key: string) {
+  return auth({ authorization: `Bearer ${key}` });
+}
+
+beforeAll(async () => {
+  await db.exec`
+    INSERT INTO organization_members (organization_id, user_id, role)
+    VALUES (${DEFAULT_ORGANIZATION_ID}, ${ALICE.userID}, 'owner')
+  `;
+});
+
+beforeEach(() => {
+  setAuthData(ALICE);
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("API keys", () => {
+  it("issues a key that authenticates as its owner with its permissions and limit", async () => {
+    const { key, apiKey } = await createApiKey({ name: "ci", permissions: ["contracts:read", "contracts:read"], rateLimitPerMinute: 30 });
+
+    expect(key.startsWith("ibf_")).toBe(true);
+    expect(apiKey).toMatchObject({ name: "ci", keyPrefix: key.slice(0, 12), permissions: ["contracts:read"], isActive: true });
+    expect(await authenticate(key)).toEqual({
+      userID: ALICE.userID,
+      roles: ["developer"],
+      scopes: expect.arrayContaining(["contracts:read", "wallets:sign"]),
+      projectId: DEFAULT_PROJECT_ID,
+      organizationId: DEFAULT_ORGANIZATION_ID,
+      organizationRole: "owner",
+      apiKeyId: apiKey.id,
+      rateLimitPerMinute: 30,
+      permissions: ["contracts:read"],
+    });
+    expect((await listApiKeys()).apiKeys.map((k) => k.id)).toContain(apiKey.id);
+  });
+
+  it("keeps the old key working during a rotation's grace period", async () => {
+    const original = await createApiKey({ name: "deployer" });
+
+    const rotated = await rotateApiKey({ id: original.apiKey.id, graceSeconds: 60 });
+
+    expect(rotated.apiKey).toMatchObject({ name: "deployer", rotatedFromId: original.apiKey.id });
+    await expect(authenticate(original.key)).resolves.toMatchObject({ apiKeyId: original.apiKey.id });
+    await expect(authenticate(rotated.key)).resolves.toMatchObject({ apiKeyId: rotated.apiKey.id });
+
+    const again = await rotateApiKey({ id: rotated.apiKey.id });
+    await expect(authenticate(rotated.key)).rejects.toMatchObject({ code: "unauthenticated" });
+    await expect(authenticate(again.key)).resolves.toMatchObject({ apiKeyId: again.apiKey.id });
+    await expect(rotateApiKey({ id: rotated.apiKey.id })).rejects.toMatchObject({ code: "failed_precondition" });
+  });
+
+  it("rejects revoked keys and other users' keys", async () => {
+    const { key, apiKey } = await createApiKey({ name: "temp" });
+
+    setAuthData({ ...ALICE, userID: "0x0000000000000000000000000000000000000b0b" });
+    await expect(revokeApiKey({ id: apiKey.id })).rejects.toMatchObject({ code: "not_found" });
+
+    setAuthData(ALICE);
+    expect((await revokeApiKey({ id: apiKey.id })).isActive).toBe(false);
+    await expect(authenticate(key)).rejects.toMatchObject({ code: "unauthenticated" });
+  });
+
+  it("validates input", async () => {
+    await expect(createApiKey({ name: "" })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(createApiKey({ name: "old", expiresAt: new Date(Date.now() - 1000) })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(createApiKey({ name: "fast", rateLimitPerMinute: 0 })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(createApiKey({ name: "typo", permissions: ["token:mint"] })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "Unknown scopes: token:mint",
+    });
+  });
+
+  it("only grants scopes the issuer holds", async () => {
+    setAuthData(signedIn(ALICE.userID, 1, ["developer"], ["tokens:read", "tokens:write"]));
+
+    await expect(createApiKey({ name: "minter", permissions: ["tokens:write", "tokens:mint"] })).rejects.toMatchObject({
+      code: "permission_denied",
+      message: "Cannot grant scopes you do not hold: tokens:mint",
+    });
+    await expect(createApiKey({ name: "writer", permissions: ["tokens:*"] })).rejects.toMatchObject({
+      code: "permission_denied",
+    });
+    await expect(createApiKey({ name: "writer", permissions: ["tokens:write"] })).resolves.toBeDefined();
+  });
+
+  it("manages keys only from sessions and within the current project", async () => {
+    const { key, apiKey } = await createApiKey({ name: "scoped" });
+    setAuthData(await authenticate(key));
+
+    await expect(createApiKey({ name: "child" })).rejects.toMatchObject({ code: "permission_denied" });
+    await expect(rotateApiKey({ id: apiKey.id })).rejects.toMatchObject({ code: "permission_denied" });
+    await expect(revokeApiKey({ id: apiKey.id })).rejects.toMatchObject({ code: "permission_denied" });
+
+    setAuthData({ ...ALICE, projectId: DEFAULT_PROJECT_ID + 1000 });
+    expect((await listApiKeys()).apiKeys).toEqual([]);
+    await expect(revokeApiKey({ id: apiKey.id })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("keeps session endpoints for signed-in sessions", async () => {
+    const { key } = await createApiKey({ name: "bot" });
+    setAuthData(await authenticate(key));
+
+    await expect(getSession()).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+});
@@ -0,0 +1,275 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { randomBytes } from "node:crypto";
+import { z } from "zod";
+import { API_KEY_PREFIX, hashToken } from "./auth";
+import { isGranted } from "./authorization";
+import { isValidScope } from "./scopes";
+import { callerProjectId } from "./tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+
+// API keys for server-to-server callers. A key is shown once when issued or
+// rotated; only its SHA-256 hash and a short prefix are stored.
+
+const authDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const API_KEYS_PATH = "/auth/api-keys";
+const API_KEY_BY_ID_PATH = "/auth/api-keys/:id";
+const API_KEY_ROTATE_PATH = "/auth/api-keys/:id/rotate";
+
+// Characters of the key kept for display, including the "ibf_" prefix.
+const DISPLAY_PREFIX_LENGTH = 12;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 100;
+const MAX_RATE_LIMIT_PER_MINUTE = 10_000;
+// Longest an old key may stay valid after a rotation.
+const MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 60 * 60;
+
+// --- Type Definitions ---
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string | null;
+  permissions: string[];
+  rateLimitPerMinute: number;
+  isActive: boolean;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  rotatedFromId: number | null;
+  // Project the key acts in: the one it was issued from.
+  projectId: number;
+  createdAt: Date;
+}
+
+const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  permissions: z.array(z.string().min(1).max(64)).max(100).optional().default([]),
+  rateLimitPerMinute: z.number().int().min(1).max(MAX_RATE_LIMIT_PER_MINUTE).optional().default(DEFAULT_RATE_LIMIT_PER_MINUTE),
+  expiresAt: z.coerce.date().optional(),
+});
+
+export type CreateApiKeyRequest = z.input<typeof CreateApiKeySchema>;
+
+export interface RotateApiKeyRequest {
+  id: number;
+  // How long the old key keeps working, so callers can switch over; 0 revokes it at once.
+  graceSeconds?: number;
+}
+
+export interface IssuedApiKeyResponse {
+  apiKey: ApiKey;
+  // The full key; it cannot be retrieved again.
+  key: string;
+}
+
+export interface ListApiKeysResponse {
+  apiKeys: ApiKey[];
+}
+
+const API_KEY_FIELDS = `
+  id,
+  name,
+  key_prefix as "keyPrefix",
+  permissions,
+  rate_limit_per_minute as "rateLimitPerMinute",
+  is_active as "isActive",
+  last_used_at as "lastUsedAt",
+  expires_at as "expiresAt",
+  revoked_at as "revokedAt",
+  rotated_from_id as "rotatedFromId",
+  project_id as "projectId",
+  created_at as "createdAt"
+`;
+
+// --- Helper Functions ---
+
+function generateKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+interface NewKey {
+  name: string;
+  permissions: string[];
+  rateLimitPerMinute: number;
+  expiresAt: Date | null;
+}
+
+async function insertKey(userId: string, projectId: number, input: NewKey): Promise<IssuedApiKeyResponse> {
+  const key = generateKey();
+  const apiKey = await authDB.rawQueryRow<ApiKey>(
+    `
+      INSERT INTO api_keys (key_hash, key_prefix, user_id, project_id, name, permissions, rate_limit_per_minute, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${API_KEY_FIELDS}
+    `,
+    hashToken(key),
+    key.slice(0, DISPLAY_PREFIX_LENGTH),
+    userId,
+    projectId,
+    input.name,
+    JSON.stringify(input.permissions),
+    input.rateLimitPerMinute,
+    input.expiresAt
+  );
+  return { apiKey: apiKey!, key };
+}
+
+// Keys are only managed from a signed-in session, so a leaked key cannot issue or extend others.
+function requireSession(): void {
+  if (getAuthData()!.apiKeyId !== undefined) {
+    throw APIError.permissionDenied("API keys can only be managed from a signed-in session");
+  }
+}
+
+async function loadOwnKey(id: number, userId: string): Promise<ApiKey> {
+  const apiKey = await authDB.rawQueryRow<ApiKey>(
+    `SELECT ${API_KEY_FIELDS} FROM api_keys WHERE id = $1 AND user_id = $2 AND project_id = $3`,
+    id,
+    userId,
+    callerProjectId()
+  );
+  if (!apiKey) {
+    throw APIError.notFound("API key not found");
+  }
+  return apiKey;
+}
+
+// --- API Endpoints ---
+
+// Issue an API key for the caller; the key is only returned in this response
+export const createApiKey = api<CreateApiKeyRequest, IssuedApiKeyResponse>(
+  { expose: true, auth: true, method: "POST", path: API_KEYS_PATH, sensitive: true, tags: ["audit:api_key.create"] },
+  async (req) => {
+    requireSession();
+    const userId = getAuthData()!.userID;
+    const parsed = CreateApiKeySchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const input = parsed.data;
+    const invalid = input.permissions.filter((scope) => !isValidScope(scope));
+    if (invalid.length > 0) {
+      throw APIError.invalidArgument(`Unknown scopes: ${invalid.join(", ")}`);
+    }
+    // A key may only carry scopes its issuer holds.
+    const ungranted = input.permissions.filter((scope) => !isGranted(getAuthData()!, scope));
+    if (ungranted.length > 0) {
+      throw APIError.permissionDenied(`Cannot grant scopes you do not hold: ${ungranted.join(", ")}`);
+    }
+    if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+      throw APIError.invalidArgument("expiresAt must be in the future");
+    }
+    const issued = await insertKey(userId, callerProjectId(), {
+      name: input.name,
+      permissions: [...new Set(input.permissions)],
+      rateLimitPerMinute: input.rateLimitPerMinute,
+      expiresAt: input.expiresAt ?? null,
+    });
+    log.info("api key issued", { userId, apiKeyId: issued.apiKey.id, keyPrefix: issued.apiKey.keyPrefix });
+    auditTarget("api_key", issued.apiKey.id);
+    auditChange(null, { name: issued.apiKey.name, keyPrefix: issued.apiKey.keyPrefix, permissions: issued.apiKey.permissions });
+    return issued;
+  }
+);
+
+// List the caller's API keys in the current project, without the keys themselves
+export const listApiKeys = api<void, ListApiKeysResponse>(
+  { expose: true, auth: true, method: "GET", path: API_KEYS_PATH },
+  async () => {
+    const userId = getAuthData()!.userID;
+    const apiKeys = await authDB.rawQueryAll<ApiKey>(
+      `SELECT ${API_KEY_FIELDS} FROM api_keys WHERE user_id = $1 AND project_id = $2 ORDER BY created_at DESC, id DESC`,
+      userId,
+      callerProjectId()
+    );
+    return { apiKeys };
+  }
+);
+
+// Revoke one of the caller's API keys
+export const revokeApiKey = api<{ id: number }, ApiKey>(
+  { expose: true, auth: true, method: "DELETE", path: API_KEY_BY_ID_PATH, tags: ["audit:api_key.revoke"] },
+  async ({ id }) => {
+    requireSession();
+    const userId = getAuthData()!.userID;
+    auditTarget("api_key", id);
+    const current = await loadOwnKey(id, userId);
+    const apiKey = await authDB.rawQueryRow<ApiKey>(
+      `
+        UPDATE api_keys
+        SET is_active = false, revoked_at = COALESCE(revoked_at, NOW())
+        WHERE id = $1
+        RETURNING ${API_KEY_FIELDS}
+      `,
+      id
+    );
+    log.info("api key revoked", { userId, apiKeyId: id });
+    auditChange({ isActive: current.isActive }, { isActive: false });
+    return apiKey!;
+  }
+);
+
+// Replace an API key with a new one carrying the same name, permissions and limits
+export const rotateApiKey = api<RotateApiKeyRequest, IssuedApiKeyResponse>(
+  { expose: true, auth: true, method: "POST", path: API_KEY_ROTATE_PATH, sensitive: true, tags: ["audit:api_key.rotate"] },
+  async ({ id, graceSeconds = 0 }) => {
+    requireSession();
+    const userId = getAuthData()!.userID;
+    auditTarget("api_key", id);
+    if (!Number.isInteger(graceSeconds) || graceSeconds < 0 || graceSeconds > MAX_ROTATION_GRACE_SECONDS) {
+      throw APIError.invalidArgument(`graceSeconds must be an integer between 0 and ${MAX_ROTATION_GRACE_SECONDS}`);
+    }
+    const current = await loadOwnKey(id, userId);
+    if (!current.isActive || (current.expiresAt && current.expiresAt.getTime() <= Date.now())) {
+      throw APIError.failedPrecondition("Only active, unexpired API keys can be rotated");
+    }
+
+    const tx = await authDB.begin();
+    let issued: IssuedApiKeyResponse;
+    try {
+      // Guards against two concurrent rotations of the same key.
+      const locked = await tx.queryRow<{ id: number }>`
+        SELECT id FROM api_keys WHERE id = ${id} AND is_active FOR UPDATE
+      `;
+      if (!locked) {
+        throw APIError.failedPrecondition("Only active, unexpired API keys can be rotated");
+      }
+      const key = generateKey();
+      const apiKey = await tx.rawQueryRow<ApiKey>(
+        `
+          INSERT INTO api_keys (key_hash, key_prefix, user_id, project_id, name, permissions, rate_limit_per_minute, expires_at, rotated_from_id)
+          SELECT $1, $2, user_id, project_id, name, permissions, rate_limit_per_minute, expires_at, id
+          FROM api_keys WHERE id = $3
+          RETURNING ${API_KEY_FIELDS}
+        `,
+        hashToken(key),
+        key.slice(0, DISPLAY_PREFIX_LENGTH),
+        id
+      );
+      if (graceSeconds === 0) {
+        await tx.exec`
+          UPDATE api_keys SET is_active = false, revoked_at = NOW() WHERE id = ${id}
+        `;
+      } else {
+        const graceEnd = new Date(Date.now() + graceSeconds * 1000);
+        await tx.exec`
+          UPDATE api_keys
+          SET expires_at = LEAST(COALESCE(expires_at, ${graceEnd}), ${graceEnd})
+          WHERE id = ${id}
+        `;
+      }
+      await tx.commit();
+      issued = { apiKey: apiKey!, key };
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    log.info("api key rotated", { userId, apiKeyId: id, newApiKeyId: issued.apiKey.id, graceSeconds });
+    auditChange({ replacedBy: null }, { replacedBy: issued.apiKey.id, graceSeconds });
+    return issued;
+  }
+);
@@ -0,0 +1,194 @@
+import { APIError, Gateway, Header } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { createHash } from "node:crypto";
+import { OrganizationRole, ProjectAccess, defaultProjectAccess, organizationScopes, projectAccess } from "./tenancy";
+
+// Caller authentication: "Authorization: Bearer <token>" carries either a session
+// token issued by the SIWE login in sessions.ts or an API key from api_keys.ts,
+// told apart by the API key prefix. Handlers read the caller with getAuthData()
+// from "~encore/auth" instead of trusting a userId parameter. Both resolve the
+// caller's roles into scopes, which authorization.ts checks per endpoint, and
+// the project the request runs in (see tenancy.ts).
+
+const authDB = SQLDatabase.named("blockchain");
+
+export const API_KEY_PREFIX = "ibf_";
+
+// last_seen_at / last_used_at are refreshed at most this often per session or key.
+const LAST_SEEN_RESOLUTION_MS = 60_000;
+
+interface AuthParams {
+  authorization: Header<"Authorization">;
+  // Project a session acts in; API keys are bound to theirs.
+  projectId?: Header<"X-Project-Id">;
+}
+
+export interface AuthData {
+  userID: string;
+  roles: string[];
+  // Union of the scopes of the user's roles, limited by their organization role in the project.
+  scopes: string[];
+  // Unset only for sessions of users without any organization.
+  projectId?: number;
+  organizationId?: number;
+  organizationRole?: OrganizationRole;
+  // Set for SIWE sessions: the checksummed address that signed in.
+  address?: string;
+  sessionId?: number;
+  // Set for API keys.
+  apiKeyId?: number;
+  rateLimitPerMinute?: number;
+  // The key's own scopes; a call needs a scope in both these and the owner's scopes.
+  permissions?: string[];
+}
+
+interface SessionRow {
+  id: number;
+  userId: string;
+  address: string;
+  lastSeenAt: Date | null;
+}
+
+interface ApiKeyRow {
+  id: number;
+  userId: string;
+  permissions: string[];
+  rateLimitPerMinute: number;
+  isActive: boolean;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  projectId: number;
+}
+
+// Session tokens and API keys are stored as SHA-256 hashes only.
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+interface RoleRow {
+  name: string;
+  scopes: string[];
+}
+
+// The user's assigned roles, or the default roles when none are assigned.
+export async function loadRoles(userId: string): Promise<{ roles: string[]; scopes: string[] }> {
+  let rows = await authDB.queryAll<RoleRow>`
+    SELECT r.name, r.scopes
+    FROM user_roles ur
+    JOIN roles r ON r.name = ur.role
+    WHERE ur.user_id = ${userId}
+    ORDER BY r.name
+  `;
+  if (rows.length === 0) {
+    rows = await authDB.queryAll<RoleRow>`
+      SELECT name, scopes FROM roles WHERE is_default ORDER BY name
+    `;
+  }
+  const scopes = new Set(rows.flatMap((row) => (Array.isArray(row.scopes) ? row.scopes : [])));
+  return { roles: rows.map((row) => row.name), scopes: [...scopes] };
+}
+
+// The user's roles and scopes within a project, or across all when they have none.
+async function projectRoles(userId: string, access: ProjectAccess | null): Promise<{ roles: string[]; scopes: string[] }> {
+  const { roles, scopes } = await loadRoles(userId);
+  return { roles, scopes: access ? organizationScopes(access.organizationRole, scopes) : scopes };
+}
+
+function isStale(seenAt: Date | null): boolean {
+  return !seenAt || Date.now() - seenAt.getTime() > LAST_SEEN_RESOLUTION_MS;
+}
+
+async function sessionProject(userId: string, requested: string | undefined): Promise<ProjectAccess | null> {
+  if (!requested) {
+    return defaultProjectAccess(userId);
+  }
+  const projectId = Number(requested);
+  const access = Number.isSafeInteger(projectId) ? await projectAccess(userId, projectId) : null;
+  if (!access) {
+    throw APIError.permissionDenied(`Not a member of project ${requested}`);
+  }
+  return access;
+}
+
+async function authenticateSession(token: string, requestedProject: string | undefined): Promise<AuthData> {
+  const session = await authDB.queryRow<SessionRow>`
+    SELECT
+      id,
+      user_id as "userId",
+      address,
+      last_seen_at as "lastSeenAt"
+    FROM auth_sessions
+    WHERE token_hash = ${hashToken(token)}
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+  `;
+  if (!session) {
+    throw APIError.unauthenticated("Invalid or expired session");
+  }
+  if (isStale(session.lastSeenAt)) {
+    await authDB.exec`UPDATE auth_sessions SET last_seen_at = NOW() WHERE id = ${session.id}`;
+  }
+  const access = await sessionProject(session.userId, requestedProject);
+  return {
+    userID: session.userId,
+    ...(await projectRoles(session.userId, access)),
+    ...access,
+    address: session.address,
+    sessionId: session.id,
+  };
+}
+
+async function authenticateApiKey(key: string, requestedProject: string | undefined): Promise<AuthData> {
+  const apiKey = await authDB.queryRow<ApiKeyRow>`
+    SELECT
+      id,
+      user_id as "userId",
+      permissions,
+      rate_limit_per_minute as "rateLimitPerMinute",
+      is_active as "isActive",
+      expires_at as "expiresAt",
+      last_used_at as "lastUsedAt",
+      project_id as "projectId"
+    FROM api_keys
+    WHERE key_hash = ${hashToken(key)}
+  `;
+  if (!apiKey || !apiKey.isActive) {
+    throw APIError.unauthenticated("Invalid or revoked API key");
+  }
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    throw APIError.unauthenticated("API key has expired");
+  }
+  if (requestedProject && Number(requestedProject) !== apiKey.projectId) {
+    throw APIError.permissionDenied(`API key is bound to project ${apiKey.projectId}`);
+  }
+  // Keys stop working once their owner leaves the project's organization.
+  const access = await projectAccess(apiKey.userId, apiKey.projectId);
+  if (!access) {
+    throw APIError.unauthenticated("API key owner is no longer a member of its project");
+  }
+  if (isStale(apiKey.lastUsedAt)) {
+    await authDB.exec`UPDATE api_keys SET last_used_at = NOW() WHERE id = ${apiKey.id}`;
+  }
+  return {
+    userID: apiKey.userId,
+    ...(await projectRoles(apiKey.userId, access)),
+    ...access,
+    apiKeyId: apiKey.id,
+    rateLimitPerMinute: apiKey.rateLimitPerMinute,
+    permissions: Array.isArray(apiKey.permissions) ? apiKey.permissions : [],
+  };
+}
+
+export const auth = authHandler<AuthParams, AuthData>(async ({ authorization, projectId }) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization ?? "");
+  if (!match) {
+    throw APIError.unauthenticated("Missing bearer token");
+  }
+  const token = match[1];
+  return token.startsWith(API_KEY_PREFIX)
+    ? authenticateApiKey(token, projectId)
+    : authenticateSession(token, projectId);
+});
+
+export const gateway = new Gateway({ authHandler: auth });
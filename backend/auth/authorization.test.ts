@@ -0,0 +1,74 @@
+import { HandlerResponse, MiddlewareRequest } from "encore.dev/api";
+import { afterEach, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import type { AuthData } from "./auth";
+import { isGranted, requireScopes } from "./authorization";
+
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+const DEVELOPER = signedIn(ALICE, 1, ["developer"], ["tokens:read", "tokens:write", "wallets:*"]);
+
+let handled = 0;
+
+// The runtime attaches the called endpoint's metadata to each request.
+function requestFor(tags: string[]): MiddlewareRequest {
+  return Object.assign(new MiddlewareRequest(), { requestMeta: { type: "api-call", api: { tags } } });
+}
+
+function call(tags: string[]): Promise<HandlerResponse> {
+  return requireScopes(requestFor(tags), async () => {
+    handled++;
+    return new HandlerResponse({});
+  });
+}
+
+function apiKey(owner: AuthData, permissions: string[]): AuthData {
+  return { userID: owner.userID, roles: owner.roles, scopes: owner.scopes, apiKeyId: 7, permissions };
+}
+
+afterEach(() => {
+  setAuthData(null);
+  handled = 0;
+});
+
+describe("isGranted", () => {
+  it("needs the scope in both the owner's roles and the API key", () => {
+    expect(isGranted(DEVELOPER, "wallets:sign")).toBe(true);
+    expect(isGranted(DEVELOPER, "tokens:mint")).toBe(false);
+    expect(isGranted(apiKey(DEVELOPER, ["tokens:read"]), "tokens:read")).toBe(true);
+    expect(isGranted(apiKey(DEVELOPER, ["tokens:read"]), "tokens:write")).toBe(false);
+    expect(isGranted(apiKey(DEVELOPER, ["*"]), "tokens:mint")).toBe(false);
+  });
+});
+
+describe("requireScopes", () => {
+  it("lets endpoints without scope tags through unauthenticated", async () => {
+    await call(["idempotent"]);
+
+    expect(handled).toBe(1);
+  });
+
+  it("requires authentication for scoped endpoints", async () => {
+    await expect(call(["scope:tokens:read"])).rejects.toMatchObject({ code: "unauthenticated" });
+    expect(handled).toBe(0);
+  });
+
+  it("denies with the missing scopes", async () => {
+    setAuthData(DEVELOPER);
+
+    await call(["scope:tokens:read"]);
+    await expect(call(["scope:tokens:write", "scope:tokens:mint"])).rejects.toMatchObject({
+      code: "permission_denied",
+      message: "Missing required scope: tokens:mint",
+      details: { requiredScopes: ["tokens:write", "tokens:mint"], missingScopes: ["tokens:mint"] },
+    });
+    expect(handled).toBe(1);
+  });
+
+  it("limits API keys to their permissions", async () => {
+    setAuthData(apiKey(signedIn(ALICE), ["tokens:read"]));
+
+    await call(["scope:tokens:read"]);
+    await expect(call(["scope:custody:rotate"])).rejects.toMatchObject({ code: "permission_denied" });
+    expect(handled).toBe(1);
+  });
+});
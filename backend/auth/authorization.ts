@@ -0,0 +1,34 @@
+import { APIError, middleware } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import type { AuthData } from "./auth";
+import { hasScope, requiredScopes } from "./scopes";
+
+// Enforces the "scope:..." tags declared on each endpoint. Endpoints without
+// scope tags (cron-only internal endpoints, SIWE login) are left alone.
+
+export function isGranted(auth: AuthData, scope: string): boolean {
+  if (!hasScope(auth.scopes, scope)) return false;
+  // An API key never exceeds its owner, and only carries the scopes it was issued with.
+  return auth.apiKeyId === undefined || hasScope(auth.permissions ?? [], scope);
+}
+
+// Registered on every service after the rate limiter and audit trail; denies with 403 and the missing scopes.
+export const requireScopes = middleware(async (req, next) => {
+  const meta = req.requestMeta;
+  const required = meta?.type === "api-call" ? requiredScopes(meta.api.tags) : [];
+  if (required.length === 0) {
+    return next(req);
+  }
+  const auth = getAuthData();
+  if (!auth) {
+    throw APIError.unauthenticated("Authentication required");
+  }
+  const missing = required.filter((scope) => !isGranted(auth, scope));
+  if (missing.length > 0) {
+    throw APIError.permissionDenied(`Missing required scope: ${missing.join(", ")}`).withDetails({
+      requiredScopes: required,
+      missingScopes: missing,
+    });
+  }
+  return next(req);
+});
@@ -0,0 +1,9 @@
+import { Service } from "encore.dev/service";
+import { auditTrail } from "../audit/trail";
+import { requireScopes } from "./authorization";
+import { idempotency } from "./idempotency";
+import { apiKeyRateLimit } from "./rate_limit";
+
+export default new Service("auth", {
+  middlewares: [apiKeyRateLimit, auditTrail, requireScopes, idempotency],
+});
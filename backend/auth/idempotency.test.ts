@@ -0,0 +1,130 @@
+import { HandlerResponse, MiddlewareRequest } from "encore.dev/api";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { idempotency } from "./idempotency";
+import { purgeIdempotencyKeys } from "./idempotency_purge";
+
+const db = SQLDatabase.named("blockchain");
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+const BOB = signedIn("0x0000000000000000000000000000000000000b0b");
+
+let runs = 0;
+
+interface Call {
+  key?: string;
+  payload?: Record<string, unknown>;
+  endpoint?: string;
+  handler?: () => Promise<unknown>;
+}
+
+// Runs a handler behind the middleware as the given endpoint of the token service.
+async function call({ key, payload = {}, endpoint = "createToken", handler }: Call) {
+  const req = new MiddlewareRequest();
+  const meta = {
+    type: "api-call",
+    api: { service: "token", endpoint, tags: ["idempotent"] },
+    headers: key === undefined ? {} : { "idempotency-key": key },
+    parsedPayload: payload,
+  };
+  const resp = await idempotency(Object.assign(req, { requestMeta: meta }), async () => {
+    runs++;
+    return new HandlerResponse(handler ? await handler() : { id: runs });
+  });
+  return { resp, replayed: req.data.idempotentReplay === true };
+}
+
+beforeEach(() => {
+  setAuthData(ALICE);
+  runs = 0;
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("idempotency", () => {
+  it("runs calls without a key every time", async () => {
+    await call({ payload: { symbol: "A" } });
+    await call({ payload: { symbol: "A" } });
+
+    expect(runs).toBe(2);
+  });
+
+  it("replays the stored response for a retry with the same key", async () => {
+    const first = await call({ key: "k-replay", payload: { symbol: "A", supply: 1 } });
+    const retry = await call({ key: "k-replay", payload: { supply: 1, symbol: "A" } });
+
+    expect(runs).toBe(1);
+    expect(retry.replayed).toBe(true);
+    expect(retry.resp.payload).toEqual(first.resp.payload);
+    expect(retry.resp.header.headers).toEqual({ "Idempotent-Replayed": "true" });
+  });
+
+  it("treats the idempotencyKey field like the header", async () => {
+    await call({ payload: { symbol: "B", idempotencyKey: "k-field" } });
+    const retry = await call({ key: "k-field", payload: { symbol: "B" } });
+
+    expect(runs).toBe(1);
+    expect(retry.replayed).toBe(true);
+  });
+
+  it("rejects a key reused with a different request or endpoint", async () => {
+    await call({ key: "k-conflict", payload: { symbol: "C" } });
+
+    await expect(call({ key: "k-conflict", payload: { symbol: "D" } })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(call({ key: "k-conflict", payload: { symbol: "C" }, endpoint: "mintTokens" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    expect(runs).toBe(1);
+  });
+
+  it("aborts a retry while the first call is still running", async () => {
+    let finish!: () => void;
+    const first = call({ key: "k-running", handler: () => new Promise((resolve) => (finish = () => resolve({ ok: true }))) });
+    while (!finish) await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await expect(call({ key: "k-running" })).rejects.toMatchObject({ code: "aborted" });
+    finish();
+
+    expect((await first).resp.payload).toEqual({ ok: true });
+    expect((await call({ key: "k-running" })).resp.payload).toEqual({ ok: true });
+  });
+
+  it("releases the key when the call fails", async () => {
+    await expect(
+      call({
+        key: "k-failed",
+        handler: async () => {
+          throw new Error("RPC unavailable");
+        },
+      })
+    ).rejects.toThrow("RPC unavailable");
+
+    const retry = await call({ key: "k-failed" });
+
+    expect(retry.replayed).toBe(false);
+    expect(runs).toBe(2);
+  });
+
+  it("keeps keys per user and validates their length", async () => {
+    await call({ key: "k-shared" });
+    setAuthData(BOB);
+    await call({ key: "k-shared" });
+
+    expect(runs).toBe(2);
+    await expect(call({ key: " " })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(call({ key: "x".repeat(256) })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+
+  it("purges expired keys", async () => {
+    await call({ key: "k-expired" });
+    await db.exec`UPDATE idempotency_keys SET expires_at = NOW() - INTERVAL '1 second' WHERE idempotency_key = 'k-expired'`;
+
+    await purgeIdempotencyKeys();
+
+    const left = await db.queryAll`SELECT id FROM idempotency_keys WHERE idempotency_key = 'k-expired'`;
+    expect(left).toEqual([]);
+  });
+});
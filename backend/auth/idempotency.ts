@@ -0,0 +1,153 @@
+import { APIError, HandlerResponse, middleware } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { createHash } from "node:crypto";
+import { getAuthData } from "~encore/auth";
+import { canonicalJson } from "../audit/chain";
+
+// Idempotency keys for endpoints tagged "idempotent". A caller sends an
+// Idempotency-Key header (or an idempotencyKey request field); the first
+// successful response is stored and returned again for retries with the same
+// key within the retention window, without running the handler. Reusing a key
+// with a different request is rejected as an invalid argument (400), and a retry
+// arriving while the first call is still running is aborted (409). Failed calls
+// are not stored, so they can be retried under the same key.
+
+const idempotencyDB = SQLDatabase.named("blockchain");
+
+export const IDEMPOTENT_TAG = "idempotent";
+
+const IDEMPOTENCY_HEADER = "idempotency-key";
+const MAX_KEY_LENGTH = 255;
+
+// How long a stored response is replayed.
+export const IDEMPOTENCY_RETENTION_HOURS = 24;
+// A call still unfinished after this long (e.g. its instance died) no longer holds the key.
+const IN_PROGRESS_TIMEOUT_MINUTES = 5;
+
+// Request types of idempotent endpoints extend this so the key can also be sent in the body.
+export interface IdempotentRequest {
+  idempotencyKey?: string;
+}
+
+interface StoredCall {
+  endpoint: string;
+  requestHash: string;
+  response: unknown;
+  completed: boolean;
+}
+
+// --- Helper Functions ---
+
+function idempotencyKey(headers: Record<string, string | string[]>, payload?: Record<string, any>): string | undefined {
+  const header = headers[IDEMPOTENCY_HEADER];
+  const key = (Array.isArray(header) ? header[0] : header) ?? payload?.idempotencyKey;
+  return typeof key === "string" ? key.trim() : undefined;
+}
+
+// The key itself is left out so the header and field forms of a request match.
+function requestHash(payload?: Record<string, any>): string {
+  const { idempotencyKey: _, ...rest } = payload ?? {};
+  return createHash("sha256").update(canonicalJson(JSON.parse(JSON.stringify(rest)))).digest("hex");
+}
+
+// Claims the key for this call, or returns the call that already holds it.
+async function claimKey(
+  userId: string,
+  projectId: number | null,
+  key: string,
+  endpoint: string,
+  hash: string
+): Promise<StoredCall | null> {
+  await idempotencyDB.exec`
+    DELETE FROM idempotency_keys
+    WHERE user_id = ${userId} AND COALESCE(project_id, 0) = ${projectId ?? 0} AND idempotency_key = ${key}
+      AND (
+        expires_at <= NOW()
+        OR (completed_at IS NULL AND created_at < NOW() - (${IN_PROGRESS_TIMEOUT_MINUTES} * INTERVAL '1 minute'))
+      )
+  `;
+  const claimed = await idempotencyDB.queryRow<{ id: number }>`
+    INSERT INTO idempotency_keys (user_id, project_id, idempotency_key, endpoint, request_hash, expires_at)
+    VALUES (
+      ${userId}, ${projectId}, ${key}, ${endpoint}, ${hash},
+      NOW() + (${IDEMPOTENCY_RETENTION_HOURS} * INTERVAL '1 hour')
+    )
+    ON CONFLICT (user_id, COALESCE(project_id, 0), idempotency_key) DO NOTHING
+    RETURNING id
+  `;
+  if (claimed) {
+    return null;
+  }
+  const existing = await idempotencyDB.queryRow<StoredCall>`
+    SELECT
+      endpoint,
+      request_hash as "requestHash",
+      response,
+      completed_at IS NOT NULL as "completed"
+    FROM idempotency_keys
+    WHERE user_id = ${userId} AND COALESCE(project_id, 0) = ${projectId ?? 0} AND idempotency_key = ${key}
+  `;
+  // Released between the insert and the read; treat it as still in progress.
+  return existing ?? { endpoint, requestHash: hash, response: null, completed: false };
+}
+
+// --- Middleware ---
+
+// Registered on every service after scope checks, so a replay still needs the
+// scopes of the original call.
+export const idempotency = middleware({ target: { tags: [IDEMPOTENT_TAG] } }, async (req, next) => {
+  const meta = req.requestMeta;
+  const auth = getAuthData();
+  if (meta?.type !== "api-call" || !auth) {
+    return next(req);
+  }
+  const key = idempotencyKey(meta.headers, meta.parsedPayload);
+  if (key === undefined) {
+    return next(req);
+  }
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    throw APIError.invalidArgument(`Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const endpoint = `${meta.api.service}.${meta.api.endpoint}`;
+  const hash = requestHash(meta.parsedPayload);
+  const projectId = auth.projectId ?? null;
+  const existing = await claimKey(auth.userID, projectId, key, endpoint, hash);
+
+  if (existing) {
+    if (existing.endpoint !== endpoint || existing.requestHash !== hash) {
+      throw APIError.invalidArgument("Idempotency-Key was already used with a different request");
+    }
+    if (!existing.completed) {
+      throw APIError.aborted("A request with this Idempotency-Key is still in progress");
+    }
+    req.data.idempotentReplay = true;
+    const replay = new HandlerResponse(existing.response);
+    replay.header.set("Idempotent-Replayed", "true");
+    return replay;
+  }
+
+  let resp: HandlerResponse;
+  try {
+    resp = await next(req);
+  } catch (err) {
+    await idempotencyDB.exec`
+      DELETE FROM idempotency_keys
+      WHERE user_id = ${auth.userID} AND COALESCE(project_id, 0) = ${projectId ?? 0}
+        AND idempotency_key = ${key} AND completed_at IS NULL
+    `;
+    throw err;
+  }
+  try {
+    await idempotencyDB.exec`
+      UPDATE idempotency_keys
+      SET response = ${JSON.stringify(resp.payload ?? null)}::jsonb, completed_at = NOW()
+      WHERE user_id = ${auth.userID} AND COALESCE(project_id, 0) = ${projectId ?? 0} AND idempotency_key = ${key}
+    `;
+  } catch (err) {
+    // The call succeeded; the key stays in progress, so retries get 409 until it times out.
+    log.error("idempotent response could not be stored", { endpoint, error: (err as Error).message });
+  }
+  return resp;
+});
@@ -0,0 +1,21 @@
+import { api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+
+const idempotencyDB = SQLDatabase.named("blockchain");
+
+// Drop stored idempotent responses past their retention window (invoked by cron)
+export const purgeIdempotencyKeys = api<void, void>(
+  { expose: false, method: "POST", path: "/auth/idempotency-keys/purge" },
+  async () => {
+    await idempotencyDB.exec`
+      DELETE FROM idempotency_keys WHERE expires_at <= NOW()
+    `;
+  }
+);
+
+const _ = new CronJob("idempotency-key-purge", {
+  title: "Delete expired idempotency keys",
+  every: "1h",
+  endpoint: purgeIdempotencyKeys,
+});
@@ -0,0 +1,67 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HandlerResponse, MiddlewareRequest } from "encore.dev/api";
+import { setAuthData } from "../test/encore/auth";
+import { apiKeyRateLimit } from "./rate_limit";
+
+let handled = 0;
+
+async function call(apiKeyId: number | undefined, rateLimitPerMinute?: number): Promise<HandlerResponse> {
+  setAuthData({ userID: "0x00000000000000000000000000000000000a11ce", roles: [], scopes: [], apiKeyId, rateLimitPerMinute });
+  return apiKeyRateLimit(new MiddlewareRequest(), async () => {
+    handled++;
+    return new HandlerResponse({ ok: true });
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date("2026-10-19T12:00:00Z") });
+  handled = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  setAuthData(null);
+});
+
+describe("apiKeyRateLimit", () => {
+  it("lets a key spend its per-minute budget, then answers 429 with Retry-After", async () => {
+    expect((await call(1, 2)).header.headers).toEqual({ "X-RateLimit-Limit": "2", "X-RateLimit-Remaining": "1" });
+    expect((await call(1, 2)).header.headers["X-RateLimit-Remaining"]).toBe("0");
+
+    const limited = await call(1, 2);
+
+    expect(limited.status).toBe(429);
+    expect(limited.payload).toMatchObject({ code: "resource_exhausted" });
+    expect(limited.header.headers).toEqual({ "Retry-After": "30", "X-RateLimit-Limit": "2", "X-RateLimit-Remaining": "0" });
+    expect(handled).toBe(2);
+  });
+
+  it("refills continuously", async () => {
+    await call(2, 60);
+    for (let i = 0; i < 59; i++) await call(2, 60);
+    expect((await call(2, 60)).header.headers["Retry-After"]).toBe("1");
+
+    vi.advanceTimersByTime(1000);
+
+    expect((await call(2, 60)).status).toBeUndefined();
+  });
+
+  it("keeps a bucket per key and applies a lowered limit at once", async () => {
+    await call(3, 10);
+    await call(3, 10);
+
+    expect((await call(4, 10)).header.headers["X-RateLimit-Remaining"]).toBe("9");
+    expect((await call(3, 1)).header.headers["X-RateLimit-Remaining"]).toBe("0");
+    expect((await call(3, 1)).status).toBe(429);
+  });
+
+  it("does not limit sessions", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await call(undefined)).header.headers).toEqual({});
+    }
+    expect(handled).toBe(5);
+  });
+});
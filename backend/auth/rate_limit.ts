@@ -0,0 +1,82 @@
+import { HandlerResponse, middleware } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+
+// Per-API-key rate limiting: each key gets a token bucket that holds
+// rate_limit_per_minute requests and refills continuously. Buckets live in
+// process memory, so the limit applies per running instance. Sessions are not
+// limited here.
+
+// Buckets unused for this long are dropped; a full refill takes at most a minute.
+const IDLE_BUCKET_MS = 10 * 60_000;
+
+class MinuteBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private perMinute: number) {
+    this.tokens = perMinute;
+  }
+
+  // A changed limit (key updated or rotated) applies from the next request.
+  setLimit(perMinute: number) {
+    this.perMinute = perMinute;
+    this.tokens = Math.min(this.tokens, perMinute);
+  }
+
+  get idleMs(): number {
+    return Date.now() - this.updatedAt;
+  }
+
+  // Takes a token; otherwise returns the seconds until one is available.
+  take(): { ok: true; remaining: number } | { ok: false; retryAfterSeconds: number } {
+    const now = Date.now();
+    this.tokens = Math.min(this.perMinute, this.tokens + ((now - this.updatedAt) / 60_000) * this.perMinute);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return { ok: true, remaining: Math.floor(this.tokens) };
+    }
+    return { ok: false, retryAfterSeconds: Math.ceil(((1 - this.tokens) * 60) / this.perMinute) };
+  }
+}
+
+const buckets = new Map<number, MinuteBucket>();
+
+function bucketFor(apiKeyId: number, perMinute: number): MinuteBucket {
+  let bucket = buckets.get(apiKeyId);
+  if (!bucket) {
+    for (const [id, idle] of buckets) {
+      if (idle.idleMs > IDLE_BUCKET_MS) buckets.delete(id);
+    }
+    bucket = new MinuteBucket(perMinute);
+    buckets.set(apiKeyId, bucket);
+  } else {
+    bucket.setLimit(perMinute);
+  }
+  return bucket;
+}
+
+// Registered on every service; rejects over-limit API key calls with 429 and Retry-After.
+export const apiKeyRateLimit = middleware({ target: { auth: true } }, async (req, next) => {
+  const auth = getAuthData();
+  if (auth?.apiKeyId === undefined || !auth.rateLimitPerMinute) {
+    return next(req);
+  }
+  const result = bucketFor(auth.apiKeyId, auth.rateLimitPerMinute).take();
+  if (!result.ok) {
+    const resp = new HandlerResponse({
+      code: "resource_exhausted",
+      message: `API key rate limit of ${auth.rateLimitPerMinute} requests per minute exceeded`,
+      details: null,
+    });
+    resp.status = 429;
+    resp.header.set("Retry-After", String(result.retryAfterSeconds));
+    resp.header.set("X-RateLimit-Limit", String(auth.rateLimitPerMinute));
+    resp.header.set("X-RateLimit-Remaining", "0");
+    return resp;
+  }
+  const resp = await next(req);
+  resp.header.set("X-RateLimit-Limit", String(auth.rateLimitPerMinute));
+  resp.header.set("X-RateLimit-Remaining", String(result.remaining));
+  return resp;
+});
@@ -0,0 +1,58 @@
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { loadRoles } from "./auth";
+import { getMyPermissions, listRoles, setUserRoles } from "./roles";
+import { hasScope } from "./scopes";
+
+const ADMIN = signedIn("0x000000000000000000000000000000000000ad61");
+const BOB = "0x0000000000000000000000000000000000000b0b";
+
+beforeEach(() => {
+  setAuthData(ADMIN);
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("roles", () => {
+  it("seeds the built-in roles with developer as the default", async () => {
+    const { roles } = await listRoles();
+
+    expect(roles.map((role) => [role.name, role.isDefault])).toEqual([
+      ["admin", false],
+      ["developer", true],
+      ["operator", false],
+      ["viewer", false],
+    ]);
+    expect((await loadRoles(BOB)).roles).toEqual(["developer"]);
+  });
+
+  it("replaces a user's roles and falls back to the default when cleared", async () => {
+    const assigned = await setUserRoles({ userId: BOB, roles: ["viewer", "operator", "viewer"] });
+
+    expect(assigned.roles).toEqual(["operator", "viewer"]);
+    expect(assigned.scopes).toContain("tokens:mint");
+    expect(assigned.scopes).toContain("audit:read");
+    expect(hasScope(assigned.scopes, "audit:verify")).toBe(false);
+    expect((await loadRoles(BOB)).scopes).toEqual(assigned.scopes);
+
+    expect((await setUserRoles({ userId: BOB, roles: [] })).roles).toEqual(["developer"]);
+  });
+
+  it("rejects unknown roles", async () => {
+    await expect(setUserRoles({ userId: BOB, roles: ["owner"] })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "Unknown roles: owner",
+    });
+  });
+
+  it("reports the caller's scopes and an API key's permissions", async () => {
+    expect(await getMyPermissions()).toEqual({ userId: ADMIN.userID, roles: ["admin"], scopes: ["*"] });
+
+    setAuthData({ ...ADMIN, address: undefined, sessionId: undefined, apiKeyId: 3, permissions: ["tokens:read"] });
+    expect(await getMyPermissions()).toMatchObject({ apiKeyPermissions: ["tokens:read"] });
+  });
+});
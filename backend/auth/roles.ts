@@ -0,0 +1,123 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { z } from "zod";
+import { loadRoles } from "./auth";
+import { auditChange, auditTarget } from "../audit/trail";
+
+// Role assignments. Roles are seeded by migration; users without an assignment
+// get the default roles.
+
+const authDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const ROLES_PATH = "/auth/roles";
+const PERMISSIONS_PATH = "/auth/permissions";
+const USER_ROLES_PATH = "/auth/users/:userId/roles";
+
+// --- Type Definitions ---
+
+export interface Role {
+  name: string;
+  description: string;
+  scopes: string[];
+  isDefault: boolean;
+}
+
+export interface ListRolesResponse {
+  roles: Role[];
+}
+
+export interface PermissionsResponse {
+  userId: string;
+  roles: string[];
+  scopes: string[];
+  // Set when calling with an API key: the scopes the key was issued with.
+  apiKeyPermissions?: string[];
+}
+
+const SetUserRolesSchema = z.object({
+  userId: z.string().min(1).max(255),
+  roles: z.array(z.string().min(1).max(64)).max(20),
+});
+
+export type SetUserRolesRequest = z.infer<typeof SetUserRolesSchema>;
+
+export interface UserRolesResponse {
+  userId: string;
+  roles: string[];
+  scopes: string[];
+}
+
+// --- API Endpoints ---
+
+// List roles and the scopes they grant
+export const listRoles = api<void, ListRolesResponse>(
+  { expose: true, auth: true, method: "GET", path: ROLES_PATH, tags: ["scope:roles:read"] },
+  async () => {
+    const roles = await authDB.queryAll<Role>`
+      SELECT name, description, scopes, is_default as "isDefault"
+      FROM roles
+      ORDER BY name
+    `;
+    return { roles };
+  }
+);
+
+// Get the caller's roles and scopes
+export const getMyPermissions = api<void, PermissionsResponse>(
+  { expose: true, auth: true, method: "GET", path: PERMISSIONS_PATH },
+  async () => {
+    const auth = getAuthData()!;
+    return {
+      userId: auth.userID,
+      roles: auth.roles,
+      scopes: auth.scopes,
+      apiKeyPermissions: auth.apiKeyId === undefined ? undefined : auth.permissions,
+    };
+  }
+);
+
+// Replace a user's role assignments; an empty list falls back to the default roles
+export const setUserRoles = api<SetUserRolesRequest, UserRolesResponse>(
+  { expose: true, auth: true, method: "PUT", path: USER_ROLES_PATH, tags: ["scope:roles:write", "audit:roles.assign"] },
+  async (req) => {
+    const parsed = SetUserRolesSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const { userId } = parsed.data;
+    const roles = [...new Set(parsed.data.roles)];
+    auditTarget("user", userId);
+
+    const known = await authDB.queryAll<{ name: string }>`
+      SELECT name FROM roles WHERE name = ANY(${roles})
+    `;
+    const unknown = roles.filter((role) => !known.some((row) => row.name === role));
+    if (unknown.length > 0) {
+      throw APIError.invalidArgument(`Unknown roles: ${unknown.join(", ")}`);
+    }
+
+    const grantedBy = getAuthData()!.userID;
+    const before = await loadRoles(userId);
+    const tx = await authDB.begin();
+    try {
+      await tx.exec`DELETE FROM user_roles WHERE user_id = ${userId}`;
+      for (const role of roles) {
+        await tx.exec`
+          INSERT INTO user_roles (user_id, role, granted_by)
+          VALUES (${userId}, ${role}, ${grantedBy})
+        `;
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    log.info("user roles set", { userId, roles, grantedBy });
+    const after = await loadRoles(userId);
+    auditChange({ roles: before.roles }, { roles: after.roles });
+    return { userId, ...after };
+  }
+);
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { hasScope, isValidScope, requiredScopes } from "./scopes";
+
+describe("scopes", () => {
+  it.each([
+    ["tokens:mint", true],
+    ["tokens:*", true],
+    ["*", true],
+    ["token:mint", false],
+    ["tokens:print", false],
+    ["nothing:*", false],
+  ])("isValidScope(%s) is %s", (scope, valid) => {
+    expect(isValidScope(scope)).toBe(valid);
+  });
+
+  it("matches exact scopes and wildcards", () => {
+    expect(hasScope(["tokens:read"], "tokens:read")).toBe(true);
+    expect(hasScope(["tokens:read"], "tokens:mint")).toBe(false);
+    expect(hasScope(["tokens:*"], "tokens:mint")).toBe(true);
+    expect(hasScope(["tokens:*"], "nfts:read")).toBe(false);
+    expect(hasScope(["*"], "custody:rotate")).toBe(true);
+    expect(hasScope([], "tokens:read")).toBe(false);
+  });
+
+  it("reads scope tags", () => {
+    expect(requiredScopes(["idempotent", "scope:tokens:mint", "scope:tokens:write"])).toEqual(["tokens:mint", "tokens:write"]);
+  });
+});
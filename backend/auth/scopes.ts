@@ -0,0 +1,62 @@
+// Scopes are "<resource>:<action>" strings granted through roles and limited
+// per API key. Endpoints declare what they need with tags such as
+// `tags: ["scope:tokens:mint"]` on their api(...) definition; the middleware in
+// authorization.ts enforces every scope tag on the endpoint.
+
+export const SCOPE_TAG_PREFIX = "scope:";
+
+export const SCOPES = [
+  "networks:read",
+  "networks:write",
+  "contracts:read",
+  "contracts:write",
+  "contracts:delete",
+  "tokens:read",
+  "tokens:write",
+  "tokens:mint",
+  "tokens:burn",
+  "tokens:transfer",
+  "nfts:read",
+  "nfts:write",
+  "nfts:trade",
+  "transactions:read",
+  "transactions:write",
+  "events:read",
+  "events:write",
+  "analytics:read",
+  "wallets:read",
+  "wallets:write",
+  "wallets:sign",
+  "wallets:export",
+  "custody:read",
+  "custody:rotate",
+  "roles:read",
+  "roles:write",
+  "organizations:read",
+  "organizations:write",
+  "audit:read",
+  // Verifies the audit chain across all projects; of the seeded roles only admin holds it.
+  "audit:verify",
+] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+const RESOURCES = new Set(SCOPES.map((scope) => scope.split(":")[0]));
+
+// True for a known scope, "*", or "<resource>:*" for a known resource.
+export function isValidScope(scope: string): boolean {
+  if (scope === "*") return true;
+  const [resource, action] = scope.split(":");
+  if (action === "*") return RESOURCES.has(resource);
+  return (SCOPES as readonly string[]).includes(scope);
+}
+
+// Whether the granted scopes (wildcards included) cover the required one.
+export function hasScope(granted: readonly string[], required: string): boolean {
+  const resource = required.split(":")[0];
+  return granted.some((scope) => scope === "*" || scope === required || scope === `${resource}:*`);
+}
+
+export function requiredScopes(tags: readonly string[]): string[] {
+  return tags.filter((tag) => tag.startsWith(SCOPE_TAG_PREFIX)).map((tag) => tag.slice(SCOPE_TAG_PREFIX.length));
+}
@@ -0,0 +1,87 @@
+import { HDNodeWallet, Wallet as Signer } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { setAuthData } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { auth } from "./auth";
+import { getNonce, getSession, logout, verifySiwe } from "./sessions";
+
+const user = Signer.createRandom();
+
+function siweMessage(nonce: string, fields: { domain?: string; uri?: string; address?: string } = {}): string {
+  const domain = fields.domain ?? "localhost:5173";
+  return [
+    `${domain} wants you to sign in with your Ethereum account:`,
+    fields.address ?? user.address,
+    "",
+    "Sign in to the console",
+    "",
+    `URI: ${fields.uri ?? `http://${domain}`}`,
+    "Version: 1",
+    "Chain ID: 1",
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ].join("\n");
+}
+
+async function signIn(message: string, signer: Signer | HDNodeWallet = user) {
+  return verifySiwe({ message, signature: await signer.signMessage(message) });
+}
+
+beforeAll(() => {
+  vi.stubEnv("SiweDomains", "localhost:5173, app.example.com");
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+describe("SIWE sessions", () => {
+  it("trades a signed message for a bearer token the auth handler accepts", async () => {
+    const { nonce } = await getNonce();
+
+    const login = await signIn(siweMessage(nonce));
+
+    expect(login).toMatchObject({ userId: user.address, address: user.address, chainId: 1 });
+    const authData = await auth({ authorization: `Bearer ${login.token}` });
+    expect(authData).toMatchObject({ userID: user.address, address: user.address });
+
+    setAuthData(authData);
+    expect(await getSession()).toMatchObject({ userId: user.address, chainId: 1 });
+    await logout();
+    await expect(auth({ authorization: `Bearer ${login.token}` })).rejects.toMatchObject({ code: "unauthenticated" });
+  });
+
+  it("accepts each nonce once", async () => {
+    const { nonce } = await getNonce();
+    await signIn(siweMessage(nonce));
+
+    await expect(signIn(siweMessage(nonce))).rejects.toMatchObject({ code: "unauthenticated" });
+    await expect(signIn(siweMessage("unissued1"))).rejects.toMatchObject({ code: "unauthenticated" });
+  });
+
+  it("does not burn the nonce on a bad signature", async () => {
+    const { nonce } = await getNonce();
+
+    await expect(signIn(siweMessage(nonce), Signer.createRandom())).rejects.toMatchObject({ code: "unauthenticated" });
+    await expect(signIn(siweMessage(nonce))).resolves.toMatchObject({ address: user.address });
+  });
+
+  it("only accepts the configured domains", async () => {
+    const { nonce } = await getNonce();
+
+    await expect(signIn(siweMessage(nonce, { domain: "evil.example.com" }))).rejects.toMatchObject({ code: "unauthenticated" });
+    await expect(signIn(siweMessage(nonce, { domain: "app.example.com", uri: "https://evil.example.com" }))).rejects.toMatchObject({
+      code: "unauthenticated",
+    });
+    await expect(signIn(siweMessage(nonce, { address: user.address.toLowerCase() }))).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+  });
+
+  it("rejects missing and unknown bearer tokens", async () => {
+    await expect(auth({ authorization: "" })).rejects.toMatchObject({ code: "unauthenticated" });
+    await expect(auth({ authorization: "Bearer nope" })).rejects.toMatchObject({ code: "unauthenticated" });
+  });
+});
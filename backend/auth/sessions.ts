@@ -0,0 +1,198 @@
+import { APIError, api } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { randomBytes } from "node:crypto";
+import { verifyMessage } from "ethers";
+import { z } from "zod";
+import { hashToken } from "./auth";
+import { SiweError, SiweMessage, checkSiweTimes, parseSiweMessage } from "./siwe";
+import { provisionPersonalProject } from "./tenancy";
+
+// Sign-In with Ethereum: the client fetches a nonce, has the user sign an
+// EIP-4361 message with their wallet, and trades the signature for a session
+// token. The session's user is the checksummed address that signed in.
+
+const authDB = SQLDatabase.named("blockchain");
+
+// Comma-separated hosts (with port when not the default) SIWE messages may name as their domain.
+const siweDomains = secret("SiweDomains");
+
+// Endpoint path constants
+const NONCE_PATH = "/auth/siwe/nonce";
+const VERIFY_PATH = "/auth/siwe/verify";
+const SESSION_PATH = "/auth/session";
+const LOGOUT_PATH = "/auth/logout";
+
+const NONCE_TTL_MS = 10 * 60_000;
+const SESSION_TTL_MS = 24 * 60 * 60_000;
+// Tolerated clock difference between the signing client and the server.
+const CLOCK_SKEW_MS = 60_000;
+
+// --- Type Definitions ---
+
+export interface NonceResponse {
+  nonce: string;
+  expiresAt: Date;
+}
+
+const VerifySiweSchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Signature must be 65 bytes of hex"),
+});
+
+export type VerifySiweRequest = z.infer<typeof VerifySiweSchema>;
+
+export interface SessionResponse {
+  userId: string;
+  address: string;
+  chainId: number;
+  expiresAt: Date;
+}
+
+export interface LoginResponse extends SessionResponse {
+  // Bearer token for the Authorization header; only returned here.
+  token: string;
+}
+
+// --- Helper Functions ---
+
+// The caller's SIWE session id; API keys have no session.
+function callerSessionId(): number {
+  const { sessionId } = getAuthData()!;
+  if (sessionId === undefined) {
+    throw APIError.invalidArgument("Only available to signed-in sessions, not API keys");
+  }
+  return sessionId;
+}
+
+function allowedDomains(): string[] {
+  return siweDomains()
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function checkOrigin(message: SiweMessage) {
+  if (!allowedDomains().includes(message.domain.toLowerCase())) {
+    throw APIError.unauthenticated(`SIWE domain ${message.domain} is not accepted by this service`);
+  }
+  if (new URL(message.uri).host.toLowerCase() !== message.domain.toLowerCase()) {
+    throw APIError.unauthenticated("SIWE URI does not belong to the message domain");
+  }
+}
+
+// --- API Endpoints ---
+
+// Issue a single-use nonce for a SIWE message
+export const getNonce = api<void, NonceResponse>(
+  { expose: true, method: "GET", path: NONCE_PATH },
+  async () => {
+    const nonce = randomBytes(16).toString("hex");
+    const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+    await authDB.exec`
+      DELETE FROM auth_nonces WHERE expires_at < NOW() - INTERVAL '1 day'
+    `;
+    await authDB.exec`
+      INSERT INTO auth_nonces (nonce, expires_at) VALUES (${nonce}, ${expiresAt})
+    `;
+    return { nonce, expiresAt };
+  }
+);
+
+// Verify a signed SIWE message and start a session for its address
+export const verifySiwe = api<VerifySiweRequest, LoginResponse>(
+  { expose: true, method: "POST", path: VERIFY_PATH, sensitive: true },
+  async (req) => {
+    const parsed = VerifySiweSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    let message: SiweMessage;
+    try {
+      message = parseSiweMessage(parsed.data.message);
+      checkSiweTimes(message, new Date(), CLOCK_SKEW_MS);
+    } catch (err) {
+      if (err instanceof SiweError) throw APIError.invalidArgument(`Invalid SIWE message: ${err.message}`);
+      throw err;
+    }
+    checkOrigin(message);
+
+    let signer: string;
+    try {
+      signer = verifyMessage(parsed.data.message, parsed.data.signature);
+    } catch {
+      throw APIError.unauthenticated("Signature could not be verified");
+    }
+    if (signer !== message.address) {
+      log.warn("siwe login rejected", { address: message.address, reason: "signer mismatch" });
+      throw APIError.unauthenticated("Signature was not made by the message address");
+    }
+
+    // The nonce is consumed only once the signature checks out, so a bad attempt can't burn it.
+    const nonce = await authDB.queryRow<{ nonce: string }>`
+      UPDATE auth_nonces
+      SET used_at = NOW()
+      WHERE nonce = ${message.nonce} AND used_at IS NULL AND expires_at > NOW()
+      RETURNING nonce
+    `;
+    if (!nonce) {
+      log.warn("siwe login rejected", { address: message.address, reason: "unknown or used nonce" });
+      throw APIError.unauthenticated("Nonce is unknown, expired or already used");
+    }
+
+    await provisionPersonalProject(message.address);
+
+    const token = randomBytes(32).toString("base64url");
+    const sessionEnd = Date.now() + SESSION_TTL_MS;
+    const expiresAt = new Date(Math.min(sessionEnd, message.expirationTime?.getTime() ?? sessionEnd));
+    const session = await authDB.queryRow<{ id: number }>`
+      INSERT INTO auth_sessions (token_hash, user_id, address, chain_id, domain, expires_at)
+      VALUES (
+        ${hashToken(token)},
+        ${message.address},
+        ${message.address},
+        ${message.chainId},
+        ${message.domain},
+        ${expiresAt}
+      )
+      RETURNING id
+    `;
+    log.info("siwe login", { address: message.address, sessionId: session!.id, chainId: message.chainId });
+    return { token, userId: message.address, address: message.address, chainId: message.chainId, expiresAt };
+  }
+);
+
+// Get the caller's session
+export const getSession = api<void, SessionResponse>(
+  { expose: true, auth: true, method: "GET", path: SESSION_PATH },
+  async () => {
+    const sessionId = callerSessionId();
+    const session = await authDB.queryRow<SessionResponse>`
+      SELECT
+        user_id as "userId",
+        address,
+        chain_id::int as "chainId",
+        expires_at as "expiresAt"
+      FROM auth_sessions
+      WHERE id = ${sessionId}
+    `;
+    if (!session) {
+      throw APIError.notFound("Session not found");
+    }
+    return session;
+  }
+);
+
+// End the caller's session
+export const logout = api<void, void>(
+  { expose: true, auth: true, method: "POST", path: LOGOUT_PATH },
+  async () => {
+    const sessionId = callerSessionId();
+    await authDB.exec`
+      UPDATE auth_sessions SET revoked_at = NOW() WHERE id = ${sessionId} AND revoked_at IS NULL
+    `;
+    log.info("siwe logout", { address: getAuthData()!.address, sessionId });
+  }
+);
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { SiweError, checkSiweTimes, parseSiweMessage } from "./siwe";
+
+const ADDRESS = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+function message(overrides: Record<string, string | undefined> = {}): string {
+  const fields: Record<string, string | undefined> = {
+    preamble: "app.example.com wants you to sign in with your Ethereum account:",
+    address: ADDRESS,
+    statement: "Sign in to the console",
+    uri: "https://app.example.com/login",
+    issuedAt: "2026-10-19T12:00:00Z",
+    ...overrides,
+  };
+  return [
+    fields.preamble,
+    fields.address,
+    "",
+    ...(fields.statement === undefined ? [] : [fields.statement]),
+    "",
+    `URI: ${fields.uri}`,
+    "Version: 1",
+    "Chain ID: 1",
+    "Nonce: 32891756abc",
+    `Issued At: ${fields.issuedAt}`,
+    ...(fields.extra ? [fields.extra] : []),
+  ].join("\n");
+}
+
+describe("parseSiweMessage", () => {
+  it("parses the EIP-4361 fields", () => {
+    const parsed = parseSiweMessage(
+      message({ extra: "Expiration Time: 2026-10-20T12:00:00Z\nRequest ID: r-1\nResources:\n- ipfs://bafy\n- https://example.com/a" })
+    );
+
+    expect(parsed).toEqual({
+      domain: "app.example.com",
+      scheme: undefined,
+      address: ADDRESS,
+      statement: "Sign in to the console",
+      uri: "https://app.example.com/login",
+      version: "1",
+      chainId: 1,
+      nonce: "32891756abc",
+      issuedAt: new Date("2026-10-19T12:00:00Z"),
+      expirationTime: new Date("2026-10-20T12:00:00Z"),
+      notBefore: undefined,
+      requestId: "r-1",
+      resources: ["ipfs://bafy", "https://example.com/a"],
+    });
+  });
+
+  it("accepts a scheme before the domain and no statement", () => {
+    const parsed = parseSiweMessage(
+      message({ preamble: "https://app.example.com wants you to sign in with your Ethereum account:", statement: undefined })
+    );
+
+    expect(parsed).toMatchObject({ scheme: "https", domain: "app.example.com", statement: undefined });
+  });
+
+  it.each([
+    ["a lowercase address", { address: ADDRESS.toLowerCase() }, "Address must be EIP-55 checksummed"],
+    ["a relative URI", { uri: "/login" }, "URI must be an absolute URI"],
+    ["a timestamp without zone", { issuedAt: "2026-10-19T12:00:00" }, "Issued At must be an RFC 3339 timestamp"],
+    ["fields out of order", { extra: "Request ID: r-1\nNot Before: 2026-10-19T12:00:00Z" }, "Unexpected line"],
+    ["another preamble", { preamble: "Please sign this" }, "Not a Sign-In with Ethereum message"],
+  ])("rejects %s", (_case, overrides, error) => {
+    expect(() => parseSiweMessage(message(overrides))).toThrow(error);
+  });
+});
+
+describe("checkSiweTimes", () => {
+  const parsed = parseSiweMessage(
+    message({ extra: "Expiration Time: 2026-10-19T13:00:00Z\nNot Before: 2026-10-19T12:30:00Z" })
+  );
+
+  it("enforces the validity window with clock skew", () => {
+    expect(() => checkSiweTimes(parsed, new Date("2026-10-19T12:45:00Z"), 0)).not.toThrow();
+    expect(() => checkSiweTimes(parsed, new Date("2026-10-19T12:29:30Z"), 60_000)).not.toThrow();
+    expect(() => checkSiweTimes(parsed, new Date("2026-10-19T12:20:00Z"), 60_000)).toThrow("Message is not valid yet");
+    expect(() => checkSiweTimes(parsed, new Date("2026-10-19T13:05:00Z"), 60_000)).toThrow(SiweError);
+  });
+});
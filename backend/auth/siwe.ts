@@ -0,0 +1,173 @@
+import { getAddress } from "ethers";
+
+// Parsing and validation of Sign-In with Ethereum messages, following
+// https://eips.ethereum.org/EIPS/eip-4361
+
+export interface SiweMessage {
+  // RFC 3986 authority requesting the signature, e.g. "app.example.com:443".
+  domain: string;
+  scheme?: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  notBefore?: Date;
+  requestId?: string;
+  resources: string[];
+}
+
+export class SiweError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiweError";
+  }
+}
+
+const PREAMBLE_SUFFIX = " wants you to sign in with your Ethereum account:";
+const NONCE_PATTERN = /^[A-Za-z0-9]{8,}$/;
+
+// Optional fields after the nonce, in the order the message must list them.
+const OPTIONAL_FIELDS = ["Issued At", "Expiration Time", "Not Before", "Request ID"] as const;
+
+function parseTimestamp(field: string, value: string): Date {
+  // RFC 3339 date-time: a date, "T", a time and a zone offset.
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new SiweError(`${field} must be an RFC 3339 timestamp`);
+  }
+  return new Date(value);
+}
+
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.split("\n");
+  let line = 0;
+  const next = () => lines[line++];
+  const expectField = (name: string): string => {
+    const value = next();
+    if (value === undefined || !value.startsWith(`${name}: `)) {
+      throw new SiweError(`Expected "${name}:" on line ${line}`);
+    }
+    return value.slice(name.length + 2);
+  };
+
+  const preamble = next();
+  if (!preamble?.endsWith(PREAMBLE_SUFFIX)) {
+    throw new SiweError("Not a Sign-In with Ethereum message");
+  }
+  let domain = preamble.slice(0, -PREAMBLE_SUFFIX.length);
+  let scheme: string | undefined;
+  const schemeEnd = domain.indexOf("://");
+  if (schemeEnd >= 0) {
+    scheme = domain.slice(0, schemeEnd);
+    domain = domain.slice(schemeEnd + 3);
+  }
+  if (!domain || /[\s/]/.test(domain)) {
+    throw new SiweError("Invalid domain");
+  }
+
+  const rawAddress = next() ?? "";
+  let address: string;
+  try {
+    address = getAddress(rawAddress);
+  } catch {
+    throw new SiweError("Invalid address");
+  }
+  // EIP-4361 requires the EIP-55 checksummed form.
+  if (address !== rawAddress) {
+    throw new SiweError("Address must be EIP-55 checksummed");
+  }
+
+  if (next() !== "") {
+    throw new SiweError("Expected an empty line after the address");
+  }
+  let statement: string | undefined;
+  if (lines[line] !== "") {
+    statement = next();
+    if (statement === undefined || statement.startsWith("URI: ")) {
+      throw new SiweError("Expected an empty line before the URI");
+    }
+  }
+  if (next() !== "") {
+    throw new SiweError("Expected an empty line before the URI");
+  }
+
+  const uri = expectField("URI");
+  try {
+    new URL(uri);
+  } catch {
+    throw new SiweError("URI must be an absolute URI");
+  }
+  const version = expectField("Version");
+  if (version !== "1") {
+    throw new SiweError(`Unsupported version ${version}`);
+  }
+  const chainId = Number(expectField("Chain ID"));
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new SiweError("Chain ID must be a positive integer");
+  }
+  const nonce = expectField("Nonce");
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new SiweError("Nonce must be at least 8 alphanumeric characters");
+  }
+
+  const optional: Partial<Record<(typeof OPTIONAL_FIELDS)[number], string>> = {};
+  let position = 0;
+  while (line < lines.length && lines[line] !== "Resources:" && lines[line] !== "") {
+    const [name, ...rest] = lines[line].split(": ");
+    const index = OPTIONAL_FIELDS.indexOf(name as (typeof OPTIONAL_FIELDS)[number]);
+    if (index < position || rest.length === 0) {
+      throw new SiweError(`Unexpected line ${line + 1}: ${lines[line]}`);
+    }
+    optional[OPTIONAL_FIELDS[index]] = rest.join(": ");
+    position = index + 1;
+    line++;
+  }
+  if (!optional["Issued At"]) {
+    throw new SiweError(`Expected "Issued At:" on line ${line + 1}`);
+  }
+
+  const resources: string[] = [];
+  if (lines[line] === "Resources:") {
+    line++;
+    while (line < lines.length && lines[line].startsWith("- ")) {
+      resources.push(lines[line++].slice(2));
+    }
+  }
+  // Tolerate a single trailing newline.
+  if (line < lines.length && !(line === lines.length - 1 && lines[line] === "")) {
+    throw new SiweError(`Unexpected line ${line + 1}: ${lines[line]}`);
+  }
+
+  return {
+    domain,
+    scheme,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt: parseTimestamp("Issued At", optional["Issued At"]),
+    expirationTime: optional["Expiration Time"] ? parseTimestamp("Expiration Time", optional["Expiration Time"]) : undefined,
+    notBefore: optional["Not Before"] ? parseTimestamp("Not Before", optional["Not Before"]) : undefined,
+    requestId: optional["Request ID"],
+    resources,
+  };
+}
+
+// Checks the message's validity window at `now`, allowing `skewMs` of clock drift.
+export function checkSiweTimes(message: SiweMessage, now: Date, skewMs: number): void {
+  const time = now.getTime();
+  if (message.issuedAt.getTime() > time + skewMs) {
+    throw new SiweError("Message is issued in the future");
+  }
+  if (message.expirationTime && message.expirationTime.getTime() <= time - skewMs) {
+    throw new SiweError("Message has expired");
+  }
+  if (message.notBefore && message.notBefore.getTime() > time + skewMs) {
+    throw new SiweError("Message is not valid yet");
+  }
+}
@@ -0,0 +1,123 @@
+import { afterAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { createApiKey } from "./api_keys";
+import { auth, hashToken } from "./auth";
+import { callerProjectId, defaultProjectAccess, organizationScopes, projectAccess, provisionPersonalProject } from "./tenancy";
+
+const db = SQLDatabase.named("blockchain");
+
+function user(n: number): string {
+  return `0x${n.toString(16).padStart(40, "0")}`;
+}
+
+// A live session for the user, as verifySiwe would create it.
+async function sessionFor(userId: string): Promise<string> {
+  const token = `session-${userId}`;
+  await db.exec`
+    INSERT INTO auth_sessions (token_hash, user_id, address, chain_id, domain, expires_at)
+    VALUES (${hashToken(token)}, ${userId}, ${userId}, 1, 'localhost', NOW() + INTERVAL '1 hour')
+  `;
+  return token;
+}
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("provisionPersonalProject", () => {
+  it("gives a new user an organization and project they own, once", async () => {
+    const alice = user(0xa11ce);
+
+    await provisionPersonalProject(alice);
+    await provisionPersonalProject(alice);
+
+    const access = await defaultProjectAccess(alice);
+    expect(access).toMatchObject({ organizationRole: "owner" });
+    const orgs = await db.queryAll<{ slug: string }>`
+      SELECT o.slug FROM organizations o JOIN organization_members m ON m.organization_id = o.id WHERE m.user_id = ${alice}
+    `;
+    expect(orgs).toEqual([{ slug: "personal-00000000000000000000000000000000000a11ce" }]);
+  });
+
+  it("leaves users who already belong to an organization alone", async () => {
+    const bob = user(0xb0b);
+    await db.exec`INSERT INTO organization_members (organization_id, user_id) VALUES (1, ${bob})`;
+
+    await provisionPersonalProject(bob);
+
+    expect(await defaultProjectAccess(bob)).toEqual({ projectId: DEFAULT_PROJECT_ID, organizationId: 1, organizationRole: "member" });
+  });
+});
+
+describe("project selection", () => {
+  it("runs sessions in the first project unless X-Project-Id picks another", async () => {
+    const carol = user(0xca401);
+    await provisionPersonalProject(carol);
+    await db.exec`INSERT INTO organization_members (organization_id, user_id) VALUES (1, ${carol})`;
+    const personal = (await defaultProjectAccess(carol))!.projectId;
+    const token = await sessionFor(carol);
+
+    expect(await auth({ authorization: `Bearer ${token}` })).toMatchObject({ projectId: personal, organizationRole: "owner" });
+    expect(await auth({ authorization: `Bearer ${token}`, projectId: String(DEFAULT_PROJECT_ID) })).toMatchObject({
+      projectId: DEFAULT_PROJECT_ID,
+      organizationRole: "member",
+    });
+  });
+
+  it("limits organization members to read scopes", async () => {
+    const frank = user(0xf4a);
+    await provisionPersonalProject(frank);
+    await db.exec`INSERT INTO organization_members (organization_id, user_id) VALUES (1, ${frank})`;
+    const token = await sessionFor(frank);
+
+    const own = await auth({ authorization: `Bearer ${token}` });
+    const shared = await auth({ authorization: `Bearer ${token}`, projectId: String(DEFAULT_PROJECT_ID) });
+
+    expect(own!.scopes).toContain("contracts:write");
+    expect(shared!.scopes).toContain("contracts:read");
+    expect(shared!.scopes).not.toContain("contracts:write");
+  });
+
+  it("keeps all role scopes for owners and admins", () => {
+    expect(organizationScopes("admin", ["*"])).toEqual(["*"]);
+    expect(organizationScopes("member", ["tokens:*", "networks:write"])).toEqual(["tokens:read"]);
+  });
+
+  it("rejects projects of organizations the user is not in", async () => {
+    const dave = user(0xda4e);
+    await provisionPersonalProject(dave);
+    const token = await sessionFor(dave);
+
+    await expect(auth({ authorization: `Bearer ${token}`, projectId: String(DEFAULT_PROJECT_ID) })).rejects.toMatchObject({
+      code: "permission_denied",
+    });
+    await expect(auth({ authorization: `Bearer ${token}`, projectId: "abc" })).rejects.toMatchObject({
+      code: "permission_denied",
+    });
+    expect(await projectAccess(dave, DEFAULT_PROJECT_ID)).toBeNull();
+  });
+
+  it("binds API keys to the project they were issued in", async () => {
+    const erin = user(0xe41);
+    await provisionPersonalProject(erin);
+    const access = (await defaultProjectAccess(erin))!;
+    setAuthData({ ...signedIn(erin), ...access });
+    const { key } = await createApiKey({ name: "ci" });
+
+    expect(await auth({ authorization: `Bearer ${key}` })).toMatchObject({ projectId: access.projectId });
+    await expect(auth({ authorization: `Bearer ${key}`, projectId: String(DEFAULT_PROJECT_ID) })).rejects.toMatchObject({
+      code: "permission_denied",
+    });
+
+    await db.exec`DELETE FROM organization_members WHERE user_id = ${erin}`;
+    await expect(auth({ authorization: `Bearer ${key}` })).rejects.toMatchObject({ code: "unauthenticated" });
+  });
+
+  it("requires a project for project-scoped calls", () => {
+    setAuthData({ ...signedIn(user(0xf00)), projectId: undefined });
+
+    expect(() => callerProjectId()).toThrow("No project selected");
+  });
+});
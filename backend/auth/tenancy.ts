@@ -0,0 +1,102 @@
+import { APIError } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { SCOPES, hasScope } from "./scopes";
+
+// Tenancy: every request runs in one project. API keys are bound to the project
+// they were issued in; sessions pick one with the X-Project-Id header and fall
+// back to the first project the user can reach. Services read it with
+// callerProjectId() and scope their queries by it.
+
+const authDB = SQLDatabase.named("blockchain");
+
+export type OrganizationRole = "owner" | "admin" | "member";
+
+export interface ProjectAccess {
+  projectId: number;
+  organizationId: number;
+  organizationRole: OrganizationRole;
+}
+
+// Most an organization member can do in the organization's projects: read, and the
+// organization endpoints, which check the membership role themselves.
+const MEMBER_SCOPE_CEILING = [...SCOPES.filter((scope) => scope.endsWith(":read")), "organizations:write"];
+
+// The user's role scopes as limited by their role in the project's organization;
+// owners and admins keep all of them.
+export function organizationScopes(role: OrganizationRole, scopes: string[]): string[] {
+  if (role === "owner" || role === "admin") {
+    return scopes;
+  }
+  return MEMBER_SCOPE_CEILING.filter((scope) => hasScope(scopes, scope));
+}
+
+// The project, when the user is a member of its organization.
+export async function projectAccess(userId: string, projectId: number): Promise<ProjectAccess | null> {
+  const access = await authDB.queryRow<ProjectAccess>`
+    SELECT
+      p.id as "projectId",
+      p.organization_id as "organizationId",
+      m.role as "organizationRole"
+    FROM projects p
+    JOIN organization_members m ON m.organization_id = p.organization_id
+    WHERE p.id = ${projectId} AND m.user_id = ${userId}
+  `;
+  return access ?? null;
+}
+
+// The user's first project by organization membership, or null without any.
+export async function defaultProjectAccess(userId: string): Promise<ProjectAccess | null> {
+  const access = await authDB.queryRow<ProjectAccess>`
+    SELECT
+      p.id as "projectId",
+      p.organization_id as "organizationId",
+      m.role as "organizationRole"
+    FROM organization_members m
+    JOIN projects p ON p.organization_id = m.organization_id
+    WHERE m.user_id = ${userId}
+    ORDER BY m.created_at, p.id
+    LIMIT 1
+  `;
+  return access ?? null;
+}
+
+// Gives a user signing in for the first time an organization and project of their own.
+export async function provisionPersonalProject(userId: string): Promise<void> {
+  const membership = await authDB.queryRow<{ organizationId: number }>`
+    SELECT organization_id as "organizationId" FROM organization_members WHERE user_id = ${userId} LIMIT 1
+  `;
+  if (membership) return;
+
+  const slug = `personal-${userId.toLowerCase().replace(/^0x/, "")}`;
+  const tx = await authDB.begin();
+  try {
+    const org = await tx.queryRow<{ id: number }>`
+      INSERT INTO organizations (name, slug, created_by)
+      VALUES (${"Personal"}, ${slug}, ${userId})
+      ON CONFLICT (slug) DO NOTHING
+      RETURNING id
+    `;
+    if (org) {
+      await tx.exec`
+        INSERT INTO organization_members (organization_id, user_id, role) VALUES (${org.id}, ${userId}, 'owner')
+      `;
+      await tx.exec`
+        INSERT INTO projects (organization_id, name, slug) VALUES (${org.id}, 'Default', 'default')
+      `;
+    }
+    await tx.commit();
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
+
+// The caller's project; fails for callers without one.
+export function callerProjectId(): number {
+  const { projectId } = getAuthData()!;
+  if (projectId === undefined) {
+    throw APIError.failedPrecondition("No project selected; create or join an organization first");
+  }
+  return projectId;
+}
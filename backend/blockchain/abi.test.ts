@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { getContractAbi, lookupSelector } from "./abi";
+import { blockchainDB } from "./db";
+import { createContract, updateContract } from "./smart_contracts";
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+const TRANSFER = {
+  type: "function",
+  name: "transfer",
+  inputs: [{ name: "to", type: "address" }, { name: "amount", type: "uint256" }],
+  outputs: [{ name: "", type: "bool" }],
+  stateMutability: "nonpayable",
+};
+const APPROVE = { ...TRANSFER, name: "approve", inputs: [{ name: "spender", type: "address" }, { name: "amount", type: "uint256" }] };
+
+async function createNetwork(chainId: number): Promise<number> {
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES (${`Chain ${chainId}`}, ${chainId}, ${`http://node-${chainId}`}, 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return network!.id;
+}
+
+function contract(networkId: number, address: string, abi: unknown[]) {
+  return createContract({
+    name: "Token",
+    address,
+    networkId,
+    abi: JSON.stringify(abi),
+    version: "1.0.0",
+    contractType: "ERC20",
+  });
+}
+
+describe("contract ABI index", () => {
+  it("indexes selectors on create and re-indexes on ABI updates", async () => {
+    const networkId = await createNetwork(5001);
+    const { id } = await contract(networkId, "0x00000000000000000000000000000000000000a1", [TRANSFER]);
+
+    const { matches } = await lookupSelector({ selector: "0xA9059CBB" });
+    expect(matches).toEqual([
+      {
+        contractId: id,
+        contractName: "Token",
+        address: "0x00000000000000000000000000000000000000a1",
+        networkId,
+        kind: "function",
+        name: "transfer",
+        signature: "transfer(address,uint256)",
+        selector: "0xa9059cbb",
+      },
+    ]);
+
+    await updateContract({ id, abi: JSON.stringify([APPROVE]) });
+    expect((await lookupSelector({ selector: "0xa9059cbb" })).matches).toEqual([]);
+    expect((await lookupSelector({ selector: "0x095ea7b3" })).matches).toHaveLength(1);
+    expect((await getContractAbi({ id })).functions.map((fn) => fn.name)).toEqual(["approve"]);
+  });
+
+  it("filters lookups by network", async () => {
+    const networkId = await createNetwork(5002);
+    await contract(networkId, "0x00000000000000000000000000000000000000a2", [TRANSFER]);
+
+    const { matches } = await lookupSelector({ selector: "0xa9059cbb", networkId });
+
+    expect(matches.map((match) => match.address)).toEqual(["0x00000000000000000000000000000000000000a2"]);
+  });
+
+  it("rejects invalid ABIs and selectors", async () => {
+    const networkId = await createNetwork(5003);
+
+    await expect(contract(networkId, "0x00000000000000000000000000000000000000a3", [{ type: "function" }])).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(lookupSelector({ selector: "0x1234" })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+
+  it("reports stored ABIs that no longer validate", async () => {
+    const networkId = await createNetwork(5004);
+    const stored = await blockchainDB.queryRow<{ id: number }>`
+      INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+      VALUES ('Legacy', '0x00000000000000000000000000000000000000a4', ${networkId}, 'not json', 'custom', ${DEFAULT_PROJECT_ID})
+      RETURNING id
+    `;
+
+    await expect(getContractAbi({ id: stored!.id })).rejects.toMatchObject({ code: "failed_precondition" });
+    await expect(getContractAbi({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
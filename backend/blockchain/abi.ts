@@ -0,0 +1,121 @@
+import { APIError, api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { contractInProject } from "./projects";
+import { AbiValidationError, ParsedAbi, parseAbi } from "../chain/abi";
+import { effectiveContractAbi } from "../chain/proxy";
+
+// --- Type Definitions ---
+
+export interface ContractAbiResponse extends ParsedAbi {
+  contractId: number;
+  // Set when the contract is a proxy and the ABI is its implementation's.
+  implementationContractId?: number;
+}
+
+export type AbiEntryKind = "function" | "event" | "error";
+
+export interface SelectorMatch {
+  contractId: number;
+  contractName: string;
+  address: string;
+  networkId: number;
+  kind: AbiEntryKind;
+  name: string;
+  signature: string;
+  selector: string;
+}
+
+export interface LookupSelectorRequest {
+  // 4-byte function/error selector or 32-byte event topic0.
+  selector: string;
+  networkId?: number;
+  address?: string;
+}
+
+export interface LookupSelectorResponse {
+  matches: SelectorMatch[];
+}
+
+// --- Helper Functions ---
+
+// Parses an ABI for an API request, turning validation failures into a 400.
+export function parseAbiOrThrow(abi: string): ParsedAbi {
+  try {
+    return parseAbi(abi);
+  } catch (err) {
+    if (err instanceof AbiValidationError) {
+      throw APIError.invalidArgument(err.message);
+    }
+    throw err;
+  }
+}
+
+// --- API Endpoints ---
+
+// Structured functions, events and errors of a contract's ABI
+export const getContractAbi = api<{ id: number }, ContractAbiResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/abi", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const contract = await blockchainDB.queryRow<{
+      abi: string;
+      implementationAbi: string | null;
+      implementationContractId: number | null;
+    }>`
+      SELECT sc.abi, impl.abi as "implementationAbi", impl.id as "implementationContractId"
+      FROM smart_contracts sc
+      LEFT JOIN smart_contracts impl ON impl.id = sc.implementation_contract_id
+      WHERE sc.id = ${id}
+    `;
+    if (!contract) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    // Contracts stored before validation existed may carry an invalid ABI.
+    try {
+      return {
+        contractId: id,
+        implementationContractId: contract.implementationContractId ?? undefined,
+        ...parseAbi(effectiveContractAbi(contract.abi, contract.implementationAbi)),
+      };
+    } catch (err) {
+      if (err instanceof AbiValidationError) {
+        throw APIError.failedPrecondition(`Stored ABI is invalid: ${err.issues.join("; ")}`);
+      }
+      throw err;
+    }
+  }
+);
+
+// Find the contracts whose ABI declares a selector or event topic
+export const lookupSelector = api<LookupSelectorRequest, LookupSelectorResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/abi/selectors/:selector", tags: ["scope:contracts:read"] },
+  async ({ selector, networkId, address }) => {
+    if (!/^0x([0-9a-fA-F]{8}|[0-9a-fA-F]{64})$/.test(selector)) {
+      throw APIError.invalidArgument("Selector must be 4 or 32 bytes of hex");
+    }
+    const matches = await blockchainDB.queryAll<SelectorMatch>`
+      SELECT
+        sc.id as "contractId",
+        sc.name as "contractName",
+        sc.address,
+        sc.network_id as "networkId",
+        e.kind,
+        e.name,
+        e.signature,
+        e.selector
+      FROM contract_abi_entries e
+      -- Proxies answer to the selectors of their implementation
+      JOIN smart_contracts sc ON sc.id = e.contract_id OR sc.implementation_contract_id = e.contract_id
+      WHERE e.selector = ${selector.toLowerCase()}
+        AND sc.project_id = ${callerProjectId()}
+        AND (${networkId ?? null}::bigint IS NULL OR sc.network_id = ${networkId ?? null})
+        AND (${address ?? null}::text IS NULL OR LOWER(sc.address) = LOWER(${address ?? null}))
+      ORDER BY sc.id
+      LIMIT 100
+    `;
+    return { matches };
+  }
+);
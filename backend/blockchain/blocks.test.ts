@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { getBlock, listBlocks, syncBlocks } from "./blocks";
+import { blockchainDB } from "./db";
+
+const chains = new Map<string, FakeChain>();
+
+async function createNetwork(chainId: number, chain: FakeChain): Promise<number> {
+  const rpcUrl = `http://node-${chainId}`;
+  chains.set(rpcUrl, chain);
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES (${`Chain ${chainId}`}, ${chainId}, ${rpcUrl}, 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return network!.id;
+}
+
+async function storedNumbers(id: number): Promise<number[]> {
+  const { blocks } = await listBlocks({ id, limit: 200 });
+  return blocks.map((block) => Number(block.number)).reverse();
+}
+
+beforeEach(() => {
+  setTransportFactory((network) => chains.get(network.rpcUrl)!);
+});
+
+afterEach(() => {
+  resetTransportFactory();
+});
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("block ingestion", () => {
+  it("backfills recent blocks and then follows the head", async () => {
+    const chain = new FakeChain({ chainId: 4001 });
+    chain.mine(30);
+    const id = await createNetwork(4001, chain);
+
+    expect(await syncBlocks({ id })).toEqual({ networkId: id, ingested: 20, headNumber: 30, reorg: undefined });
+    chain.mine(2);
+    expect((await syncBlocks({ id })).ingested).toBe(2);
+
+    expect(await storedNumbers(id)).toEqual(Array.from({ length: 22 }, (_, i) => 11 + i));
+    const head = await getBlock({ id, block: "32" });
+    expect(head).toMatchObject({ number: 32, hash: chain.head.hash, parentHash: chain.head.parentHash });
+    expect(head.blockTimeSeconds).toBeGreaterThan(0);
+    expect(await getBlock({ id, block: chain.head.hash })).toEqual(head);
+  });
+
+  it("replaces abandoned blocks and records the reorg", async () => {
+    const chain = new FakeChain({ chainId: 4002 });
+    chain.mine(10);
+    const id = await createNetwork(4002, chain);
+    await syncBlocks({ id });
+    const oldHead = chain.head.hash;
+
+    chain.reorg(3);
+    chain.mine(1);
+    const result = await syncBlocks({ id });
+
+    expect(result.reorg).toMatchObject({ forkBlockNumber: 8, depth: 3, oldHeadHash: oldHead, newHeadHash: chain.head.hash });
+    expect(result.ingested).toBe(4);
+    const { blocks, reorgs } = await listBlocks({ id });
+    expect(blocks[0].hash).toBe(chain.head.hash);
+    for (const [i, block] of blocks.slice(0, -1).entries()) {
+      expect(block.parentHash).toBe(blocks[i + 1].hash);
+    }
+    expect(reorgs).toHaveLength(1);
+  });
+
+  it("rejects malformed block identifiers and unknown networks", async () => {
+    await expect(getBlock({ id: 1, block: "latest" })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(listBlocks({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+    await expect(syncBlocks({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("reports RPC failures as unavailable", async () => {
+    const chain = new FakeChain({ chainId: 4003 });
+    const id = await createNetwork(4003, chain);
+    // The first attempt and both retries fail.
+    chain.failNext();
+    chain.failNext();
+    chain.failNext();
+
+    await expect(syncBlocks({ id })).rejects.toMatchObject({ code: "unavailable" });
+  });
+});
@@ -0,0 +1,350 @@
+import { APIError, api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { networkInProject } from "./projects";
+import { loadActiveRpcNetworks, loadRpcNetwork, rpcClientFor, RpcNetwork } from "../chain/clients";
+import { Block, RpcClient } from "../chain/rpc";
+
+// --- Type Definitions ---
+
+export interface BlockHeader {
+  id: number;
+  networkId: number;
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: Date;
+  // Wei, as decimal strings; baseFeePerGas is unset before EIP-1559.
+  baseFeePerGas?: string;
+  gasUsed: string;
+  gasLimit?: string;
+  transactionCount: number;
+  // Seconds since the parent block, when the parent is stored.
+  blockTimeSeconds?: number;
+}
+
+export interface BlockReorg {
+  id: number;
+  networkId: number;
+  forkBlockNumber: number;
+  depth: number;
+  oldHeadHash: string;
+  newHeadHash: string;
+  detectedAt: Date;
+}
+
+export interface ListBlocksRequest {
+  id: number;
+  // Only blocks below this number, for paging backwards.
+  before?: number;
+  limit?: number;
+}
+
+export interface ListBlocksResponse {
+  blocks: BlockHeader[];
+  reorgs: BlockReorg[];
+}
+
+export interface SyncBlocksResult {
+  networkId: number;
+  ingested: number;
+  headNumber?: number;
+  reorg?: BlockReorg;
+}
+
+// --- Limits ---
+
+// Blocks fetched when a network has no stored blocks or has fallen too far behind.
+const INITIAL_BACKFILL = 20;
+// Blocks ingested per network per run.
+const MAX_BLOCKS_PER_SYNC = 100;
+// Deepest reorg that is resolved by walking back; deeper ones restart ingestion.
+const MAX_REORG_DEPTH = 64;
+const BLOCK_RETENTION_DAYS = 7;
+
+// Block time comes from the stored parent, so it is unset across gaps in history.
+const BLOCK_SELECT = `
+  SELECT
+    b.id,
+    b.network_id as "networkId",
+    b.number,
+    b.hash,
+    b.parent_hash as "parentHash",
+    b.timestamp,
+    b.base_fee_per_gas::text as "baseFeePerGas",
+    b.gas_used::text as "gasUsed",
+    b.gas_limit::text as "gasLimit",
+    b.transaction_count as "transactionCount",
+    EXTRACT(EPOCH FROM b.timestamp - parent.timestamp)::int as "blockTimeSeconds"
+  FROM blocks b
+  LEFT JOIN blocks parent ON parent.network_id = b.network_id AND parent.number = b.number - 1
+`;
+
+const REORG_FIELDS = `
+  id,
+  network_id as "networkId",
+  fork_block_number as "forkBlockNumber",
+  depth,
+  old_head_hash as "oldHeadHash",
+  new_head_hash as "newHeadHash",
+  detected_at as "detectedAt"
+`;
+
+// --- Helper Functions ---
+
+async function storedHashes(networkId: number, from: number, to: number): Promise<Map<number, string>> {
+  const rows = await blockchainDB.queryAll<{ number: number; hash: string }>`
+    SELECT number, hash FROM blocks
+    WHERE network_id = ${networkId} AND number BETWEEN ${from} AND ${to}
+  `;
+  return new Map(rows.map((row) => [Number(row.number), row.hash]));
+}
+
+async function fetchBlocks(client: RpcClient, from: number, to: number): Promise<Block[]> {
+  const numbers = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  const blocks = await Promise.all(numbers.map((n) => client.getBlock(n)));
+  const missing = numbers.find((_, i) => blocks[i] === null);
+  if (missing !== undefined) {
+    throw new Error(`Block ${missing} not available from RPC`);
+  }
+  return blocks as Block[];
+}
+
+// Walks back from the stored tip until the node and the database agree on a hash,
+// removes the abandoned blocks and records the reorg. Returns the common ancestor,
+// or null when none was found within MAX_REORG_DEPTH.
+async function resolveReorg(
+  network: RpcNetwork,
+  client: RpcClient,
+  tip: { number: number; hash: string },
+  newHead: Block
+): Promise<{ ancestor: number | null; reorg: BlockReorg }> {
+  const lowest = Math.max(tip.number - MAX_REORG_DEPTH, 0);
+  const [canonical, stored] = await Promise.all([
+    fetchBlocks(client, lowest, tip.number),
+    storedHashes(network.id, lowest, tip.number),
+  ]);
+
+  let ancestor: number | null = null;
+  for (let i = canonical.length - 1; i >= 0; i--) {
+    const number = lowest + i;
+    if (stored.get(number) === canonical[i].hash) {
+      ancestor = number;
+      break;
+    }
+  }
+
+  const forkBlockNumber = ancestor === null ? lowest : ancestor + 1;
+  await blockchainDB.exec`
+    DELETE FROM blocks
+    WHERE network_id = ${network.id} AND number >= ${ancestor === null ? 0 : forkBlockNumber}
+  `;
+  const reorg = await blockchainDB.rawQueryRow<BlockReorg>(
+    `
+      INSERT INTO block_reorgs (network_id, fork_block_number, depth, old_head_hash, new_head_hash)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${REORG_FIELDS}
+    `,
+    network.id,
+    forkBlockNumber,
+    tip.number - forkBlockNumber + 1,
+    tip.hash,
+    newHead.hash
+  );
+  return { ancestor, reorg: reorg! };
+}
+
+async function insertBlocks(networkId: number, blocks: Block[]) {
+  for (const block of blocks) {
+    await blockchainDB.exec`
+      INSERT INTO blocks (
+        network_id, number, hash, parent_hash, timestamp,
+        base_fee_per_gas, gas_used, gas_limit, transaction_count
+      )
+      VALUES (
+        ${networkId}, ${Number(block.number)}, ${block.hash}, ${block.parentHash},
+        to_timestamp(${block.timestamp}),
+        ${block.baseFeePerGas?.toString() ?? null}::numeric, ${block.gasUsed.toString()}::numeric,
+        ${block.gasLimit?.toString() ?? null}::numeric, ${block.transactions.length}
+      )
+      ON CONFLICT (network_id, number) DO NOTHING
+    `;
+  }
+}
+
+// Ingests new headers for one network, resolving a reorg first when the next block
+// does not build on the stored tip.
+export async function syncNetworkBlocks(network: RpcNetwork): Promise<SyncBlocksResult> {
+  const client = rpcClientFor(network);
+  const head = await client.getBlock("latest");
+  if (!head) {
+    throw new Error("RPC returned no latest block");
+  }
+  const headNumber = Number(head.number);
+
+  const tip = await blockchainDB.queryRow<{ number: number; hash: string }>`
+    SELECT number, hash FROM blocks
+    WHERE network_id = ${network.id}
+    ORDER BY number DESC
+    LIMIT 1
+  `;
+
+  let reorg: BlockReorg | undefined;
+  let from: number;
+  let parentHash: string | undefined;
+  if (!tip || headNumber - Number(tip.number) > MAX_BLOCKS_PER_SYNC * 10) {
+    // Nothing stored yet, or too far behind to catch up: start near the head and
+    // accept a gap in history.
+    from = Math.max(headNumber - INITIAL_BACKFILL + 1, 0);
+  } else if (Number(tip.number) > headNumber) {
+    // This endpoint trails what was already ingested; wait for it to catch up.
+    return { networkId: network.id, ingested: 0, headNumber };
+  } else {
+    const tipNumber = Number(tip.number);
+    const extendsTip = tipNumber < headNumber
+      ? (await client.getBlock(tipNumber + 1))?.parentHash === tip.hash
+      : head.hash === tip.hash;
+
+    if (extendsTip) {
+      from = tipNumber + 1;
+      parentHash = tip.hash;
+    } else {
+      const resolved = await resolveReorg(network, client, { number: tipNumber, hash: tip.hash }, head);
+      reorg = resolved.reorg;
+      log.warn("chain reorg detected", {
+        networkId: network.id,
+        forkBlockNumber: reorg.forkBlockNumber,
+        depth: reorg.depth,
+      });
+      from = resolved.ancestor === null
+        ? Math.max(headNumber - INITIAL_BACKFILL + 1, 0)
+        : resolved.ancestor + 1;
+    }
+  }
+
+  const to = Math.min(headNumber, from + MAX_BLOCKS_PER_SYNC - 1);
+  if (to < from) {
+    return { networkId: network.id, ingested: 0, headNumber, reorg };
+  }
+
+  const blocks = await fetchBlocks(client, from, to);
+  // Stop at the first break in the chain; the next run resolves it as a reorg.
+  let linked = 0;
+  for (const block of blocks) {
+    if (parentHash !== undefined && block.parentHash !== parentHash) break;
+    parentHash = block.hash;
+    linked++;
+  }
+  await insertBlocks(network.id, blocks.slice(0, linked));
+
+  return { networkId: network.id, ingested: linked, headNumber, reorg };
+}
+
+// --- API Endpoints ---
+
+// Recent block headers for a network, newest first
+export const listBlocks = api<ListBlocksRequest, ListBlocksResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks/:id/blocks", tags: ["scope:networks:read"] },
+  async ({ id, before, limit = 25 }) => {
+    if (!(await networkInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Network not found");
+    }
+
+    const blocks = await blockchainDB.rawQueryAll<BlockHeader>(
+      `
+        ${BLOCK_SELECT}
+        WHERE b.network_id = $1 AND ($2::bigint IS NULL OR b.number < $2)
+        ORDER BY b.number DESC
+        LIMIT $3
+      `,
+      id,
+      before ?? null,
+      Math.min(Math.max(limit, 1), 200)
+    );
+    const reorgs = await blockchainDB.rawQueryAll<BlockReorg>(
+      `
+        SELECT ${REORG_FIELDS}
+        FROM block_reorgs
+        WHERE network_id = $1
+        ORDER BY detected_at DESC
+        LIMIT 10
+      `,
+      id
+    );
+
+    return { blocks, reorgs };
+  }
+);
+
+// A single block header by number or hash
+export const getBlock = api<{ id: number; block: string }, BlockHeader>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks/:id/blocks/:block", tags: ["scope:networks:read"] },
+  async ({ id, block }) => {
+    const byHash = /^0x[0-9a-fA-F]{64}$/.test(block);
+    if (!byHash && !/^\d+$/.test(block)) {
+      throw APIError.invalidArgument("Block must be a number or a 32-byte hash");
+    }
+    if (!(await networkInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Network not found");
+    }
+
+    const header = await blockchainDB.rawQueryRow<BlockHeader>(
+      `
+        ${BLOCK_SELECT}
+        WHERE b.network_id = $1 AND ${byHash ? "LOWER(b.hash) = LOWER($2)" : "b.number = $2::bigint"}
+      `,
+      id,
+      block
+    );
+    if (!header) {
+      throw APIError.notFound("Block not found");
+    }
+    return header;
+  }
+);
+
+// Ingest new blocks for a network immediately
+export const syncBlocks = api<{ id: number }, SyncBlocksResult>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/networks/:id/blocks/sync", tags: ["scope:networks:write"] },
+  async ({ id }) => {
+    const network = (await networkInProject(id, callerProjectId())) ? await loadRpcNetwork(id) : null;
+    if (!network) {
+      throw APIError.notFound("Network not found");
+    }
+    try {
+      return await syncNetworkBlocks(network);
+    } catch (err) {
+      throw APIError.unavailable(`Block sync failed: ${(err as Error).message}`);
+    }
+  }
+);
+
+// Ingest new blocks for every active network and prune old headers (invoked by cron)
+export const syncAllNetworkBlocks = api<void, void>(
+  { expose: false, method: "POST", path: "/blockchain/blocks/sync" },
+  async () => {
+    const networks = await loadActiveRpcNetworks();
+    await Promise.all(
+      networks.map(async (network) => {
+        try {
+          await syncNetworkBlocks(network);
+        } catch (err) {
+          log.warn("block sync failed", { networkId: network.id, error: (err as Error).message });
+        }
+      })
+    );
+
+    await blockchainDB.exec`
+      DELETE FROM blocks
+      WHERE timestamp < NOW() - (${BLOCK_RETENTION_DAYS} * INTERVAL '1 day')
+    `;
+  }
+);
+
+const _ = new CronJob("block-tracker", {
+  title: "Ingest block headers from active networks",
+  every: "1m",
+  endpoint: syncAllNetworkBlocks,
+});
@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { archiveContract, getContractDependencies, restoreContract } from "./contract_archive";
+import { blockchainDB } from "./db";
+import { createContract, deleteContract, getContract, listContracts, updateContract } from "./smart_contracts";
+
+let networkId: number;
+
+async function contract(address: string): Promise<number> {
+  const { id } = await createContract({
+    name: "Collection",
+    address,
+    networkId,
+    abi: "[]",
+    version: "1.0.0",
+    contractType: "ERC721",
+  });
+  return id;
+}
+
+async function token(contractId: number, symbol: string): Promise<number> {
+  const row = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO tokens (contract_id, symbol, name, token_type, project_id)
+    VALUES (${contractId}, ${symbol}, ${symbol}, 'ERC721', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return row!.id;
+}
+
+async function listing(tokenId: number): Promise<number> {
+  const row = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO marketplace_listings (token_id, token_number, seller_address, price, project_id)
+    VALUES (${tokenId}, 1, '0x00000000000000000000000000000000000000f1', 100, ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return row!.id;
+}
+
+beforeAll(async () => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9401', 9401, 'http://node-9401', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("contract archiving", () => {
+  it("refuses to archive a contract with active tokens unless cascading", async () => {
+    const id = await contract("0x00000000000000000000000000000000000000a1");
+    const tokenId = await token(id, "ART");
+    const listingId = await listing(tokenId);
+
+    const report = await getContractDependencies({ id });
+    expect(report).toMatchObject({
+      tokens: [{ id: tokenId, symbol: "ART", activeListings: 1 }],
+      eventCount: 0,
+      transactionCount: 0,
+    });
+    expect(report.blockers).toHaveLength(1);
+    await expect(archiveContract({ id })).rejects.toMatchObject({ code: "failed_precondition" });
+
+    const archived = await archiveContract({ id, cascade: true, archivedBy: "ops" });
+    expect(archived).toMatchObject({ archivedTokenIds: [tokenId], cancelledListings: 1 });
+    const status = await blockchainDB.queryRow<{ status: string }>`
+      SELECT status FROM marketplace_listings WHERE id = ${listingId}
+    `;
+    expect(status!.status).toBe("cancelled");
+  });
+
+  it("hides archived contracts from listings and blocks updates until restored", async () => {
+    const id = await contract("0x00000000000000000000000000000000000000a2");
+    const tokenId = await token(id, "ART");
+    await archiveContract({ id, cascade: true });
+
+    expect((await listContracts({})).contracts.map((c) => c.id)).not.toContain(id);
+    expect((await listContracts({ includeArchived: true })).contracts.map((c) => c.id)).toContain(id);
+    expect((await getContract({ id })).archivedAt).toBeInstanceOf(Date);
+    await expect(updateContract({ id, name: "Renamed" })).rejects.toMatchObject({ code: "failed_precondition" });
+
+    expect(await restoreContract({ id, cascade: true })).toEqual({ contractId: id, restoredTokenIds: [tokenId] });
+    expect((await updateContract({ id, name: "Renamed" })).name).toBe("Renamed");
+    await expect(restoreContract({ id })).rejects.toMatchObject({ code: "failed_precondition" });
+  });
+
+  it("soft-deletes contracts and keeps their address reserved", async () => {
+    const address = "0x00000000000000000000000000000000000000a3";
+    const id = await contract(address);
+
+    await deleteContract({ id });
+
+    await expect(getContract({ id })).rejects.toMatchObject({ code: "not_found" });
+    await expect(getContractDependencies({ id })).rejects.toMatchObject({ code: "not_found" });
+    await expect(contract(address)).rejects.toMatchObject({ code: "already_exists" });
+  });
+});
@@ -0,0 +1,261 @@
+import { APIError, api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+import { contractInProject } from "./projects";
+
+// Archiving and soft deletion of contracts. Records that reference a contract
+// are never removed: tokens can be archived along with it (cascade), while
+// events and transactions stay as history.
+
+// --- Type Definitions ---
+
+export interface TokenDependency {
+  id: number;
+  symbol: string;
+  name: string;
+  tokenType: string;
+  nftCount: number;
+  activeListings: number;
+  archivedAt?: Date;
+}
+
+export interface ProxyDependency {
+  id: number;
+  name: string;
+  address: string;
+}
+
+export interface ContractDependencyReport {
+  contractId: number;
+  archivedAt?: Date;
+  tokens: TokenDependency[];
+  // Proxies that use this contract's ABI as their implementation.
+  proxies: ProxyDependency[];
+  eventCount: number;
+  transactionCount: number;
+  pendingTransactionCount: number;
+  // Why archiving without cascade is refused; empty when it is allowed.
+  blockers: string[];
+}
+
+export interface ArchiveContractRequest {
+  id: number;
+  // Also archive the contract's tokens and cancel their active marketplace listings.
+  cascade?: boolean;
+  archivedBy?: string;
+}
+
+export interface ArchiveContractResponse {
+  contractId: number;
+  archivedAt: Date;
+  archivedTokenIds: number[];
+  cancelledListings: number;
+}
+
+export interface RestoreContractRequest {
+  id: number;
+  // Also restore the tokens archived together with the contract.
+  cascade?: boolean;
+}
+
+export interface RestoreContractResponse {
+  contractId: number;
+  restoredTokenIds: number[];
+}
+
+// --- Helper Functions ---
+
+async function buildDependencyReport(id: number): Promise<ContractDependencyReport> {
+  const contract = await blockchainDB.queryRow<{ address: string; networkId: number; archivedAt: Date | null }>`
+    SELECT address, network_id as "networkId", archived_at as "archivedAt"
+    FROM smart_contracts
+    WHERE id = ${id} AND deleted_at IS NULL
+  `;
+  if (!contract) {
+    throw APIError.notFound("Smart contract not found");
+  }
+
+  const tokens = await blockchainDB.queryAll<TokenDependency>`
+    SELECT
+      t.id,
+      t.symbol,
+      t.name,
+      t.token_type as "tokenType",
+      (SELECT COUNT(*)::int FROM nft_metadata nm WHERE nm.token_id = t.id) as "nftCount",
+      (
+        SELECT COUNT(*)::int FROM marketplace_listings ml
+        WHERE ml.token_id = t.id AND ml.status = 'active'
+      ) as "activeListings",
+      t.archived_at as "archivedAt"
+    FROM tokens t
+    WHERE t.contract_id = ${id}
+    ORDER BY t.id
+  `;
+  const proxies = await blockchainDB.queryAll<ProxyDependency>`
+    SELECT id, name, address
+    FROM smart_contracts
+    WHERE implementation_contract_id = ${id} AND deleted_at IS NULL
+    ORDER BY id
+  `;
+  const events = await blockchainDB.queryRow<{ count: number }>`
+    SELECT COUNT(*)::int as count
+    FROM blockchain_events
+    WHERE network_id = ${contract.networkId} AND LOWER(contract_address) = LOWER(${contract.address})
+  `;
+  const transactions = await blockchainDB.queryRow<{ count: number; pending: number }>`
+    SELECT
+      COUNT(*)::int as count,
+      (COUNT(*) FILTER (WHERE status = 'pending'))::int as pending
+    FROM transactions
+    WHERE network_id = ${contract.networkId}
+      AND (LOWER(to_address) = LOWER(${contract.address}) OR LOWER(contract_address) = LOWER(${contract.address}))
+  `;
+
+  const activeTokens = tokens.filter((token) => !token.archivedAt);
+  const blockers: string[] = [];
+  if (activeTokens.length > 0) {
+    blockers.push(
+      `${activeTokens.length} active token(s) reference this contract (${activeTokens.map((t) => t.symbol).join(", ")}); archive in cascade`
+    );
+  }
+
+  return {
+    contractId: id,
+    archivedAt: contract.archivedAt ?? undefined,
+    tokens,
+    proxies,
+    eventCount: events!.count,
+    transactionCount: transactions!.count,
+    pendingTransactionCount: transactions!.pending,
+    blockers,
+  };
+}
+
+// Archives a contract, and with `cascade` its tokens; `softDelete` also marks it deleted.
+// Refuses while active tokens reference the contract and `cascade` is not set.
+export async function archiveContractRecord(
+  id: number,
+  options: { cascade: boolean; archivedBy: string | null; softDelete: boolean }
+): Promise<ArchiveContractResponse> {
+  const report = await buildDependencyReport(id);
+  if (report.blockers.length > 0 && !options.cascade) {
+    throw APIError.failedPrecondition(`Cannot archive contract ${id}: ${report.blockers.join("; ")}`);
+  }
+
+  const tx = await blockchainDB.begin();
+  try {
+    const contract = await tx.queryRow<{ archivedAt: Date }>`
+      UPDATE smart_contracts
+      SET
+        archived_at = COALESCE(archived_at, NOW()),
+        archived_by = CASE WHEN archived_at IS NULL THEN ${options.archivedBy} ELSE archived_by END,
+        deleted_at = CASE WHEN ${options.softDelete} THEN NOW() ELSE deleted_at END,
+        updated_at = NOW()
+      WHERE id = ${id} AND deleted_at IS NULL
+      RETURNING archived_at as "archivedAt"
+    `;
+    if (!contract) {
+      throw APIError.notFound("Smart contract not found");
+    }
+
+    let archivedTokenIds: number[] = [];
+    let cancelledListings = 0;
+    if (options.cascade) {
+      // Tokens share the contract's archived_at so a cascading restore can find them.
+      const tokens = await tx.queryAll<{ id: number }>`
+        UPDATE tokens t SET archived_at = sc.archived_at
+        FROM smart_contracts sc
+        WHERE sc.id = ${id} AND t.contract_id = sc.id AND t.archived_at IS NULL
+        RETURNING t.id
+      `;
+      archivedTokenIds = tokens.map((token) => token.id);
+      const listings = await tx.queryAll<{ id: number }>`
+        UPDATE marketplace_listings SET status = 'cancelled'
+        WHERE token_id = ANY(${archivedTokenIds}::bigint[]) AND status = 'active'
+        RETURNING id
+      `;
+      cancelledListings = listings.length;
+    }
+    await tx.commit();
+    return { contractId: id, archivedAt: contract.archivedAt, archivedTokenIds, cancelledListings };
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
+
+// --- API Endpoints ---
+
+// Tokens, NFTs, events and transactions that reference a contract
+export const getContractDependencies = api<{ id: number }, ContractDependencyReport>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/dependencies", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    return buildDependencyReport(id);
+  }
+);
+
+// Hide a contract from listings; cascade also archives its tokens
+export const archiveContract = api<ArchiveContractRequest, ArchiveContractResponse>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts/:id/archive", tags: ["scope:contracts:delete", "audit:contract.archive"] },
+  async ({ id, cascade = false, archivedBy }) => {
+    auditTarget("contract", id);
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const archived = await archiveContractRecord(id, { cascade, archivedBy: archivedBy ?? null, softDelete: false });
+    auditChange({ archived: false }, { archived: true, archivedTokenIds: archived.archivedTokenIds });
+    return archived;
+  }
+);
+
+// Bring an archived contract back; cascade also restores the tokens archived with it
+export const restoreContract = api<RestoreContractRequest, RestoreContractResponse>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts/:id/restore", tags: ["scope:contracts:delete", "audit:contract.restore"] },
+  async ({ id, cascade = false }) => {
+    auditTarget("contract", id);
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const tx = await blockchainDB.begin();
+    try {
+      const contract = await tx.queryRow<{ archivedAt: Date | null }>`
+        SELECT archived_at as "archivedAt"
+        FROM smart_contracts
+        WHERE id = ${id} AND deleted_at IS NULL
+        FOR UPDATE
+      `;
+      if (!contract) {
+        throw APIError.notFound("Smart contract not found");
+      }
+      if (!contract.archivedAt) {
+        throw APIError.failedPrecondition("Contract is not archived");
+      }
+
+      let restoredTokenIds: number[] = [];
+      if (cascade) {
+        const tokens = await tx.queryAll<{ id: number }>`
+          UPDATE tokens t SET archived_at = NULL
+          FROM smart_contracts sc
+          WHERE sc.id = ${id} AND t.contract_id = sc.id AND t.archived_at = sc.archived_at
+          RETURNING t.id
+        `;
+        restoredTokenIds = tokens.map((token) => token.id);
+      }
+      await tx.exec`
+        UPDATE smart_contracts
+        SET archived_at = NULL, archived_by = NULL, updated_at = NOW()
+        WHERE id = ${id}
+      `;
+      await tx.commit();
+      auditChange({ archived: true }, { archived: false, restoredTokenIds });
+      return { contractId: id, restoredTokenIds };
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+  }
+);
@@ -0,0 +1,85 @@
+import { Interface } from "ethers";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { callContract } from "./contract_calls";
+import { blockchainDB } from "./db";
+
+const TOKEN = "0x00000000000000000000000000000000000000a1";
+const HOLDER = "0x00000000000000000000000000000000000000b2";
+const ABI = ["function balanceOf(address owner) view returns (uint256)", "function name() view returns (string)"];
+const iface = new Interface(ABI);
+
+const chain = new FakeChain({ chainId: 6001 });
+let contractId: number;
+
+beforeEach(async () => {
+  setTransportFactory(() => chain);
+  if (contractId) return;
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 6001', 6001, 'http://node-6001', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  const contract = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+    VALUES ('Token', ${TOKEN}, ${network!.id}, ${iface.formatJson()}, 'ERC20', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  contractId = contract!.id;
+});
+
+afterEach(() => {
+  resetTransportFactory();
+});
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("callContract", () => {
+  it("encodes the call and decodes the result", async () => {
+    chain.onCall(TOKEN, (data) => {
+      const [owner] = iface.decodeFunctionData("balanceOf", data);
+      return iface.encodeFunctionResult("balanceOf", [owner.toLowerCase() === HOLDER ? BigInt(42) : 0]);
+    });
+
+    const result = await callContract({ id: contractId, function: "balanceOf", args: [HOLDER] });
+
+    expect(result).toMatchObject({
+      contractId,
+      signature: "balanceOf(address)",
+      blockTag: "latest",
+      outputs: [{ name: "", type: "uint256", value: "42" }],
+    });
+  });
+
+  it("maps reverts, undecodable results and bad input to API errors", async () => {
+    chain.onCall(TOKEN, () => {
+      throw new Error("execution reverted");
+    });
+    await expect(callContract({ id: contractId, function: "name" })).rejects.toMatchObject({
+      code: "failed_precondition",
+      message: "Call reverted: execution reverted",
+    });
+
+    chain.onCall(TOKEN, () => "0x");
+    await expect(callContract({ id: contractId, function: "name" })).rejects.toMatchObject({
+      code: "failed_precondition",
+      message: expect.stringMatching(/^Could not decode the result of name\(\)/),
+    });
+
+    await expect(callContract({ id: contractId, function: "symbol" })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(callContract({ id: contractId, function: "name", blockTag: "tomorrow" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(callContract({ id: 9999, function: "name" })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,121 @@
+import { APIError, api } from "encore.dev/api";
+import { FunctionFragment, Interface } from "ethers";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { contractInProject } from "./projects";
+import { getRpcClient } from "../chain/clients";
+import { BlockTag, RpcError } from "../chain/rpc";
+import { effectiveContractAbi } from "../chain/proxy";
+import {
+  AbiCallError,
+  DecodedValue,
+  decodeFunctionResult,
+  describeRevert,
+  encodeFunctionCall,
+  resolveFunction,
+} from "../chain/abi";
+
+// --- Type Definitions ---
+
+export interface CallContractRequest {
+  id: number;
+  // Function name, or full signature for overloaded functions.
+  function: string;
+  args?: any[];
+  // latest, pending, safe, finalized, earliest, or a block number (decimal or hex).
+  blockTag?: string;
+  from?: string;
+}
+
+export interface CallContractResponse {
+  contractId: number;
+  signature: string;
+  blockTag: string;
+  outputs: DecodedValue[];
+  // Undecoded return data.
+  raw: string;
+}
+
+interface CallableContract {
+  id: number;
+  address: string;
+  networkId: number;
+  abi: string;
+  // ABI of the linked implementation when the contract is a proxy.
+  implementationAbi: string | null;
+}
+
+// --- Helper Functions ---
+
+const NAMED_BLOCK_TAGS = ["latest", "pending", "safe", "finalized", "earliest"];
+
+function parseBlockTag(tag: string): BlockTag {
+  if (NAMED_BLOCK_TAGS.includes(tag)) return tag as BlockTag;
+  if (/^0x[0-9a-fA-F]+$/.test(tag) || /^\d+$/.test(tag)) return BigInt(tag);
+  throw APIError.invalidArgument(`Invalid block tag: ${tag}`);
+}
+
+async function loadCallableContract(id: number): Promise<{ contract: CallableContract; iface: Interface }> {
+  const contract = await blockchainDB.queryRow<CallableContract>`
+    SELECT sc.id, sc.address, sc.network_id as "networkId", sc.abi, impl.abi as "implementationAbi"
+    FROM smart_contracts sc
+    LEFT JOIN smart_contracts impl ON impl.id = sc.implementation_contract_id
+    WHERE sc.id = ${id}
+  `;
+  if (!contract) {
+    throw APIError.notFound("Smart contract not found");
+  }
+  try {
+    return { contract, iface: new Interface(effectiveContractAbi(contract.abi, contract.implementationAbi)) };
+  } catch (err) {
+    throw APIError.failedPrecondition(`Stored ABI is invalid: ${(err as Error).message}`);
+  }
+}
+
+// --- API Endpoints ---
+
+// ABI-encode a function call, run it with eth_call and decode the result.
+// State-changing functions are simulated; nothing is sent to the chain.
+export const callContract = api<CallContractRequest, CallContractResponse>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts/:id/call", tags: ["scope:contracts:read"] },
+  async ({ id, function: functionName, args = [], blockTag = "latest", from }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const tag = parseBlockTag(blockTag);
+    const { contract, iface } = await loadCallableContract(id);
+
+    let fn: FunctionFragment;
+    let data: string;
+    try {
+      fn = resolveFunction(iface, functionName);
+      data = encodeFunctionCall(iface, fn, args);
+    } catch (err) {
+      if (err instanceof AbiCallError) {
+        throw APIError.invalidArgument(err.message);
+      }
+      throw err;
+    }
+
+    const client = await getRpcClient(contract.networkId);
+    let raw: string;
+    try {
+      raw = await client.call({ to: contract.address, data, from }, tag);
+    } catch (err) {
+      if (err instanceof RpcError && (err.code === 3 || /revert/i.test(err.message))) {
+        throw APIError.failedPrecondition(`Call reverted: ${describeRevert(iface, typeof err.data === "string" ? err.data : undefined)}`);
+      }
+      throw APIError.unavailable(`RPC call failed: ${(err as Error).message}`);
+    }
+
+    let outputs: DecodedValue[];
+    try {
+      outputs = decodeFunctionResult(iface, fn, raw);
+    } catch (err) {
+      // Typically an address without code, which returns empty data.
+      throw APIError.failedPrecondition(`Could not decode the result of ${fn.format("sighash")}: ${(err as Error).message}`);
+    }
+
+    return { contractId: contract.id, signature: fn.format("sighash"), blockTag, outputs, raw };
+  }
+);
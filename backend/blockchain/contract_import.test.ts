@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { importContracts } from "./contract_import";
+import { blockchainDB } from "./db";
+
+const ABI = [{ type: "function", name: "totalSupply", inputs: [], outputs: [{ name: "", type: "uint256" }], stateMutability: "view" }];
+const TOKEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+const files = [
+  { path: "out/Token.sol/Token.json", content: JSON.stringify({ abi: ABI, bytecode: { object: "0x6080" } }) },
+  { path: "out/IToken.sol/IToken.json", content: JSON.stringify({ abi: ABI, bytecode: { object: "0x" } }) },
+  {
+    path: "ignition/deployments/chain-9001/deployed_addresses.json",
+    content: JSON.stringify({ "TokenModule#Token": TOKEN, "TokenModule#Missing": "0x00000000000000000000000000000000000000a1" }),
+  },
+  { path: "ignition/deployments/chain-9999/deployed_addresses.json", content: JSON.stringify({ "M#Token": TOKEN }) },
+];
+
+let networkId: number;
+
+beforeAll(async () => {
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9001', 9001, 'http://node-9001', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+});
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("importContracts", () => {
+  it("registers deployments with the ABI of their artifact", async () => {
+    const preview = await importContracts({ files, dryRun: true });
+    expect(preview.created).toEqual([{ name: "Token", address: TOKEN, chainId: 9001, networkId, source: "ignition" }]);
+    expect(await blockchainDB.queryAll`SELECT id FROM smart_contracts`).toEqual([]);
+
+    const result = await importContracts({ files, contractType: "ERC20" });
+
+    expect(result.skipped.map((skipped) => skipped.reason)).toEqual([
+      "No ABI; include the Missing artifact",
+      "No network with chain id 9999",
+    ]);
+    expect(result.undeployedArtifacts).toEqual(["IToken"]);
+    const contract = await blockchainDB.queryRow<{ id: number; abi: string; bytecode: string; contractType: string }>`
+      SELECT id, abi, bytecode, contract_type as "contractType" FROM smart_contracts WHERE address = ${TOKEN}
+    `;
+    expect(contract).toMatchObject({ id: result.created[0].contractId, abi: JSON.stringify(ABI), bytecode: "0x6080", contractType: "ERC20" });
+    const selectors = await blockchainDB.queryAll<{ signature: string }>`
+      SELECT signature FROM contract_abi_entries WHERE contract_id = ${contract!.id}
+    `;
+    expect(selectors).toEqual([{ signature: "totalSupply()" }]);
+  });
+
+  it("updates contracts whose artifact changed and skips unchanged ones", async () => {
+    expect((await importContracts({ files })).skipped.map((skipped) => skipped.reason)).toContain("Unchanged");
+
+    const newAbi = [...ABI, { ...ABI[0], name: "decimals" }];
+    const changed = [{ path: "out/Token.sol/Token.json", content: JSON.stringify({ abi: newAbi, bytecode: { object: "0x6080" } }) }, files[2]];
+    const result = await importContracts({ files: changed });
+
+    expect(result.updated).toEqual([expect.objectContaining({ name: "Token", changes: ["abi"] })]);
+  });
+
+  it("rejects an empty upload", async () => {
+    await expect(importContracts({ files: [] })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+});
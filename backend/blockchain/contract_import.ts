@@ -0,0 +1,256 @@
+import { APIError, api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { AbiValidationError, ParsedAbi, parseAbi } from "../chain/abi";
+import { indexContractAbi } from "../chain/abi_index";
+import { recordContractVersion } from "../chain/contract_versions";
+import { ArtifactDeployment, BuildFile, ContractArtifact, parseBuildFiles } from "../chain/artifacts";
+
+// Registers deployed contracts from Hardhat and Foundry build output (see chain/artifacts.ts).
+
+// --- Type Definitions ---
+
+export interface ImportContractsRequest {
+  files: BuildFile[];
+  // Contract type for newly created contracts; defaults to CUSTOM.
+  contractType?: string;
+  // Report what would change without writing anything.
+  dryRun?: boolean;
+  // Recorded in the version history of updated contracts.
+  importedBy?: string;
+}
+
+export interface ImportedContract {
+  name: string;
+  address: string;
+  chainId: number;
+  networkId: number;
+  contractId?: number;
+  source: ArtifactDeployment["source"];
+  // Fields that changed, for updated contracts.
+  changes?: string[];
+}
+
+export interface SkippedContractImport {
+  path: string;
+  name?: string;
+  reason: string;
+}
+
+export interface ImportContractsResponse {
+  dryRun: boolean;
+  created: ImportedContract[];
+  updated: ImportedContract[];
+  skipped: SkippedContractImport[];
+  // Artifacts that matched no deployment and were only used as an ABI source, if at all.
+  undeployedArtifacts: string[];
+}
+
+interface ExistingContract {
+  id: number;
+  name: string;
+  address: string;
+  networkId: number;
+  abi: string;
+  bytecode: string | null;
+  archived: boolean;
+}
+
+interface ContractWrite {
+  imported: ImportedContract;
+  existing?: ExistingContract;
+  abiJson: string;
+  abi: ParsedAbi;
+  bytecode: string | null;
+  deployer: string | null;
+}
+
+const MAX_IMPORT_FILES = 2000;
+
+// --- Helper Functions ---
+
+function contractKey(networkId: number, address: string): string {
+  return `${networkId}:${address.toLowerCase()}`;
+}
+
+// The first artifact with code wins, so interfaces sharing a name don't shadow the implementation.
+function indexArtifacts(artifacts: ContractArtifact[]): Map<string, ContractArtifact> {
+  const byName = new Map<string, ContractArtifact>();
+  for (const artifact of artifacts) {
+    const current = byName.get(artifact.name);
+    if (!current || (!current.bytecode && artifact.bytecode)) {
+      byName.set(artifact.name, artifact);
+    }
+  }
+  return byName;
+}
+
+// Stored ABIs may be pretty-printed; compare them in compact form.
+function compactJson(json: string): string {
+  try {
+    return JSON.stringify(JSON.parse(json));
+  } catch {
+    return json;
+  }
+}
+
+function changedFields(existing: ExistingContract, name: string, abiJson: string, bytecode: string | null): string[] {
+  const changes: string[] = [];
+  if (existing.name !== name) changes.push("name");
+  if (compactJson(existing.abi) !== abiJson) changes.push("abi");
+  if (bytecode && existing.bytecode !== bytecode) changes.push("bytecode");
+  return changes;
+}
+
+// --- API Endpoints ---
+
+// Create or update contracts from Hardhat/Foundry artifacts and deployment records
+export const importContracts = api<ImportContractsRequest, ImportContractsResponse>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/artifacts/import", tags: ["scope:contracts:write"] },
+  async ({ files, contractType = "CUSTOM", dryRun = false, importedBy }) => {
+    if (!Array.isArray(files) || files.length === 0) {
+      throw APIError.invalidArgument("No files to import");
+    }
+    if (files.length > MAX_IMPORT_FILES) {
+      throw APIError.invalidArgument(`At most ${MAX_IMPORT_FILES} files can be imported at once`);
+    }
+
+    const { artifacts, deployments, ignored } = parseBuildFiles(files);
+    const artifactsByName = indexArtifacts(artifacts);
+    const projectId = callerProjectId();
+
+    const networks = await blockchainDB.queryAll<{ id: number; chainId: number }>`
+      SELECT id, chain_id as "chainId" FROM networks WHERE project_id = ${projectId}
+    `;
+    const networkByChainId = new Map(networks.map((network) => [network.chainId, network.id]));
+    const existing = await blockchainDB.queryAll<ExistingContract>`
+      SELECT id, name, address, network_id as "networkId", abi, bytecode, archived_at IS NOT NULL as archived
+      FROM smart_contracts
+      WHERE project_id = ${projectId}
+    `;
+    const existingByKey = new Map(existing.map((contract) => [contractKey(contract.networkId, contract.address), contract]));
+
+    const result: ImportContractsResponse = {
+      dryRun,
+      created: [],
+      updated: [],
+      skipped: ignored.map(({ path, reason }) => ({ path, reason })),
+      undeployedArtifacts: [],
+    };
+    const writes: ContractWrite[] = [];
+    const seen = new Set<string>();
+    const usedArtifacts = new Set<string>();
+
+    for (const deployment of deployments) {
+      const skip = (reason: string) => result.skipped.push({ path: deployment.path, name: deployment.name, reason });
+      if (deployment.chainId === undefined) {
+        skip("Could not determine the chain id (include the deployment folder's .chainId file)");
+        continue;
+      }
+      const networkId = networkByChainId.get(deployment.chainId);
+      if (networkId === undefined) {
+        skip(`No network with chain id ${deployment.chainId}`);
+        continue;
+      }
+      const key = contractKey(networkId, deployment.address);
+      if (seen.has(key)) {
+        skip(`Duplicate deployment of ${deployment.address}`);
+        continue;
+      }
+      seen.add(key);
+
+      const artifact = artifactsByName.get(deployment.name);
+      if (artifact) usedArtifacts.add(artifact.name);
+      const rawAbi = deployment.abi ?? artifact?.abi;
+      if (!rawAbi) {
+        skip(`No ABI; include the ${deployment.name} artifact`);
+        continue;
+      }
+      const abiJson = JSON.stringify(rawAbi);
+      let abi: ParsedAbi;
+      try {
+        abi = parseAbi(abiJson);
+      } catch (err) {
+        if (err instanceof AbiValidationError) {
+          skip(err.message);
+          continue;
+        }
+        throw err;
+      }
+
+      const bytecode = deployment.bytecode ?? artifact?.bytecode ?? null;
+      const imported: ImportedContract = {
+        name: deployment.name,
+        address: deployment.address,
+        chainId: deployment.chainId,
+        networkId,
+        source: deployment.source,
+      };
+      const current = existingByKey.get(key);
+      if (current?.archived) {
+        skip(`Contract #${current.id} at this address is archived`);
+        continue;
+      }
+      if (current) {
+        const changes = changedFields(current, deployment.name, abiJson, bytecode);
+        if (changes.length === 0) {
+          skip("Unchanged");
+          continue;
+        }
+        result.updated.push({ ...imported, contractId: current.id, changes });
+        writes.push({ imported, existing: current, abiJson, abi, bytecode, deployer: deployment.deployer ?? null });
+      } else {
+        result.created.push(imported);
+        writes.push({ imported, abiJson, abi, bytecode, deployer: deployment.deployer ?? null });
+      }
+    }
+
+    result.undeployedArtifacts = [...artifactsByName.keys()].filter((name) => !usedArtifacts.has(name)).sort();
+
+    if (dryRun || writes.length === 0) {
+      return result;
+    }
+
+    const tx = await blockchainDB.begin();
+    const indexed: { contractId: number; abi: ParsedAbi }[] = [];
+    try {
+      for (const write of writes) {
+        const { imported, existing: current } = write;
+        if (current) {
+          await tx.exec`
+            UPDATE smart_contracts SET
+              name = ${imported.name},
+              abi = ${write.abiJson},
+              bytecode = ${write.bytecode ?? current.bytecode},
+              updated_at = NOW()
+            WHERE id = ${current.id}
+          `;
+          await recordContractVersion(tx, current.id, "import", importedBy ?? null);
+          indexed.push({ contractId: current.id, abi: write.abi });
+        } else {
+          const row = await tx.queryRow<{ id: number }>`
+            INSERT INTO smart_contracts (name, address, network_id, abi, bytecode, contract_type, deployed_by, project_id)
+            VALUES (
+              ${imported.name}, ${imported.address}, ${imported.networkId}, ${write.abiJson},
+              ${write.bytecode}, ${contractType}, ${write.deployer}, ${projectId}
+            )
+            RETURNING id
+          `;
+          // `imported` is the object listed in result.created.
+          imported.contractId = row!.id;
+          await recordContractVersion(tx, row!.id, "import", importedBy ?? write.deployer);
+          indexed.push({ contractId: row!.id, abi: write.abi });
+        }
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+
+    for (const { contractId, abi } of indexed) {
+      await indexContractAbi(contractId, abi);
+    }
+    return result;
+  }
+);
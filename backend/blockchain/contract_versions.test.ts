@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { diffContractVersions, getContractVersion, listContractVersions } from "./contract_versions";
+import { blockchainDB } from "./db";
+import { createContract, updateContract } from "./smart_contracts";
+
+const transfer = (amountType: string) => ({
+  type: "function",
+  name: "transfer",
+  inputs: [{ name: "to", type: "address" }, { name: "amount", type: amountType }],
+  outputs: [{ name: "", type: "bool" }],
+  stateMutability: "nonpayable",
+});
+const PAUSE = { type: "function", name: "pause", inputs: [], outputs: [], stateMutability: "nonpayable" };
+
+let networkId: number;
+
+beforeAll(async () => {
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9201', 9201, 'http://node-9201', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+});
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("contract version history", () => {
+  it("snapshots creates and ABI or version changes, and diffs them", async () => {
+    const { id } = await createContract({
+      name: "Token",
+      address: "0x00000000000000000000000000000000000000a1",
+      networkId,
+      abi: JSON.stringify([transfer("uint128"), PAUSE]),
+      version: "1.0.0",
+      contractType: "ERC20",
+      deployedBy: "alice",
+    });
+    // A rename alone does not create a version.
+    await updateContract({ id, name: "Token v1" });
+    await updateContract({ id, abi: JSON.stringify([transfer("uint256")]), version: "2.0.0", changedBy: "bob" });
+
+    const { versions } = await listContractVersions({ id });
+    expect(versions.map(({ versionNumber, version, changedBy, changeSource, changes }) => ({ versionNumber, version, changedBy, changeSource, changes }))).toEqual([
+      { versionNumber: 2, version: "2.0.0", changedBy: "bob", changeSource: "update", changes: { added: 0, removed: 1, changed: 1, breaking: 2 } },
+      { versionNumber: 1, version: "1.0.0", changedBy: "alice", changeSource: "create", changes: undefined },
+    ]);
+    expect((await getContractVersion({ id, versionNumber: 1 })).abi).toBe(JSON.stringify([transfer("uint128"), PAUSE]));
+
+    const { from, to, diff, bytecodeChanged } = await diffContractVersions({ id });
+    expect([from.versionNumber, to.versionNumber, bytecodeChanged]).toEqual([1, 2, false]);
+    expect(diff.functions.removed).toEqual(["pause()"]);
+    expect(diff.functions.changed.map((change) => change.to)).toEqual(["transfer(address,uint256)"]);
+  });
+
+  it("rejects diffs without two distinct versions", async () => {
+    const { id } = await createContract({
+      name: "Single",
+      address: "0x00000000000000000000000000000000000000a2",
+      networkId,
+      abi: JSON.stringify([PAUSE]),
+      version: "1.0.0",
+      contractType: "custom",
+    });
+
+    await expect(diffContractVersions({ id })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(diffContractVersions({ id, from: 1, to: 1 })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(getContractVersion({ id, versionNumber: 5 })).rejects.toMatchObject({ code: "not_found" });
+    await expect(diffContractVersions({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,207 @@
+import { APIError, api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { contractInProject } from "./projects";
+import { AbiValidationError, ParsedAbi, parseAbi } from "../chain/abi";
+import { AbiDiff, diffAbis } from "../chain/abi_diff";
+import { ContractChangeSource } from "../chain/contract_versions";
+
+// Version history of contract ABIs and bytecode; snapshots are written by
+// recordContractVersion wherever smart_contracts is changed.
+
+// --- Type Definitions ---
+
+export interface ContractVersionSummary {
+  id: number;
+  contractId: number;
+  versionNumber: number;
+  version: string;
+  changedBy?: string;
+  changeSource: ContractChangeSource;
+  createdAt: Date;
+}
+
+export interface ContractVersion extends ContractVersionSummary {
+  abi: string;
+  bytecode?: string;
+}
+
+export interface ContractVersionChanges {
+  added: number;
+  removed: number;
+  changed: number;
+  breaking: number;
+}
+
+export interface ContractVersionEntry extends ContractVersionSummary {
+  // Compared with the preceding version; absent for the first version or when an ABI is invalid.
+  changes?: ContractVersionChanges;
+  bytecodeChanged: boolean;
+}
+
+export interface ListContractVersionsResponse {
+  // Newest first.
+  versions: ContractVersionEntry[];
+}
+
+export interface DiffContractVersionsRequest {
+  id: number;
+  // Version numbers; `to` defaults to the latest and `from` to the version before `to`.
+  from?: number;
+  to?: number;
+}
+
+export interface DiffContractVersionsResponse {
+  contractId: number;
+  from: ContractVersionSummary;
+  to: ContractVersionSummary;
+  diff: AbiDiff;
+  bytecodeChanged: boolean;
+}
+
+const VERSION_SUMMARY_FIELDS = `
+  id,
+  contract_id as "contractId",
+  version_number as "versionNumber",
+  version,
+  changed_by as "changedBy",
+  change_source as "changeSource",
+  created_at as "createdAt"
+`;
+
+// --- Helper Functions ---
+
+// Snapshots taken before ABI validation existed may not parse.
+function tryParseAbi(abi: string): ParsedAbi | null {
+  try {
+    return parseAbi(abi);
+  } catch (err) {
+    if (err instanceof AbiValidationError) return null;
+    throw err;
+  }
+}
+
+function countChanges(diff: AbiDiff): ContractVersionChanges {
+  const sections = [diff.functions, diff.events];
+  return {
+    added: sections.reduce((sum, section) => sum + section.added.length, 0),
+    removed: sections.reduce((sum, section) => sum + section.removed.length, 0),
+    changed: sections.reduce((sum, section) => sum + section.changed.length, 0),
+    breaking: diff.breakingChanges.length,
+  };
+}
+
+async function loadVersion(contractId: number, versionNumber: number): Promise<ContractVersion> {
+  const version = await blockchainDB.rawQueryRow<ContractVersion>(
+    `
+      SELECT ${VERSION_SUMMARY_FIELDS}, abi, bytecode
+      FROM contract_versions
+      WHERE contract_id = $1 AND version_number = $2
+    `,
+    contractId,
+    versionNumber
+  );
+  if (!version) {
+    throw APIError.notFound(`Version ${versionNumber} of contract ${contractId} not found`);
+  }
+  return version;
+}
+
+function stripSnapshot({ abi, bytecode, ...summary }: ContractVersion): ContractVersionSummary {
+  return summary;
+}
+
+// --- API Endpoints ---
+
+// Version timeline of a contract with a change summary per version
+export const listContractVersions = api<{ id: number }, ListContractVersionsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/versions", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const rows = await blockchainDB.rawQueryAll<ContractVersion>(
+      `
+        SELECT ${VERSION_SUMMARY_FIELDS}, abi, bytecode
+        FROM contract_versions
+        WHERE contract_id = $1
+        ORDER BY version_number
+      `,
+      id
+    );
+
+    const parsed = new Map<string, ParsedAbi | null>();
+    const parse = (abi: string) => {
+      if (!parsed.has(abi)) parsed.set(abi, tryParseAbi(abi));
+      return parsed.get(abi)!;
+    };
+
+    const versions = rows.map((row, index): ContractVersionEntry => {
+      const previous = index > 0 ? rows[index - 1] : undefined;
+      const entry: ContractVersionEntry = {
+        ...stripSnapshot(row),
+        bytecodeChanged: previous !== undefined && (previous.bytecode ?? null) !== (row.bytecode ?? null),
+      };
+      if (previous) {
+        const from = parse(previous.abi);
+        const to = parse(row.abi);
+        if (from && to) entry.changes = countChanges(diffAbis(from, to));
+      }
+      return entry;
+    });
+    return { versions: versions.reverse() };
+  }
+);
+
+// A single version snapshot with its ABI and bytecode
+export const getContractVersion = api<{ id: number; versionNumber: number }, ContractVersion>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/versions/:versionNumber", tags: ["scope:contracts:read"] },
+  async ({ id, versionNumber }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    return loadVersion(id, versionNumber);
+  }
+);
+
+// Functions and events added, removed or changed between two versions, with breaking changes
+export const diffContractVersions = api<DiffContractVersionsRequest, DiffContractVersionsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/version-diff", tags: ["scope:contracts:read"] },
+  async ({ id, from, to }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    let toNumber = to;
+    if (toNumber === undefined) {
+      const latest = await blockchainDB.queryRow<{ versionNumber: number }>`
+        SELECT MAX(version_number) as "versionNumber" FROM contract_versions WHERE contract_id = ${id}
+      `;
+      if (!latest?.versionNumber) {
+        throw APIError.notFound("Contract has no version history");
+      }
+      toNumber = latest.versionNumber;
+    }
+    const fromNumber = from ?? toNumber - 1;
+    if (fromNumber < 1) {
+      throw APIError.invalidArgument(`Version ${toNumber} has no predecessor to compare with`);
+    }
+    if (fromNumber === toNumber) {
+      throw APIError.invalidArgument("from and to must be different versions");
+    }
+
+    const [older, newer] = await Promise.all([loadVersion(id, fromNumber), loadVersion(id, toNumber)]);
+    const olderAbi = tryParseAbi(older.abi);
+    const newerAbi = tryParseAbi(newer.abi);
+    if (!olderAbi || !newerAbi) {
+      throw APIError.failedPrecondition(`Version ${olderAbi ? toNumber : fromNumber} has an invalid ABI`);
+    }
+
+    return {
+      contractId: id,
+      from: stripSnapshot(older),
+      to: stripSnapshot(newer),
+      diff: diffAbis(olderAbi, newerAbi),
+      bytecodeChanged: (older.bytecode ?? null) !== (newer.bytecode ?? null),
+    };
+  }
+);
@@ -0,0 +1,205 @@
+import { APIError, api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { z } from "zod";
+import { callerProjectId } from "../auth/tenancy";
+import { endpointStates } from "../chain/clients";
+import { networkInProject } from "./projects";
+
+// --- Type Definitions ---
+
+export interface RpcEndpoint {
+  id: number;
+  networkId: number;
+  url: string;
+  role: "read" | "write" | "archive";
+  priority: number;
+  weight: number;
+  rateLimitPerSecond?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  // Runtime state from this process's RPC client, when it has used the endpoint.
+  circuitState?: string;
+  lastError?: string;
+  observedHead?: number;
+}
+
+// --- Validation Schemas ---
+
+const EndpointRoleSchema = z.enum(["read", "write", "archive"]);
+
+const CreateEndpointSchema = z.object({
+  url: z.string().url(),
+  role: EndpointRoleSchema.default("read"),
+  priority: z.number().int().min(0).max(1000).default(0),
+  weight: z.number().int().min(1).max(1000).default(1),
+  rateLimitPerSecond: z.number().int().positive().optional(),
+});
+export type CreateEndpointRequest = z.input<typeof CreateEndpointSchema>;
+
+const UpdateEndpointSchema = z.object({
+  url: z.string().url().optional(),
+  role: EndpointRoleSchema.optional(),
+  priority: z.number().int().min(0).max(1000).optional(),
+  weight: z.number().int().min(1).max(1000).optional(),
+  rateLimitPerSecond: z.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+export type UpdateEndpointRequest = z.input<typeof UpdateEndpointSchema>;
+
+export interface ListEndpointsResponse {
+  endpoints: RpcEndpoint[];
+}
+
+const ENDPOINT_FIELDS = `
+  id,
+  network_id as "networkId",
+  url,
+  role,
+  priority,
+  weight,
+  rate_limit_per_second as "rateLimitPerSecond",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+// --- Helper Functions ---
+
+async function requireNetwork(id: number) {
+  if (!(await networkInProject(id, callerProjectId()))) {
+    throw APIError.notFound("Network not found");
+  }
+}
+
+// --- API Endpoints ---
+
+// List the RPC endpoints configured for a network
+export const listEndpoints = api<{ id: number }, ListEndpointsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks/:id/endpoints", tags: ["scope:networks:read"] },
+  async ({ id }) => {
+    await requireNetwork(id);
+    const endpoints = await blockchainDB.rawQueryAll<RpcEndpoint>(
+      `
+        SELECT ${ENDPOINT_FIELDS}
+        FROM network_rpc_endpoints
+        WHERE network_id = $1
+        ORDER BY priority, id
+      `,
+      id
+    );
+    const states = new Map(endpointStates(id).map((state) => [state.id, state]));
+    return {
+      endpoints: endpoints.map((endpoint) => {
+        const state = states.get(endpoint.id);
+        return {
+          ...endpoint,
+          circuitState: state?.isStale ? "stale" : state?.circuitState,
+          lastError: state?.lastError,
+          observedHead: state?.observedHead,
+        };
+      }),
+    };
+  }
+);
+
+// Add an RPC endpoint to a network
+export const createEndpoint = api<{ id: number } & CreateEndpointRequest, RpcEndpoint>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/networks/:id/endpoints", tags: ["scope:networks:write"] },
+  async ({ id, ...req }) => {
+    const parsed = CreateEndpointSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const input = parsed.data;
+    await requireNetwork(id);
+
+    const existing = await blockchainDB.queryRow<{ id: number }>`
+      SELECT id FROM network_rpc_endpoints WHERE network_id = ${id} AND url = ${input.url}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists("This endpoint is already configured for the network");
+    }
+
+    const endpoint = await blockchainDB.rawQueryRow<RpcEndpoint>(
+      `
+        INSERT INTO network_rpc_endpoints (network_id, url, role, priority, weight, rate_limit_per_second)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${ENDPOINT_FIELDS}
+      `,
+      id,
+      input.url,
+      input.role,
+      input.priority,
+      input.weight,
+      input.rateLimitPerSecond ?? null
+    );
+    return endpoint!;
+  }
+);
+
+// Update an RPC endpoint
+export const updateEndpoint = api<{ id: number; endpointId: number } & UpdateEndpointRequest, RpcEndpoint>(
+  { expose: true, auth: true, method: "PATCH", path: "/blockchain/networks/:id/endpoints/:endpointId", tags: ["scope:networks:write"] },
+  async ({ id, endpointId, ...updates }) => {
+    const parsed = UpdateEndpointSchema.safeParse(updates);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid update input: ${parsed.error.message}`);
+    }
+    const input = parsed.data;
+    await requireNetwork(id);
+
+    const columns: Record<string, unknown> = {
+      url: input.url,
+      role: input.role,
+      priority: input.priority,
+      weight: input.weight,
+      rate_limit_per_second: input.rateLimitPerSecond,
+      is_active: input.isActive,
+    };
+    const setParts: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    for (const [column, value] of Object.entries(columns)) {
+      if (value !== undefined) {
+        setParts.push(`${column} = $${paramIndex++}`);
+        params.push(value);
+      }
+    }
+
+    if (setParts.length === 0) {
+      throw APIError.invalidArgument("No fields to update");
+    }
+
+    const query = `
+      UPDATE network_rpc_endpoints
+      SET ${setParts.join(', ')}, updated_at = NOW()
+      WHERE id = $${paramIndex} AND network_id = $${paramIndex + 1}
+      RETURNING ${ENDPOINT_FIELDS}
+    `;
+    params.push(endpointId, id);
+
+    const endpoint = await blockchainDB.rawQueryRow<RpcEndpoint>(query, ...params);
+    if (!endpoint) {
+      throw APIError.notFound("RPC endpoint not found");
+    }
+    return endpoint;
+  }
+);
+
+// Remove an RPC endpoint from a network
+export const deleteEndpoint = api<{ id: number; endpointId: number }, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/blockchain/networks/:id/endpoints/:endpointId", tags: ["scope:networks:write"] },
+  async ({ id, endpointId }) => {
+    await requireNetwork(id);
+    const deleted = await blockchainDB.queryRow<{ id: number }>`
+      DELETE FROM network_rpc_endpoints
+      WHERE id = ${endpointId} AND network_id = ${id}
+      RETURNING id
+    `;
+    if (!deleted) {
+      throw APIError.notFound("RPC endpoint not found");
+    }
+  }
+);
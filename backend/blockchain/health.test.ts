@@ -0,0 +1,111 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { blockchainDB } from "./db";
+import { checkAllNetworksHealth, checkNetworkHealth, getNetworkHealth } from "./health";
+
+// Each network's rpc_url is answered by its own fake chain.
+const chains = new Map<string, FakeChain>();
+
+async function createNetwork(chainId: number, chain: FakeChain, isActive = true): Promise<number> {
+  const rpcUrl = `http://node-${chainId}`;
+  chains.set(rpcUrl, chain);
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, is_active, project_id)
+    VALUES (${`Chain ${chainId}`}, ${chainId}, ${rpcUrl}, 'ETH', ${isActive}, ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return network!.id;
+}
+
+beforeEach(() => {
+  setTransportFactory((network) => chains.get(network.rpcUrl)!);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  resetTransportFactory();
+});
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("network health probes", () => {
+  it("records a healthy probe with the head height", async () => {
+    const chain = new FakeChain({ chainId: 1001 });
+    chain.mine(5);
+    const id = await createNetwork(1001, chain);
+
+    const check = await checkNetworkHealth({ id });
+
+    expect(check).toMatchObject({ networkId: id, status: "healthy", blockHeight: 5, chainIdMatches: true });
+    const { latest, history } = await getNetworkHealth({ id });
+    expect(latest).toEqual(check);
+    expect(history).toHaveLength(1);
+  });
+
+  it("flags an RPC that serves another chain", async () => {
+    const id = await createNetwork(1002, new FakeChain({ chainId: 1 }));
+
+    const check = await checkNetworkHealth({ id });
+
+    expect(check).toMatchObject({
+      status: "chain_mismatch",
+      reportedChainId: 1,
+      chainIdMatches: false,
+      errorMessage: "RPC reports chainId 1, expected 1002",
+    });
+  });
+
+  it("marks a node whose head stopped advancing as degraded", async () => {
+    const id = await createNetwork(1003, new FakeChain({ chainId: 1003 }));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 10 * 60_000);
+
+    const check = await checkNetworkHealth({ id });
+
+    expect(check.status).toBe("degraded");
+    expect(check.headLagSeconds).toBeGreaterThanOrEqual(600);
+  });
+
+  it("marks an unreachable RPC as down without retrying", async () => {
+    const chain = new FakeChain({ chainId: 1004 });
+    chain.failNext();
+    const id = await createNetwork(1004, chain);
+
+    const check = await checkNetworkHealth({ id });
+
+    expect(check).toMatchObject({ status: "down", errorMessage: "fake transport failure" });
+    expect(chain.received).toHaveLength(1);
+  });
+
+  it("rejects unknown networks", async () => {
+    await expect(checkNetworkHealth({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+    await expect(getNetworkHealth({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
+
+describe("scheduled health checks", () => {
+  it("probes active networks and prunes history past the retention window", async () => {
+    const active = await createNetwork(1005, new FakeChain({ chainId: 1005 }));
+    const inactive = await createNetwork(1006, new FakeChain({ chainId: 1006 }), false);
+    await blockchainDB.exec`
+      INSERT INTO network_health_checks (network_id, status, checked_at)
+      VALUES (${active}, 'down', NOW() - INTERVAL '8 days')
+    `;
+
+    await checkAllNetworksHealth();
+
+    const { history } = await getNetworkHealth({ id: active });
+    expect(history.map((check) => check.status)).toEqual(["healthy"]);
+    expect((await getNetworkHealth({ id: inactive })).history).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import { APIError, api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { networkInProject } from "./projects";
+import { createRpcClient, loadActiveRpcNetworks, loadRpcNetwork, RpcNetwork } from "../chain/clients";
+
+// --- Type Definitions ---
+
+export type HealthStatus = "healthy" | "degraded" | "down" | "chain_mismatch";
+
+export interface NetworkHealthCheck {
+  id: number;
+  networkId: number;
+  status: HealthStatus;
+  latencyMs?: number;
+  blockHeight?: number;
+  headLagSeconds?: number;
+  reportedChainId?: number;
+  chainIdMatches?: boolean;
+  errorMessage?: string;
+  checkedAt: Date;
+}
+
+export interface NetworkHealthResponse {
+  networkId: number;
+  latest?: NetworkHealthCheck;
+  history: NetworkHealthCheck[];
+}
+
+export interface ListNetworkHealthResponse {
+  health: NetworkHealthCheck[];
+}
+
+// --- Thresholds ---
+
+// A head older than this is treated as a stalled or lagging node.
+const STALE_HEAD_SECONDS = 120;
+const SLOW_RESPONSE_MS = 2000;
+const PROBE_TIMEOUT_MS = 5000;
+const HEALTH_RETENTION_DAYS = 7;
+
+const HEALTH_CHECK_FIELDS = `
+  id,
+  network_id as "networkId",
+  status,
+  latency_ms as "latencyMs",
+  block_height as "blockHeight",
+  head_lag_seconds as "headLagSeconds",
+  reported_chain_id as "reportedChainId",
+  chain_id_matches as "chainIdMatches",
+  error_message as "errorMessage",
+  checked_at as "checkedAt"
+`;
+
+// --- Helper Functions ---
+
+interface ProbeResult {
+  status: HealthStatus;
+  latencyMs?: number;
+  blockHeight?: number;
+  headLagSeconds?: number;
+  reportedChainId?: number;
+  chainIdMatches?: boolean;
+  errorMessage?: string;
+}
+
+// Calls eth_chainId and the latest block in one batch and classifies the result.
+async function probe(network: RpcNetwork): Promise<ProbeResult> {
+  const client = createRpcClient(network, { retries: 0 });
+  const started = Date.now();
+  try {
+    const [reportedChainId, head] = await Promise.race([
+      Promise.all([client.chainId(), client.getBlock("latest")]),
+      new Promise<never>((_, reject) =>
+        setTimeout(() => reject(new Error(`Probe timed out after ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS)
+      ),
+    ]);
+    const latencyMs = Date.now() - started;
+    const chainIdMatches = reportedChainId === network.chainId;
+    const headLagSeconds = head ? Math.max(0, Math.floor(Date.now() / 1000) - head.timestamp) : undefined;
+
+    let status: HealthStatus = "healthy";
+    if (!chainIdMatches) {
+      status = "chain_mismatch";
+    } else if (!head || latencyMs > SLOW_RESPONSE_MS || (headLagSeconds ?? 0) > STALE_HEAD_SECONDS) {
+      status = "degraded";
+    }
+
+    return {
+      status,
+      latencyMs,
+      blockHeight: head ? Number(head.number) : undefined,
+      headLagSeconds,
+      reportedChainId,
+      chainIdMatches,
+      errorMessage: chainIdMatches
+        ? undefined
+        : `RPC reports chainId ${reportedChainId}, expected ${network.chainId}`,
+    };
+  } catch (err) {
+    return {
+      status: "down",
+      latencyMs: Date.now() - started,
+      errorMessage: (err as Error).message,
+    };
+  }
+}
+
+async function recordProbe(network: RpcNetwork): Promise<NetworkHealthCheck> {
+  const result = await probe(network);
+  const check = await blockchainDB.rawQueryRow<NetworkHealthCheck>(
+    `
+      INSERT INTO network_health_checks (
+        network_id, status, latency_ms, block_height, head_lag_seconds,
+        reported_chain_id, chain_id_matches, error_message
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING ${HEALTH_CHECK_FIELDS}
+    `,
+    network.id,
+    result.status,
+    result.latencyMs ?? null,
+    result.blockHeight ?? null,
+    result.headLagSeconds ?? null,
+    result.reportedChainId ?? null,
+    result.chainIdMatches ?? null,
+    result.errorMessage ?? null
+  );
+  return check!;
+}
+
+// --- API Endpoints ---
+
+// Latest health check for every network in the project
+export const listNetworkHealth = api<void, ListNetworkHealthResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/health/networks", tags: ["scope:networks:read"] },
+  async () => {
+    const health = await blockchainDB.rawQueryAll<NetworkHealthCheck>(
+      `
+        SELECT DISTINCT ON (network_id) ${HEALTH_CHECK_FIELDS}
+        FROM network_health_checks
+        WHERE network_id IN (SELECT id FROM networks WHERE project_id = $1)
+        ORDER BY network_id, checked_at DESC
+      `,
+      callerProjectId()
+    );
+    return { health };
+  }
+);
+
+// Latest health check and recent history for a network
+export const getNetworkHealth = api<{ id: number; limit?: number }, NetworkHealthResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks/:id/health", tags: ["scope:networks:read"] },
+  async ({ id, limit = 50 }) => {
+    if (!(await networkInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Network not found");
+    }
+    const history = await blockchainDB.rawQueryAll<NetworkHealthCheck>(
+      `
+        SELECT ${HEALTH_CHECK_FIELDS}
+        FROM network_health_checks
+        WHERE network_id = $1
+        ORDER BY checked_at DESC
+        LIMIT $2
+      `,
+      id,
+      Math.min(Math.max(limit, 1), 500)
+    );
+    return { networkId: id, latest: history[0], history };
+  }
+);
+
+// Probe a network's RPC immediately
+export const checkNetworkHealth = api<{ id: number }, NetworkHealthCheck>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/networks/:id/health", tags: ["scope:networks:write"] },
+  async ({ id }) => {
+    const network = (await networkInProject(id, callerProjectId())) ? await loadRpcNetwork(id) : null;
+    if (!network) {
+      throw APIError.notFound("Network not found");
+    }
+    return recordProbe(network);
+  }
+);
+
+// Probe every active network and prune old history (invoked by cron)
+export const checkAllNetworksHealth = api<void, void>(
+  { expose: false, method: "POST", path: "/blockchain/health/check" },
+  async () => {
+    const networks = await loadActiveRpcNetworks();
+    const checks = await Promise.all(networks.map(recordProbe));
+    for (const check of checks) {
+      if (check.status !== "healthy") {
+        log.warn("network unhealthy", {
+          networkId: check.networkId,
+          status: check.status,
+          error: check.errorMessage,
+        });
+      }
+    }
+
+    await blockchainDB.exec`
+      DELETE FROM network_health_checks
+      WHERE checked_at < NOW() - (${HEALTH_RETENTION_DAYS} * INTERVAL '1 day')
+    `;
+  }
+);
+
+const _ = new CronJob("network-health", {
+  title: "Probe RPC health of active networks",
+  every: "1m",
+  endpoint: checkAllNetworksHealth,
+});
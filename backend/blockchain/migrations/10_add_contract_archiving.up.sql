@@ -0,0 +1,15 @@
+-- Archived contracts are hidden from listings but keep their history; deleted
+-- contracts are soft-deleted (always archived as well) and no longer served
+ALTER TABLE smart_contracts
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN archived_by VARCHAR(255),
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Set together with the contract's archived_at when archived in cascade
+ALTER TABLE tokens ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_smart_contracts_active ON smart_contracts (created_at DESC) WHERE archived_at IS NULL;
+CREATE INDEX idx_tokens_contract_id ON tokens (contract_id);
+CREATE INDEX idx_events_network_contract ON blockchain_events (network_id, LOWER(contract_address));
+CREATE INDEX idx_transactions_network_to ON transactions (network_id, LOWER(to_address));
+CREATE INDEX idx_transactions_network_contract ON transactions (network_id, LOWER(contract_address));
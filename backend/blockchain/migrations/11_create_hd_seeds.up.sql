@@ -0,0 +1,25 @@
+-- BIP-39 seeds from which custodial wallets are derived; the mnemonic is
+-- stored sealed like custodial private keys
+CREATE TABLE hd_seeds (
+  id BIGSERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  label VARCHAR(128),
+  encrypted_mnemonic TEXT NOT NULL,
+  word_count INTEGER NOT NULL CHECK (word_count IN (12, 15, 18, 21, 24)),
+  -- BIP-44 path with an {index} placeholder for the account index, e.g. m/44'/60'/0'/0/{index}
+  path_template VARCHAR(128) NOT NULL,
+  -- BIP-32 fingerprint of the root key, to tell seeds apart without unsealing them
+  fingerprint VARCHAR(10) NOT NULL,
+  next_index INTEGER NOT NULL DEFAULT 0 CHECK (next_index >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_hd_seeds_user_id ON hd_seeds(user_id);
+
+ALTER TABLE wallets
+  ADD COLUMN hd_seed_id BIGINT REFERENCES hd_seeds(id),
+  ADD COLUMN derivation_path VARCHAR(128),
+  ADD COLUMN account_index INTEGER,
+  ADD CHECK ((hd_seed_id IS NULL) = (account_index IS NULL));
+
+CREATE UNIQUE INDEX idx_wallets_hd_account ON wallets(hd_seed_id, account_index) WHERE hd_seed_id IS NOT NULL;
@@ -0,0 +1,26 @@
+-- Single-use nonces handed out for Sign-In with Ethereum (EIP-4361) messages
+CREATE TABLE auth_nonces (
+  nonce VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+-- Sessions issued after a verified SIWE signature; only a SHA-256 hash of the
+-- bearer token is stored
+CREATE TABLE auth_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  user_id VARCHAR(255) NOT NULL,
+  address VARCHAR(42) NOT NULL,
+  chain_id BIGINT NOT NULL,
+  domain VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_auth_sessions_user_id ON auth_sessions(user_id);
@@ -0,0 +1,10 @@
+-- API keys are shown once at issuance; the prefix identifies a key in listings
+-- without revealing it
+ALTER TABLE api_keys
+  ADD COLUMN key_prefix VARCHAR(16),
+  ADD COLUMN revoked_at TIMESTAMP WITH TIME ZONE,
+  -- Key this one replaced when it was issued by a rotation
+  ADD COLUMN rotated_from_id BIGINT REFERENCES api_keys(id);
+
+ALTER TABLE api_keys
+  ADD CHECK (rate_limit_per_minute > 0);
@@ -0,0 +1,37 @@
+-- Named sets of scopes (e.g. "tokens:mint"); "*" grants every scope and
+-- "tokens:*" every scope of one resource
+CREATE TABLE roles (
+  name VARCHAR(64) PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT '',
+  scopes JSONB NOT NULL DEFAULT '[]',
+  -- Applied to users without any role assignment
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE user_roles (
+  user_id VARCHAR(255) NOT NULL,
+  role VARCHAR(64) NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+  granted_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, role)
+);
+
+INSERT INTO roles (name, description, scopes, is_default) VALUES
+  ('viewer', 'Read-only access to every service',
+    '["networks:read", "contracts:read", "tokens:read", "nfts:read", "transactions:read", "events:read", "analytics:read", "wallets:read"]',
+    false),
+  ('developer', 'Manage own wallets, contracts, tokens and NFTs',
+    '["networks:read", "contracts:read", "tokens:read", "nfts:read", "transactions:read", "events:read", "analytics:read", "wallets:read",
+      "contracts:write", "tokens:write", "tokens:transfer", "nfts:write", "nfts:trade", "transactions:write", "events:write",
+      "wallets:write", "wallets:sign"]',
+    true),
+  ('operator', 'Developer access plus network management, minting, burning and contract removal',
+    '["networks:read", "contracts:read", "tokens:read", "nfts:read", "transactions:read", "events:read", "analytics:read", "wallets:read",
+      "contracts:write", "tokens:write", "tokens:transfer", "nfts:write", "nfts:trade", "transactions:write", "events:write",
+      "wallets:write", "wallets:sign",
+      "networks:write", "contracts:delete", "tokens:mint", "tokens:burn", "wallets:export", "custody:read"]',
+    false),
+  ('admin', 'Every scope, including master key rotation and role management',
+    '["*"]',
+    false);
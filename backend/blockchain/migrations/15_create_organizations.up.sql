@@ -0,0 +1,125 @@
+-- Tenancy: organizations own projects, and every resource belongs to a project.
+-- Tables below the ones given a project_id here (token balances, RPC endpoints,
+-- health checks, blocks, ABI entries, verifications, versions, upgrades) are
+-- scoped through the row they reference.
+CREATE TABLE organizations (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  slug VARCHAR(64) NOT NULL UNIQUE,
+  created_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE organization_members (
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id VARCHAR(255) NOT NULL,
+  role VARCHAR(16) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON organization_members(user_id);
+
+CREATE TABLE projects (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  slug VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(organization_id, slug)
+);
+
+-- Invitations are addressed to a user id (a checksummed address) and accepted
+-- by that user once signed in
+CREATE TABLE organization_invitations (
+  id BIGSERIAL PRIMARY KEY,
+  organization_id BIGINT NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  invitee VARCHAR(255) NOT NULL,
+  role VARCHAR(16) NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  invited_by VARCHAR(255) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_organization_invitations_invitee ON organization_invitations(invitee);
+CREATE UNIQUE INDEX idx_organization_invitations_pending
+  ON organization_invitations(organization_id, invitee)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- Existing data moves into a default organization shared by existing users
+INSERT INTO organizations (name, slug) VALUES ('Default', 'default');
+INSERT INTO projects (organization_id, name, slug)
+  SELECT id, 'Default', 'default' FROM organizations WHERE slug = 'default';
+
+INSERT INTO organization_members (organization_id, user_id, role)
+  SELECT o.id, u.user_id, 'member'
+  FROM organizations o,
+    (SELECT user_id FROM wallets
+     UNION SELECT user_id FROM hd_seeds
+     UNION SELECT user_id FROM api_keys
+     UNION SELECT user_id FROM auth_sessions
+     UNION SELECT user_id FROM user_roles) u
+  WHERE o.slug = 'default';
+
+UPDATE organization_members SET role = 'owner'
+  WHERE user_id IN (SELECT user_id FROM user_roles WHERE role = 'admin');
+
+-- What a member may do inside an organization is decided by their membership
+-- role; these scopes only gate the organization endpoints for roles and keys
+UPDATE roles SET scopes = scopes || '["organizations:read"]'::jsonb WHERE name = 'viewer';
+UPDATE roles SET scopes = scopes || '["organizations:read", "organizations:write"]'::jsonb
+  WHERE name IN ('developer', 'operator');
+
+ALTER TABLE networks ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE smart_contracts ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE tokens ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE nft_metadata ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE marketplace_listings ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE transactions ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE blockchain_events ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE wallets ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE hd_seeds ADD COLUMN project_id BIGINT REFERENCES projects(id);
+ALTER TABLE api_keys ADD COLUMN project_id BIGINT REFERENCES projects(id);
+
+UPDATE networks SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE smart_contracts SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE tokens SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE nft_metadata SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE marketplace_listings SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE transactions SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE blockchain_events SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE wallets SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE hd_seeds SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+UPDATE api_keys SET project_id = (SELECT id FROM projects WHERE slug = 'default');
+
+ALTER TABLE networks ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE smart_contracts ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE tokens ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE nft_metadata ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE marketplace_listings ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE transactions ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE blockchain_events ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE wallets ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE hd_seeds ALTER COLUMN project_id SET NOT NULL;
+ALTER TABLE api_keys ALTER COLUMN project_id SET NOT NULL;
+
+-- Each project configures its own networks, records its own transactions and registers its own wallets
+ALTER TABLE networks DROP CONSTRAINT networks_name_key;
+ALTER TABLE networks DROP CONSTRAINT networks_chain_id_key;
+ALTER TABLE networks ADD CONSTRAINT networks_project_name_key UNIQUE (project_id, name);
+ALTER TABLE networks ADD CONSTRAINT networks_project_chain_id_key UNIQUE (project_id, chain_id);
+ALTER TABLE transactions DROP CONSTRAINT transactions_hash_key;
+ALTER TABLE transactions ADD CONSTRAINT transactions_project_hash_key UNIQUE (project_id, hash);
+ALTER TABLE wallets DROP CONSTRAINT wallets_address_key;
+ALTER TABLE wallets ADD CONSTRAINT wallets_project_address_key UNIQUE (project_id, address);
+
+CREATE INDEX idx_smart_contracts_project_id ON smart_contracts(project_id);
+CREATE INDEX idx_tokens_project_id ON tokens(project_id);
+CREATE INDEX idx_nft_metadata_project_id ON nft_metadata(project_id);
+CREATE INDEX idx_marketplace_listings_project_id ON marketplace_listings(project_id);
+CREATE INDEX idx_transactions_project_id ON transactions(project_id);
+CREATE INDEX idx_blockchain_events_project_id ON blockchain_events(project_id);
+CREATE INDEX idx_wallets_project_user ON wallets(project_id, user_id);
+CREATE INDEX idx_hd_seeds_project_user ON hd_seeds(project_id, user_id);
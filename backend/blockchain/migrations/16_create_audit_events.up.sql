@@ -0,0 +1,42 @@
+-- Append-only audit trail of privileged operations. Each row's hash covers the
+-- row and prev_hash (the previous row's hash), so any edit breaks the chain.
+CREATE TABLE audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  -- The caller's project; not a foreign key so entries outlive what they describe
+  project_id BIGINT,
+  actor VARCHAR(255),
+  api_key_id BIGINT,
+  ip_address VARCHAR(64),
+  operation VARCHAR(64) NOT NULL,
+  target_type VARCHAR(64),
+  target_id VARCHAR(255),
+  -- Only the fields that changed; whole snapshots for creations and deletions
+  before_state JSONB,
+  after_state JSONB,
+  result VARCHAR(16) NOT NULL CHECK (result IN ('success', 'denied', 'failure')),
+  error_message TEXT,
+  prev_hash CHAR(64) NOT NULL,
+  hash CHAR(64) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_audit_events_project_created ON audit_events(project_id, created_at DESC);
+CREATE INDEX idx_audit_events_actor ON audit_events(actor);
+CREATE INDEX idx_audit_events_operation ON audit_events(operation);
+CREATE INDEX idx_audit_events_target ON audit_events(target_type, target_id);
+
+CREATE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_events_no_update
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION audit_events_append_only();
+
+UPDATE roles SET scopes = scopes || '["audit:read"]'::jsonb WHERE name = 'operator';
@@ -0,0 +1,21 @@
+-- Responses of calls made with an Idempotency-Key, replayed for retries with the same key.
+-- A row without a response is a call still in progress.
+CREATE TABLE idempotency_keys (
+  id BIGSERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  project_id BIGINT,
+  idempotency_key VARCHAR(255) NOT NULL,
+  -- "<service>.<endpoint>" the key was first used with
+  endpoint VARCHAR(128) NOT NULL,
+  -- SHA-256 of the request payload, to reject a reused key with a different request
+  request_hash CHAR(64) NOT NULL,
+  response JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Keys are scoped to the caller and project; project_id is NULL only for callers without one.
+CREATE UNIQUE INDEX idx_idempotency_keys_caller_key
+  ON idempotency_keys(user_id, COALESCE(project_id, 0), idempotency_key);
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
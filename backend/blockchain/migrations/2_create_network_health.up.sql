@@ -0,0 +1,15 @@
+-- RPC health probe results, one row per network per check
+CREATE TABLE network_health_checks (
+  id BIGSERIAL PRIMARY KEY,
+  network_id BIGINT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL, -- healthy, degraded, down, chain_mismatch
+  latency_ms INTEGER,
+  block_height BIGINT,
+  head_lag_seconds INTEGER,
+  reported_chain_id BIGINT,
+  chain_id_matches BOOLEAN,
+  error_message TEXT,
+  checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_network_health_network_checked ON network_health_checks (network_id, checked_at DESC);
@@ -0,0 +1,16 @@
+-- Additional RPC endpoints per network; networks.rpc_url is used when a network has none
+CREATE TABLE network_rpc_endpoints (
+  id BIGSERIAL PRIMARY KEY,
+  network_id BIGINT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  role VARCHAR(10) NOT NULL DEFAULT 'read' CHECK (role IN ('read', 'write', 'archive')),
+  priority INTEGER NOT NULL DEFAULT 0, -- lower is tried first
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  rate_limit_per_second INTEGER CHECK (rate_limit_per_second > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(network_id, url)
+);
+
+CREATE INDEX idx_network_rpc_endpoints_network ON network_rpc_endpoints (network_id, priority);
@@ -0,0 +1,12 @@
+-- Chain metadata used for confirmations, fee estimation and display
+ALTER TABLE networks
+  ADD COLUMN is_testnet BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN block_time_target_ms INTEGER CHECK (block_time_target_ms > 0),
+  ADD COLUMN confirmation_depth INTEGER NOT NULL DEFAULT 12 CHECK (confirmation_depth >= 0),
+  ADD COLUMN supports_eip1559 BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN native_currency_decimals INTEGER NOT NULL DEFAULT 18 CHECK (native_currency_decimals BETWEEN 0 AND 36);
+
+UPDATE networks SET block_time_target_ms = 12000, confirmation_depth = 12 WHERE chain_id IN (1, 11155111);
+UPDATE networks SET block_time_target_ms = 2000, confirmation_depth = 64 WHERE chain_id IN (137, 80001);
+UPDATE networks SET block_time_target_ms = 3000, confirmation_depth = 15, supports_eip1559 = false WHERE chain_id = 56;
+UPDATE networks SET is_testnet = true WHERE chain_id IN (11155111, 80001);
@@ -0,0 +1,32 @@
+-- Canonical block headers ingested from each active network
+CREATE TABLE blocks (
+  id BIGSERIAL PRIMARY KEY,
+  network_id BIGINT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+  number BIGINT NOT NULL,
+  hash VARCHAR(66) NOT NULL,
+  parent_hash VARCHAR(66) NOT NULL,
+  timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+  base_fee_per_gas NUMERIC(78, 0),
+  gas_used NUMERIC(78, 0) NOT NULL,
+  gas_limit NUMERIC(78, 0),
+  transaction_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(network_id, number)
+);
+
+CREATE INDEX idx_blocks_network_hash ON blocks (network_id, hash);
+CREATE INDEX idx_blocks_timestamp ON blocks (timestamp);
+
+-- Chain reorganizations detected while ingesting blocks
+CREATE TABLE block_reorgs (
+  id BIGSERIAL PRIMARY KEY,
+  network_id BIGINT NOT NULL REFERENCES networks(id) ON DELETE CASCADE,
+  -- First block number that was replaced
+  fork_block_number BIGINT NOT NULL,
+  depth INTEGER NOT NULL,
+  old_head_hash VARCHAR(66) NOT NULL,
+  new_head_hash VARCHAR(66) NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_block_reorgs_network ON block_reorgs (network_id, detected_at DESC);
@@ -0,0 +1,16 @@
+-- updateContract already sets updated_at; the column was missing from the original table
+ALTER TABLE smart_contracts ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Function selectors, event topic0 hashes and error selectors of each contract's ABI
+CREATE TABLE contract_abi_entries (
+  id BIGSERIAL PRIMARY KEY,
+  contract_id BIGINT NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('function', 'event', 'error')),
+  name VARCHAR(255) NOT NULL,
+  signature TEXT NOT NULL,
+  -- 4-byte selector for functions and errors, 32-byte topic0 for events
+  selector VARCHAR(66) NOT NULL,
+  UNIQUE(contract_id, kind, signature)
+);
+
+CREATE INDEX idx_contract_abi_entries_selector ON contract_abi_entries (selector);
@@ -0,0 +1,22 @@
+-- Source verification jobs: standard-JSON input compiled with the bundled solc-js
+-- and compared against the deployed runtime bytecode
+CREATE TABLE contract_verifications (
+  id BIGSERIAL PRIMARY KEY,
+  contract_id BIGINT NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'verified', 'failed')),
+  compiler_version VARCHAR(100) NOT NULL,
+  -- As submitted: "Name" or "path/To.sol:Name"; resolved to the fully qualified name once compiled
+  contract_name VARCHAR(255) NOT NULL,
+  language VARCHAR(20) NOT NULL DEFAULT 'Solidity',
+  sources JSONB NOT NULL,
+  settings JSONB NOT NULL DEFAULT '{}',
+  -- full: identical including the metadata hash; partial: identical once metadata is stripped
+  match_type VARCHAR(10) CHECK (match_type IN ('full', 'partial')),
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_contract_verifications_contract_id ON contract_verifications (contract_id, created_at DESC);
+CREATE INDEX idx_contract_verifications_pending ON contract_verifications (created_at) WHERE status = 'pending';
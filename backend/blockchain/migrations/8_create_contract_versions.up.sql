@@ -0,0 +1,20 @@
+-- Snapshots of a contract's ABI, bytecode and version label; a new row is
+-- written whenever any of them changes
+CREATE TABLE contract_versions (
+  id BIGSERIAL PRIMARY KEY,
+  contract_id BIGINT NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  -- 1-based sequence per contract
+  version_number INTEGER NOT NULL,
+  version VARCHAR(50) NOT NULL,
+  abi TEXT NOT NULL,
+  bytecode TEXT,
+  changed_by VARCHAR(255),
+  change_source VARCHAR(20) NOT NULL CHECK (change_source IN ('create', 'update', 'import', 'deploy')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(contract_id, version_number)
+);
+
+-- Existing contracts start their history with their current state
+INSERT INTO contract_versions (contract_id, version_number, version, abi, bytecode, changed_by, change_source, created_at)
+SELECT id, 1, version, abi, bytecode, deployed_by, 'create', COALESCE(updated_at, created_at)
+FROM smart_contracts;
@@ -0,0 +1,32 @@
+-- Proxy detection (EIP-1967 / EIP-1822 storage slots) and the implementation
+-- a proxy currently delegates to
+ALTER TABLE smart_contracts
+  ADD COLUMN proxy_type VARCHAR(20) CHECK (proxy_type IN ('eip1967', 'eip1967-beacon', 'eip1822')),
+  ADD COLUMN implementation_address VARCHAR(42),
+  -- The registered contract at implementation_address on the same network, if any
+  ADD COLUMN implementation_contract_id BIGINT REFERENCES smart_contracts(id) ON DELETE SET NULL,
+  ADD COLUMN proxy_admin VARCHAR(42),
+  ADD COLUMN proxy_beacon VARCHAR(42),
+  ADD COLUMN proxy_checked_at TIMESTAMP WITH TIME ZONE,
+  -- Last block scanned for Upgraded events
+  ADD COLUMN upgrades_scanned_block BIGINT;
+
+CREATE INDEX idx_smart_contracts_implementation ON smart_contracts (implementation_contract_id);
+
+-- Implementation history of proxies: one row per Upgraded event, plus a "slot" row
+-- (no transaction; block_number is the block it was read at) when the slot shows an
+-- implementation no scanned event accounts for
+CREATE TABLE contract_upgrades (
+  id BIGSERIAL PRIMARY KEY,
+  proxy_contract_id BIGINT NOT NULL REFERENCES smart_contracts(id) ON DELETE CASCADE,
+  implementation_address VARCHAR(42) NOT NULL,
+  implementation_contract_id BIGINT REFERENCES smart_contracts(id) ON DELETE SET NULL,
+  source VARCHAR(10) NOT NULL CHECK (source IN ('event', 'slot')),
+  block_number BIGINT NOT NULL,
+  transaction_hash VARCHAR(66),
+  log_index INTEGER,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(proxy_contract_id, transaction_hash, log_index)
+);
+
+CREATE INDEX idx_contract_upgrades_proxy ON contract_upgrades (proxy_contract_id, block_number DESC);
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { blockchainDB } from "./db";
+import { createNetwork, deleteNetwork, getNetwork, updateNetwork } from "./networks";
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+function network(chainId: number) {
+  return createNetwork({ name: `Chain ${chainId}`, chainId, rpcUrl: `http://node-${chainId}`, nativeCurrency: "ETH" });
+}
+
+describe("updateNetwork", () => {
+  it("changes only the given fields", async () => {
+    const { id } = await network(2001);
+
+    const updated = await updateNetwork({ id, confirmationDepth: 3, description: "staging" });
+
+    expect(updated).toMatchObject({ chainId: 2001, confirmationDepth: 3, description: "staging", supportsEip1559: true });
+    expect(await getNetwork({ id })).toEqual(updated);
+  });
+
+  it("clears nullable fields", async () => {
+    const { id } = await network(2002);
+    await updateNetwork({ id, description: "old" });
+
+    const updated = await updateNetwork({ id, description: null });
+
+    expect(updated.description).toBeNull();
+  });
+
+  it("rejects a chainId that another network uses", async () => {
+    await network(2003);
+    const { id } = await network(2004);
+
+    await expect(updateNetwork({ id, chainId: 2003 })).rejects.toMatchObject({ code: "already_exists" });
+  });
+
+  it("rejects an empty update and unknown networks", async () => {
+    const { id } = await network(2005);
+
+    await expect(updateNetwork({ id })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(updateNetwork({ id: 9999, name: "Missing" })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("limits the currency symbol to the column width", async () => {
+    const { id } = await network(2009);
+
+    await expect(updateNetwork({ id, nativeCurrency: "TENLETTERS" })).resolves.toMatchObject({ nativeCurrency: "TENLETTERS" });
+    await expect(updateNetwork({ id, nativeCurrency: "ELEVENCHARS" })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(
+      createNetwork({ name: "Long", chainId: 2010, rpcUrl: "http://node-2010", nativeCurrency: "ELEVENCHARS" })
+    ).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+});
+
+describe("deleteNetwork", () => {
+  it("removes an unused network with its health history", async () => {
+    const { id } = await network(2006);
+    await blockchainDB.exec`INSERT INTO network_health_checks (network_id, status) VALUES (${id}, 'healthy')`;
+
+    await deleteNetwork({ id });
+
+    await expect(getNetwork({ id })).rejects.toMatchObject({ code: "not_found" });
+    await expect(deleteNetwork({ id })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("refuses to delete a network that contracts reference", async () => {
+    const { id } = await network(2007);
+    await blockchainDB.exec`
+      INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+      VALUES ('Token', '0x0000000000000000000000000000000000000001', ${id}, '[]', 'ERC20', ${DEFAULT_PROJECT_ID})
+    `;
+
+    await expect(deleteNetwork({ id })).rejects.toMatchObject({
+      code: "failed_precondition",
+      message: "Network is still referenced by 1 smart contract(s); deactivate it instead",
+    });
+  });
+});
+
+describe("project scoping", () => {
+  it("hides networks of other projects", async () => {
+    const { id } = await network(2008);
+    const other = await blockchainDB.queryRow<{ id: number }>`
+      INSERT INTO projects (organization_id, name, slug) VALUES (1, 'Other', 'other') RETURNING id
+    `;
+    setAuthData({ ...signedIn("0x00000000000000000000000000000000000a11ce"), projectId: other!.id });
+
+    try {
+      await expect(getNetwork({ id })).rejects.toMatchObject({ code: "not_found" });
+      await expect(updateNetwork({ id, name: "Renamed" })).rejects.toMatchObject({ code: "not_found" });
+      await expect(deleteNetwork({ id })).rejects.toMatchObject({ code: "not_found" });
+      // Chain ids only need to be unique within a project.
+      await expect(network(2008)).resolves.toMatchObject({ chainId: 2008 });
+    } finally {
+      setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+    }
+    expect((await getNetwork({ id })).name).toBe("Chain 2008");
+  });
+});
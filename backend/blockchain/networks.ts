@@ -1,4 +1,7 @@
-import { api } from "encore.dev/api";
+import { APIError, api } from "encore.dev/api";
+import type { Primitive } from "encore.dev/storage/sqldb";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
 import { blockchainDB } from "./db";
 import { z } from "zod";
 
@@ -11,6 +14,14 @@ export interface Network {
   rpcUrl: string;
   explorerUrl?: string;
   nativeCurrency: string;
+  nativeCurrencyDecimals: number;
+  description?: string;
+  isTestnet: boolean;
+  // Expected time between blocks; unset when unknown.
+  blockTimeTargetMs?: number;
+  // Blocks after which a transaction is treated as final.
+  confirmationDepth: number;
+  supportsEip1559: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -23,77 +34,87 @@ const CreateNetworkSchema = z.object({
   chainId: z.number().int().positive(),
   rpcUrl: z.string().url(),
   explorerUrl: z.string().url().optional(),
-  nativeCurrency: z.string().min(1).max(32),
+  nativeCurrency: z.string().min(1).max(10),
+  nativeCurrencyDecimals: z.number().int().min(0).max(36).optional(),
+  description: z.string().max(1000).optional(),
+  isTestnet: z.boolean().optional(),
+  blockTimeTargetMs: z.number().int().positive().optional(),
+  confirmationDepth: z.number().int().min(0).max(10000).optional(),
+  supportsEip1559: z.boolean().optional(),
 });
 export type CreateNetworkRequest = z.infer<typeof CreateNetworkSchema>;
 
+const UpdateNetworkSchema = z.object({
+  name: z.string().min(3).max(64).optional(),
+  chainId: z.number().int().positive().optional(),
+  rpcUrl: z.string().url().optional(),
+  explorerUrl: z.string().url().nullable().optional(),
+  nativeCurrency: z.string().min(1).max(10).optional(),
+  nativeCurrencyDecimals: z.number().int().min(0).max(36).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  isTestnet: z.boolean().optional(),
+  blockTimeTargetMs: z.number().int().positive().nullable().optional(),
+  confirmationDepth: z.number().int().min(0).max(10000).optional(),
+  supportsEip1559: z.boolean().optional(),
+});
+export type UpdateNetworkRequest = z.infer<typeof UpdateNetworkSchema>;
+
 export interface ListNetworksResponse {
   networks: Network[];
 }
 
-// --- Helper Functions ---
-
-// Auth placeholder
-async function requireAuth(ctx: any) {
-  // throw new Error("Unauthorized"); // Uncomment and replace for real authentication
-}
-
-// Standardized error response
-function errorResponse(code: number, message: string) {
-  const err = new Error(message);
-  // @ts-ignore
-  err.statusCode = code;
-  return err;
-}
+const NETWORK_FIELDS = `
+  id,
+  name,
+  chain_id as "chainId",
+  rpc_url as "rpcUrl",
+  explorer_url as "explorerUrl",
+  native_currency as "nativeCurrency",
+  native_currency_decimals as "nativeCurrencyDecimals",
+  description,
+  is_testnet as "isTestnet",
+  block_time_target_ms as "blockTimeTargetMs",
+  confirmation_depth as "confirmationDepth",
+  supports_eip1559 as "supportsEip1559",
+  is_active as "isActive",
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
 
 // --- API Endpoints ---
 
-// List all blockchain networks (with pagination)
+// List the project's blockchain networks (with pagination)
 export const listNetworks = api<{ page?: number; perPage?: number }, ListNetworksResponse>(
-  { expose: true, method: "GET", path: "/blockchain/networks" },
-  async ({ page = 1, perPage = 25 }, ctx) => {
-    // await requireAuth(ctx);
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks", tags: ["scope:networks:read"] },
+  async ({ page = 1, perPage = 25 }) => {
     const offset = (page - 1) * perPage;
-    const networks = await blockchainDB.queryAll<Network>`
-      SELECT 
-        id,
-        name,
-        chain_id as "chainId",
-        rpc_url as "rpcUrl",
-        explorer_url as "explorerUrl",
-        native_currency as "nativeCurrency",
-        is_active as "isActive",
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-      FROM networks 
-      ORDER BY created_at DESC
-      LIMIT ${perPage} OFFSET ${offset}
-    `;
+    const networks = await blockchainDB.rawQueryAll<Network>(
+      `
+        SELECT ${NETWORK_FIELDS}
+        FROM networks 
+        WHERE project_id = $3
+        ORDER BY created_at DESC
+        LIMIT $1 OFFSET $2
+      `,
+      perPage,
+      offset,
+      callerProjectId()
+    );
     return { networks };
   }
 );
 
 // Get a specific network by ID
 export const getNetwork = api<{ id: number }, Network>(
-  { expose: true, method: "GET", path: "/blockchain/networks/:id" },
-  async ({ id }, ctx) => {
-    // await requireAuth(ctx);
-    const network = await blockchainDB.queryRow<Network>`
-      SELECT 
-        id,
-        name,
-        chain_id as "chainId",
-        rpc_url as "rpcUrl",
-        explorer_url as "explorerUrl",
-        native_currency as "nativeCurrency",
-        is_active as "isActive",
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-      FROM networks 
-      WHERE id = ${id}
-    `;
+  { expose: true, auth: true, method: "GET", path: "/blockchain/networks/:id", tags: ["scope:networks:read"] },
+  async ({ id }) => {
+    const network = await blockchainDB.rawQueryRow<Network>(
+      `SELECT ${NETWORK_FIELDS} FROM networks WHERE id = $1 AND project_id = $2`,
+      id,
+      callerProjectId()
+    );
     if (!network) {
-      throw errorResponse(404, "Network not found");
+      throw APIError.notFound("Network not found");
     }
     return network;
   }
@@ -101,66 +122,185 @@ export const getNetwork = api<{ id: number }, Network>(
 
 // Create a new blockchain network
 export const createNetwork = api<CreateNetworkRequest, Network>(
-  { expose: true, method: "POST", path: "/blockchain/networks" },
-  async (req, ctx) => {
-    // await requireAuth(ctx);
-
+  { expose: true, auth: true, method: "POST", path: "/blockchain/networks", tags: ["scope:networks:write", "audit:network.create"] },
+  async (req) => {
     const parsed = CreateNetworkSchema.safeParse(req);
     if (!parsed.success) {
-      throw errorResponse(400, `Invalid input: ${parsed.error.message}`);
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
     }
     const input = parsed.data;
+    const projectId = callerProjectId();
 
     // Check for duplicate chainId
     const existing = await blockchainDB.queryRow<Network>`
-      SELECT id FROM networks WHERE chain_id = ${input.chainId}
+      SELECT id FROM networks WHERE chain_id = ${input.chainId} AND project_id = ${projectId}
     `;
     if (existing) {
-      throw errorResponse(409, "A network with this chainId already exists");
+      throw APIError.alreadyExists("A network with this chainId already exists");
     }
 
-    const network = await blockchainDB.queryRow<Network>`
-      INSERT INTO networks (name, chain_id, rpc_url, explorer_url, native_currency)
-      VALUES (${input.name}, ${input.chainId}, ${input.rpcUrl}, ${input.explorerUrl || null}, ${input.nativeCurrency})
-      RETURNING 
-        id,
-        name,
-        chain_id as "chainId",
-        rpc_url as "rpcUrl",
-        explorer_url as "explorerUrl",
-        native_currency as "nativeCurrency",
-        is_active as "isActive",
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-    `;
+    const network = await blockchainDB.rawQueryRow<Network>(
+      `
+        INSERT INTO networks (
+          name, chain_id, rpc_url, explorer_url, native_currency, native_currency_decimals,
+          description, is_testnet, block_time_target_ms, confirmation_depth, supports_eip1559, project_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING ${NETWORK_FIELDS}
+      `,
+      input.name,
+      input.chainId,
+      input.rpcUrl,
+      input.explorerUrl || null,
+      input.nativeCurrency,
+      input.nativeCurrencyDecimals ?? 18,
+      input.description || null,
+      input.isTestnet ?? false,
+      input.blockTimeTargetMs ?? null,
+      input.confirmationDepth ?? 12,
+      input.supportsEip1559 ?? true,
+      projectId
+    );
+    auditTarget("network", network!.id);
+    auditChange(null, { ...network! });
     return network!;
   }
 );
 
+// Update a network's configuration and metadata
+export const updateNetwork = api<{ id: number } & UpdateNetworkRequest, Network>(
+  { expose: true, auth: true, method: "PATCH", path: "/blockchain/networks/:id", tags: ["scope:networks:write", "audit:network.update"] },
+  async ({ id, ...updates }) => {
+    auditTarget("network", id);
+    const parsed = UpdateNetworkSchema.safeParse(updates);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid update input: ${parsed.error.message}`);
+    }
+    const input = parsed.data;
+    const projectId = callerProjectId();
+
+    if (input.chainId !== undefined) {
+      const existing = await blockchainDB.queryRow<{ id: number }>`
+        SELECT id FROM networks WHERE chain_id = ${input.chainId} AND id != ${id} AND project_id = ${projectId}
+      `;
+      if (existing) {
+        throw APIError.alreadyExists("A network with this chainId already exists");
+      }
+    }
+
+    const columns: Record<string, unknown> = {
+      name: input.name,
+      chain_id: input.chainId,
+      rpc_url: input.rpcUrl,
+      explorer_url: input.explorerUrl,
+      native_currency: input.nativeCurrency,
+      native_currency_decimals: input.nativeCurrencyDecimals,
+      description: input.description,
+      is_testnet: input.isTestnet,
+      block_time_target_ms: input.blockTimeTargetMs,
+      confirmation_depth: input.confirmationDepth,
+      supports_eip1559: input.supportsEip1559,
+    };
+    const setParts: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    for (const [column, value] of Object.entries(columns)) {
+      if (value !== undefined) {
+        setParts.push(`${column} = $${paramIndex++}`);
+        params.push(value);
+      }
+    }
+
+    if (setParts.length === 0) {
+      throw APIError.invalidArgument("No fields to update");
+    }
+
+    const before = await blockchainDB.rawQueryRow<Network>(
+      `SELECT ${NETWORK_FIELDS} FROM networks WHERE id = $1 AND project_id = $2`,
+      id,
+      projectId
+    );
+
+    const query = `
+      UPDATE networks
+      SET ${setParts.join(', ')}, updated_at = NOW()
+      WHERE id = $${paramIndex} AND project_id = $${paramIndex + 1}
+      RETURNING ${NETWORK_FIELDS}
+    `;
+    params.push(id, projectId);
+
+    // Primitive leaves out null, which the driver accepts and which clears nullable columns.
+    const network = await blockchainDB.rawQueryRow<Network>(query, ...(params as Primitive[]));
+    if (!network) {
+      throw APIError.notFound("Network not found");
+    }
+    auditChange(before ? { ...before, updatedAt: undefined } : null, { ...network, updatedAt: undefined });
+    return network;
+  }
+);
+
+// Delete a network that nothing references any more.
+// Health history and RPC endpoints are removed along with it.
+export const deleteNetwork = api<{ id: number }, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/blockchain/networks/:id", tags: ["scope:networks:write", "audit:network.delete"] },
+  async ({ id }) => {
+    auditTarget("network", id);
+    const projectId = callerProjectId();
+    const owned = await blockchainDB.rawQueryRow<Network>(
+      `SELECT ${NETWORK_FIELDS} FROM networks WHERE id = $1 AND project_id = $2`,
+      id,
+      projectId
+    );
+    if (!owned) {
+      throw APIError.notFound("Network not found");
+    }
+    const usage = await blockchainDB.queryRow<{ contracts: number; transactions: number; events: number }>`
+      SELECT
+        (SELECT COUNT(*) FROM smart_contracts WHERE network_id = ${id})::int AS contracts,
+        (SELECT COUNT(*) FROM transactions WHERE network_id = ${id})::int AS transactions,
+        (SELECT COUNT(*) FROM blockchain_events WHERE network_id = ${id})::int AS events
+    `;
+    const references = [
+      usage!.contracts && `${usage!.contracts} smart contract(s)`,
+      usage!.transactions && `${usage!.transactions} transaction(s)`,
+      usage!.events && `${usage!.events} event(s)`,
+    ].filter(Boolean);
+    if (references.length > 0) {
+      throw APIError.failedPrecondition(
+        `Network is still referenced by ${references.join(", ")}; deactivate it instead`
+      );
+    }
+
+    const deleted = await blockchainDB.queryRow<{ id: number }>`
+      DELETE FROM networks WHERE id = ${id} AND project_id = ${projectId} RETURNING id
+    `;
+    if (!deleted) {
+      throw APIError.notFound("Network not found");
+    }
+    auditChange({ ...owned }, null);
+  }
+);
+
 // Toggle network active status
 export const toggleNetworkStatus = api<{ id: number }, Network>(
-  { expose: true, method: "PATCH", path: "/blockchain/networks/:id/toggle" },
-  async ({ id }, ctx) => {
-    // await requireAuth(ctx);
-
-    const network = await blockchainDB.queryRow<Network>`
-      UPDATE networks 
-      SET is_active = NOT is_active, updated_at = NOW()
-      WHERE id = ${id}
-      RETURNING 
-        id,
-        name,
-        chain_id as "chainId",
-        rpc_url as "rpcUrl",
-        explorer_url as "explorerUrl",
-        native_currency as "nativeCurrency",
-        is_active as "isActive",
-        created_at as "createdAt",
-        updated_at as "updatedAt"
-    `;
+  { expose: true, auth: true, method: "PATCH", path: "/blockchain/networks/:id/toggle", tags: ["scope:networks:write", "audit:network.toggle"] },
+  async ({ id }) => {
+    auditTarget("network", id);
+    const network = await blockchainDB.rawQueryRow<Network>(
+      `
+        UPDATE networks 
+        SET is_active = NOT is_active, updated_at = NOW()
+        WHERE id = $1 AND project_id = $2
+        RETURNING ${NETWORK_FIELDS}
+      `,
+      id,
+      callerProjectId()
+    );
     if (!network) {
-      throw errorResponse(404, "Network not found");
+      throw APIError.notFound("Network not found");
     }
+    auditChange({ isActive: !network.isActive }, { isActive: network.isActive });
     return network;
   }
 );
@@ -0,0 +1,18 @@
+import { blockchainDB } from "./db";
+
+// Project scoping for endpoints addressed by a network or contract id: rows of
+// another project are treated as missing.
+
+export async function networkInProject(id: number, projectId: number): Promise<boolean> {
+  const row = await blockchainDB.queryRow<{ id: number }>`
+    SELECT id FROM networks WHERE id = ${id} AND project_id = ${projectId}
+  `;
+  return row !== null;
+}
+
+export async function contractInProject(id: number, projectId: number): Promise<boolean> {
+  const row = await blockchainDB.queryRow<{ id: number }>`
+    SELECT id FROM smart_contracts WHERE id = ${id} AND project_id = ${projectId}
+  `;
+  return row !== null;
+}
@@ -0,0 +1,101 @@
+import { Interface, getAddress, zeroPadValue } from "ethers";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { EIP1967_IMPLEMENTATION_SLOT, UPGRADED_TOPIC } from "../chain/proxy";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { getContractAbi } from "./abi";
+import { blockchainDB } from "./db";
+import { getContractProxy, refreshContractProxy } from "./proxies";
+import { createContract } from "./smart_contracts";
+
+const PROXY = getAddress("0x00000000000000000000000000000000000000a1");
+const V1 = getAddress("0x00000000000000000000000000000000000000b1");
+const V2 = getAddress("0x00000000000000000000000000000000000000b2");
+
+const chain = new FakeChain({ chainId: 9301 });
+let networkId: number;
+
+async function contract(name: string, address: string, abi: string[]): Promise<number> {
+  const { id } = await createContract({
+    name,
+    address,
+    networkId,
+    abi: new Interface(abi).formatJson(),
+    version: "1.0.0",
+    contractType: "CUSTOM",
+  });
+  return id;
+}
+
+function upgradeTo(implementation: string) {
+  chain.setStorageAt(PROXY, EIP1967_IMPLEMENTATION_SLOT, implementation);
+  chain.emitLog({ address: PROXY, topics: [UPGRADED_TOPIC, zeroPadValue(implementation, 32)], data: "0x" });
+}
+
+beforeAll(async () => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+  setTransportFactory(() => chain);
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9301', 9301, 'http://node-9301', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+  chain.setCode(V1, "0x6001");
+  chain.setCode(V2, "0x6002");
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  resetTransportFactory();
+  await closeDatabases();
+});
+
+describe("proxy tracking", () => {
+  it("links a proxy to its registered implementation and records upgrades", async () => {
+    const proxyId = await contract("Proxy", PROXY, ["function upgradeTo(address implementation)"]);
+    await contract("TokenV1", V1, ["function transfer(address to, uint256 amount)"]);
+    const v2Id = await contract("TokenV2", V2, ["function transfer(address to, uint256 amount)", "function pause()"]);
+    upgradeTo(V1);
+    upgradeTo(V2);
+
+    const status = await refreshContractProxy({ id: proxyId });
+
+    expect(status).toMatchObject({
+      contractId: proxyId,
+      isProxy: true,
+      proxyType: "eip1967",
+      implementationAddress: V2,
+      implementationContractId: v2Id,
+      implementationName: "TokenV2",
+    });
+    expect(status.upgrades.map(({ implementationAddress, source }) => [implementationAddress, source])).toEqual([
+      [V2, "event"],
+      [V1, "event"],
+    ]);
+    const abi = await getContractAbi({ id: proxyId });
+    expect(abi.implementationContractId).toBe(v2Id);
+    expect(abi.functions.map((fn) => fn.name)).toEqual(["transfer", "pause", "upgradeTo"]);
+  });
+
+  it("records the slot when no event explains the implementation", async () => {
+    const address = "0x00000000000000000000000000000000000000A3";
+    chain.setStorageAt(address, EIP1967_IMPLEMENTATION_SLOT, V1);
+    const id = await contract("Silent Proxy", address, []);
+
+    await refreshContractProxy({ id });
+    // A second refresh finds nothing new.
+    const { upgrades } = await refreshContractProxy({ id });
+
+    expect(upgrades.map(({ implementationAddress, source }) => [implementationAddress, source])).toEqual([[V1, "slot"]]);
+  });
+
+  it("reports plain contracts as not proxies", async () => {
+    const id = await contract("Plain", "0x00000000000000000000000000000000000000A4", []);
+
+    expect(await refreshContractProxy({ id })).toMatchObject({ isProxy: false, upgrades: [] });
+    await expect(getContractProxy({ id: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,282 @@
+import { APIError, api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { contractInProject } from "./projects";
+import { getRpcClient } from "../chain/clients";
+import { ProxyType, UPGRADED_TOPIC, UpgradeEvent, detectProxy, parseUpgradedLog } from "../chain/proxy";
+import { RpcClient } from "../chain/rpc";
+
+// Proxy detection for registered contracts: links a proxy to the registered
+// contract at its implementation address and records its upgrade history.
+
+// --- Type Definitions ---
+
+export interface ContractUpgrade {
+  id: number;
+  implementationAddress: string;
+  implementationContractId?: number;
+  // event: an Upgraded log; slot: read from storage without a matching event.
+  source: "event" | "slot";
+  blockNumber: number;
+  transactionHash?: string;
+  logIndex?: number;
+  detectedAt: Date;
+}
+
+export interface ContractProxyStatus {
+  contractId: number;
+  isProxy: boolean;
+  proxyType?: ProxyType;
+  implementationAddress?: string;
+  // Registered contract at the implementation address; its ABI is used for calls and decoding.
+  implementationContractId?: number;
+  implementationName?: string;
+  admin?: string;
+  beacon?: string;
+  checkedAt?: Date;
+  // Newest first.
+  upgrades: ContractUpgrade[];
+}
+
+interface ProxyCandidate {
+  id: number;
+  address: string;
+  networkId: number;
+  upgradesScannedBlock: string | null;
+}
+
+// First scan for Upgraded events looks this far back from the head.
+const UPGRADE_LOOKBACK_BLOCKS = 100_000;
+// Block range per eth_getLogs request; providers commonly cap ranges around 10k.
+const LOG_CHUNK_BLOCKS = 10_000;
+// Non-proxies are re-checked this often, e.g. in case they were registered before initialization.
+const RECHECK_HOURS = 24;
+const CONTRACTS_PER_RUN = 50;
+
+// --- Helper Functions ---
+
+async function loadCandidate(id: number): Promise<ProxyCandidate | null> {
+  return blockchainDB.queryRow<ProxyCandidate>`
+    SELECT
+      id,
+      address,
+      network_id as "networkId",
+      upgrades_scanned_block::text as "upgradesScannedBlock"
+    FROM smart_contracts
+    WHERE id = ${id}
+  `;
+}
+
+async function scanUpgrades(client: RpcClient, emitter: string, fromBlock: bigint, toBlock: bigint): Promise<UpgradeEvent[]> {
+  const upgrades: UpgradeEvent[] = [];
+  for (let start = fromBlock; start <= toBlock; start += BigInt(LOG_CHUNK_BLOCKS)) {
+    const end = start + BigInt(LOG_CHUNK_BLOCKS - 1) < toBlock ? start + BigInt(LOG_CHUNK_BLOCKS - 1) : toBlock;
+    const logs = await client.getLogs({ address: emitter, topics: [UPGRADED_TOPIC], fromBlock: start, toBlock: end });
+    for (const entry of logs) {
+      const upgrade = entry.removed ? null : parseUpgradedLog(entry);
+      if (upgrade) upgrades.push(upgrade);
+    }
+  }
+  return upgrades;
+}
+
+// Reads the proxy slots at the current head, scans new Upgraded events and stores both.
+async function syncProxy(contract: ProxyCandidate): Promise<void> {
+  const client = await getRpcClient(contract.networkId);
+  const head = await client.blockNumber();
+  const info = await detectProxy(client, contract.address, head);
+
+  if (!info) {
+    await blockchainDB.exec`
+      UPDATE smart_contracts
+      SET
+        proxy_type = NULL,
+        implementation_address = NULL,
+        implementation_contract_id = NULL,
+        proxy_admin = NULL,
+        proxy_beacon = NULL,
+        proxy_checked_at = NOW()
+      WHERE id = ${contract.id}
+    `;
+    return;
+  }
+
+  const scannedThrough = contract.upgradesScannedBlock !== null ? BigInt(contract.upgradesScannedBlock) : null;
+  const fromBlock = scannedThrough !== null
+    ? scannedThrough + BigInt(1)
+    : head > BigInt(UPGRADE_LOOKBACK_BLOCKS) ? head - BigInt(UPGRADE_LOOKBACK_BLOCKS) : BigInt(0);
+  // Beacon proxies are upgraded by upgrading the beacon.
+  const upgrades = await scanUpgrades(client, info.beacon ?? contract.address, fromBlock, head);
+
+  const tx = await blockchainDB.begin();
+  try {
+    await tx.exec`
+      UPDATE smart_contracts
+      SET
+        proxy_type = ${info.type},
+        implementation_address = ${info.implementation},
+        implementation_contract_id = (
+          SELECT impl.id FROM smart_contracts impl
+          WHERE impl.network_id = ${contract.networkId}
+            AND LOWER(impl.address) = LOWER(${info.implementation})
+            AND impl.id <> ${contract.id}
+        ),
+        proxy_admin = ${info.admin ?? null},
+        proxy_beacon = ${info.beacon ?? null},
+        proxy_checked_at = NOW(),
+        upgrades_scanned_block = ${head}
+      WHERE id = ${contract.id}
+    `;
+    for (const upgrade of upgrades) {
+      await tx.exec`
+        INSERT INTO contract_upgrades (
+          proxy_contract_id, implementation_address, source, block_number, transaction_hash, log_index
+        )
+        VALUES (
+          ${contract.id}, ${upgrade.implementation}, 'event', ${upgrade.blockNumber},
+          ${upgrade.transactionHash}, ${upgrade.logIndex}
+        )
+        ON CONFLICT (proxy_contract_id, transaction_hash, log_index) DO NOTHING
+      `;
+    }
+    // Record the current implementation when no event explains it, e.g. it predates the lookback window.
+    await tx.exec`
+      INSERT INTO contract_upgrades (proxy_contract_id, implementation_address, source, block_number)
+      SELECT ${contract.id}, ${info.implementation}, 'slot', ${head}
+      WHERE NOT EXISTS (
+        SELECT 1 FROM (
+          SELECT implementation_address
+          FROM contract_upgrades
+          WHERE proxy_contract_id = ${contract.id}
+          ORDER BY block_number DESC, log_index DESC NULLS FIRST
+          LIMIT 1
+        ) latest
+        WHERE LOWER(latest.implementation_address) = LOWER(${info.implementation})
+      )
+    `;
+    // Implementations registered after an upgrade was recorded.
+    await tx.exec`
+      UPDATE contract_upgrades u
+      SET implementation_contract_id = impl.id
+      FROM smart_contracts impl
+      WHERE u.proxy_contract_id = ${contract.id}
+        AND u.implementation_contract_id IS NULL
+        AND impl.network_id = ${contract.networkId}
+        AND LOWER(impl.address) = LOWER(u.implementation_address)
+    `;
+    await tx.commit();
+  } catch (err) {
+    await tx.rollback();
+    throw err;
+  }
+}
+
+async function loadProxyStatus(id: number): Promise<ContractProxyStatus> {
+  const contract = await blockchainDB.queryRow<Omit<ContractProxyStatus, "isProxy" | "upgrades">>`
+    SELECT
+      sc.id as "contractId",
+      sc.proxy_type as "proxyType",
+      sc.implementation_address as "implementationAddress",
+      sc.implementation_contract_id as "implementationContractId",
+      impl.name as "implementationName",
+      sc.proxy_admin as "admin",
+      sc.proxy_beacon as "beacon",
+      sc.proxy_checked_at as "checkedAt"
+    FROM smart_contracts sc
+    LEFT JOIN smart_contracts impl ON impl.id = sc.implementation_contract_id
+    WHERE sc.id = ${id}
+  `;
+  if (!contract) {
+    throw APIError.notFound("Smart contract not found");
+  }
+  const upgrades = await blockchainDB.queryAll<ContractUpgrade>`
+    SELECT
+      id,
+      implementation_address as "implementationAddress",
+      implementation_contract_id as "implementationContractId",
+      source,
+      block_number as "blockNumber",
+      transaction_hash as "transactionHash",
+      log_index as "logIndex",
+      detected_at as "detectedAt"
+    FROM contract_upgrades
+    WHERE proxy_contract_id = ${id}
+    ORDER BY block_number DESC, log_index DESC NULLS FIRST
+    LIMIT 100
+  `;
+  return { ...contract, isProxy: contract.proxyType != null, upgrades };
+}
+
+// --- API Endpoints ---
+
+// Proxy type, current implementation and upgrade history of a contract
+export const getContractProxy = api<{ id: number }, ContractProxyStatus>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/proxy", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    return loadProxyStatus(id);
+  }
+);
+
+// Re-read the proxy slots of a contract and scan for new Upgraded events
+export const refreshContractProxy = api<{ id: number }, ContractProxyStatus>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts/:id/proxy/refresh", tags: ["scope:contracts:write"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const contract = await loadCandidate(id);
+    if (!contract) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    try {
+      await syncProxy(contract);
+    } catch (err) {
+      throw APIError.unavailable(`Proxy detection failed: ${(err as Error).message}`);
+    }
+    return loadProxyStatus(id);
+  }
+);
+
+// Check unchecked contracts and refresh known proxies (invoked by cron)
+export const refreshContractProxies = api<void, { checked: number }>(
+  { expose: false, method: "POST", path: "/blockchain/proxy-runner/run" },
+  async () => {
+    const contracts = await blockchainDB.queryAll<ProxyCandidate>`
+      SELECT
+        sc.id,
+        sc.address,
+        sc.network_id as "networkId",
+        sc.upgrades_scanned_block::text as "upgradesScannedBlock"
+      FROM smart_contracts sc
+      JOIN networks n ON n.id = sc.network_id
+      WHERE n.is_active = true
+        AND sc.archived_at IS NULL
+        AND (
+          sc.proxy_checked_at IS NULL
+          OR sc.proxy_type IS NOT NULL
+          OR sc.proxy_checked_at < NOW() - (${RECHECK_HOURS} * INTERVAL '1 hour')
+        )
+      ORDER BY sc.proxy_checked_at NULLS FIRST, sc.id
+      LIMIT ${CONTRACTS_PER_RUN}
+    `;
+    for (const contract of contracts) {
+      try {
+        await syncProxy(contract);
+      } catch (err) {
+        log.warn("proxy detection failed", { contractId: contract.id, error: (err as Error).message });
+      }
+    }
+    return { checked: contracts.length };
+  }
+);
+
+const _ = new CronJob("proxy-tracker", {
+  title: "Detect proxy contracts and track their upgrades",
+  every: "10m",
+  endpoint: refreshContractProxies,
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { blockchainDB } from "./db";
+import { ChainRegistryEntry, exportNetworks, importNetworks } from "./registry";
+
+beforeAll(() => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+function entry(chainId: number, overrides: Partial<ChainRegistryEntry> = {}): ChainRegistryEntry {
+  return {
+    name: `Chain ${chainId}`,
+    chainId,
+    rpc: [`https://rpc-${chainId}.example`],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    ...overrides,
+  };
+}
+
+describe("importNetworks", () => {
+  it("adds networks with extra RPCs as failover endpoints", async () => {
+    const result = await importNetworks({
+      chains: [
+        entry(3001, {
+          rpc: ["wss://ws-3001.example", "https://a-3001.example/${INFURA_API_KEY}", "https://a-3001.example", "https://b-3001.example"],
+          faucets: ["https://faucet.example"],
+        }),
+      ],
+    });
+
+    expect(result.added).toEqual([{ chainId: 3001, name: "Chain 3001", networkId: expect.any(Number) }]);
+    const network = await blockchainDB.queryRow<{ rpcUrl: string; isTestnet: boolean }>`
+      SELECT rpc_url as "rpcUrl", is_testnet as "isTestnet" FROM networks WHERE chain_id = 3001
+    `;
+    expect(network).toEqual({ rpcUrl: "https://a-3001.example", isTestnet: true });
+    const endpoints = await blockchainDB.queryAll<{ url: string }>`
+      SELECT url FROM network_rpc_endpoints WHERE network_id = ${result.added[0].networkId}
+    `;
+    expect(endpoints).toEqual([{ url: "https://b-3001.example" }]);
+  });
+
+  it("reports changes on a dry run without writing them", async () => {
+    await importNetworks({ chains: [entry(3002)] });
+
+    const result = await importNetworks({ chains: [entry(3002, { name: "Renamed 3002" })], dryRun: true });
+
+    expect(result.updated).toEqual([
+      { chainId: 3002, name: "Renamed 3002", networkId: expect.any(Number), changes: ["name"] },
+    ]);
+    const network = await blockchainDB.queryRow<{ name: string }>`SELECT name FROM networks WHERE chain_id = 3002`;
+    expect(network!.name).toBe("Chain 3002");
+  });
+
+  it("skips invalid, duplicate, unchanged and name-clashing entries", async () => {
+    await importNetworks({ chains: [entry(3003)] });
+
+    const result = await importNetworks({
+      chains: [
+        entry(3003),
+        entry(-1),
+        entry(3004, { rpc: ["wss://only-websocket.example"] }),
+        entry(3005, { nativeCurrency: { name: "Long", symbol: "LONGSYMBOL11", decimals: 18 } }),
+        entry(3006, { name: "Chain 3003" }),
+        entry(3007),
+        entry(3007),
+      ],
+    });
+
+    expect(result.added.map((added) => added.chainId)).toEqual([3007]);
+    expect(result.skipped.map(({ chainId, reason }) => [chainId, reason])).toEqual([
+      [3003, "Unchanged"],
+      [-1, "Invalid chainId"],
+      [3004, "No usable HTTP RPC URL (websocket and API-key templated URLs are ignored)"],
+      [3005, "Native currency symbol must be 1-10 characters"],
+      [3006, expect.stringMatching(/^Name is already used by network \d+$/)],
+      [3007, "Duplicate chainId in document"],
+    ]);
+  });
+});
+
+describe("exportNetworks", () => {
+  it("round-trips imported networks", async () => {
+    const imported = entry(3008, {
+      rpc: ["https://a-3008.example", "https://b-3008.example"],
+      explorers: [{ name: "scan.example", url: "https://scan.example", standard: "EIP3091" }],
+    });
+    await importNetworks({ chains: [imported] });
+
+    const { chains } = await exportNetworks();
+
+    expect(chains.find((chain) => chain.chainId === 3008)).toEqual({
+      ...imported,
+      nativeCurrency: { name: "ETH", symbol: "ETH", decimals: 18 },
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { api } from "encore.dev/api";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { AuditState } from "../audit/chain";
+import { auditChange, auditTarget } from "../audit/trail";
+
+// Import and export of networks in the chainlist.org `chains.json` format.
+
+// --- Type Definitions ---
+
+export interface ChainExplorer {
+  name: string;
+  url: string;
+  standard?: string;
+}
+
+export interface ChainNativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ChainRegistryEntry {
+  name: string;
+  chainId: number;
+  rpc: string[];
+  explorers?: ChainExplorer[];
+  nativeCurrency: ChainNativeCurrency;
+  faucets?: string[];
+  infoURL?: string;
+  shortName?: string;
+}
+
+export interface ImportNetworksRequest {
+  chains: ChainRegistryEntry[];
+  // Report what would change without writing anything.
+  dryRun?: boolean;
+}
+
+export interface ImportedNetwork {
+  chainId: number;
+  name: string;
+  networkId?: number;
+  // Fields that changed, for updated networks.
+  changes?: string[];
+}
+
+export interface SkippedNetwork {
+  chainId?: number;
+  name?: string;
+  reason: string;
+}
+
+export interface ImportNetworksResponse {
+  dryRun: boolean;
+  added: ImportedNetwork[];
+  updated: ImportedNetwork[];
+  skipped: SkippedNetwork[];
+}
+
+export interface ExportNetworksResponse {
+  chains: ChainRegistryEntry[];
+}
+
+interface ExistingNetwork {
+  id: number;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  nativeCurrency: string;
+  nativeCurrencyDecimals: number;
+  isTestnet: boolean;
+}
+
+// Network columns an import writes, derived from a registry entry.
+interface NetworkValues {
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  nativeCurrency: string;
+  nativeCurrencyDecimals: number;
+  isTestnet: boolean;
+  // Further usable RPC URLs, imported as failover endpoints.
+  extraRpcUrls: string[];
+}
+
+const MAX_CURRENCY_SYMBOL_LENGTH = 10;
+const TESTNET_NAME = /testnet|sepolia|goerli|holesky|mumbai|amoy|devnet/i;
+
+// --- Helper Functions ---
+
+// Registry RPC lists contain websocket URLs and templated URLs that need an API key.
+function isUsableRpcUrl(url: string): boolean {
+  return /^https?:\/\//.test(url) && !url.includes("${") && !url.includes("YOUR_");
+}
+
+function toNetworkValues(entry: ChainRegistryEntry): NetworkValues | string {
+  if (!entry.name || entry.name.length < 3 || entry.name.length > 64) {
+    return "Name must be between 3 and 64 characters";
+  }
+  const symbol = entry.nativeCurrency?.symbol;
+  if (!symbol || symbol.length > MAX_CURRENCY_SYMBOL_LENGTH) {
+    return `Native currency symbol must be 1-${MAX_CURRENCY_SYMBOL_LENGTH} characters`;
+  }
+  const decimals = entry.nativeCurrency.decimals ?? 18;
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    return "Native currency decimals must be between 0 and 36";
+  }
+  const rpcUrls = [...new Set((entry.rpc ?? []).filter(isUsableRpcUrl))];
+  if (rpcUrls.length === 0) {
+    return "No usable HTTP RPC URL (websocket and API-key templated URLs are ignored)";
+  }
+  return {
+    name: entry.name,
+    rpcUrl: rpcUrls[0],
+    explorerUrl: entry.explorers?.find((explorer) => /^https?:\/\//.test(explorer.url))?.url ?? null,
+    nativeCurrency: symbol,
+    nativeCurrencyDecimals: decimals,
+    isTestnet: (entry.faucets?.length ?? 0) > 0 || TESTNET_NAME.test(entry.name),
+    extraRpcUrls: rpcUrls.slice(1),
+  };
+}
+
+function changedFields(existing: ExistingNetwork, values: NetworkValues): string[] {
+  const changes: string[] = [];
+  if (existing.name !== values.name) changes.push("name");
+  // Keep a working RPC URL unless it is a placeholder the registry can replace.
+  if (!isUsableRpcUrl(existing.rpcUrl) && existing.rpcUrl !== values.rpcUrl) changes.push("rpcUrl");
+  if (values.explorerUrl && existing.explorerUrl !== values.explorerUrl) changes.push("explorerUrl");
+  if (existing.nativeCurrency !== values.nativeCurrency) changes.push("nativeCurrency");
+  if (existing.nativeCurrencyDecimals !== values.nativeCurrencyDecimals) changes.push("nativeCurrencyDecimals");
+  if (existing.isTestnet !== values.isTestnet) changes.push("isTestnet");
+  return changes;
+}
+
+// What an import changed, for the audit log; skipped entries are only counted.
+function importSummary(result: ImportNetworksResponse): AuditState {
+  return {
+    dryRun: result.dryRun,
+    added: result.added.map(({ chainId, networkId }) => ({ chainId, networkId })),
+    updated: result.updated.map(({ chainId, networkId, changes }) => ({ chainId, networkId, changes })),
+    skipped: result.skipped.length,
+  };
+}
+
+// --- API Endpoints ---
+
+// Upsert networks by chainId from a chainlist-style document
+export const importNetworks = api<ImportNetworksRequest, ImportNetworksResponse>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/registry/import", tags: ["scope:networks:write", "audit:network.import"] },
+  async ({ chains, dryRun = false }) => {
+    const projectId = callerProjectId();
+    auditTarget("project", projectId);
+    const existing = await blockchainDB.queryAll<ExistingNetwork>`
+      SELECT
+        id,
+        name,
+        chain_id as "chainId",
+        rpc_url as "rpcUrl",
+        explorer_url as "explorerUrl",
+        native_currency as "nativeCurrency",
+        native_currency_decimals as "nativeCurrencyDecimals",
+        is_testnet as "isTestnet"
+      FROM networks
+      WHERE project_id = ${projectId}
+    `;
+    const byChainId = new Map(existing.map((network) => [network.chainId, network]));
+    const idByName = new Map(existing.map((network) => [network.name, network.id]));
+
+    const result: ImportNetworksResponse = { dryRun, added: [], updated: [], skipped: [] };
+    const seen = new Set<number>();
+    const writes: { values: NetworkValues; chainId: number; network?: ExistingNetwork; changes: string[] }[] = [];
+
+    for (const entry of chains) {
+      if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+        result.skipped.push({ chainId: entry.chainId, name: entry.name, reason: "Invalid chainId" });
+        continue;
+      }
+      if (seen.has(entry.chainId)) {
+        result.skipped.push({ chainId: entry.chainId, name: entry.name, reason: "Duplicate chainId in document" });
+        continue;
+      }
+      seen.add(entry.chainId);
+
+      const values = toNetworkValues(entry);
+      if (typeof values === "string") {
+        result.skipped.push({ chainId: entry.chainId, name: entry.name, reason: values });
+        continue;
+      }
+
+      const network = byChainId.get(entry.chainId);
+      const nameOwner = idByName.get(values.name);
+      if (nameOwner !== undefined && nameOwner !== network?.id) {
+        result.skipped.push({
+          chainId: entry.chainId,
+          name: entry.name,
+          reason: nameOwner < 0
+            ? "Name is already used by another chain in the document"
+            : `Name is already used by network ${nameOwner}`,
+        });
+        continue;
+      }
+
+      if (!network) {
+        idByName.set(values.name, -entry.chainId);
+        result.added.push({ chainId: entry.chainId, name: values.name });
+        writes.push({ values, chainId: entry.chainId, changes: [] });
+        continue;
+      }
+
+      const changes = changedFields(network, values);
+      if (changes.length === 0) {
+        result.skipped.push({ chainId: entry.chainId, name: entry.name, reason: "Unchanged" });
+        continue;
+      }
+      if (changes.includes("name")) {
+        idByName.delete(network.name);
+        idByName.set(values.name, network.id);
+      }
+      result.updated.push({ chainId: entry.chainId, name: values.name, networkId: network.id, changes });
+      writes.push({ values, chainId: entry.chainId, network, changes });
+    }
+
+    if (dryRun || writes.length === 0) {
+      auditChange(null, importSummary(result));
+      return result;
+    }
+
+    const tx = await blockchainDB.begin();
+    try {
+      for (const { values, chainId, network, changes } of writes) {
+        let networkId: number;
+        if (network) {
+          networkId = network.id;
+          await tx.exec`
+            UPDATE networks SET
+              name = ${values.name},
+              rpc_url = ${changes.includes("rpcUrl") ? values.rpcUrl : network.rpcUrl},
+              explorer_url = ${values.explorerUrl ?? network.explorerUrl},
+              native_currency = ${values.nativeCurrency},
+              native_currency_decimals = ${values.nativeCurrencyDecimals},
+              is_testnet = ${values.isTestnet},
+              updated_at = NOW()
+            WHERE id = ${network.id}
+          `;
+        } else {
+          const row = await tx.queryRow<{ id: number }>`
+            INSERT INTO networks (
+              name, chain_id, rpc_url, explorer_url, native_currency, native_currency_decimals, is_testnet, project_id
+            )
+            VALUES (
+              ${values.name}, ${chainId}, ${values.rpcUrl}, ${values.explorerUrl},
+              ${values.nativeCurrency}, ${values.nativeCurrencyDecimals}, ${values.isTestnet}, ${projectId}
+            )
+            RETURNING id
+          `;
+          networkId = row!.id;
+          result.added.find((added) => added.chainId === chainId)!.networkId = networkId;
+        }
+
+        // Additional registry RPCs become lower-priority failover endpoints.
+        for (const [index, url] of values.extraRpcUrls.entries()) {
+          await tx.exec`
+            INSERT INTO network_rpc_endpoints (network_id, url, priority)
+            VALUES (${networkId}, ${url}, ${index + 1})
+            ON CONFLICT (network_id, url) DO NOTHING
+          `;
+        }
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    auditChange(null, importSummary(result));
+    return result;
+  }
+);
+
+// Export the project's networks as a chainlist-style document
+export const exportNetworks = api<void, ExportNetworksResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/registry/export", tags: ["scope:networks:read"] },
+  async () => {
+    const networks = await blockchainDB.queryAll<{
+      id: number;
+      name: string;
+      chainId: number;
+      rpcUrl: string;
+      explorerUrl: string | null;
+      nativeCurrency: string;
+      nativeCurrencyDecimals: number;
+      endpointUrls: string[];
+    }>`
+      SELECT
+        n.id,
+        n.name,
+        n.chain_id as "chainId",
+        n.rpc_url as "rpcUrl",
+        n.explorer_url as "explorerUrl",
+        n.native_currency as "nativeCurrency",
+        n.native_currency_decimals as "nativeCurrencyDecimals",
+        COALESCE(
+          ARRAY_AGG(e.url ORDER BY e.priority, e.id) FILTER (WHERE e.id IS NOT NULL),
+          ARRAY[]::TEXT[]
+        ) as "endpointUrls"
+      FROM networks n
+      LEFT JOIN network_rpc_endpoints e ON e.network_id = n.id AND e.is_active = true
+      WHERE n.project_id = ${callerProjectId()}
+      GROUP BY n.id
+      ORDER BY n.chain_id
+    `;
+
+    return {
+      chains: networks.map((network) => ({
+        name: network.name,
+        chainId: network.chainId,
+        rpc: [...new Set([network.rpcUrl, ...network.endpointUrls])],
+        explorers: network.explorerUrl
+          ? [{ name: new URL(network.explorerUrl).hostname, url: network.explorerUrl, standard: "EIP3091" }]
+          : [],
+        nativeCurrency: {
+          name: network.nativeCurrency,
+          symbol: network.nativeCurrency,
+          decimals: network.nativeCurrencyDecimals,
+        },
+      })),
+    };
+  }
+);
@@ -1,5 +1,15 @@
-import { api } from "encore.dev/api";
+import { APIError, api } from "encore.dev/api";
+import { createHash } from "node:crypto";
 import { blockchainDB } from "./db";
+import { parseAbiOrThrow } from "./abi";
+import { archiveContractRecord } from "./contract_archive";
+import { indexContractAbi } from "../chain/abi_index";
+import { recordContractVersion } from "../chain/contract_versions";
+import { getAuthData } from "~encore/auth";
+import { callerProjectId } from "../auth/tenancy";
+import { AuditState } from "../audit/chain";
+import { auditChange, auditTarget } from "../audit/trail";
+import { contractInProject, networkInProject } from "./projects";
 
 // Import a validation library (e.g., zod) for runtime validation
 import { z } from "zod";
@@ -18,6 +28,8 @@ export interface SmartContract {
   deployedAt: Date;
   deployedBy?: string;
   createdAt: Date;
+  // Set once archived; archived contracts are left out of listContracts by default.
+  archivedAt?: Date;
 }
 
 /** Request validation schemas **/
@@ -25,7 +37,7 @@ const CreateContractSchema = z.object({
   name: z.string().min(3).max(128),
   address: z.string().length(42).regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"), // Ethereum address
   networkId: z.number().int().positive(),
-  abi: z.string().min(2), // Could extend to validate ABI format
+  abi: z.string().min(2), // Parsed against the Solidity JSON ABI spec below
   bytecode: z.string().optional(),
   version: z.string().optional().default("1.0.0"),
   contractType: z.string().min(1).max(64),
@@ -36,7 +48,8 @@ const UpdateContractSchema = z.object({
   name: z.string().min(3).max(128).optional(),
   abi: z.string().min(2).optional(),
   version: z.string().optional(),
-  isVerified: z.boolean().optional(),
+  // Recorded in the version history when the ABI or version changes.
+  changedBy: z.string().optional(),
 });
 
 export type CreateContractRequest = z.infer<typeof CreateContractSchema>;
@@ -46,25 +59,19 @@ export interface ListContractsResponse {
   contracts: SmartContract[];
 }
 
-// Helper: Auth check (stub, replace with real logic)
-async function requireAuth(ctx: any) {
-  // Example: throw if not authenticated
-  // throw new Error("Unauthorized"); // Uncomment and implement for real use
+// Audited fields of a contract; the ABI is recorded by hash to keep entries small.
+function auditSnapshot(contract: { name: string; version?: string | null; abi: string }): AuditState {
+  return {
+    name: contract.name,
+    version: contract.version ?? null,
+    abiSha256: createHash("sha256").update(contract.abi).digest("hex"),
+  };
 }
 
-// Helper: Error response
-function errorResponse(code: number, message: string) {
-  const err = new Error(message);
-  // @ts-ignore
-  err.statusCode = code;
-  return err;
-}
-
-// List all smart contracts (with pagination)
-export const listContracts = api<{ page?: number; perPage?: number }, ListContractsResponse>(
-  { expose: true, method: "GET", path: "/blockchain/contracts" },
-  async ({ page = 1, perPage = 25 }, ctx) => {
-    // await requireAuth(ctx); // Uncomment for auth
+// List the project's smart contracts (with pagination); archived ones only when asked for
+export const listContracts = api<{ page?: number; perPage?: number; includeArchived?: boolean }, ListContractsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts", tags: ["scope:contracts:read"] },
+  async ({ page = 1, perPage = 25, includeArchived = false }) => {
     const offset = (page - 1) * perPage;
     const contracts = await blockchainDB.queryAll<SmartContract>`
       SELECT 
@@ -79,8 +86,11 @@ export const listContracts = api<{ page?: number; perPage?: number }, ListContra
         is_verified as "isVerified",
         deployed_at as "deployedAt",
         deployed_by as "deployedBy",
-        created_at as "createdAt"
+        created_at as "createdAt",
+        archived_at as "archivedAt"
       FROM smart_contracts 
+      WHERE project_id = ${callerProjectId()}
+        AND deleted_at IS NULL AND (${includeArchived} OR archived_at IS NULL)
       ORDER BY created_at DESC
       LIMIT ${perPage} OFFSET ${offset}
     `;
@@ -90,9 +100,8 @@ export const listContracts = api<{ page?: number; perPage?: number }, ListContra
 
 // Get a specific smart contract by ID
 export const getContract = api<{ id: number }, SmartContract>(
-  { expose: true, method: "GET", path: "/blockchain/contracts/:id" },
-  async ({ id }, ctx) => {
-    // await requireAuth(ctx);
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
     const contract = await blockchainDB.queryRow<SmartContract>`
       SELECT 
         id,
@@ -106,12 +115,13 @@ export const getContract = api<{ id: number }, SmartContract>(
         is_verified as "isVerified",
         deployed_at as "deployedAt",
         deployed_by as "deployedBy",
-        created_at as "createdAt"
+        created_at as "createdAt",
+        archived_at as "archivedAt"
       FROM smart_contracts 
-      WHERE id = ${id}
+      WHERE id = ${id} AND project_id = ${callerProjectId()} AND deleted_at IS NULL
     `;
     if (!contract) {
-      throw errorResponse(404, "Smart contract not found");
+      throw APIError.notFound("Smart contract not found");
     }
     return contract;
   }
@@ -119,69 +129,93 @@ export const getContract = api<{ id: number }, SmartContract>(
 
 // Create a new smart contract
 export const createContract = api<CreateContractRequest, SmartContract>(
-  { expose: true, method: "POST", path: "/blockchain/contracts" },
-  async (req, ctx) => {
-    // await requireAuth(ctx);
-
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts", tags: ["scope:contracts:write", "audit:contract.create"] },
+  async (req) => {
     // Validate request
     const parsed = CreateContractSchema.safeParse(req);
     if (!parsed.success) {
-      throw errorResponse(400, `Invalid input: ${parsed.error.message}`);
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
     }
     const input = parsed.data;
+    const abi = parseAbiOrThrow(input.abi);
+    const projectId = callerProjectId();
+    if (!(await networkInProject(input.networkId, projectId))) {
+      throw APIError.notFound("Network not found");
+    }
 
     // Check for duplicate address
-    const existing = await blockchainDB.queryRow<SmartContract>`
-      SELECT id FROM smart_contracts WHERE address = ${input.address}
+    const existing = await blockchainDB.queryRow<{ id: number; archivedAt: Date | null }>`
+      SELECT id, archived_at as "archivedAt" FROM smart_contracts
+      WHERE address = ${input.address} AND project_id = ${projectId}
     `;
     if (existing) {
-      throw errorResponse(409, "A contract with this address already exists");
+      throw APIError.alreadyExists(
+        existing.archivedAt
+          ? `An archived contract (#${existing.id}) with this address already exists`
+          : "A contract with this address already exists"
+      );
     }
 
-    const contract = await blockchainDB.queryRow<SmartContract>`
-      INSERT INTO smart_contracts (
-        name, address, network_id, abi, bytecode, version, contract_type, deployed_by
-      )
-      VALUES (
-        ${input.name}, 
-        ${input.address}, 
-        ${input.networkId}, 
-        ${input.abi}, 
-        ${input.bytecode || null}, 
-        ${input.version || '1.0.0'}, 
-        ${input.contractType}, 
-        ${input.deployedBy || null}
-      )
-      RETURNING 
-        id,
-        name,
-        address,
-        network_id as "networkId",
-        abi,
-        bytecode,
-        version,
-        contract_type as "contractType",
-        is_verified as "isVerified",
-        deployed_at as "deployedAt",
-        deployed_by as "deployedBy",
-        created_at as "createdAt"
-    `;
+    const tx = await blockchainDB.begin();
+    let contract: SmartContract | null;
+    try {
+      contract = await tx.queryRow<SmartContract>`
+        INSERT INTO smart_contracts (
+          name, address, network_id, abi, bytecode, version, contract_type, deployed_by, project_id
+        )
+        VALUES (
+          ${input.name}, 
+          ${input.address}, 
+          ${input.networkId}, 
+          ${input.abi}, 
+          ${input.bytecode || null}, 
+          ${input.version || '1.0.0'}, 
+          ${input.contractType}, 
+          ${input.deployedBy || null},
+          ${projectId}
+        )
+        RETURNING 
+          id,
+          name,
+          address,
+          network_id as "networkId",
+          abi,
+          bytecode,
+          version,
+          contract_type as "contractType",
+          is_verified as "isVerified",
+          deployed_at as "deployedAt",
+          deployed_by as "deployedBy",
+          created_at as "createdAt",
+        archived_at as "archivedAt"
+      `;
+      await recordContractVersion(tx, contract!.id, "create", input.deployedBy || null);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    await indexContractAbi(contract!.id, abi);
+    auditTarget("contract", contract!.id);
+    auditChange(null, { address: contract!.address, networkId: contract!.networkId, ...auditSnapshot(contract!) });
     return contract!;
   }
 );
 
 // Update an existing smart contract
 export const updateContract = api<{ id: number } & UpdateContractRequest, SmartContract>(
-  { expose: true, method: "PATCH", path: "/blockchain/contracts/:id" },
-  async ({ id, ...updates }, ctx) => {
-    // await requireAuth(ctx);
-
+  { expose: true, auth: true, method: "PATCH", path: "/blockchain/contracts/:id", tags: ["scope:contracts:write", "audit:contract.update"] },
+  async ({ id, ...updates }) => {
+    auditTarget("contract", id);
     // Validate request
     const parsed = UpdateContractSchema.safeParse(updates);
     if (!parsed.success) {
-      throw errorResponse(400, `Invalid update input: ${parsed.error.message}`);
+      throw APIError.invalidArgument(`Invalid update input: ${parsed.error.message}`);
     }
     const input = parsed.data;
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
 
     const setParts: string[] = [];
     const params: any[] = [];
@@ -191,6 +225,7 @@ export const updateContract = api<{ id: number } & UpdateContractRequest, SmartC
       setParts.push(`name = $${paramIndex++}`);
       params.push(input.name);
     }
+    const abi = input.abi !== undefined ? parseAbiOrThrow(input.abi) : undefined;
     if (input.abi !== undefined) {
       setParts.push(`abi = $${paramIndex++}`);
       params.push(input.abi);
@@ -199,19 +234,15 @@ export const updateContract = api<{ id: number } & UpdateContractRequest, SmartC
       setParts.push(`version = $${paramIndex++}`);
       params.push(input.version);
     }
-    if (input.isVerified !== undefined) {
-      setParts.push(`is_verified = $${paramIndex++}`);
-      params.push(input.isVerified);
-    }
 
     if (setParts.length === 0) {
-      throw errorResponse(400, "No fields to update");
+      throw APIError.invalidArgument("No fields to update");
     }
 
     const query = `
       UPDATE smart_contracts 
       SET ${setParts.join(', ')}, updated_at = NOW()
-      WHERE id = $${paramIndex}
+      WHERE id = $${paramIndex} AND archived_at IS NULL
       RETURNING 
         id,
         name,
@@ -224,32 +255,52 @@ export const updateContract = api<{ id: number } & UpdateContractRequest, SmartC
         is_verified as "isVerified",
         deployed_at as "deployedAt",
         deployed_by as "deployedBy",
-        created_at as "createdAt"
+        created_at as "createdAt",
+        archived_at as "archivedAt"
     `;
     params.push(id);
 
-    const contract = await blockchainDB.rawQueryRow<SmartContract>(query, ...params);
+    const before = await blockchainDB.queryRow<{ name: string; version: string | null; abi: string }>`
+      SELECT name, version, abi FROM smart_contracts WHERE id = ${id}
+    `;
+    const tx = await blockchainDB.begin();
+    let contract: SmartContract | null;
+    try {
+      contract = await tx.rawQueryRow<SmartContract>(query, ...params);
+      if (contract) {
+        await recordContractVersion(tx, contract.id, "update", input.changedBy ?? null);
+      }
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
     if (!contract) {
-      throw errorResponse(404, "Smart contract not found");
+      const archived = await blockchainDB.queryRow<{ id: number }>`
+        SELECT id FROM smart_contracts WHERE id = ${id} AND archived_at IS NOT NULL AND deleted_at IS NULL
+      `;
+      throw archived
+        ? APIError.failedPrecondition("Contract is archived; restore it before updating")
+        : APIError.notFound("Smart contract not found");
     }
+    if (abi) {
+      await indexContractAbi(contract.id, abi);
+    }
+    auditChange(before ? auditSnapshot(before) : null, auditSnapshot(contract));
     return contract;
   }
 );
 
-// Delete a smart contract (with integrity check stub)
-export const deleteContract = api<{ id: number }, void>(
-  { expose: true, method: "DELETE", path: "/blockchain/contracts/:id" },
-  async ({ id }, ctx) => {
-    // await requireAuth(ctx);
-
-    // Example: check for dependent records (stub, implement as needed)
-    // const deps = await blockchainDB.queryAll<any>`SELECT id FROM contract_usages WHERE contract_id = ${id}`;
-    // if (deps.length > 0) {
-    //   throw errorResponse(409, "Cannot delete contract with dependent records");
-    // }
-
-    await blockchainDB.exec`
-      DELETE FROM smart_contracts WHERE id = ${id}
-    `;
+// Soft-delete a smart contract. Refused while active tokens reference it unless
+// cascade is set, which archives them too; events and transactions are kept.
+export const deleteContract = api<{ id: number; cascade?: boolean }, void>(
+  { expose: true, auth: true, method: "DELETE", path: "/blockchain/contracts/:id", tags: ["scope:contracts:delete", "audit:contract.delete"] },
+  async ({ id, cascade = false }) => {
+    auditTarget("contract", id);
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const archived = await archiveContractRecord(id, { cascade, archivedBy: getAuthData()!.userID, softDelete: true });
+    auditChange({ deleted: false }, { deleted: true, archivedTokenIds: archived.archivedTokenIds });
   }
 );
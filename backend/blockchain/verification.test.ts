@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { bundledCompilerVersion, compileStandardJson, StandardJsonInput } from "../chain/solc";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { blockchainDB } from "./db";
+import { getContractSource, getVerification, listVerifications, verifyContract } from "./verification";
+
+const SOURCE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract Counter {
+    uint256 public count;
+
+    function increment() external {
+        count += 1;
+    }
+}
+`;
+const input: StandardJsonInput = {
+  language: "Solidity",
+  sources: { "src/Counter.sol": { content: SOURCE } },
+  settings: { optimizer: { enabled: true, runs: 200 } },
+};
+
+const chain = new FakeChain({ chainId: 9101 });
+let networkId: number;
+
+async function createContract(address: string): Promise<number> {
+  const contract = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+    VALUES ('Counter', ${address}, ${networkId}, '[]', 'custom', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return contract!.id;
+}
+
+// Verification runs after the response; wait for the job to finish.
+async function settled(id: number) {
+  return vi.waitFor(
+    async () => {
+      const verification = await getVerification({ id });
+      if (verification.status === "pending" || verification.status === "running") {
+        throw new Error(`verification ${id} is ${verification.status}`);
+      }
+      return verification;
+    },
+    { timeout: 25_000, interval: 100 }
+  );
+}
+
+beforeAll(async () => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+  setTransportFactory(() => chain);
+  const network = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9101', 9101, 'http://node-9101', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  resetTransportFactory();
+  await closeDatabases();
+});
+
+describe("source verification", () => {
+  it("verifies sources that compile to the deployed code", async () => {
+    const address = "0x00000000000000000000000000000000000000a1";
+    chain.setCode(address, `0x${compileStandardJson(input, "Counter").runtimeBytecode}`);
+    const id = await createContract(address);
+
+    const submitted = await verifyContract({ id, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input });
+    expect(submitted).toMatchObject({ contractId: id, status: "pending" });
+
+    expect(await settled(submitted.id)).toMatchObject({
+      status: "verified",
+      matchType: "full",
+      contractName: "src/Counter.sol:Counter",
+    });
+    const source = await getContractSource({ id });
+    expect(source.sources).toEqual(input.sources);
+    expect(source.settings).toEqual(input.settings);
+    const contract = await blockchainDB.queryRow<{ isVerified: boolean }>`
+      SELECT is_verified as "isVerified" FROM smart_contracts WHERE id = ${id}
+    `;
+    expect(contract!.isVerified).toBe(true);
+  });
+
+  it("fails when the deployed code differs or is missing", async () => {
+    const other = "0x00000000000000000000000000000000000000a2";
+    chain.setCode(other, "0x6080604052");
+    const mismatched = await createContract(other);
+    const empty = await createContract("0x00000000000000000000000000000000000000a3");
+
+    const first = await verifyContract({ id: mismatched, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input });
+    expect(await settled(first.id)).toMatchObject({
+      status: "failed",
+      errorMessage: "Compiled runtime bytecode does not match the deployed code",
+    });
+    const second = await verifyContract({ id: empty, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input });
+    expect(await settled(second.id)).toMatchObject({
+      status: "failed",
+      errorMessage: "No code deployed at 0x00000000000000000000000000000000000000a3",
+    });
+    expect((await listVerifications({ id: empty })).verifications).toHaveLength(1);
+  });
+
+  it("reports compiler errors on the job", async () => {
+    const id = await createContract("0x00000000000000000000000000000000000000a4");
+    const broken = { ...input, sources: { "src/Counter.sol": { content: SOURCE.replace("count += 1;", "count += ;") } } };
+
+    const submitted = await verifyContract({ id, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input: broken });
+
+    const verification = await settled(submitted.id);
+    expect(verification.status).toBe("failed");
+    expect(verification.errorMessage).toMatch(/^Compilation failed: .*ParserError/s);
+  });
+
+  it("rejects other compilers and non-Solidity input up front", async () => {
+    const id = await createContract("0x00000000000000000000000000000000000000a5");
+
+    await expect(verifyContract({ id, compilerVersion: "0.4.24", contractName: "Counter", input })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(
+      verifyContract({ id, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input: { ...input, language: "Vyper" } })
+    ).rejects.toMatchObject({ code: "invalid_argument", message: "Only Solidity is supported, got Vyper" });
+    await expect(
+      verifyContract({ id: 9999, compilerVersion: bundledCompilerVersion(), contractName: "Counter", input })
+    ).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,319 @@
+import { APIError, api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { blockchainDB } from "./db";
+import { callerProjectId } from "../auth/tenancy";
+import { contractInProject } from "./projects";
+import { getRpcClient } from "../chain/clients";
+import {
+  CompilationError,
+  StandardJsonInput,
+  StandardJsonSource,
+  bundledCompilerVersion,
+  compareRuntimeBytecode,
+  compileStandardJson,
+  isBundledCompiler,
+} from "../chain/solc";
+
+// --- Type Definitions ---
+
+export type VerificationStatus = "pending" | "running" | "verified" | "failed";
+
+export interface ContractVerification {
+  id: number;
+  contractId: number;
+  status: VerificationStatus;
+  compilerVersion: string;
+  contractName: string;
+  matchType?: "full" | "partial";
+  errorMessage?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface ContractVerificationDetail extends ContractVerification {
+  language: string;
+  sources: Record<string, StandardJsonSource>;
+  settings: Record<string, any>;
+}
+
+export interface VerifyContractRequest {
+  id: number;
+  compilerVersion: string;
+  // "Name", or "path/To.sol:Name" when the name is not unique across sources.
+  contractName: string;
+  input: StandardJsonInput;
+}
+
+export interface ListVerificationsResponse {
+  verifications: ContractVerification[];
+  // The solc-js version available for verification.
+  bundledCompilerVersion: string;
+}
+
+// Jobs left pending (e.g. by a restart) are picked up by the cron runner after this delay.
+const STALE_PENDING_SECONDS = 60;
+// Running jobs older than this are assumed to have died with their process.
+const STALE_RUNNING_MINUTES = 15;
+
+const VERIFICATION_FIELDS = `
+  id,
+  contract_id as "contractId",
+  status,
+  compiler_version as "compilerVersion",
+  contract_name as "contractName",
+  match_type as "matchType",
+  error_message as "errorMessage",
+  created_at as "createdAt",
+  started_at as "startedAt",
+  completed_at as "completedAt"
+`;
+
+// --- Helper Functions ---
+
+// The JSONB columns are selected as text and parsed here.
+function parseDetailRow(row: any): ContractVerificationDetail {
+  return { ...row, sources: JSON.parse(row.sources), settings: JSON.parse(row.settings) };
+}
+
+function validateInput(input: StandardJsonInput) {
+  if (!input || typeof input !== "object") {
+    throw APIError.invalidArgument("input must be a Solidity standard-JSON input object");
+  }
+  if (input.language !== "Solidity") {
+    throw APIError.invalidArgument(`Only Solidity is supported, got ${input.language}`);
+  }
+  const sources = Object.entries(input.sources ?? {});
+  if (sources.length === 0) {
+    throw APIError.invalidArgument("input.sources is empty");
+  }
+  for (const [name, source] of sources) {
+    if (typeof source?.content !== "string") {
+      throw APIError.invalidArgument(`Source ${name} must have inline content`);
+    }
+  }
+}
+
+async function finishVerification(id: number, status: "verified" | "failed", fields: { matchType?: string; error?: string; contractName?: string }) {
+  await blockchainDB.exec`
+    UPDATE contract_verifications
+    SET
+      status = ${status},
+      match_type = ${fields.matchType ?? null},
+      error_message = ${fields.error ?? null},
+      contract_name = COALESCE(${fields.contractName ?? null}, contract_name),
+      completed_at = NOW()
+    WHERE id = ${id}
+  `;
+}
+
+// Claims a pending job, compiles it and compares against eth_getCode.
+async function runVerification(id: number): Promise<void> {
+  const job = await blockchainDB.queryRow<{
+    contractId: number;
+    contractName: string;
+    language: string;
+    sources: string;
+    settings: string;
+    address: string;
+    networkId: number;
+  }>`
+    UPDATE contract_verifications v
+    SET status = 'running', started_at = NOW()
+    FROM smart_contracts sc
+    WHERE v.id = ${id} AND v.status = 'pending' AND sc.id = v.contract_id
+    RETURNING
+      v.contract_id as "contractId",
+      v.contract_name as "contractName",
+      v.language,
+      v.sources::text,
+      v.settings::text,
+      sc.address,
+      sc.network_id as "networkId"
+  `;
+  if (!job) return;
+
+  try {
+    const compiled = compileStandardJson(
+      { language: job.language, sources: JSON.parse(job.sources), settings: JSON.parse(job.settings) },
+      job.contractName
+    );
+    const contractName = `${compiled.sourceName}:${compiled.contractName}`;
+
+    const client = await getRpcClient(job.networkId);
+    const code = await client.getCode(job.address);
+    if (code === "0x") {
+      await finishVerification(id, "failed", { contractName, error: `No code deployed at ${job.address}` });
+      return;
+    }
+
+    const match = compareRuntimeBytecode(compiled, code);
+    if (!match) {
+      await finishVerification(id, "failed", {
+        contractName,
+        error: "Compiled runtime bytecode does not match the deployed code",
+      });
+      return;
+    }
+
+    const tx = await blockchainDB.begin();
+    try {
+      await tx.exec`
+        UPDATE contract_verifications
+        SET status = 'verified', match_type = ${match}, contract_name = ${contractName}, completed_at = NOW()
+        WHERE id = ${id}
+      `;
+      await tx.exec`
+        UPDATE smart_contracts SET is_verified = true, updated_at = NOW() WHERE id = ${job.contractId}
+      `;
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+  } catch (err) {
+    const message = err instanceof CompilationError ? err.message : `Verification failed: ${(err as Error).message}`;
+    await finishVerification(id, "failed", { error: message });
+  }
+}
+
+function scheduleVerification(id: number) {
+  // Compilation is CPU-bound; start it after the response has been sent.
+  setImmediate(() => {
+    runVerification(id).catch((err) => {
+      log.error("contract verification crashed", { verificationId: id, error: (err as Error).message });
+    });
+  });
+}
+
+// --- API Endpoints ---
+
+// Submit Solidity standard-JSON input for verification against the deployed bytecode
+export const verifyContract = api<VerifyContractRequest, ContractVerification>(
+  { expose: true, auth: true, method: "POST", path: "/blockchain/contracts/:id/verifications", tags: ["scope:contracts:write"] },
+  async ({ id, compilerVersion, contractName, input }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    if (!isBundledCompiler(compilerVersion)) {
+      throw APIError.invalidArgument(
+        `Compiler ${compilerVersion} is not available; only the bundled solc ${bundledCompilerVersion()} can be used`
+      );
+    }
+    if (!contractName) {
+      throw APIError.invalidArgument("contractName is required");
+    }
+    validateInput(input);
+
+    const contract = await blockchainDB.queryRow<{ id: number }>`
+      SELECT id FROM smart_contracts WHERE id = ${id}
+    `;
+    if (!contract) {
+      throw APIError.notFound("Smart contract not found");
+    }
+
+    const verification = await blockchainDB.rawQueryRow<ContractVerification>(
+      `
+        INSERT INTO contract_verifications (contract_id, compiler_version, contract_name, language, sources, settings)
+        VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb)
+        RETURNING ${VERIFICATION_FIELDS}
+      `,
+      id,
+      bundledCompilerVersion(),
+      contractName,
+      input.language,
+      JSON.stringify(input.sources),
+      JSON.stringify(input.settings ?? {})
+    );
+    scheduleVerification(verification!.id);
+    return verification!;
+  }
+);
+
+// Verification attempts of a contract, newest first
+export const listVerifications = api<{ id: number }, ListVerificationsResponse>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/verifications", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const verifications = await blockchainDB.rawQueryAll<ContractVerification>(
+      `SELECT ${VERIFICATION_FIELDS} FROM contract_verifications WHERE contract_id = $1 ORDER BY created_at DESC LIMIT 50`,
+      id
+    );
+    return { verifications, bundledCompilerVersion: bundledCompilerVersion() };
+  }
+);
+
+// A verification attempt with its sources and compiler settings
+export const getVerification = api<{ id: number }, ContractVerificationDetail>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/verifications/:id", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    const row = await blockchainDB.rawQueryRow(
+      `
+        SELECT ${VERIFICATION_FIELDS}, language, sources::text, settings::text
+        FROM contract_verifications
+        WHERE id = $1 AND contract_id IN (SELECT id FROM smart_contracts WHERE project_id = $2)
+      `,
+      id,
+      callerProjectId()
+    );
+    if (!row) {
+      throw APIError.notFound("Verification not found");
+    }
+    return parseDetailRow(row);
+  }
+);
+
+// Verified sources of a contract: the latest successful verification
+export const getContractSource = api<{ id: number }, ContractVerificationDetail>(
+  { expose: true, auth: true, method: "GET", path: "/blockchain/contracts/:id/source", tags: ["scope:contracts:read"] },
+  async ({ id }) => {
+    if (!(await contractInProject(id, callerProjectId()))) {
+      throw APIError.notFound("Smart contract not found");
+    }
+    const row = await blockchainDB.rawQueryRow(
+      `
+        SELECT ${VERIFICATION_FIELDS}, language, sources::text, settings::text
+        FROM contract_verifications
+        WHERE contract_id = $1 AND status = 'verified'
+        ORDER BY completed_at DESC
+        LIMIT 1
+      `,
+      id
+    );
+    if (!row) {
+      throw APIError.notFound("Contract has no verified source");
+    }
+    return parseDetailRow(row);
+  }
+);
+
+// Run verifications left behind by restarts; one at a time to bound CPU use
+export const runPendingVerifications = api<void, { processed: number }>(
+  { expose: false, method: "POST", path: "/blockchain/verification-runner/run" },
+  async () => {
+    await blockchainDB.exec`
+      UPDATE contract_verifications
+      SET status = 'pending', started_at = NULL
+      WHERE status = 'running' AND started_at < NOW() - (${STALE_RUNNING_MINUTES} * INTERVAL '1 minute')
+    `;
+    const pending = await blockchainDB.queryAll<{ id: number }>`
+      SELECT id FROM contract_verifications
+      WHERE status = 'pending' AND created_at < NOW() - (${STALE_PENDING_SECONDS} * INTERVAL '1 second')
+      ORDER BY created_at
+      LIMIT 10
+    `;
+    for (const { id } of pending) {
+      await runVerification(id);
+    }
+    return { processed: pending.length };
+  }
+);
+
+const _ = new CronJob("contract-verification", {
+  title: "Run pending contract source verifications",
+  every: "5m",
+  endpoint: runPendingVerifications,
+});
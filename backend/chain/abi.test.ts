@@ -0,0 +1,175 @@
+import { Interface } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  AbiCallError,
+  AbiValidationError,
+  decodeFunctionResult,
+  describeRevert,
+  encodeFunctionCall,
+  parseAbi,
+  resolveFunction,
+} from "./abi";
+
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const ERC20_ABI = JSON.stringify([
+  { type: "constructor", inputs: [{ name: "supply", type: "uint256" }], stateMutability: "payable" },
+  {
+    type: "function",
+    name: "transfer",
+    inputs: [{ name: "to", type: "address" }, { name: "amount", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+  },
+  // Legacy entry: no type and `constant` instead of stateMutability.
+  { name: "balanceOf", constant: true, inputs: [{ name: "owner", type: "address" }], outputs: [{ name: "", type: "uint256" }] },
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256" },
+    ],
+  },
+  { type: "error", name: "InsufficientBalance", inputs: [{ name: "needed", type: "uint256" }] },
+  { type: "receive", stateMutability: "payable" },
+]);
+
+function issuesOf(json: string): string[] {
+  try {
+    parseAbi(json);
+  } catch (err) {
+    if (err instanceof AbiValidationError) return err.issues;
+    throw err;
+  }
+  throw new Error("ABI was accepted");
+}
+
+describe("parseAbi", () => {
+  it("computes selectors and topics", () => {
+    const abi = parseAbi(ERC20_ABI);
+
+    expect(abi.functions.map(({ signature, selector, stateMutability }) => [signature, selector, stateMutability])).toEqual([
+      ["transfer(address,uint256)", "0xa9059cbb", "nonpayable"],
+      ["balanceOf(address)", "0x70a08231", "view"],
+    ]);
+    expect(abi.events).toMatchObject([{ signature: "Transfer(address,address,uint256)", topic0: TRANSFER_TOPIC }]);
+    expect(abi.errors).toMatchObject([{ signature: "InsufficientBalance(uint256)" }]);
+    expect(abi).toMatchObject({ payableConstructor: true, hasReceive: true, hasFallback: false });
+    expect(abi.constructorInputs).toEqual([{ name: "supply", type: "uint256" }]);
+  });
+
+  it("expands tuple components in signatures", () => {
+    const abi = parseAbi(JSON.stringify([
+      {
+        type: "function",
+        name: "submit",
+        inputs: [{ name: "order", type: "tuple[]", components: [{ name: "id", type: "uint64" }, { name: "maker", type: "address" }] }],
+        outputs: [],
+        stateMutability: "nonpayable",
+      },
+    ]));
+
+    expect(abi.functions[0].signature).toBe("submit((uint64,address)[])");
+  });
+
+  it("rejects documents that are not a JSON array", () => {
+    expect(issuesOf("{")).toEqual([expect.stringMatching(/^Not valid JSON/)]);
+    expect(issuesOf('{"type":"function"}')).toEqual(["ABI must be a JSON array"]);
+  });
+
+  it("lists every spec violation", () => {
+    const issues = issuesOf(JSON.stringify([
+      { type: "function", name: "a", inputs: [{ name: "x", type: "uint7" }], outputs: [] },
+      { type: "function", name: "b", inputs: [{ name: "t", type: "tuple" }], outputs: [] },
+    ]));
+
+    expect(issues).toEqual([
+      "[0.inputs.0.type] Unknown Solidity type",
+      "[1.inputs.0] Tuple parameters need components",
+    ]);
+  });
+
+  it("rejects duplicates, extra constructors and over-indexed events", () => {
+    const transfer = { type: "function", name: "transfer", inputs: [{ name: "to", type: "address" }], outputs: [] };
+    const issues = issuesOf(JSON.stringify([
+      transfer,
+      { ...transfer, inputs: [{ name: "recipient", type: "address" }] },
+      { type: "constructor", inputs: [] },
+      { type: "constructor", inputs: [] },
+      {
+        type: "event",
+        name: "Wide",
+        inputs: ["a", "b", "c", "d"].map((name) => ({ name, type: "uint256", indexed: true })),
+      },
+    ]));
+
+    expect(issues).toEqual([
+      "At most one constructor is allowed",
+      "[4] Event Wide has 4 indexed inputs; at most 3 are allowed",
+      "Duplicate function transfer(address)",
+    ]);
+  });
+});
+
+describe("function calls", () => {
+  const iface = new Interface([
+    "function transfer(address to, uint256 amount) returns (bool)",
+    "function mint(uint256 amount)",
+    "function mint(address to, uint256 amount)",
+    "function configure((uint64 id, bool enabled)[] settings)",
+    "function position(uint256 id) view returns ((uint256 amount, address owner) position, uint8)",
+    "error InsufficientBalance(uint256 needed, uint256 available)",
+  ]);
+
+  it("resolves functions by name or by signature when overloaded", () => {
+    expect(resolveFunction(iface, "transfer").format("sighash")).toBe("transfer(address,uint256)");
+    expect(resolveFunction(iface, "mint(uint256)").inputs).toHaveLength(1);
+    expect(() => resolveFunction(iface, "mint")).toThrow(
+      "Function mint is overloaded; use one of mint(uint256), mint(address,uint256)"
+    );
+    expect(() => resolveFunction(iface, "burn")).toThrow(AbiCallError);
+  });
+
+  it("encodes form input strings", () => {
+    const fn = resolveFunction(iface, "configure");
+
+    const data = encodeFunctionCall(iface, fn, ['[{"id":"7","enabled":"true"}]']);
+
+    expect(iface.decodeFunctionData(fn, data)[0].map((setting: any) => [...setting])).toEqual([[BigInt(7), true]]);
+  });
+
+  it("reports argument problems by path", () => {
+    const configure = resolveFunction(iface, "configure");
+    expect(() => encodeFunctionCall(iface, configure, [[{ id: 1, enabled: "yes" }]])).toThrow(
+      "settings[0].enabled: expected true or false"
+    );
+    const transfer = resolveFunction(iface, "transfer");
+    expect(() => encodeFunctionCall(iface, transfer, ["0x00000000000000000000000000000000000000a1"])).toThrow(
+      "transfer(address,uint256) takes 2 argument(s), got 1"
+    );
+    expect(() => encodeFunctionCall(iface, transfer, ["0x00000000000000000000000000000000000000a1", ""])).toThrow(
+      "amount: missing value"
+    );
+  });
+
+  it("decodes results into JSON-safe values", () => {
+    const fn = resolveFunction(iface, "position");
+    const owner = "0x00000000000000000000000000000000000000A1";
+    const data = iface.encodeFunctionResult(fn, [[BigInt(10) ** BigInt(20), owner], 3]);
+
+    expect(decodeFunctionResult(iface, fn, data)).toEqual([
+      { name: "position", type: "(uint256,address)", value: { amount: "100000000000000000000", owner } },
+      { name: "", type: "uint8", value: "3" },
+    ]);
+  });
+
+  it("describes custom errors and unknown revert data", () => {
+    const data = iface.encodeErrorResult("InsufficientBalance", [5, 2]);
+
+    expect(describeRevert(iface, data)).toBe('InsufficientBalance("5", "2")');
+    expect(describeRevert(iface, "0x")).toBe("execution reverted");
+    expect(describeRevert(iface, "0xdeadbeef")).toBe("execution reverted with data 0xdeadbeef");
+  });
+});
@@ -0,0 +1,396 @@
+import { ConstructorFragment, ErrorFragment, EventFragment, FunctionFragment, Interface, ParamType } from "ethers";
+import { z } from "zod";
+
+// Parsing and validation of Solidity JSON ABIs, following
+// https://docs.soliditylang.org/en/latest/abi-spec.html#json
+
+export interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  // Only present on event inputs.
+  indexed?: boolean;
+  // Only present on tuple types.
+  components?: AbiParam[];
+}
+
+export type StateMutability = "pure" | "view" | "nonpayable" | "payable";
+
+export interface AbiFunction {
+  name: string;
+  // Canonical signature, e.g. "transfer(address,uint256)".
+  signature: string;
+  // First 4 bytes of keccak-256(signature).
+  selector: string;
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+  stateMutability: StateMutability;
+}
+
+export interface AbiEvent {
+  name: string;
+  signature: string;
+  // keccak-256(signature); not emitted as a topic when the event is anonymous.
+  topic0: string;
+  inputs: AbiParam[];
+  anonymous: boolean;
+}
+
+export interface AbiError {
+  name: string;
+  signature: string;
+  selector: string;
+  inputs: AbiParam[];
+}
+
+export interface ParsedAbi {
+  functions: AbiFunction[];
+  events: AbiEvent[];
+  errors: AbiError[];
+  constructorInputs: AbiParam[];
+  payableConstructor: boolean;
+  hasFallback: boolean;
+  hasReceive: boolean;
+}
+
+export class AbiValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid ABI: ${issues.join("; ")}`);
+    this.name = "AbiValidationError";
+  }
+}
+
+// --- Spec schema ---
+
+const INTEGER_SIZE = "(?:8|16|24|32|40|48|56|64|72|80|88|96|104|112|120|128|136|144|152|160|168|176|184|192|200|208|216|224|232|240|248|256)";
+const FIXED_DECIMALS = "(?:[1-9]|[1-7][0-9]|80)";
+const ELEMENTARY_TYPE = new RegExp(
+  "^(?:" +
+    [
+      `u?int${INTEGER_SIZE}?`,
+      "address",
+      "bool",
+      "string",
+      "function",
+      "bytes(?:[1-9]|[12][0-9]|3[0-2])?",
+      `u?fixed(?:${INTEGER_SIZE}x${FIXED_DECIMALS})?`,
+      "tuple",
+    ].join("|") +
+    ")(?:\\[[1-9][0-9]*\\]|\\[\\])*$"
+);
+
+const AbiParamSchema: z.ZodType<AbiParam> = z.lazy(() =>
+  z
+    .object({
+      name: z.string(),
+      type: z.string().regex(ELEMENTARY_TYPE, "Unknown Solidity type"),
+      internalType: z.string().optional(),
+      indexed: z.boolean().optional(),
+      components: z.array(AbiParamSchema).optional(),
+    })
+    .refine((param) => !param.type.startsWith("tuple") || param.components !== undefined, {
+      message: "Tuple parameters need components",
+    })
+);
+
+const StateMutabilitySchema = z.enum(["pure", "view", "nonpayable", "payable"]);
+
+const AbiEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("function"),
+    name: z.string().min(1),
+    inputs: z.array(AbiParamSchema).default([]),
+    outputs: z.array(AbiParamSchema).default([]),
+    stateMutability: StateMutabilitySchema.optional(),
+    // Pre-0.4.16 compilers emitted these instead of stateMutability.
+    constant: z.boolean().optional(),
+    payable: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("constructor"),
+    inputs: z.array(AbiParamSchema).default([]),
+    stateMutability: z.enum(["nonpayable", "payable"]).optional(),
+    payable: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("receive"),
+    stateMutability: z.literal("payable"),
+  }),
+  z.object({
+    type: z.literal("fallback"),
+    stateMutability: z.enum(["nonpayable", "payable"]).optional(),
+    payable: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal("event"),
+    name: z.string().min(1),
+    inputs: z.array(AbiParamSchema).default([]),
+    anonymous: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal("error"),
+    name: z.string().min(1),
+    inputs: z.array(AbiParamSchema).default([]),
+  }),
+]);
+
+// --- Helpers ---
+
+function legacyMutability(entry: { constant?: boolean; payable?: boolean }): StateMutability {
+  if (entry.constant) return "view";
+  return entry.payable ? "payable" : "nonpayable";
+}
+
+// --- Parsing ---
+
+// Parses a JSON ABI string, validating it against the spec and computing selectors.
+// Throws AbiValidationError listing every problem found.
+export function parseAbi(json: string): ParsedAbi {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new AbiValidationError([`Not valid JSON: ${(err as Error).message}`]);
+  }
+  if (!Array.isArray(raw)) {
+    throw new AbiValidationError(["ABI must be a JSON array"]);
+  }
+
+  // `type` may be omitted and then defaults to "function".
+  const withTypes = raw.map((entry) =>
+    entry && typeof entry === "object" && !("type" in entry) ? { ...entry, type: "function" } : entry
+  );
+  const parsed = z.array(AbiEntrySchema).safeParse(withTypes);
+  if (!parsed.success) {
+    throw new AbiValidationError(
+      parsed.error.issues.map((issue) => `[${issue.path.join(".")}] ${issue.message}`)
+    );
+  }
+  const entries = parsed.data;
+
+  const issues: string[] = [];
+  const count = (type: string) => entries.filter((entry) => entry.type === type).length;
+  for (const type of ["constructor", "receive", "fallback"]) {
+    if (count(type) > 1) issues.push(`At most one ${type} is allowed`);
+  }
+  entries.forEach((entry, index) => {
+    if (entry.type !== "event") return;
+    const indexed = entry.inputs.filter((input) => input.indexed).length;
+    const limit = entry.anonymous ? 4 : 3;
+    if (indexed > limit) {
+      issues.push(`[${index}] Event ${entry.name} has ${indexed} indexed inputs; at most ${limit} are allowed`);
+    }
+  });
+
+  const signatures = new Set<string>();
+  const result: ParsedAbi = {
+    functions: [],
+    events: [],
+    errors: [],
+    constructorInputs: [],
+    payableConstructor: false,
+    hasFallback: false,
+    hasReceive: false,
+  };
+
+  const track = (kind: string, signature: string) => {
+    const key = `${kind}:${signature}`;
+    if (signatures.has(key)) issues.push(`Duplicate ${kind} ${signature}`);
+    signatures.add(key);
+  };
+
+  entries.forEach((entry, index) => {
+    try {
+      if (entry.type === "function") {
+        const stateMutability = entry.stateMutability ?? legacyMutability(entry);
+        const fragment = FunctionFragment.from({ ...entry, stateMutability });
+        const signature = fragment.format("sighash");
+        track("function", signature);
+        result.functions.push({
+          name: entry.name,
+          signature,
+          selector: fragment.selector,
+          inputs: entry.inputs,
+          outputs: entry.outputs,
+          stateMutability,
+        });
+      } else if (entry.type === "event") {
+        const fragment = EventFragment.from(entry);
+        const signature = fragment.format("sighash");
+        track("event", signature);
+        result.events.push({
+          name: entry.name,
+          signature,
+          topic0: fragment.topicHash,
+          inputs: entry.inputs,
+          anonymous: entry.anonymous,
+        });
+      } else if (entry.type === "error") {
+        const fragment = ErrorFragment.from(entry);
+        const signature = fragment.format("sighash");
+        track("error", signature);
+        result.errors.push({
+          name: entry.name,
+          signature,
+          selector: fragment.selector,
+          inputs: entry.inputs,
+        });
+      } else if (entry.type === "constructor") {
+        // Checks the input types the same way as the other fragments.
+        ConstructorFragment.from(entry);
+        result.constructorInputs = entry.inputs;
+        result.payableConstructor = entry.stateMutability === "payable" || entry.payable === true;
+      } else if (entry.type === "fallback") {
+        result.hasFallback = true;
+      } else {
+        result.hasReceive = true;
+      }
+    } catch (err) {
+      issues.push(`[${index}] ${(err as Error).message}`);
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new AbiValidationError(issues);
+  }
+  return result;
+}
+
+// --- Encoding ---
+
+export class AbiCallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AbiCallError";
+  }
+}
+
+export interface DecodedValue {
+  name: string;
+  type: string;
+  value: any;
+}
+
+// Finds a function by name, or by full signature when the name is overloaded.
+export function resolveFunction(iface: Interface, nameOrSignature: string): FunctionFragment {
+  const matches = nameOrSignature.includes("(")
+    ? [iface.getFunction(nameOrSignature)].filter((fn): fn is FunctionFragment => fn !== null)
+    : iface.fragments.filter(
+        (fragment): fragment is FunctionFragment =>
+          fragment.type === "function" && (fragment as FunctionFragment).name === nameOrSignature
+      );
+  if (matches.length === 0) {
+    throw new AbiCallError(`Function ${nameOrSignature} is not in the ABI`);
+  }
+  if (matches.length > 1) {
+    throw new AbiCallError(
+      `Function ${nameOrSignature} is overloaded; use one of ${matches.map((fn) => fn.format("sighash")).join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
+// Converts loosely typed JSON (e.g. form input strings) into values the coder accepts.
+function coerceArg(param: ParamType, value: any, path: string): any {
+  if (param.isArray() || param.isTuple()) {
+    if (typeof value === "string") {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        throw new AbiCallError(`${path}: expected a JSON ${param.isArray() ? "array" : "tuple"}`);
+      }
+    }
+  }
+  if (param.isArray()) {
+    if (!Array.isArray(value)) throw new AbiCallError(`${path}: expected an array`);
+    if (param.arrayLength >= 0 && value.length !== param.arrayLength) {
+      throw new AbiCallError(`${path}: expected ${param.arrayLength} elements`);
+    }
+    return value.map((item, i) => coerceArg(param.arrayChildren, item, `${path}[${i}]`));
+  }
+  if (param.isTuple()) {
+    const components = param.components;
+    if (Array.isArray(value)) {
+      return components.map((component, i) => coerceArg(component, value[i], `${path}.${component.name || i}`));
+    }
+    if (value && typeof value === "object") {
+      return components.map((component) =>
+        coerceArg(component, value[component.name], `${path}.${component.name}`)
+      );
+    }
+    throw new AbiCallError(`${path}: expected a tuple as an array or object`);
+  }
+  if (param.baseType === "bool") {
+    if (value === true || value === "true") return true;
+    if (value === false || value === "false") return false;
+    throw new AbiCallError(`${path}: expected true or false`);
+  }
+  if (value === undefined || value === null || value === "") {
+    throw new AbiCallError(`${path}: missing value`);
+  }
+  return value;
+}
+
+export function encodeFunctionCall(iface: Interface, fn: FunctionFragment, args: any[]): string {
+  if (args.length !== fn.inputs.length) {
+    throw new AbiCallError(`${fn.format("sighash")} takes ${fn.inputs.length} argument(s), got ${args.length}`);
+  }
+  const values = fn.inputs.map((input, i) => coerceArg(input, args[i], input.name || `arg${i}`));
+  try {
+    return iface.encodeFunctionData(fn, values);
+  } catch (err) {
+    throw new AbiCallError(`Could not encode arguments: ${(err as Error).message}`);
+  }
+}
+
+// Makes decoded values JSON-safe: integers become decimal strings, tuples become
+// objects when all components are named.
+export function toJsonValue(param: ParamType, value: any): any {
+  if (param.isArray()) {
+    return Array.from(value as any[]).map((item) => toJsonValue(param.arrayChildren, item));
+  }
+  if (param.isTuple()) {
+    const items = Array.from(value as any[]);
+    if (param.components.every((component) => component.name)) {
+      return Object.fromEntries(
+        param.components.map((component, i) => [component.name, toJsonValue(component, items[i])])
+      );
+    }
+    return param.components.map((component, i) => toJsonValue(component, items[i]));
+  }
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+export function decodeFunctionResult(iface: Interface, fn: FunctionFragment, data: string): DecodedValue[] {
+  const result = iface.decodeFunctionResult(fn, data);
+  return fn.outputs.map((output, i) => ({
+    name: output.name,
+    type: output.format("sighash"),
+    value: toJsonValue(output, result[i]),
+  }));
+}
+
+// Calldata decoded back into named arguments, e.g. to show what is about to be signed.
+export function decodeFunctionArgs(iface: Interface, fn: FunctionFragment, data: string): DecodedValue[] {
+  const args = iface.decodeFunctionData(fn, data);
+  return fn.inputs.map((input, i) => ({
+    name: input.name,
+    type: input.format("sighash"),
+    value: toJsonValue(input, args[i]),
+  }));
+}
+
+// Human-readable reason for revert data: a custom error from the ABI, Error(string) or Panic(uint256).
+export function describeRevert(iface: Interface, data?: string): string {
+  if (!data || data === "0x") return "execution reverted";
+  try {
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      const args = parsed.fragment.inputs.map((input, i) => JSON.stringify(toJsonValue(input, parsed.args[i])));
+      return `${parsed.name}(${args.join(", ")})`;
+    }
+  } catch {
+    // Fall through to the raw data.
+  }
+  return `execution reverted with data ${data}`;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { parseAbi } from "./abi";
+import { diffAbis } from "./abi_diff";
+
+function abi(...signatures: object[]) {
+  return parseAbi(JSON.stringify(signatures));
+}
+
+const param = (name: string, type: string, indexed?: boolean) => ({ name, type, ...(indexed === undefined ? {} : { indexed }) });
+const fn = (name: string, inputs: object[], outputs: object[] = [], stateMutability = "nonpayable") => ({
+  type: "function",
+  name,
+  inputs,
+  outputs,
+  stateMutability,
+});
+const event = (name: string, inputs: object[], anonymous = false) => ({ type: "event", name, inputs, anonymous });
+
+describe("diffAbis", () => {
+  it("reports added and removed members", () => {
+    const diff = diffAbis(
+      abi(fn("pause", []), fn("mint", [param("to", "address")]), fn("mint", [param("to", "address"), param("amount", "uint256")])),
+      abi(fn("unpause", []), fn("mint", [param("to", "address")]))
+    );
+
+    expect(diff.functions).toEqual({ added: ["unpause()"], removed: ["pause()", "mint(address,uint256)"], changed: [] });
+    expect(diff.breakingChanges).toEqual(["function pause() removed", "function mint(address,uint256) removed"]);
+  });
+
+  it("pairs a single overload whose signature changed", () => {
+    const diff = diffAbis(
+      abi(fn("transfer", [param("to", "address"), param("amount", "uint128")])),
+      abi(fn("transfer", [param("to", "address"), param("amount", "uint256")]))
+    );
+
+    expect(diff.functions.added).toEqual([]);
+    expect(diff.functions.removed).toEqual([]);
+    expect(diff.functions.changed).toEqual([
+      {
+        name: "transfer",
+        from: "transfer(address,uint128)",
+        to: "transfer(address,uint256)",
+        changes: [expect.stringMatching(/^signature transfer\(address,uint128\) → transfer\(address,uint256\) \(selector 0x[0-9a-f]{8} → 0xa9059cbb\)$/)],
+        breaking: true,
+      },
+    ]);
+  });
+
+  it("separates breaking from compatible function changes", () => {
+    const diff = diffAbis(
+      abi(
+        fn("deposit", [], [], "payable"),
+        fn("balanceOf", [param("owner", "address")], [param("", "uint256")], "view"),
+        fn("rename", [param("a", "uint256")], [param("ok", "bool")])
+      ),
+      abi(
+        fn("deposit", [], [], "nonpayable"),
+        fn("balanceOf", [param("owner", "address")], [param("", "uint256")], "pure"),
+        fn("rename", [param("b", "uint256")], [param("success", "bool")])
+      )
+    );
+
+    expect(diff.functions.changed.map(({ name, changes, breaking }) => ({ name, changes, breaking }))).toEqual([
+      { name: "deposit", changes: ["state mutability payable → nonpayable"], breaking: true },
+      { name: "balanceOf", changes: ["state mutability view → pure"], breaking: false },
+      { name: "rename", changes: ["parameter names (a) → (b)", "return names (ok) → (success)"], breaking: false },
+    ]);
+    expect(diff.breakingChanges).toEqual(["function deposit(): state mutability payable → nonpayable"]);
+  });
+
+  it("treats changed topic layouts as breaking for events", () => {
+    const diff = diffAbis(
+      abi(event("Transfer", [param("from", "address", true), param("to", "address", true), param("value", "uint256", false)])),
+      abi(event("Transfer", [param("from", "address", true), param("to", "address", false), param("value", "uint256", false)]))
+    );
+
+    expect(diff.events.changed).toEqual([
+      {
+        name: "Transfer",
+        from: "Transfer(address,address,uint256)",
+        to: "Transfer(address,address,uint256)",
+        changes: ["indexed parameters changed (topic layout differs)"],
+        breaking: true,
+      },
+    ]);
+  });
+});
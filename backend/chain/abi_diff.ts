@@ -0,0 +1,150 @@
+import { AbiEvent, AbiFunction, AbiParam, ParsedAbi, StateMutability } from "./abi";
+
+// Structural comparison of two parsed ABIs. Members are matched by canonical
+// signature; an unmatched member whose name has exactly one overload on each
+// side is reported as a signature change rather than a removal plus an addition.
+
+export interface AbiMemberChange {
+  name: string;
+  // Signatures in the older and newer ABI; equal unless the signature changed.
+  from: string;
+  to: string;
+  changes: string[];
+  // Existing callers or log decoders stop working against the newer ABI.
+  breaking: boolean;
+}
+
+export interface AbiSectionDiff {
+  added: string[];
+  removed: string[];
+  changed: AbiMemberChange[];
+}
+
+export interface AbiDiff {
+  functions: AbiSectionDiff;
+  events: AbiSectionDiff;
+  breakingChanges: string[];
+}
+
+interface Comparison {
+  changes: string[];
+  breaking: boolean;
+}
+
+// --- Helpers ---
+
+function canonicalType(param: AbiParam): string {
+  if (!param.type.startsWith("tuple")) return param.type;
+  return `(${(param.components ?? []).map(canonicalType).join(",")})${param.type.slice("tuple".length)}`;
+}
+
+const typeList = (params: AbiParam[]) => `(${params.map(canonicalType).join(",")})`;
+const nameList = (params: AbiParam[]) => `(${params.map((p) => p.name || "_").join(", ")})`;
+
+// Mutability changes that make existing calls fail: value can no longer be sent,
+// or a read must now be sent as a transaction.
+function isBreakingMutabilityChange(from: StateMutability, to: StateMutability): boolean {
+  const isRead = (m: StateMutability) => m === "view" || m === "pure";
+  return (from === "payable" && to !== "payable") || (isRead(from) && !isRead(to));
+}
+
+function compareFunctions(from: AbiFunction, to: AbiFunction): Comparison {
+  const result: Comparison = { changes: [], breaking: false };
+  if (from.signature !== to.signature) {
+    result.changes.push(`signature ${from.signature} → ${to.signature} (selector ${from.selector} → ${to.selector})`);
+    result.breaking = true;
+  } else if (nameList(from.inputs) !== nameList(to.inputs)) {
+    result.changes.push(`parameter names ${nameList(from.inputs)} → ${nameList(to.inputs)}`);
+  }
+  if (typeList(from.outputs) !== typeList(to.outputs)) {
+    result.changes.push(`returns ${typeList(from.outputs)} → ${typeList(to.outputs)}`);
+    result.breaking = true;
+  } else if (nameList(from.outputs) !== nameList(to.outputs)) {
+    result.changes.push(`return names ${nameList(from.outputs)} → ${nameList(to.outputs)}`);
+  }
+  if (from.stateMutability !== to.stateMutability) {
+    result.changes.push(`state mutability ${from.stateMutability} → ${to.stateMutability}`);
+    result.breaking ||= isBreakingMutabilityChange(from.stateMutability, to.stateMutability);
+  }
+  return result;
+}
+
+function compareEvents(from: AbiEvent, to: AbiEvent): Comparison {
+  const result: Comparison = { changes: [], breaking: false };
+  if (from.signature !== to.signature) {
+    result.changes.push(`signature ${from.signature} → ${to.signature} (topic0 changed)`);
+    result.breaking = true;
+  } else if (nameList(from.inputs) !== nameList(to.inputs)) {
+    result.changes.push(`parameter names ${nameList(from.inputs)} → ${nameList(to.inputs)}`);
+  }
+  const indexed = (event: AbiEvent) => event.inputs.map((p) => (p.indexed ? "indexed" : "-")).join(",");
+  if (from.signature === to.signature && indexed(from) !== indexed(to)) {
+    result.changes.push("indexed parameters changed (topic layout differs)");
+    result.breaking = true;
+  }
+  if (from.anonymous !== to.anonymous) {
+    result.changes.push(to.anonymous ? "made anonymous (no topic0)" : "no longer anonymous");
+    result.breaking = true;
+  }
+  return result;
+}
+
+function diffSection<T extends { name: string; signature: string }>(
+  from: T[],
+  to: T[],
+  compare: (from: T, to: T) => Comparison
+): AbiSectionDiff {
+  const newBySignature = new Map(to.map((member) => [member.signature, member]));
+  const oldSignatures = new Set(from.map((member) => member.signature));
+  const diff: AbiSectionDiff = { added: [], removed: [], changed: [] };
+
+  const pushChange = (older: T, newer: T) => {
+    const { changes, breaking } = compare(older, newer);
+    if (changes.length > 0) {
+      diff.changed.push({ name: newer.name, from: older.signature, to: newer.signature, changes, breaking });
+    }
+  };
+
+  for (const older of from) {
+    const newer = newBySignature.get(older.signature);
+    if (newer) pushChange(older, newer);
+  }
+
+  const removed = from.filter((member) => !newBySignature.has(member.signature));
+  const added = to.filter((member) => !oldSignatures.has(member.signature));
+  for (const older of removed) {
+    const sameNameRemoved = removed.filter((member) => member.name === older.name);
+    const sameNameAdded = added.filter((member) => member.name === older.name);
+    if (sameNameRemoved.length === 1 && sameNameAdded.length === 1) {
+      pushChange(older, sameNameAdded[0]);
+    } else {
+      diff.removed.push(older.signature);
+    }
+  }
+  for (const newer of added) {
+    const paired = diff.changed.some((change) => change.to === newer.signature && change.from !== newer.signature);
+    if (!paired) diff.added.push(newer.signature);
+  }
+  return diff;
+}
+
+function breakingChanges(kind: string, section: AbiSectionDiff): string[] {
+  return [
+    ...section.removed.map((signature) => `${kind} ${signature} removed`),
+    ...section.changed
+      .filter((change) => change.breaking)
+      .map((change) => `${kind} ${change.from}: ${change.changes.join("; ")}`),
+  ];
+}
+
+// --- Diff ---
+
+export function diffAbis(from: ParsedAbi, to: ParsedAbi): AbiDiff {
+  const functions = diffSection(from.functions, to.functions, compareFunctions);
+  const events = diffSection(from.events, to.events, compareEvents);
+  return {
+    functions,
+    events,
+    breakingChanges: [...breakingChanges("function", functions), ...breakingChanges("event", events)],
+  };
+}
@@ -0,0 +1,31 @@
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { ParsedAbi } from "./abi";
+
+// Selector index over stored contract ABIs (contract_abi_entries). Shared so every
+// service that registers contracts keeps the index in step with smart_contracts.
+
+const chainDB = SQLDatabase.named("blockchain");
+
+// Replaces the selector index rows of a contract.
+export async function indexContractAbi(contractId: number, abi: ParsedAbi) {
+  const entries = [
+    ...abi.functions.map((fn) => ({ kind: "function", name: fn.name, signature: fn.signature, selector: fn.selector })),
+    ...abi.events.map((ev) => ({ kind: "event", name: ev.name, signature: ev.signature, selector: ev.topic0 })),
+    ...abi.errors.map((er) => ({ kind: "error", name: er.name, signature: er.signature, selector: er.selector })),
+  ];
+
+  await chainDB.exec`
+    DELETE FROM contract_abi_entries WHERE contract_id = ${contractId}
+  `;
+  if (entries.length === 0) return;
+  await chainDB.exec`
+    INSERT INTO contract_abi_entries (contract_id, kind, name, signature, selector)
+    SELECT ${contractId}, kind, name, signature, selector
+    FROM UNNEST(
+      ${entries.map((e) => e.kind)}::text[],
+      ${entries.map((e) => e.name)}::text[],
+      ${entries.map((e) => e.signature)}::text[],
+      ${entries.map((e) => e.selector)}::text[]
+    ) AS entry(kind, name, signature, selector)
+  `;
+}
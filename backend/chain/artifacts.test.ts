@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { BuildFile, parseBuildFiles } from "./artifacts";
+
+const ABI = [{ type: "function", name: "totalSupply", inputs: [], outputs: [{ name: "", type: "uint256" }], stateMutability: "view" }];
+const TOKEN = "0x5fbdb2315678afecb367f032d93f642f64180aa3";
+const DEPLOYER = "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266";
+
+function file(path: string, json: unknown): BuildFile {
+  return { path, content: typeof json === "string" ? json : JSON.stringify(json) };
+}
+
+describe("parseBuildFiles", () => {
+  it("reads Hardhat and Foundry artifacts", () => {
+    const { artifacts } = parseBuildFiles([
+      file("artifacts/contracts/Token.sol/Token.json", {
+        _format: "hh-sol-artifact-1",
+        contractName: "Token",
+        sourceName: "contracts/Token.sol",
+        abi: ABI,
+        bytecode: "0x6080",
+        deployedBytecode: "0x",
+      }),
+      file("out/Vault.sol/Vault.json", {
+        abi: ABI,
+        bytecode: { object: "6080" },
+        metadata: { settings: { compilationTarget: { "src/Vault.sol": "Vault" } } },
+      }),
+    ]);
+
+    expect(artifacts).toEqual([
+      {
+        name: "Token",
+        sourceName: "contracts/Token.sol",
+        abi: ABI,
+        bytecode: "0x6080",
+        deployedBytecode: undefined,
+        format: "hardhat",
+        path: "artifacts/contracts/Token.sol/Token.json",
+      },
+      {
+        name: "Vault",
+        sourceName: "src/Vault.sol",
+        abi: ABI,
+        bytecode: "0x6080",
+        deployedBytecode: undefined,
+        format: "foundry",
+        path: "out/Vault.sol/Vault.json",
+      },
+    ]);
+  });
+
+  it("reads deployment records with their chain ids", () => {
+    const { deployments } = parseBuildFiles([
+      { path: "deployments/sepolia/.chainId", content: "11155111\n" },
+      file(".\\deployments\\sepolia\\Token.json", {
+        address: TOKEN,
+        abi: ABI,
+        transactionHash: "0xaa",
+        receipt: { from: DEPLOYER },
+      }),
+      file("ignition/deployments/chain-31337/deployed_addresses.json", { "TokenModule#Token": TOKEN }),
+      file("broadcast/Deploy.s.sol/10/run-latest.json", {
+        chain: 10,
+        transactions: [
+          { transactionType: "CREATE", contractName: "Token", contractAddress: TOKEN, hash: "0xbb", transaction: { from: DEPLOYER } },
+          { transactionType: "CALL", contractName: "Token", contractAddress: TOKEN },
+        ],
+      }),
+    ]);
+
+    expect(deployments.map(({ name, chainId, address, source, deployer }) => ({ name, chainId, address, source, deployer }))).toEqual([
+      { name: "Token", chainId: 11155111, address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", source: "hardhat-deploy", deployer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" },
+      { name: "Token", chainId: 31337, address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", source: "ignition", deployer: undefined },
+      { name: "Token", chainId: 10, address: "0x5FbDB2315678afecb367f032d93F642f64180aa3", source: "foundry-broadcast", deployer: "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266" },
+    ]);
+  });
+
+  it("explains every file it ignores", () => {
+    const { ignored } = parseBuildFiles([
+      { path: "README.md", content: "# build" },
+      { path: "deployments/local/.chainId", content: "local" },
+      file("artifacts/contracts/Token.sol/Token.dbg.json", {}),
+      { path: "out/Broken.sol/Broken.json", content: "{" },
+      file("out/list.json", []),
+      file("deployments/local/Bad.json", { address: "0x1234", abi: ABI }),
+      file("cache/solidity-files-cache.json", { files: {} }),
+    ]);
+
+    expect(ignored.map((entry) => entry.reason)).toEqual([
+      "Not a JSON file",
+      "Invalid chain id",
+      "Compiler debug output",
+      "Invalid JSON",
+      "Expected a JSON object",
+      "Invalid address 0x1234",
+      "No ABI or deployment address found",
+    ]);
+  });
+});
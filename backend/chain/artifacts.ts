@@ -0,0 +1,205 @@
+import { getAddress, isAddress } from "ethers";
+
+// Reads the build output of Hardhat and Foundry projects: compiler artifacts
+// (names, ABIs, bytecode) and deployment records (addresses per chainId).
+//
+// Recognised layouts:
+//   artifacts/**/Name.json                      Hardhat artifact (hh-sol-artifact-1)
+//   out/Name.sol/Name.json                      Foundry artifact
+//   deployments/<network>/Name.json + .chainId  hardhat-deploy
+//   ignition/deployments/chain-<id>/deployed_addresses.json
+//   broadcast/<script>/<chainId>/run-*.json     Foundry script broadcast
+
+export interface BuildFile {
+  // Path relative to the project root, e.g. "out/Token.sol/Token.json".
+  path: string;
+  content: string;
+}
+
+export interface ContractArtifact {
+  name: string;
+  sourceName?: string;
+  abi: unknown[];
+  bytecode?: string;
+  deployedBytecode?: string;
+  format: "hardhat" | "foundry";
+  path: string;
+}
+
+export interface ArtifactDeployment {
+  name: string;
+  // Unknown when neither the file nor its folder identifies the chain.
+  chainId?: number;
+  address: string;
+  // hardhat-deploy records embed ABI and bytecode; other sources rely on artifacts.
+  abi?: unknown[];
+  bytecode?: string;
+  deployer?: string;
+  transactionHash?: string;
+  source: "hardhat-deploy" | "ignition" | "foundry-broadcast";
+  path: string;
+}
+
+export interface IgnoredBuildFile {
+  path: string;
+  reason: string;
+}
+
+export interface ParsedBuildFiles {
+  artifacts: ContractArtifact[];
+  deployments: ArtifactDeployment[];
+  ignored: IgnoredBuildFile[];
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// Hardhat stores bytecode as a string, Foundry as { object }; "0x" means no code (interfaces).
+function bytecodeOf(value: unknown): string | undefined {
+  const raw = typeof value === "string" ? value : (value as { object?: unknown } | undefined)?.object;
+  if (typeof raw !== "string" || raw === "" || raw === "0x") return undefined;
+  return raw.startsWith("0x") ? raw : `0x${raw}`;
+}
+
+function chainIdFromPath(path: string): number | undefined {
+  const ignition = /(?:^|\/)chain-(\d+)(?:\/|$)/.exec(path);
+  if (ignition) return Number(ignition[1]);
+  const broadcast = /(?:^|\/)broadcast\/[^/]+\/(\d+)\//.exec(path);
+  return broadcast ? Number(broadcast[1]) : undefined;
+}
+
+function checksumAddress(value: unknown): string | undefined {
+  return typeof value === "string" && isAddress(value) ? getAddress(value) : undefined;
+}
+
+function parseArtifact(path: string, json: any): ContractArtifact {
+  if (typeof json._format === "string" && json._format.startsWith("hh-sol-artifact")) {
+    return {
+      name: json.contractName ?? basename(path).replace(/\.json$/, ""),
+      sourceName: json.sourceName,
+      abi: json.abi,
+      bytecode: bytecodeOf(json.bytecode),
+      deployedBytecode: bytecodeOf(json.deployedBytecode),
+      format: "hardhat",
+      path,
+    };
+  }
+  // Foundry: the compilation target names the contract; otherwise fall back to out/Source.sol/Name.json.
+  const target = Object.entries(json.metadata?.settings?.compilationTarget ?? {})[0] as [string, string] | undefined;
+  return {
+    name: target?.[1] ?? basename(path).replace(/\.json$/, ""),
+    sourceName: target?.[0] ?? (basename(dirname(path)) || undefined),
+    abi: json.abi,
+    bytecode: bytecodeOf(json.bytecode),
+    deployedBytecode: bytecodeOf(json.deployedBytecode),
+    format: "foundry",
+    path,
+  };
+}
+
+function parseIgnitionAddresses(path: string, json: Record<string, unknown>): ArtifactDeployment[] {
+  return Object.entries(json).flatMap(([futureId, value]) => {
+    const address = checksumAddress(value);
+    if (!address) return [];
+    // Future ids look like "TokenModule#Token".
+    return [{ name: futureId.split("#").pop()!, address, source: "ignition" as const, path }];
+  });
+}
+
+function parseBroadcast(path: string, json: any): ArtifactDeployment[] {
+  const chainId = Number.isInteger(json.chain) ? json.chain : undefined;
+  return (json.transactions as any[]).flatMap((tx) => {
+    const address = checksumAddress(tx?.contractAddress);
+    if (!address || !tx.contractName || !/^CREATE2?$/.test(tx.transactionType ?? "")) return [];
+    return [{
+      name: tx.contractName,
+      chainId,
+      address,
+      deployer: checksumAddress(tx.transaction?.from),
+      transactionHash: typeof tx.hash === "string" ? tx.hash : undefined,
+      source: "foundry-broadcast" as const,
+      path,
+    }];
+  });
+}
+
+export function parseBuildFiles(files: BuildFile[]): ParsedBuildFiles {
+  const result: ParsedBuildFiles = { artifacts: [], deployments: [], ignored: [] };
+  // hardhat-deploy writes the chain id of each deployments/<network> folder to a .chainId file.
+  const folderChainIds = new Map<string, number>();
+
+  for (const file of files) {
+    const path = normalizePath(file.path);
+    const name = basename(path);
+    if (name === ".chainId") {
+      const chainId = Number(file.content.trim());
+      if (Number.isInteger(chainId) && chainId > 0) {
+        folderChainIds.set(dirname(path), chainId);
+      } else {
+        result.ignored.push({ path, reason: "Invalid chain id" });
+      }
+      continue;
+    }
+    if (!name.endsWith(".json")) {
+      result.ignored.push({ path, reason: "Not a JSON file" });
+      continue;
+    }
+    if (name.endsWith(".dbg.json") || /(^|\/)build-info\//.test(path)) {
+      result.ignored.push({ path, reason: "Compiler debug output" });
+      continue;
+    }
+
+    let json: any;
+    try {
+      json = JSON.parse(file.content);
+    } catch {
+      result.ignored.push({ path, reason: "Invalid JSON" });
+      continue;
+    }
+    if (json === null || typeof json !== "object" || Array.isArray(json)) {
+      result.ignored.push({ path, reason: "Expected a JSON object" });
+      continue;
+    }
+
+    if (name === "deployed_addresses.json") {
+      result.deployments.push(...parseIgnitionAddresses(path, json));
+    } else if (Array.isArray(json.transactions) && /(^|\/)broadcast\//.test(path)) {
+      result.deployments.push(...parseBroadcast(path, json));
+    } else if (Array.isArray(json.abi) && typeof json.address === "string") {
+      const address = checksumAddress(json.address);
+      if (!address) {
+        result.ignored.push({ path, reason: `Invalid address ${json.address}` });
+        continue;
+      }
+      result.deployments.push({
+        name: name.replace(/\.json$/, ""),
+        address,
+        abi: json.abi,
+        bytecode: bytecodeOf(json.bytecode),
+        deployer: checksumAddress(json.receipt?.from),
+        transactionHash: typeof json.transactionHash === "string" ? json.transactionHash : undefined,
+        source: "hardhat-deploy",
+        path,
+      });
+    } else if (Array.isArray(json.abi)) {
+      result.artifacts.push(parseArtifact(path, json));
+    } else {
+      result.ignored.push({ path, reason: "No ABI or deployment address found" });
+    }
+  }
+
+  for (const deployment of result.deployments) {
+    deployment.chainId ??= folderChainIds.get(dirname(deployment.path)) ?? chainIdFromPath(deployment.path);
+  }
+  return result;
+}
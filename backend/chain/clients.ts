@@ -0,0 +1,129 @@
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { EndpointRole, EndpointState, FailoverTransport } from "./failover";
+import { HttpTransport, RpcClient, RpcClientOptions, RpcTransport } from "./rpc";
+
+const chainDB = SQLDatabase.named("blockchain");
+
+export interface RpcEndpointConfig {
+  id: number;
+  url: string;
+  role: EndpointRole;
+  priority: number;
+  weight: number;
+  rateLimitPerSecond?: number;
+}
+
+// Network fields a transport needs to be built.
+export interface RpcNetwork {
+  id: number;
+  chainId: number;
+  rpcUrl: string;
+  // Active rows from network_rpc_endpoints; rpcUrl is used when there are none.
+  endpoints: RpcEndpointConfig[];
+}
+
+export type TransportFactory = (network: RpcNetwork) => RpcTransport;
+
+const defaultTransportFactory: TransportFactory = (network) => {
+  if (network.endpoints.length === 0) {
+    return new HttpTransport(network.rpcUrl);
+  }
+  return new FailoverTransport(
+    network.endpoints.map((ep) => ({ ...ep, transport: new HttpTransport(ep.url) }))
+  );
+};
+
+let transportFactory: TransportFactory = defaultTransportFactory;
+let clientOptions: RpcClientOptions = {};
+
+// Clients are cached per network id and rebuilt when the RPC configuration changes.
+const clients = new Map<number, { fingerprint: string; client: RpcClient }>();
+
+function fingerprint(network: RpcNetwork): string {
+  return JSON.stringify([network.rpcUrl, network.endpoints]);
+}
+
+async function loadEndpoints(networkIds: number[]): Promise<Map<number, RpcEndpointConfig[]>> {
+  const rows = await chainDB.queryAll<RpcEndpointConfig & { networkId: number }>`
+    SELECT
+      id,
+      network_id as "networkId",
+      url,
+      role,
+      priority,
+      weight,
+      rate_limit_per_second as "rateLimitPerSecond"
+    FROM network_rpc_endpoints
+    WHERE network_id = ANY(${networkIds}) AND is_active = true
+    ORDER BY priority, id
+  `;
+  const byNetwork = new Map<number, RpcEndpointConfig[]>();
+  for (const { networkId, rateLimitPerSecond, ...endpoint } of rows) {
+    const list = byNetwork.get(networkId) ?? [];
+    list.push({ ...endpoint, rateLimitPerSecond: rateLimitPerSecond ?? undefined });
+    byNetwork.set(networkId, list);
+  }
+  return byNetwork;
+}
+
+export async function loadRpcNetwork(networkId: number): Promise<RpcNetwork | null> {
+  const network = await chainDB.queryRow<Omit<RpcNetwork, "endpoints">>`
+    SELECT id, chain_id as "chainId", rpc_url as "rpcUrl"
+    FROM networks
+    WHERE id = ${networkId}
+  `;
+  if (!network) return null;
+  const endpoints = await loadEndpoints([network.id]);
+  return { ...network, endpoints: endpoints.get(network.id) ?? [] };
+}
+
+export async function loadActiveRpcNetworks(): Promise<RpcNetwork[]> {
+  const networks = await chainDB.queryAll<Omit<RpcNetwork, "endpoints">>`
+    SELECT id, chain_id as "chainId", rpc_url as "rpcUrl"
+    FROM networks
+    WHERE is_active = true
+  `;
+  const endpoints = await loadEndpoints(networks.map((n) => n.id));
+  return networks.map((n) => ({ ...n, endpoints: endpoints.get(n.id) ?? [] }));
+}
+
+export async function getRpcClient(networkId: number): Promise<RpcClient> {
+  const network = await loadRpcNetwork(networkId);
+  if (!network) {
+    throw new Error(`Network ${networkId} not found`);
+  }
+  return rpcClientFor(network);
+}
+
+export function rpcClientFor(network: RpcNetwork): RpcClient {
+  const key = fingerprint(network);
+  const cached = clients.get(network.id);
+  if (cached && cached.fingerprint === key) {
+    return cached.client;
+  }
+  const client = new RpcClient(transportFactory(network), clientOptions);
+  clients.set(network.id, { fingerprint: key, client });
+  return client;
+}
+
+// Builds an uncached client, e.g. for probes that must not be retried.
+export function createRpcClient(network: RpcNetwork, options: RpcClientOptions = {}): RpcClient {
+  return new RpcClient(transportFactory(network), { ...clientOptions, ...options });
+}
+
+// Circuit and head state of each endpoint as seen by this process's cached client.
+export function endpointStates(networkId: number): EndpointState[] {
+  const transport = clients.get(networkId)?.client.transport;
+  return transport instanceof FailoverTransport ? transport.states() : [];
+}
+
+// Swaps the wire layer for every network, e.g. `() => fakeChain` in tests.
+export function setTransportFactory(factory: TransportFactory, options: RpcClientOptions = {}) {
+  transportFactory = factory;
+  clientOptions = options;
+  clients.clear();
+}
+
+export function resetTransportFactory() {
+  setTransportFactory(defaultTransportFactory);
+}
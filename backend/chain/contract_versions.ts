@@ -0,0 +1,36 @@
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+
+// Version history of smart contracts (contract_versions). Shared so every
+// service that writes smart_contracts.abi, bytecode or version records a snapshot.
+
+export type ContractChangeSource = "create" | "update" | "import" | "deploy";
+
+// Snapshots the contract's current ABI, bytecode and version label unless they
+// equal the latest snapshot. Call it inside the transaction that changed the
+// contract: the row lock taken by that write keeps version numbers sequential.
+export async function recordContractVersion(
+  db: SQLDatabase | Transaction,
+  contractId: number,
+  source: ContractChangeSource,
+  changedBy: string | null
+) {
+  await db.exec`
+    INSERT INTO contract_versions (contract_id, version_number, version, abi, bytecode, changed_by, change_source)
+    SELECT sc.id, COALESCE(latest.version_number, 0) + 1, sc.version, sc.abi, sc.bytecode, ${changedBy}, ${source}
+    FROM smart_contracts sc
+    LEFT JOIN LATERAL (
+      SELECT version_number, version, abi, bytecode
+      FROM contract_versions
+      WHERE contract_id = sc.id
+      ORDER BY version_number DESC
+      LIMIT 1
+    ) latest ON true
+    WHERE sc.id = ${contractId}
+      AND (
+        latest.version_number IS NULL
+        OR latest.version IS DISTINCT FROM sc.version
+        OR latest.abi IS DISTINCT FROM sc.abi
+        OR latest.bytecode IS DISTINCT FROM sc.bytecode
+      )
+  `;
+}
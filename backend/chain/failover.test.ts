@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FailoverEndpoint, FailoverTransport } from "./failover";
+import { FakeChain } from "./fake_chain";
+import { JsonRpcRequest, RpcTransportError } from "./rpc";
+
+const CHAIN_ID_REQUEST: JsonRpcRequest[] = [{ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }];
+const HEAD_REQUEST: JsonRpcRequest[] = [{ jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: [] }];
+
+function endpoint(id: number, transport: FakeChain): FailoverEndpoint {
+  return { id, url: `http://node-${id}`, role: "read", priority: id, weight: 1, transport };
+}
+
+// Two endpoints of the same chain; the primary is always tried first while its circuit is closed.
+function primaryAndBackup(options = { failureThreshold: 2, cooldownMs: 1_000 }) {
+  const primary = new FakeChain();
+  const backup = new FakeChain();
+  const transport = new FailoverTransport([endpoint(1, primary), endpoint(2, backup)], options);
+  return { primary, backup, transport };
+}
+
+describe("FailoverTransport circuit breaking", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fails over to the next endpoint when one fails", async () => {
+    const { primary, backup, transport } = primaryAndBackup();
+    primary.failNext();
+
+    const [response] = await transport.send(CHAIN_ID_REQUEST);
+
+    expect(response.result).toBe("0x7a69");
+    expect(primary.received).toHaveLength(1);
+    expect(backup.received).toHaveLength(1);
+    expect(transport.states()[0]).toMatchObject({ circuitState: "closed", consecutiveFailures: 1 });
+  });
+
+  it("opens the circuit after consecutive failures and skips the endpoint", async () => {
+    const { primary, backup, transport } = primaryAndBackup();
+    primary.failNext();
+    primary.failNext();
+
+    await transport.send(CHAIN_ID_REQUEST);
+    await transport.send(CHAIN_ID_REQUEST);
+    expect(transport.states()[0]).toMatchObject({ circuitState: "open", consecutiveFailures: 2 });
+
+    await transport.send(CHAIN_ID_REQUEST);
+    expect(primary.received).toHaveLength(2);
+    expect(backup.received).toHaveLength(3);
+  });
+
+  it("lets a trial request through after the cooldown and closes on success", async () => {
+    const { primary, transport } = primaryAndBackup();
+    primary.failNext();
+    primary.failNext();
+    await transport.send(CHAIN_ID_REQUEST);
+    await transport.send(CHAIN_ID_REQUEST);
+
+    vi.advanceTimersByTime(1_000);
+    expect(transport.states()[0].circuitState).toBe("half_open");
+
+    await transport.send(CHAIN_ID_REQUEST);
+    expect(primary.received).toHaveLength(3);
+    expect(transport.states()[0]).toMatchObject({ circuitState: "closed", consecutiveFailures: 0 });
+  });
+
+  it("re-opens the circuit when the trial request fails", async () => {
+    const { primary, transport } = primaryAndBackup();
+    for (let i = 0; i < 3; i++) primary.failNext();
+    await transport.send(CHAIN_ID_REQUEST);
+    await transport.send(CHAIN_ID_REQUEST);
+
+    vi.advanceTimersByTime(1_000);
+    await transport.send(CHAIN_ID_REQUEST);
+
+    expect(transport.states()[0]).toMatchObject({ circuitState: "open", consecutiveFailures: 3 });
+  });
+
+  it("tries every endpoint when all circuits are open", async () => {
+    const { primary, backup, transport } = primaryAndBackup({ failureThreshold: 1, cooldownMs: 60_000 });
+    primary.failNext();
+    backup.failNext();
+    await expect(transport.send(CHAIN_ID_REQUEST)).rejects.toBeInstanceOf(RpcTransportError);
+    expect(transport.states().map((state) => state.circuitState)).toEqual(["open", "open"]);
+
+    const [response] = await transport.send(CHAIN_ID_REQUEST);
+    expect(response.result).toBe("0x7a69");
+  });
+});
+
+describe("FailoverTransport head tracking", () => {
+  it("prefers endpoints that are not behind the best known head", async () => {
+    const behind = new FakeChain();
+    const ahead = new FakeChain();
+    ahead.mine(10);
+    const transport = new FailoverTransport([endpoint(1, behind), endpoint(2, ahead)], { maxHeadLagBlocks: 5 });
+
+    await transport.send(HEAD_REQUEST);
+    behind.failNext();
+    const [response] = await transport.send(HEAD_REQUEST);
+    expect(response.result).toBe("0xa");
+    expect(transport.states()[0]).toMatchObject({ observedHead: 0, isStale: true });
+
+    // The lagging endpoint has recovered but is tried after the fresh one.
+    await transport.send(CHAIN_ID_REQUEST);
+    expect(behind.received).toHaveLength(2);
+    expect(ahead.received).toHaveLength(2);
+  });
+});
@@ -0,0 +1,230 @@
+import { JsonRpcRequest, JsonRpcResponse, RpcTransport, RpcTransportError, hexToBigInt } from "./rpc";
+
+// Routes JSON-RPC batches across several endpoints of the same network. Endpoints
+// are tried in priority order; inside a priority tier they are picked by weight.
+// Endpoints that keep failing are taken out of rotation by a circuit breaker, and
+// endpoints whose head falls behind the others are treated as stale.
+
+export type EndpointRole = "read" | "write" | "archive";
+
+export interface FailoverEndpoint {
+  id: number;
+  url: string;
+  role: EndpointRole;
+  priority: number;
+  weight: number;
+  rateLimitPerSecond?: number;
+  transport: RpcTransport;
+}
+
+export interface FailoverOptions {
+  // Consecutive failures before an endpoint's circuit opens.
+  failureThreshold?: number;
+  // How long an open circuit rejects calls before a trial request is let through.
+  cooldownMs?: number;
+  // How many blocks an endpoint may trail the best known head before it is stale.
+  maxHeadLagBlocks?: number;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface EndpointState {
+  id: number;
+  url: string;
+  circuitState: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  observedHead?: number;
+  isStale: boolean;
+}
+
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return "closed";
+    return Date.now() - this.openedAt >= this.cooldownMs ? "half_open" : "open";
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  canRequest(): boolean {
+    return this.state !== "open";
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  recordFailure() {
+    this.failures++;
+    // A failed half-open trial re-opens the circuit for another cooldown.
+    if (this.failures >= this.threshold || this.openedAt !== undefined) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly ratePerSecond: number) {
+    this.tokens = ratePerSecond;
+  }
+
+  tryTake(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.ratePerSecond, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+interface EndpointRuntime {
+  config: FailoverEndpoint;
+  breaker: CircuitBreaker;
+  limiter?: TokenBucket;
+  observedHead?: bigint;
+  lastError?: string;
+}
+
+const WRITE_METHODS = new Set(["eth_sendRawTransaction"]);
+const BLOCK_TAG_PARAM_INDEX: Record<string, number> = {
+  eth_call: 1,
+  eth_getBalance: 1,
+  eth_getCode: 1,
+  eth_getTransactionCount: 1,
+  eth_getStorageAt: 2,
+};
+
+// The role a batch should preferably be served by.
+function preferredRole(requests: JsonRpcRequest[]): EndpointRole {
+  if (requests.some((req) => WRITE_METHODS.has(req.method))) return "write";
+  const historical = requests.some((req) => {
+    const index = BLOCK_TAG_PARAM_INDEX[req.method];
+    const tag = index === undefined ? undefined : req.params[index];
+    return typeof tag === "string" && tag.startsWith("0x");
+  });
+  return historical ? "archive" : "read";
+}
+
+function weightedShuffle<T extends { config: FailoverEndpoint }>(items: T[]): T[] {
+  const pool = [...items];
+  const result: T[] = [];
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, item) => sum + Math.max(item.config.weight, 1), 0);
+    let pick = Math.random() * total;
+    const index = pool.findIndex((item) => (pick -= Math.max(item.config.weight, 1)) < 0);
+    result.push(...pool.splice(index === -1 ? pool.length - 1 : index, 1));
+  }
+  return result;
+}
+
+export class FailoverTransport implements RpcTransport {
+  private readonly endpoints: EndpointRuntime[];
+  private readonly maxHeadLagBlocks: bigint;
+  private bestHead = BigInt(0);
+
+  constructor(endpoints: FailoverEndpoint[], options: FailoverOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("FailoverTransport needs at least one endpoint");
+    }
+    const threshold = options.failureThreshold ?? 3;
+    const cooldownMs = options.cooldownMs ?? 30_000;
+    this.maxHeadLagBlocks = BigInt(options.maxHeadLagBlocks ?? 5);
+    this.endpoints = endpoints.map((config) => ({
+      config,
+      breaker: new CircuitBreaker(threshold, cooldownMs),
+      limiter: config.rateLimitPerSecond ? new TokenBucket(config.rateLimitPerSecond) : undefined,
+    }));
+  }
+
+  states(): EndpointState[] {
+    return this.endpoints.map((ep) => ({
+      id: ep.config.id,
+      url: ep.config.url,
+      circuitState: ep.breaker.state,
+      consecutiveFailures: ep.breaker.consecutiveFailures,
+      lastError: ep.lastError,
+      observedHead: ep.observedHead === undefined ? undefined : Number(ep.observedHead),
+      isStale: this.isStale(ep),
+    }));
+  }
+
+  async send(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    const candidates = this.candidates(preferredRole(requests));
+    let lastError: unknown;
+
+    for (const ep of candidates) {
+      if (ep.limiter && !ep.limiter.tryTake()) {
+        lastError = new RpcTransportError(`Endpoint ${ep.config.url} is over its rate limit`, 429);
+        continue;
+      }
+      try {
+        const responses = await ep.config.transport.send(requests);
+        ep.breaker.recordSuccess();
+        ep.lastError = undefined;
+        this.observeHead(ep, requests, responses);
+        // A stale answer is only served when nothing fresher is left to try.
+        if (this.isStale(ep) && ep !== candidates[candidates.length - 1]) {
+          lastError = new RpcTransportError(`Endpoint ${ep.config.url} is behind the chain head`);
+          continue;
+        }
+        return responses;
+      } catch (err) {
+        ep.breaker.recordFailure();
+        ep.lastError = (err as Error).message;
+        lastError = err;
+      }
+    }
+    throw lastError ?? new RpcTransportError("No RPC endpoint available");
+  }
+
+  // Endpoints in the order they should be tried for a batch.
+  private candidates(role: EndpointRole): EndpointRuntime[] {
+    const matchesRole = (ep: EndpointRuntime) =>
+      role === "read" ? ep.config.role !== "write" : ep.config.role === role;
+    const available = this.endpoints.filter((ep) => ep.breaker.canRequest());
+    // Fall back to every endpoint when all circuits are open rather than failing outright.
+    const pool = available.length > 0 ? available : this.endpoints;
+
+    const ordered: EndpointRuntime[] = [];
+    const tiers = [...new Set(pool.map((ep) => ep.config.priority))].sort((a, b) => a - b);
+    for (const preferred of [true, false]) {
+      for (const tier of tiers) {
+        const tierEndpoints = pool.filter(
+          (ep) => ep.config.priority === tier && matchesRole(ep) === preferred
+        );
+        ordered.push(...weightedShuffle(tierEndpoints));
+      }
+    }
+    // Fresh endpoints first, stale ones as a last resort.
+    return [...ordered.filter((ep) => !this.isStale(ep)), ...ordered.filter((ep) => this.isStale(ep))];
+  }
+
+  private observeHead(ep: EndpointRuntime, requests: JsonRpcRequest[], responses: JsonRpcResponse[]) {
+    const headRequest = requests.find(
+      (req) => req.method === "eth_blockNumber" ||
+        (req.method === "eth_getBlockByNumber" && req.params[0] === "latest")
+    );
+    if (!headRequest) return;
+    const result = responses.find((res) => res.id === headRequest.id)?.result;
+    const hex = typeof result === "string" ? result : result?.number;
+    if (typeof hex !== "string") return;
+    ep.observedHead = hexToBigInt(hex);
+    if (ep.observedHead > this.bestHead) this.bestHead = ep.observedHead;
+  }
+
+  private isStale(ep: EndpointRuntime): boolean {
+    return ep.observedHead !== undefined && this.bestHead - ep.observedHead > this.maxHeadLagBlocks;
+  }
+}
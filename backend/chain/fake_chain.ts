@@ -0,0 +1,313 @@
+import { createHash } from "node:crypto";
+import { Transaction, getCreateAddress } from "ethers";
+import {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RpcError,
+  RpcTransport,
+  RpcTransportError,
+  hexToBigInt,
+  toQuantity,
+} from "./rpc";
+
+// In-process chain that answers JSON-RPC calls from memory, so code built on
+// RpcClient can be exercised without a node or any network access.
+
+export interface FakeBlock {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  baseFeePerGas: bigint;
+  gasUsed: bigint;
+  transactions: string[];
+}
+
+export interface FakeLog {
+  address: string;
+  topics: string[];
+  data: string;
+  transactionHash?: string;
+}
+
+export type CallHandler = (data: string, from?: string) => string;
+
+export interface FakeChainOptions {
+  chainId?: number;
+  blockTimeSeconds?: number;
+  baseFeePerGas?: bigint;
+}
+
+function hash32(...parts: (string | number | bigint)[]): string {
+  return "0x" + createHash("sha256").update(parts.join(":")).digest("hex");
+}
+
+export class FakeChain implements RpcTransport {
+  readonly chainId: number;
+  private readonly blockTimeSeconds: number;
+  private readonly baseFeePerGas: bigint;
+  private readonly blocks: FakeBlock[] = [];
+  private readonly balances = new Map<string, bigint>();
+  private readonly code = new Map<string, string>();
+  // Keyed by "address:slot", both lowercase.
+  private readonly storage = new Map<string, string>();
+  private readonly callHandlers = new Map<string, CallHandler>();
+  private readonly receipts = new Map<string, any>();
+  private readonly nonces = new Map<string, number>();
+  private readonly logs: any[] = [];
+  private readonly failures: Error[] = [];
+  // Per method, failures for its next calls; see failNextCall.
+  private readonly callFailures = new Map<string, (Error | "lose")[]>();
+  // Bumped on every reorg so replacement blocks get new hashes.
+  private forks = 0;
+  // Every request the chain has received, in order; useful for asserting batching.
+  readonly received: JsonRpcRequest[][] = [];
+
+  constructor(options: FakeChainOptions = {}) {
+    this.chainId = options.chainId ?? 31337;
+    this.blockTimeSeconds = options.blockTimeSeconds ?? 12;
+    this.baseFeePerGas = options.baseFeePerGas ?? BigInt(1_000_000_000);
+    this.blocks.push({
+      number: BigInt(0),
+      hash: hash32(this.chainId, 0),
+      parentHash: "0x" + "0".repeat(64),
+      timestamp: Math.floor(Date.now() / 1000),
+      baseFeePerGas: this.baseFeePerGas,
+      gasUsed: BigInt(0),
+      transactions: [],
+    });
+  }
+
+  get head(): FakeBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  mine(count = 1, transactions: string[] = []): FakeBlock {
+    for (let i = 0; i < count; i++) {
+      const parent = this.head;
+      const number = parent.number + BigInt(1);
+      this.blocks.push({
+        number,
+        hash: hash32(this.chainId, number, parent.hash, this.forks),
+        parentHash: parent.hash,
+        timestamp: parent.timestamp + this.blockTimeSeconds,
+        baseFeePerGas: this.baseFeePerGas,
+        gasUsed: BigInt(21_000 * (i === 0 ? transactions.length : 0)),
+        transactions: i === 0 ? transactions : [],
+      });
+    }
+    return this.head;
+  }
+
+  // Replaces the last `depth` blocks with a competing branch of the same length.
+  // Receipts and logs from the dropped blocks are kept.
+  reorg(depth = 1): FakeBlock {
+    if (depth < 1 || depth >= this.blocks.length) {
+      throw new Error(`Cannot reorg ${depth} blocks on a chain of ${this.blocks.length}`);
+    }
+    this.blocks.splice(this.blocks.length - depth, depth);
+    this.forks++;
+    return this.mine(depth);
+  }
+
+  setBalance(address: string, wei: bigint) {
+    this.balances.set(address.toLowerCase(), wei);
+  }
+
+  setCode(address: string, bytecode: string) {
+    this.code.set(address.toLowerCase(), bytecode);
+  }
+
+  // Sets a storage word; `slot` and `value` are hex and are padded to 32 bytes.
+  setStorageAt(address: string, slot: string, value: string) {
+    const word = (hex: string) => "0x" + hex.replace(/^0x/, "").toLowerCase().padStart(64, "0");
+    this.storage.set(`${address.toLowerCase()}:${word(slot)}`, word(value));
+  }
+
+  onCall(address: string, handler: CallHandler) {
+    this.callHandlers.set(address.toLowerCase(), handler);
+  }
+
+  // Emits a log in a freshly mined block.
+  emitLog(log: FakeLog) {
+    const transactionHash = log.transactionHash ?? hash32("log", this.logs.length);
+    const block = this.mine(1, [transactionHash]);
+    this.logs.push({
+      address: log.address.toLowerCase(),
+      topics: log.topics,
+      data: log.data,
+      blockNumber: toQuantity(block.number),
+      blockHash: block.hash,
+      transactionHash,
+      transactionIndex: "0x0",
+      logIndex: toQuantity(this.logs.length),
+      removed: false,
+    });
+  }
+
+  // Makes the next send() call fail at the transport level.
+  failNext(error: Error = new RpcTransportError("fake transport failure")) {
+    this.failures.push(error);
+  }
+
+  // Makes the next call to `method` fail: an RpcError becomes the node's answer to it, any
+  // other error fails the whole send() unhandled, and "lose" handles the call but then fails
+  // send() as if the response never arrived.
+  failNextCall(method: string, failure: Error | "lose" = new RpcTransportError("fake transport failure")) {
+    this.callFailures.set(method, [...(this.callFailures.get(method) ?? []), failure]);
+  }
+
+  async send(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    this.received.push(requests);
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    const callFailures = requests.map((req) => this.callFailures.get(req.method)?.shift());
+    const unhandled = callFailures.find((f) => f instanceof Error && !(f instanceof RpcError));
+    if (unhandled) throw unhandled;
+
+    const responses: JsonRpcResponse[] = requests.map((req, i) => {
+      try {
+        const callFailure = callFailures[i];
+        if (callFailure instanceof RpcError) throw callFailure;
+        return { jsonrpc: "2.0", id: req.id, result: this.handle(req.method, req.params) };
+      } catch (err) {
+        const code = err instanceof RpcError ? err.code : -32603;
+        return { jsonrpc: "2.0", id: req.id, error: { code, message: (err as Error).message } };
+      }
+    });
+    if (callFailures.includes("lose")) {
+      throw new RpcTransportError("fake response lost");
+    }
+    return responses;
+  }
+
+  private blockAt(tag: unknown): FakeBlock | undefined {
+    if (tag === undefined || tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") {
+      return this.head;
+    }
+    if (tag === "earliest") return this.blocks[0];
+    return this.blocks[Number(hexToBigInt(tag as string))];
+  }
+
+  private formatBlock(block: FakeBlock) {
+    return {
+      number: toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toQuantity(block.timestamp),
+      baseFeePerGas: toQuantity(block.baseFeePerGas),
+      gasUsed: toQuantity(block.gasUsed),
+      transactions: block.transactions,
+    };
+  }
+
+  private handle(method: string, params: any[]): any {
+    switch (method) {
+      case "eth_chainId":
+        return toQuantity(this.chainId);
+      case "eth_blockNumber":
+        return toQuantity(this.head.number);
+      case "eth_getBalance":
+        return toQuantity(this.balances.get(String(params[0]).toLowerCase()) ?? BigInt(0));
+      case "eth_getTransactionCount":
+        return toQuantity(this.nonces.get(String(params[0]).toLowerCase()) ?? 0);
+      case "eth_gasPrice":
+        return toQuantity(this.head.baseFeePerGas + BigInt(1_000_000_000));
+      case "eth_maxPriorityFeePerGas":
+        return toQuantity(1_000_000_000);
+      case "eth_getCode":
+        return this.code.get(String(params[0]).toLowerCase()) ?? "0x";
+      case "eth_getStorageAt": {
+        const slot = "0x" + String(params[1]).replace(/^0x/, "").toLowerCase().padStart(64, "0");
+        return this.storage.get(`${String(params[0]).toLowerCase()}:${slot}`) ?? "0x" + "0".repeat(64);
+      }
+      case "eth_getBlockByNumber": {
+        const block = this.blockAt(params[0]);
+        return block ? this.formatBlock(block) : null;
+      }
+      case "eth_getBlockByHash": {
+        const block = this.blocks.find((b) => b.hash === params[0]);
+        return block ? this.formatBlock(block) : null;
+      }
+      case "eth_call": {
+        const { to, data, from } = params[0];
+        const handler = this.callHandlers.get(String(to).toLowerCase());
+        if (!handler) throw new RpcError(-32000, "execution reverted");
+        return handler(data, from);
+      }
+      case "eth_estimateGas": {
+        const { to, data, from } = params[0];
+        const handler = to ? this.callHandlers.get(String(to).toLowerCase()) : undefined;
+        if (to && this.code.has(String(to).toLowerCase()) && !handler) {
+          throw new RpcError(-32000, "execution reverted");
+        }
+        // Handlers signal reverts by throwing; their return data is ignored here.
+        handler?.(data, from);
+        const payload = data && data !== "0x" ? (String(data).length - 2) / 2 : 0;
+        return toQuantity(21_000 + 16 * payload);
+      }
+      case "eth_sendRawTransaction": {
+        const raw = String(params[0]);
+        // Signed transactions are decoded for sender and nonce; anything else is accepted as opaque.
+        let tx: Transaction | undefined;
+        try {
+          tx = Transaction.from(raw);
+        } catch {
+          tx = undefined;
+        }
+        const sender = tx?.from?.toLowerCase();
+        if (sender) {
+          const expected = this.nonces.get(sender) ?? 0;
+          // Transactions are mined as they arrive, so a used nonce is always a mined one.
+          if (tx!.nonce < expected) {
+            throw new RpcError(-32000, `nonce too low: next nonce ${expected}, tx nonce ${tx!.nonce}`);
+          }
+          if (tx!.nonce !== expected) {
+            throw new RpcError(-32000, `nonce ${tx!.nonce} does not match account nonce ${expected}`);
+          }
+          this.nonces.set(sender, expected + 1);
+        }
+        const hash = tx?.hash ?? hash32("tx", raw);
+        // Creation transactions get the CREATE address; the init code stands in for runtime code.
+        const contractAddress = tx?.from && !tx.to ? getCreateAddress({ from: tx.from, nonce: tx.nonce }) : null;
+        if (contractAddress) this.setCode(contractAddress, tx!.data);
+        const block = this.mine(1, [hash]);
+        this.receipts.set(hash, {
+          transactionHash: hash,
+          transactionIndex: "0x0",
+          blockHash: block.hash,
+          blockNumber: toQuantity(block.number),
+          from: tx?.from ?? "0x" + "0".repeat(40),
+          to: tx?.to ?? null,
+          contractAddress,
+          gasUsed: toQuantity(21_000),
+          effectiveGasPrice: toQuantity(block.baseFeePerGas),
+          status: "0x1",
+          logs: [],
+        });
+        return hash;
+      }
+      case "eth_getTransactionReceipt":
+        return this.receipts.get(String(params[0])) ?? null;
+      case "eth_getLogs": {
+        const filter = params[0] ?? {};
+        const from = filter.fromBlock ? this.blockAt(filter.fromBlock)?.number ?? BigInt(0) : BigInt(0);
+        const to = filter.toBlock ? this.blockAt(filter.toBlock)?.number ?? this.head.number : this.head.number;
+        const addresses = filter.address
+          ? ([] as string[]).concat(filter.address).map((a) => a.toLowerCase())
+          : undefined;
+        return this.logs.filter((log) => {
+          const n = hexToBigInt(log.blockNumber);
+          if (filter.blockHash ? log.blockHash !== filter.blockHash : n < from || n > to) return false;
+          if (addresses && !addresses.includes(log.address)) return false;
+          return (filter.topics ?? []).every((topic: string | string[] | null, i: number) =>
+            topic === null || ([] as string[]).concat(topic).includes(log.topics[i])
+          );
+        });
+      }
+      default:
+        throw new RpcError(-32601, `Method ${method} not supported by FakeChain`);
+    }
+  }
+}
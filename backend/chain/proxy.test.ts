@@ -0,0 +1,89 @@
+import { Interface, getAddress, zeroPadValue } from "ethers";
+import { describe, expect, it } from "vitest";
+import { FakeChain } from "./fake_chain";
+import {
+  EIP1822_PROXIABLE_SLOT,
+  EIP1967_ADMIN_SLOT,
+  EIP1967_BEACON_SLOT,
+  EIP1967_IMPLEMENTATION_SLOT,
+  detectProxy,
+  mergeProxyAbi,
+} from "./proxy";
+import { RpcClient } from "./rpc";
+
+const PROXY = getAddress("0x00000000000000000000000000000000000000a1");
+const IMPLEMENTATION = getAddress("0x00000000000000000000000000000000000000b2");
+const ADMIN = getAddress("0x00000000000000000000000000000000000000c3");
+const BEACON = getAddress("0x00000000000000000000000000000000000000d4");
+
+function setup() {
+  const chain = new FakeChain();
+  chain.setCode(IMPLEMENTATION, "0x6080");
+  return { chain, client: new RpcClient(chain) };
+}
+
+describe("detectProxy", () => {
+  it("reads EIP-1967 implementation and admin slots", async () => {
+    const { chain, client } = setup();
+    chain.setStorageAt(PROXY, EIP1967_IMPLEMENTATION_SLOT, IMPLEMENTATION);
+    chain.setStorageAt(PROXY, EIP1967_ADMIN_SLOT, ADMIN);
+
+    expect(await detectProxy(client, PROXY)).toEqual({
+      type: "eip1967",
+      implementation: IMPLEMENTATION,
+      admin: ADMIN,
+    });
+  });
+
+  it("asks the beacon for the implementation of beacon proxies", async () => {
+    const { chain, client } = setup();
+    const beacon = new Interface(["function implementation() view returns (address)"]);
+    chain.setStorageAt(PROXY, EIP1967_BEACON_SLOT, BEACON);
+    chain.onCall(BEACON, () => beacon.encodeFunctionResult("implementation", [IMPLEMENTATION]));
+
+    expect(await detectProxy(client, PROXY)).toMatchObject({ type: "eip1967-beacon", beacon: BEACON });
+
+    chain.onCall(BEACON, () => "0x");
+    expect(await detectProxy(client, PROXY)).toBeNull();
+  });
+
+  it("reads the EIP-1822 PROXIABLE slot", async () => {
+    const { chain, client } = setup();
+    chain.setStorageAt(PROXY, EIP1822_PROXIABLE_SLOT, IMPLEMENTATION);
+
+    expect(await detectProxy(client, PROXY)).toEqual({ type: "eip1822", implementation: IMPLEMENTATION });
+  });
+
+  it("ignores slots that do not point at a contract", async () => {
+    const { chain, client } = setup();
+    expect(await detectProxy(client, PROXY)).toBeNull();
+
+    // Not an address: the high bytes are set.
+    chain.setStorageAt(PROXY, EIP1967_IMPLEMENTATION_SLOT, "0x01" + IMPLEMENTATION.slice(2).padStart(62, "0"));
+    expect(await detectProxy(client, PROXY)).toBeNull();
+
+    chain.setStorageAt(PROXY, EIP1967_IMPLEMENTATION_SLOT, zeroPadValue(ADMIN, 32));
+    expect(await detectProxy(client, PROXY)).toBeNull();
+  });
+});
+
+describe("mergeProxyAbi", () => {
+  it("adds proxy entries the implementation does not shadow", () => {
+    const proxy = new Interface([
+      "constructor(address logic)",
+      "function upgradeTo(address implementation)",
+      "function owner() view returns (address)",
+      "event Upgraded(address indexed implementation)",
+    ]).formatJson();
+    const implementation = new Interface(["function owner() view returns (address)", "function transfer(address to, uint256 amount)"]).formatJson();
+
+    const merged = new Interface(mergeProxyAbi(proxy, implementation));
+
+    expect(merged.fragments.map((fragment) => fragment.format("sighash"))).toEqual([
+      "owner()",
+      "transfer(address,uint256)",
+      "upgradeTo(address)",
+      "Upgraded(address)",
+    ]);
+  });
+});
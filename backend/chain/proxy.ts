@@ -0,0 +1,136 @@
+import { Interface, getAddress, id } from "ethers";
+import { AbiValidationError } from "./abi";
+import { BlockTag, Log, RpcClient, RpcError } from "./rpc";
+
+// Detection of upgradeable proxies from their standard storage slots:
+// EIP-1967 (transparent, UUPS and beacon proxies) and EIP-1822 (UUPS "PROXIABLE").
+
+export type ProxyType = "eip1967" | "eip1967-beacon" | "eip1822";
+
+export interface ProxyInfo {
+  type: ProxyType;
+  implementation: string;
+  // EIP-1967 admin slot; set for transparent proxies.
+  admin?: string;
+  // Set for beacon proxies; the implementation is read from the beacon.
+  beacon?: string;
+}
+
+export interface UpgradeEvent {
+  implementation: string;
+  blockNumber: bigint;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+export const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+// bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1)
+export const EIP1967_ADMIN_SLOT = "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+// bytes32(uint256(keccak256("eip1967.proxy.beacon")) - 1)
+export const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+// keccak256("PROXIABLE")
+export const EIP1822_PROXIABLE_SLOT = "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7";
+
+// Upgraded(address indexed implementation), emitted by EIP-1967 proxies and beacons.
+export const UPGRADED_TOPIC = id("Upgraded(address)");
+
+const BEACON_INTERFACE = new Interface(["function implementation() view returns (address)"]);
+
+// Storage words hold an address in their low 20 bytes; anything else is not a pointer.
+function slotAddress(word: string): string | null {
+  const hex = word.replace(/^0x/, "").padStart(64, "0");
+  if (!/^0{24}[0-9a-fA-F]{40}$/.test(hex) || /^0+$/.test(hex)) return null;
+  return getAddress("0x" + hex.slice(24));
+}
+
+async function beaconImplementation(client: RpcClient, beacon: string, blockTag: BlockTag): Promise<string | null> {
+  try {
+    const data = BEACON_INTERFACE.encodeFunctionData("implementation");
+    const [implementation] = BEACON_INTERFACE.decodeFunctionResult(
+      "implementation",
+      await client.call({ to: beacon, data }, blockTag)
+    );
+    return getAddress(implementation);
+  } catch (err) {
+    // A reverting or non-conforming beacon leaves the proxy undetected.
+    if (err instanceof RpcError || (err as { code?: string }).code === "BAD_DATA") return null;
+    throw err;
+  }
+}
+
+// Reads the proxy slots of `address`; null when none of them points at a contract.
+export async function detectProxy(client: RpcClient, address: string, blockTag: BlockTag = "latest"): Promise<ProxyInfo | null> {
+  const [implementationWord, adminWord, beaconWord, proxiableWord] = await Promise.all([
+    client.getStorageAt(address, EIP1967_IMPLEMENTATION_SLOT, blockTag),
+    client.getStorageAt(address, EIP1967_ADMIN_SLOT, blockTag),
+    client.getStorageAt(address, EIP1967_BEACON_SLOT, blockTag),
+    client.getStorageAt(address, EIP1822_PROXIABLE_SLOT, blockTag),
+  ]);
+  const admin = slotAddress(adminWord) ?? undefined;
+
+  let info: ProxyInfo | null = null;
+  const implementation = slotAddress(implementationWord);
+  const beacon = slotAddress(beaconWord);
+  const proxiable = slotAddress(proxiableWord);
+  if (implementation) {
+    info = { type: "eip1967", implementation, admin };
+  } else if (beacon) {
+    const fromBeacon = await beaconImplementation(client, beacon, blockTag);
+    if (fromBeacon) info = { type: "eip1967-beacon", implementation: fromBeacon, admin, beacon };
+  } else if (proxiable) {
+    info = { type: "eip1822", implementation: proxiable };
+  }
+  if (!info) return null;
+
+  // Slots can collide with unrelated storage; only trust them when they point at code.
+  const code = await client.getCode(info.implementation, blockTag);
+  return code === "0x" ? null : info;
+}
+
+export function parseUpgradedLog(log: Log): UpgradeEvent | null {
+  if (log.topics[0] !== UPGRADED_TOPIC || log.topics.length < 2) return null;
+  const implementation = slotAddress(log.topics[1]);
+  if (!implementation) return null;
+  return {
+    implementation,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  };
+}
+
+// ABI used to talk to a proxy: the implementation's entries plus those of the
+// proxy itself (e.g. admin functions) that the implementation does not shadow.
+export function mergeProxyAbi(proxyAbi: string, implementationAbi: string): string {
+  try {
+    return mergeAbis(JSON.parse(proxyAbi), JSON.parse(implementationAbi));
+  } catch (err) {
+    throw new AbiValidationError([`cannot merge proxy and implementation ABIs: ${(err as Error).message}`]);
+  }
+}
+
+function mergeAbis(proxy: any[], implementation: any[]): string {
+  const implementationIface = new Interface(implementation);
+  const shadowed = (entry: any) => {
+    switch (entry.type) {
+      case "function":
+        return implementationIface.getFunction(Interface.from([entry]).getFunction(entry.name)!.selector) !== null;
+      case "event":
+        return implementationIface.getEvent(Interface.from([entry]).getEvent(entry.name)!.topicHash) !== null;
+      case "error":
+        return implementationIface.getError(Interface.from([entry]).getError(entry.name)!.selector) !== null;
+      case "constructor":
+        return true;
+      default:
+        return implementation.some((other) => other.type === entry.type);
+    }
+  };
+  return JSON.stringify([...implementation, ...proxy.filter((entry) => !shadowed(entry))]);
+}
+
+// The ABI to encode calls and decode results with: a linked implementation's
+// ABI takes over from the one stored on the proxy.
+export function effectiveContractAbi(abi: string, implementationAbi?: string | null): string {
+  return implementationAbi ? mergeProxyAbi(abi, implementationAbi) : abi;
+}
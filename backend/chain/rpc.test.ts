@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { FakeChain } from "./fake_chain";
+import { JsonRpcRequest, JsonRpcResponse, RpcClient, RpcError, RpcTransport, RpcTransportError } from "./rpc";
+
+// Answers every request with a fixed result, or the errors queued for its method.
+class ScriptedTransport implements RpcTransport {
+  readonly received: JsonRpcRequest[][] = [];
+  private readonly errors = new Map<string, JsonRpcResponse["error"][]>();
+
+  failMethod(method: string, ...errors: NonNullable<JsonRpcResponse["error"]>[]) {
+    this.errors.set(method, errors);
+  }
+
+  async send(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    this.received.push(requests);
+    return requests.map((req) => {
+      const error = this.errors.get(req.method)?.shift();
+      return error ? { jsonrpc: "2.0", id: req.id, error } : { jsonrpc: "2.0", id: req.id, result: "0x1" };
+    });
+  }
+}
+
+describe("RpcClient batching", () => {
+  it("sends calls made in the same window as one batch", async () => {
+    const chain = new FakeChain({ chainId: 5 });
+    chain.mine(3);
+    const client = new RpcClient(chain);
+
+    const [chainId, head, balance] = await Promise.all([
+      client.chainId(),
+      client.blockNumber(),
+      client.getBalance("0x0000000000000000000000000000000000000001"),
+    ]);
+
+    expect(chainId).toBe(5);
+    expect(head).toBe(BigInt(3));
+    expect(balance).toBe(BigInt(0));
+    expect(chain.received).toHaveLength(1);
+    expect(chain.received[0].map((req) => req.method)).toEqual(["eth_chainId", "eth_blockNumber", "eth_getBalance"]);
+  });
+
+  it("splits a window into batches of at most maxBatchSize calls", async () => {
+    const transport = new ScriptedTransport();
+    const client = new RpcClient(transport, { maxBatchSize: 2 });
+
+    await Promise.all([client.chainId(), client.chainId(), client.chainId(), client.chainId(), client.chainId()]);
+
+    expect(transport.received.map((batch) => batch.length)).toEqual([2, 2, 1]);
+  });
+
+  it("settles each call in a batch on its own", async () => {
+    const transport = new ScriptedTransport();
+    transport.failMethod("eth_call", { code: 3, message: "execution reverted" });
+    const client = new RpcClient(transport);
+
+    const [call, head] = await Promise.allSettled([client.call({ to: "0x01", data: "0x" }), client.blockNumber()]);
+
+    expect(call.status).toBe("rejected");
+    expect((call as PromiseRejectedResult).reason).toBeInstanceOf(RpcError);
+    expect(head).toEqual({ status: "fulfilled", value: BigInt(1) });
+  });
+});
+
+describe("RpcClient retries", () => {
+  it("retries transport failures with backoff", async () => {
+    const chain = new FakeChain();
+    chain.failNext();
+    chain.failNext();
+    const client = new RpcClient(chain, { retries: 2, retryDelayMs: 1 });
+
+    await expect(client.chainId()).resolves.toBe(31337);
+    expect(chain.received).toHaveLength(3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const chain = new FakeChain();
+    chain.failNext();
+    chain.failNext();
+    const client = new RpcClient(chain, { retries: 1, retryDelayMs: 1 });
+
+    await expect(client.chainId()).rejects.toBeInstanceOf(RpcTransportError);
+    expect(chain.received).toHaveLength(2);
+  });
+
+  it("retries rate-limit errors but not other node errors", async () => {
+    const transport = new ScriptedTransport();
+    transport.failMethod("eth_blockNumber", { code: -32005, message: "limit exceeded" });
+    transport.failMethod("eth_call", { code: -32000, message: "execution reverted" });
+    const client = new RpcClient(transport, { retries: 2, retryDelayMs: 1 });
+
+    await expect(client.blockNumber()).resolves.toBe(BigInt(1));
+    await expect(client.call({ to: "0x01", data: "0x" })).rejects.toMatchObject({ code: -32000 });
+    const calls = transport.received.flat().map((req) => req.method);
+    expect(calls.filter((method) => method === "eth_blockNumber")).toHaveLength(2);
+    expect(calls.filter((method) => method === "eth_call")).toHaveLength(1);
+  });
+
+  it("does not retry client errors from the HTTP layer", async () => {
+    const chain = new FakeChain();
+    chain.failNext(new RpcTransportError("bad request", 400));
+    const client = new RpcClient(chain, { retries: 2, retryDelayMs: 1 });
+
+    await expect(client.chainId()).rejects.toMatchObject({ status: 400 });
+    expect(chain.received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,398 @@
+// Minimal Ethereum JSON-RPC client shared by every service that talks to a chain.
+// Calls are queued and flushed as JSON-RPC batches; transient failures are retried
+// with exponential backoff. The wire layer is an RpcTransport so tests can swap in
+// an in-process chain (see fake_chain.ts) instead of HTTP.
+
+export type BlockTag = "latest" | "earliest" | "pending" | "safe" | "finalized" | number | bigint;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface RpcTransport {
+  send(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]>;
+}
+
+export interface CallRequest {
+  // Omitted for contract creation.
+  to?: string;
+  data: string;
+  from?: string;
+  value?: bigint;
+  gas?: bigint;
+}
+
+export interface LogFilter {
+  address?: string | string[];
+  topics?: (string | string[] | null)[];
+  fromBlock?: BlockTag;
+  toBlock?: BlockTag;
+  blockHash?: string;
+}
+
+export interface Log {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: bigint;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: number;
+  logIndex: number;
+  removed: boolean;
+}
+
+export interface TransactionReceipt {
+  transactionHash: string;
+  transactionIndex: number;
+  blockHash: string;
+  blockNumber: bigint;
+  from: string;
+  to: string | null;
+  contractAddress: string | null;
+  gasUsed: bigint;
+  effectiveGasPrice?: bigint;
+  status: "success" | "reverted";
+  logs: Log[];
+}
+
+export interface Block {
+  number: bigint;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  baseFeePerGas?: bigint;
+  gasUsed: bigint;
+  gasLimit?: bigint;
+  transactions: string[];
+}
+
+export interface RpcClientOptions {
+  // Extra attempts after the first one for retryable failures.
+  retries?: number;
+  // Base backoff delay; doubled on every attempt.
+  retryDelayMs?: number;
+  // How long calls are collected before a batch is sent.
+  batchWindowMs?: number;
+  maxBatchSize?: number;
+}
+
+export interface HttpTransportOptions {
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+// Error returned by the node in the JSON-RPC error object.
+export class RpcError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+    super(message);
+    this.name = "RpcError";
+  }
+}
+
+// Error raised before a JSON-RPC response could be read (timeouts, HTTP failures).
+export class RpcTransportError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "RpcTransportError";
+  }
+}
+
+// -32005 is the de facto "limit exceeded" code used by hosted providers.
+const RETRYABLE_RPC_CODES = new Set([-32005]);
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof RpcTransportError) {
+    return err.status === undefined || err.status === 429 || err.status >= 500;
+  }
+  return err instanceof RpcError && RETRYABLE_RPC_CODES.has(err.code);
+}
+
+// --- Hex helpers ---
+
+export function toQuantity(value: number | bigint): string {
+  return "0x" + BigInt(value).toString(16);
+}
+
+export function hexToBigInt(hex: string): bigint {
+  return hex === "0x" ? BigInt(0) : BigInt(hex);
+}
+
+export function hexToNumber(hex: string): number {
+  return Number(hexToBigInt(hex));
+}
+
+function toBlockTag(tag: BlockTag): string {
+  return typeof tag === "string" ? tag : toQuantity(tag);
+}
+
+function parseLog(raw: any): Log {
+  return {
+    address: raw.address,
+    topics: raw.topics ?? [],
+    data: raw.data,
+    blockNumber: hexToBigInt(raw.blockNumber),
+    blockHash: raw.blockHash,
+    transactionHash: raw.transactionHash,
+    transactionIndex: hexToNumber(raw.transactionIndex),
+    logIndex: hexToNumber(raw.logIndex),
+    removed: raw.removed ?? false,
+  };
+}
+
+function callParams(tx: CallRequest): Record<string, string> {
+  const params: Record<string, string> = { data: tx.data };
+  if (tx.to) params.to = tx.to;
+  if (tx.from) params.from = tx.from;
+  if (tx.value !== undefined) params.value = toQuantity(tx.value);
+  if (tx.gas !== undefined) params.gas = toQuantity(tx.gas);
+  return params;
+}
+
+function parseBlock(raw: any): Block {
+  return {
+    number: hexToBigInt(raw.number),
+    hash: raw.hash,
+    parentHash: raw.parentHash,
+    timestamp: hexToNumber(raw.timestamp),
+    baseFeePerGas: raw.baseFeePerGas ? hexToBigInt(raw.baseFeePerGas) : undefined,
+    gasUsed: hexToBigInt(raw.gasUsed),
+    gasLimit: raw.gasLimit ? hexToBigInt(raw.gasLimit) : undefined,
+    transactions: (raw.transactions ?? []).map((tx: any) => (typeof tx === "string" ? tx : tx.hash)),
+  };
+}
+
+function parseReceipt(raw: any): TransactionReceipt {
+  return {
+    transactionHash: raw.transactionHash,
+    transactionIndex: hexToNumber(raw.transactionIndex),
+    blockHash: raw.blockHash,
+    blockNumber: hexToBigInt(raw.blockNumber),
+    from: raw.from,
+    to: raw.to ?? null,
+    contractAddress: raw.contractAddress ?? null,
+    gasUsed: hexToBigInt(raw.gasUsed),
+    effectiveGasPrice: raw.effectiveGasPrice ? hexToBigInt(raw.effectiveGasPrice) : undefined,
+    status: raw.status === "0x1" ? "success" : "reverted",
+    logs: (raw.logs ?? []).map(parseLog),
+  };
+}
+
+// --- Transports ---
+
+export class HttpTransport implements RpcTransport {
+  private readonly timeoutMs: number;
+  private readonly headers: Record<string, string>;
+
+  constructor(public readonly url: string, options: HttpTransportOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.headers = options.headers ?? {};
+  }
+
+  async send(requests: JsonRpcRequest[]): Promise<JsonRpcResponse[]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.headers },
+        // Single calls are sent unwrapped; some providers reject one-element batches.
+        body: JSON.stringify(requests.length === 1 ? requests[0] : requests),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new RpcTransportError(`RPC request timed out after ${this.timeoutMs}ms`);
+      }
+      throw new RpcTransportError(`RPC request failed: ${(err as Error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new RpcTransportError(`RPC endpoint responded with HTTP ${response.status}`, response.status);
+    }
+    const body = (await response.json()) as JsonRpcResponse | JsonRpcResponse[];
+    return Array.isArray(body) ? body : [body];
+  }
+}
+
+// --- Client ---
+
+interface PendingCall {
+  method: string;
+  params: unknown[];
+  attempt: number;
+  resolve: (result: any) => void;
+  reject: (err: unknown) => void;
+}
+
+export class RpcClient {
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+  private readonly batchWindowMs: number;
+  private readonly maxBatchSize: number;
+  private queue: PendingCall[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private nextId = 1;
+
+  constructor(public readonly transport: RpcTransport, options: RpcClientOptions = {}) {
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 250;
+    this.batchWindowMs = options.batchWindowMs ?? 10;
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+  }
+
+  // Low-level entry point; every typed helper below goes through here.
+  request<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.enqueue({ method, params, attempt: 0, resolve, reject });
+    });
+  }
+
+  async chainId(): Promise<number> {
+    return hexToNumber(await this.request<string>("eth_chainId"));
+  }
+
+  async blockNumber(): Promise<bigint> {
+    return hexToBigInt(await this.request<string>("eth_blockNumber"));
+  }
+
+  // Header plus transaction hashes; full transaction bodies are not requested.
+  async getBlock(blockTag: BlockTag = "latest"): Promise<Block | null> {
+    const raw = await this.request("eth_getBlockByNumber", [toBlockTag(blockTag), false]);
+    return raw ? parseBlock(raw) : null;
+  }
+
+  async getBlockByHash(hash: string): Promise<Block | null> {
+    const raw = await this.request("eth_getBlockByHash", [hash, false]);
+    return raw ? parseBlock(raw) : null;
+  }
+
+  async getBalance(address: string, blockTag: BlockTag = "latest"): Promise<bigint> {
+    return hexToBigInt(await this.request<string>("eth_getBalance", [address, toBlockTag(blockTag)]));
+  }
+
+  getCode(address: string, blockTag: BlockTag = "latest"): Promise<string> {
+    return this.request<string>("eth_getCode", [address, toBlockTag(blockTag)]);
+  }
+
+  // Raw 32-byte word of a storage slot.
+  getStorageAt(address: string, slot: string, blockTag: BlockTag = "latest"): Promise<string> {
+    return this.request<string>("eth_getStorageAt", [address, slot, toBlockTag(blockTag)]);
+  }
+
+  async getTransactionCount(address: string, blockTag: BlockTag = "latest"): Promise<number> {
+    return hexToNumber(await this.request<string>("eth_getTransactionCount", [address, toBlockTag(blockTag)]));
+  }
+
+  async gasPrice(): Promise<bigint> {
+    return hexToBigInt(await this.request<string>("eth_gasPrice"));
+  }
+
+  // Suggested EIP-1559 tip; only available on nodes of fee-market chains.
+  async maxPriorityFeePerGas(): Promise<bigint> {
+    return hexToBigInt(await this.request<string>("eth_maxPriorityFeePerGas"));
+  }
+
+  call(tx: CallRequest, blockTag: BlockTag = "latest"): Promise<string> {
+    return this.request<string>("eth_call", [callParams(tx), toBlockTag(blockTag)]);
+  }
+
+  async estimateGas(tx: CallRequest): Promise<bigint> {
+    return hexToBigInt(await this.request<string>("eth_estimateGas", [callParams(tx)]));
+  }
+
+  sendRawTransaction(signedTx: string): Promise<string> {
+    return this.request<string>("eth_sendRawTransaction", [signedTx]);
+  }
+
+  async getTransactionReceipt(hash: string): Promise<TransactionReceipt | null> {
+    const raw = await this.request("eth_getTransactionReceipt", [hash]);
+    return raw ? parseReceipt(raw) : null;
+  }
+
+  async getLogs(filter: LogFilter): Promise<Log[]> {
+    const params: Record<string, unknown> = {};
+    if (filter.address) params.address = filter.address;
+    if (filter.topics) params.topics = filter.topics;
+    if (filter.blockHash) {
+      params.blockHash = filter.blockHash;
+    } else {
+      if (filter.fromBlock !== undefined) params.fromBlock = toBlockTag(filter.fromBlock);
+      if (filter.toBlock !== undefined) params.toBlock = toBlockTag(filter.toBlock);
+    }
+    const raw = await this.request<any[]>("eth_getLogs", [params]);
+    return raw.map(parseLog);
+  }
+
+  private enqueue(call: PendingCall) {
+    this.queue.push(call);
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.batchWindowMs);
+    }
+  }
+
+  private flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    while (this.queue.length > 0) {
+      void this.dispatch(this.queue.splice(0, this.maxBatchSize));
+    }
+  }
+
+  private async dispatch(batch: PendingCall[]) {
+    const requests: JsonRpcRequest[] = batch.map((call) => ({
+      jsonrpc: "2.0",
+      id: this.nextId++,
+      method: call.method,
+      params: call.params,
+    }));
+
+    let responses: JsonRpcResponse[];
+    try {
+      responses = await this.transport.send(requests);
+    } catch (err) {
+      for (const call of batch) this.retryOrReject(call, err);
+      return;
+    }
+
+    const byId = new Map(responses.map((res) => [res.id, res]));
+    requests.forEach((req, i) => {
+      const call = batch[i];
+      const res = byId.get(req.id);
+      if (!res) {
+        this.retryOrReject(call, new RpcTransportError(`No response for ${call.method} in batch`));
+      } else if (res.error) {
+        this.retryOrReject(call, new RpcError(res.error.code, res.error.message, res.error.data));
+      } else {
+        call.resolve(res.result);
+      }
+    });
+  }
+
+  private retryOrReject(call: PendingCall, err: unknown) {
+    if (call.attempt >= this.retries || !isRetryable(err)) {
+      call.reject(err);
+      return;
+    }
+    const delay = this.retryDelayMs * 2 ** call.attempt;
+    call.attempt++;
+    setTimeout(() => this.enqueue(call), delay);
+  }
+}
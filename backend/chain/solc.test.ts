@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { CompiledContract, compareRuntimeBytecode, isBundledCompiler, bundledCompilerVersion } from "./solc";
+
+// Runtime code followed by CBOR metadata (a2 ... ) and its two-byte length.
+const METADATA = "a2646970667358221220" + "ab".repeat(32) + "64736f6c6343000825" + "0033";
+const CODE = "6080604052348015600e575f5ffd5b50" + "73" + "00".repeat(20) + "5f52";
+
+function compiled(runtimeBytecode: string, overrides: Partial<CompiledContract> = {}): CompiledContract {
+  return {
+    sourceName: "src/Token.sol",
+    contractName: "Token",
+    abi: [],
+    runtimeBytecode,
+    immutableReferences: [],
+    linkReferences: [],
+    ...overrides,
+  };
+}
+
+describe("compareRuntimeBytecode", () => {
+  it("matches identical code fully", () => {
+    expect(compareRuntimeBytecode(compiled(CODE + METADATA), `0x${(CODE + METADATA).toUpperCase()}`)).toBe("full");
+  });
+
+  it("matches code that differs only in its metadata hash partially", () => {
+    const otherMetadata = METADATA.replace("ab".repeat(32), "cd".repeat(32));
+
+    expect(compareRuntimeBytecode(compiled(CODE + METADATA), `0x${CODE}${otherMetadata}`)).toBe("partial");
+  });
+
+  it("takes library addresses and immutables from the deployed code", () => {
+    const library = "11".repeat(20);
+    const deployed = CODE.replace("00".repeat(20), library) + METADATA;
+
+    expect(compareRuntimeBytecode(compiled(CODE + METADATA), `0x${deployed}`)).toBeNull();
+    expect(
+      compareRuntimeBytecode(compiled(CODE + METADATA, { linkReferences: [{ start: 17, length: 20 }] }), `0x${deployed}`)
+    ).toBe("full");
+  });
+
+  it("rejects different code", () => {
+    expect(compareRuntimeBytecode(compiled(CODE + METADATA), `0x${CODE.replace("6080", "6081")}${METADATA}`)).toBeNull();
+    expect(compareRuntimeBytecode(compiled(CODE + METADATA), `0x${CODE}`)).toBeNull();
+  });
+});
+
+describe("isBundledCompiler", () => {
+  it("accepts the bundled version with or without prefix and commit", () => {
+    const full = bundledCompilerVersion();
+
+    expect(full).toMatch(/^\d+\.\d+\.\d+\+commit\.[0-9a-f]{8}$/);
+    expect(isBundledCompiler(`v${full}`)).toBe(true);
+    expect(isBundledCompiler(full.split("+")[0])).toBe(true);
+    expect(isBundledCompiler("0.4.24")).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import solc from "solc";
+
+// Compiles Solidity standard-JSON input with the solc-js build bundled in
+// node_modules (no compiler downloads) and compares runtime bytecode with
+// what is deployed on chain.
+
+export interface StandardJsonSource {
+  content: string;
+}
+
+export interface StandardJsonInput {
+  language: string;
+  sources: Record<string, StandardJsonSource>;
+  settings?: Record<string, any>;
+}
+
+export interface LinkReference {
+  start: number;
+  length: number;
+}
+
+export interface CompiledContract {
+  sourceName: string;
+  contractName: string;
+  abi: unknown[];
+  // Runtime bytecode without 0x; library addresses are unlinked placeholders.
+  runtimeBytecode: string;
+  immutableReferences: LinkReference[];
+  linkReferences: LinkReference[];
+}
+
+// "full" also matches the metadata hash, i.e. byte-identical sources and settings.
+export type BytecodeMatch = "full" | "partial";
+
+export class CompilationError extends Error {
+  constructor(message: string, public readonly errors: string[] = []) {
+    super(errors.length > 0 ? `${message}: ${errors.join("\n")}` : message);
+    this.name = "CompilationError";
+  }
+}
+
+const OUTPUT_SELECTION = {
+  "*": {
+    "*": [
+      "abi",
+      "evm.deployedBytecode.object",
+      "evm.deployedBytecode.immutableReferences",
+      "evm.deployedBytecode.linkReferences",
+    ],
+  },
+};
+
+// e.g. "0.8.37+commit.f401782d"
+export function bundledCompilerVersion(): string {
+  return String(solc.version()).replace(/\.Emscripten.*$/, "");
+}
+
+// Accepts "0.8.37", "v0.8.37" or the full "v0.8.37+commit.f401782d".
+export function isBundledCompiler(version: string): boolean {
+  const requested = version.trim().replace(/^v/, "");
+  const bundled = bundledCompilerVersion();
+  return requested === bundled || requested === bundled.split("+")[0];
+}
+
+function findContract(output: any, target: string): { sourceName: string; contractName: string; contract: any } {
+  const separator = target.lastIndexOf(":");
+  if (separator !== -1) {
+    const sourceName = target.slice(0, separator);
+    const contractName = target.slice(separator + 1);
+    const contract = output.contracts?.[sourceName]?.[contractName];
+    if (!contract) throw new CompilationError(`Contract ${target} not found in the compiler output`);
+    return { sourceName, contractName, contract };
+  }
+  const matches = Object.entries(output.contracts ?? {}).flatMap(([sourceName, contracts]) =>
+    Object.entries(contracts as Record<string, any>)
+      .filter(([name]) => name === target)
+      .map(([contractName, contract]) => ({ sourceName, contractName, contract }))
+  );
+  if (matches.length === 0) throw new CompilationError(`Contract ${target} not found in the compiler output`);
+  if (matches.length > 1) {
+    throw new CompilationError(
+      `Contract name ${target} is ambiguous; use one of ${matches.map((m) => `${m.sourceName}:${target}`).join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
+function flattenReferences(refs: Record<string, any> | undefined, depth: 1 | 2): LinkReference[] {
+  const lists = depth === 1 ? Object.values(refs ?? {}) : Object.values(refs ?? {}).flatMap((lib) => Object.values(lib));
+  return (lists as LinkReference[][]).flat().map(({ start, length }) => ({ start, length }));
+}
+
+// Compiles synchronously; large inputs can take seconds of CPU.
+export function compileStandardJson(input: StandardJsonInput, target: string): CompiledContract {
+  for (const [name, source] of Object.entries(input.sources)) {
+    if (typeof source?.content !== "string") {
+      throw new CompilationError(`Source ${name} has no content; URL sources are not supported`);
+    }
+  }
+  // Only the output selection is overridden; it does not affect the generated code.
+  const request = { ...input, settings: { ...(input.settings ?? {}), outputSelection: OUTPUT_SELECTION } };
+  const output = JSON.parse(solc.compile(JSON.stringify(request)));
+
+  const errors = ((output.errors ?? []) as any[])
+    .filter((error) => error.severity === "error")
+    .map((error) => String(error.formattedMessage ?? error.message).trim());
+  if (errors.length > 0) {
+    throw new CompilationError("Compilation failed", errors);
+  }
+
+  const { sourceName, contractName, contract } = findContract(output, target);
+  const runtimeBytecode = String(contract.evm?.deployedBytecode?.object ?? "").toLowerCase();
+  if (!runtimeBytecode) {
+    throw new CompilationError(`${sourceName}:${contractName} has no runtime bytecode (abstract contract or interface)`);
+  }
+  return {
+    sourceName,
+    contractName,
+    abi: contract.abi ?? [],
+    runtimeBytecode,
+    immutableReferences: flattenReferences(contract.evm.deployedBytecode.immutableReferences, 1),
+    linkReferences: flattenReferences(contract.evm.deployedBytecode.linkReferences, 2),
+  };
+}
+
+// Solidity appends CBOR-encoded metadata followed by its two-byte length.
+function stripMetadata(hex: string): string {
+  if (hex.length < 4) return hex;
+  const length = parseInt(hex.slice(-4), 16);
+  const start = hex.length - 4 - length * 2;
+  // CBOR maps start with 0xa1..0xa5 for the handful of keys solc emits.
+  if (start < 0 || !/^a[1-5]$/.test(hex.slice(start, start + 2))) return hex;
+  return hex.slice(0, start);
+}
+
+// Library addresses and immutables are only known at deploy time, so those
+// ranges are taken from the deployed code before comparing.
+export function compareRuntimeBytecode(compiled: CompiledContract, deployedCode: string): BytecodeMatch | null {
+  const deployed = deployedCode.toLowerCase().replace(/^0x/, "");
+  let expected = compiled.runtimeBytecode;
+  if (expected.length !== deployed.length) {
+    return null;
+  }
+  for (const { start, length } of [...compiled.linkReferences, ...compiled.immutableReferences]) {
+    const from = start * 2;
+    const to = (start + length) * 2;
+    expected = expected.slice(0, from) + deployed.slice(from, to) + expected.slice(to);
+  }
+  if (expected === deployed) return "full";
+  return stripMetadata(expected) === stripMetadata(deployed) ? "partial" : null;
+}
@@ -1,5 +1,6 @@
 import { api, StreamOut } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { callerProjectId } from "../auth/tenancy";
 
 const eventsDB = SQLDatabase.named("blockchain");
 
@@ -42,8 +43,8 @@ export interface ListEventsResponse {
   total: number;
 }
 
-// Connected clients for real-time updates
-const connectedStreams: Set<StreamOut<RealtimeEvent>> = new Set();
+// Connected clients for real-time updates, with the project each one subscribed in
+const connectedStreams: Map<StreamOut<RealtimeEvent>, number> = new Map();
 
 /**
  * Helper to parse eventData safely.
@@ -86,7 +87,7 @@ export const listEvents = api<{
   networkId?: number;
   blockNumber?: number;
 }, ListEventsResponse>(
-  { expose: true, method: "GET", path: "/events/events" },
+  { expose: true, auth: true, method: "GET", path: "/events/events", tags: ["scope:events:read"] },
   async (req) => {
     const page = Math.max(1, req.page ?? 1);
     const limit = Math.min(100, req.limit ?? 50);
@@ -94,6 +95,7 @@ export const listEvents = api<{
 
     // Build dynamic where clause and params
     const { clause: whereClause, params } = buildWhereClause({
+      project_id: callerProjectId(),
       contract_address: req.contractAddress,
       event_name: req.eventName,
       network_id: req.networkId,
@@ -144,7 +146,7 @@ export const listEvents = api<{
  * Get specific event by ID
  */
 export const getEvent = api<{ id: number }, BlockchainEvent>(
-  { expose: true, method: "GET", path: "/events/events/:id" },
+  { expose: true, auth: true, method: "GET", path: "/events/events/:id", tags: ["scope:events:read"] },
   async ({ id }) => {
     if (!id || isNaN(id)) throw new Error("Invalid event ID");
     const event = await eventsDB.queryRow<BlockchainEvent>`
@@ -159,7 +161,7 @@ export const getEvent = api<{ id: number }, BlockchainEvent>(
         network_id as "networkId",
         created_at as "createdAt"
       FROM blockchain_events 
-      WHERE id = ${id}
+      WHERE id = ${id} AND project_id = ${callerProjectId()}
     `;
     if (!event) throw new Error("Event not found");
     return {
@@ -173,7 +175,7 @@ export const getEvent = api<{ id: number }, BlockchainEvent>(
  * Create a new blockchain event
  */
 export const createEvent = api<CreateEventRequest, BlockchainEvent>(
-  { expose: true, method: "POST", path: "/events/events" },
+  { expose: true, auth: true, method: "POST", path: "/events/events", tags: ["scope:events:write"] },
   async (req) => {
     // Validate required fields
     for (const key of [
@@ -181,6 +183,11 @@ export const createEvent = api<CreateEventRequest, BlockchainEvent>(
     ]) {
       if (!(key in req)) throw new Error(`Missing field: ${key}`);
     }
+    const projectId = callerProjectId();
+    const network = await eventsDB.queryRow<{ id: number }>`
+      SELECT id FROM networks WHERE id = ${req.networkId} AND project_id = ${projectId}
+    `;
+    if (!network) throw new Error("Network not found");
 
     const event = await eventsDB.queryRow<BlockchainEvent>`
       INSERT INTO blockchain_events (
@@ -190,7 +197,8 @@ export const createEvent = api<CreateEventRequest, BlockchainEvent>(
         event_data,
         block_number,
         log_index,
-        network_id
+        network_id,
+        project_id
       )
       VALUES (
         ${req.transactionHash},
@@ -199,7 +207,8 @@ export const createEvent = api<CreateEventRequest, BlockchainEvent>(
         ${JSON.stringify(req.eventData)},
         ${req.blockNumber},
         ${req.logIndex},
-        ${req.networkId}
+        ${req.networkId},
+        ${projectId}
       )
       RETURNING 
         id,
@@ -220,7 +229,7 @@ export const createEvent = api<CreateEventRequest, BlockchainEvent>(
       eventData: parseEventData(event.eventData)
     };
 
-    broadcastEvent({
+    broadcastEvent(projectId, {
       type: 'event',
       data: processedEvent,
       timestamp: new Date()
@@ -234,7 +243,7 @@ export const createEvent = api<CreateEventRequest, BlockchainEvent>(
  * Get events by transaction hash
  */
 export const getEventsByTransaction = api<{ transactionHash: string }, ListEventsResponse>(
-  { expose: true, method: "GET", path: "/events/transaction/:transactionHash" },
+  { expose: true, auth: true, method: "GET", path: "/events/transaction/:transactionHash", tags: ["scope:events:read"] },
   async ({ transactionHash }) => {
     if (!transactionHash) throw new Error("Missing transactionHash");
     const events = await eventsDB.queryAll<BlockchainEvent>`
@@ -249,7 +258,7 @@ export const getEventsByTransaction = api<{ transactionHash: string }, ListEvent
         network_id as "networkId",
         created_at as "createdAt"
       FROM blockchain_events 
-      WHERE transaction_hash = ${transactionHash}
+      WHERE transaction_hash = ${transactionHash} AND project_id = ${callerProjectId()}
       ORDER BY log_index ASC
     `;
     const processedEvents = events.map(event => ({
@@ -272,7 +281,7 @@ export const getEventsByContract = api<{
   page?: number;
   limit?: number;
 }, ListEventsResponse>(
-  { expose: true, method: "GET", path: "/events/contract/:contractAddress" },
+  { expose: true, auth: true, method: "GET", path: "/events/contract/:contractAddress", tags: ["scope:events:read"] },
   async (req) => {
     if (!req.contractAddress) throw new Error("Missing contractAddress");
     const page = Math.max(1, req.page ?? 1);
@@ -281,6 +290,7 @@ export const getEventsByContract = api<{
 
     // Build dynamic where clause
     const { clause: whereClause, params } = buildWhereClause({
+      project_id: callerProjectId(),
       contract_address: req.contractAddress,
       event_name: req.eventName,
     });
@@ -328,13 +338,15 @@ export const getEventsByContract = api<{
  * Real-time event streaming endpoint
  */
 export const eventStream = api.streamOut<EventSubscription, RealtimeEvent>(
-  { expose: true, path: "/events/stream" },
+  { expose: true, auth: true, path: "/events/stream", tags: ["scope:events:read"] },
   async (subscription, stream) => {
-    connectedStreams.add(stream);
+    const projectId = callerProjectId();
+    connectedStreams.set(stream, projectId);
 
     try {
       // Send recent events to new subscriber based on filters (last 1 hour)
       const { clause: whereClause, params } = buildWhereClause({
+        project_id: projectId,
         contract_address: subscription.contractAddress,
         event_name: subscription.eventName,
         network_id: subscription.networkId
@@ -387,10 +399,11 @@ export const eventStream = api.streamOut<EventSubscription, RealtimeEvent>(
 );
 
 /**
- * Broadcast events to all connected clients
+ * Broadcast events to the clients connected in a project
  */
-export function broadcastEvent(event: RealtimeEvent) {
-  for (const stream of connectedStreams) {
+export function broadcastEvent(projectId: number, event: RealtimeEvent) {
+  for (const [stream, streamProjectId] of connectedStreams) {
+    if (streamProjectId !== projectId) continue;
     stream.send(event).catch(() => {
       connectedStreams.delete(stream);
     });
@@ -406,7 +419,7 @@ export const simulateEvent = api<{
   eventData: any;
   networkId: number;
 }, { success: boolean; message: string }>(
-  { expose: true, method: "POST", path: "/events/simulate" },
+  { expose: true, auth: true, method: "POST", path: "/events/simulate", tags: ["scope:events:write"] },
   async (req) => {
     for (const key of ["contractAddress", "eventName", "eventData", "networkId"]) {
       if (!(key in req)) throw new Error(`Missing field: ${key}`);
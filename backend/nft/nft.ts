@@ -1,5 +1,7 @@
 import { api } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { IdempotentRequest } from "../auth/idempotency";
+import { callerProjectId } from "../auth/tenancy";
 
 const nftDB = SQLDatabase.named("blockchain");
 
@@ -18,7 +20,7 @@ export interface NFTMetadata {
   updatedAt: Date;
 }
 
-export interface CreateNFTRequest {
+export interface CreateNFTRequest extends IdempotentRequest {
   tokenId: number;
   tokenNumber: string;
   name?: string;
@@ -46,7 +48,7 @@ export interface MarketplaceListing {
   nftImage?: string;
 }
 
-export interface CreateListingRequest {
+export interface CreateListingRequest extends IdempotentRequest {
   tokenId: number;
   tokenNumber: string;
   sellerAddress: string;
@@ -55,7 +57,7 @@ export interface CreateListingRequest {
   expiresAt?: Date;
 }
 
-export interface BuyNFTRequest {
+export interface BuyNFTRequest extends IdempotentRequest {
   listingId: number;
   buyerAddress: string;
 }
@@ -82,7 +84,7 @@ function parseAttributes(attr: unknown): any[] {
 
 // List all NFTs
 export const listNFTs = api<void, ListNFTsResponse>(
-  { expose: true, method: "GET", path: "/nft/nfts" },
+  { expose: true, auth: true, method: "GET", path: "/nft/nfts", tags: ["scope:nfts:read"] },
   async () => {
     const nfts = await nftDB.queryAll<NFTMetadata>`
       SELECT 
@@ -99,6 +101,7 @@ export const listNFTs = api<void, ListNFTsResponse>(
         created_at as "createdAt",
         updated_at as "updatedAt"
       FROM nft_metadata
+      WHERE project_id = ${callerProjectId()}
       ORDER BY created_at DESC
     `;
     return {
@@ -112,7 +115,7 @@ export const listNFTs = api<void, ListNFTsResponse>(
 
 // Get NFTs by owner
 export const getNFTsByOwner = api<{ ownerAddress: string }, ListNFTsResponse>(
-  { expose: true, method: "GET", path: "/nft/owner/:ownerAddress" },
+  { expose: true, auth: true, method: "GET", path: "/nft/owner/:ownerAddress", tags: ["scope:nfts:read"] },
   async ({ ownerAddress }) => {
     const nfts = await nftDB.queryAll<NFTMetadata>`
       SELECT 
@@ -129,7 +132,7 @@ export const getNFTsByOwner = api<{ ownerAddress: string }, ListNFTsResponse>(
         created_at as "createdAt",
         updated_at as "updatedAt"
       FROM nft_metadata
-      WHERE owner_address = ${ownerAddress}
+      WHERE owner_address = ${ownerAddress} AND project_id = ${callerProjectId()}
       ORDER BY created_at DESC
     `;
     return {
@@ -143,7 +146,7 @@ export const getNFTsByOwner = api<{ ownerAddress: string }, ListNFTsResponse>(
 
 // Get specific NFT
 export const getNFT = api<{ id: number }, NFTMetadata>(
-  { expose: true, method: "GET", path: "/nft/nfts/:id" },
+  { expose: true, auth: true, method: "GET", path: "/nft/nfts/:id", tags: ["scope:nfts:read"] },
   async ({ id }) => {
     const nft = await nftDB.queryRow<NFTMetadata>`
       SELECT 
@@ -160,7 +163,7 @@ export const getNFT = api<{ id: number }, NFTMetadata>(
         created_at as "createdAt",
         updated_at as "updatedAt"
       FROM nft_metadata
-      WHERE id = ${id}
+      WHERE id = ${id} AND project_id = ${callerProjectId()}
     `;
     if (!nft) {
       throw new Error("NFT not found");
@@ -174,12 +177,19 @@ export const getNFT = api<{ id: number }, NFTMetadata>(
 
 // Create/Mint NFT
 export const createNFT = api<CreateNFTRequest, NFTMetadata>(
-  { expose: true, method: "POST", path: "/nft/nfts" },
+  { expose: true, auth: true, method: "POST", path: "/nft/nfts", tags: ["scope:nfts:write", "idempotent"] },
   async (req) => {
     // Simple validation
     if (!req.tokenId || !req.tokenNumber || !req.ownerAddress) {
       throw new Error("tokenId, tokenNumber, and ownerAddress are required");
     }
+    const projectId = callerProjectId();
+    const token = await nftDB.queryRow<{ id: number }>`
+      SELECT id FROM tokens WHERE id = ${req.tokenId} AND project_id = ${projectId}
+    `;
+    if (!token) {
+      throw new Error("Token not found");
+    }
     const nft = await nftDB.queryRow<NFTMetadata>`
       INSERT INTO nft_metadata (
         token_id,
@@ -190,7 +200,8 @@ export const createNFT = api<CreateNFTRequest, NFTMetadata>(
         animation_url,
         external_url,
         attributes,
-        owner_address
+        owner_address,
+        project_id
       )
       VALUES (
         ${req.tokenId},
@@ -201,7 +212,8 @@ export const createNFT = api<CreateNFTRequest, NFTMetadata>(
         ${req.animationUrl || null},
         ${req.externalUrl || null},
         ${req.attributes ? JSON.stringify(req.attributes) : null},
-        ${req.ownerAddress}
+        ${req.ownerAddress},
+        ${projectId}
       )
       RETURNING 
         id,
@@ -226,7 +238,7 @@ export const createNFT = api<CreateNFTRequest, NFTMetadata>(
 
 // List marketplace items
 export const listMarketplace = api<void, ListMarketplaceResponse>(
-  { expose: true, method: "GET", path: "/nft/marketplace" },
+  { expose: true, auth: true, method: "GET", path: "/nft/marketplace", tags: ["scope:nfts:read"] },
   async () => {
     const listings = await nftDB.queryAll<MarketplaceListing>`
       SELECT 
@@ -245,7 +257,7 @@ export const listMarketplace = api<void, ListMarketplaceResponse>(
         nm.image_url as "nftImage"
       FROM marketplace_listings ml
       LEFT JOIN nft_metadata nm ON ml.token_id = nm.token_id AND ml.token_number = nm.token_number
-      WHERE ml.status = 'active'
+      WHERE ml.status = 'active' AND ml.project_id = ${callerProjectId()}
       ORDER BY ml.created_at DESC
     `;
     return { listings };
@@ -254,17 +266,18 @@ export const listMarketplace = api<void, ListMarketplaceResponse>(
 
 // Create marketplace listing
 export const createListing = api<CreateListingRequest, MarketplaceListing>(
-  { expose: true, method: "POST", path: "/nft/marketplace/list" },
+  { expose: true, auth: true, method: "POST", path: "/nft/marketplace/list", tags: ["scope:nfts:trade", "idempotent"] },
   async (req) => {
     // Validate required fields
     if (!req.tokenId || !req.tokenNumber || !req.sellerAddress || !req.price) {
       throw new Error("tokenId, tokenNumber, sellerAddress, and price are required");
     }
+    const projectId = callerProjectId();
     // Verify NFT ownership
     const nft = await nftDB.queryRow<{ owner_address: string }>`
       SELECT owner_address 
       FROM nft_metadata 
-      WHERE token_id = ${req.tokenId} AND token_number = ${req.tokenNumber}
+      WHERE token_id = ${req.tokenId} AND token_number = ${req.tokenNumber} AND project_id = ${projectId}
     `;
     if (!nft) {
       throw new Error("NFT not found");
@@ -279,7 +292,8 @@ export const createListing = api<CreateListingRequest, MarketplaceListing>(
         seller_address,
         price,
         currency_token_id,
-        expires_at
+        expires_at,
+        project_id
       )
       VALUES (
         ${req.tokenId},
@@ -287,7 +301,8 @@ export const createListing = api<CreateListingRequest, MarketplaceListing>(
         ${req.sellerAddress},
         ${req.price},
         ${req.currencyTokenId || null},
-        ${req.expiresAt || null}
+        ${req.expiresAt || null},
+        ${projectId}
       )
       RETURNING 
         id,
@@ -308,7 +323,7 @@ export const createListing = api<CreateListingRequest, MarketplaceListing>(
 
 // Buy NFT from marketplace
 export const buyNFT = api<BuyNFTRequest, { success: boolean; message: string; transactionHash?: string }>(
-  { expose: true, method: "POST", path: "/nft/marketplace/buy" },
+  { expose: true, auth: true, method: "POST", path: "/nft/marketplace/buy", tags: ["scope:nfts:trade", "idempotent"] },
   async (req) => {
     // Validate request
     if (!req.listingId || !req.buyerAddress) {
@@ -317,7 +332,7 @@ export const buyNFT = api<BuyNFTRequest, { success: boolean; message: string; tr
     // Get listing details
     const listing = await nftDB.queryRow<any>`
       SELECT * FROM marketplace_listings 
-      WHERE id = ${req.listingId} AND status = 'active'
+      WHERE id = ${req.listingId} AND status = 'active' AND project_id = ${callerProjectId()}
     `;
     if (!listing) {
       throw new Error("Listing not found or no longer active");
@@ -358,7 +373,7 @@ export const buyNFT = api<BuyNFTRequest, { success: boolean; message: string; tr
 
 // Cancel marketplace listing
 export const cancelListing = api<{ listingId: number; sellerAddress: string }, { success: boolean; message: string }>(
-  { expose: true, method: "POST", path: "/nft/marketplace/cancel" },
+  { expose: true, auth: true, method: "POST", path: "/nft/marketplace/cancel", tags: ["scope:nfts:trade"] },
   async (req) => {
     if (!req.listingId || !req.sellerAddress) {
       throw new Error("listingId and sellerAddress are required");
@@ -369,6 +384,7 @@ export const cancelListing = api<{ listingId: number; sellerAddress: string }, {
       WHERE id = ${req.listingId} 
         AND seller_address = ${req.sellerAddress} 
         AND status = 'active'
+        AND project_id = ${callerProjectId()}
       RETURNING id
     `;
     if (!result) {
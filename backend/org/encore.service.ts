@@ -0,0 +1,9 @@
+import { Service } from "encore.dev/service";
+import { auditTrail } from "../audit/trail";
+import { requireScopes } from "../auth/authorization";
+import { idempotency } from "../auth/idempotency";
+import { apiKeyRateLimit } from "../auth/rate_limit";
+
+export default new Service("org", {
+  middlewares: [apiKeyRateLimit, auditTrail, requireScopes, idempotency],
+});
@@ -0,0 +1,197 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { getAuthData } from "~encore/auth";
+import { getAddress } from "ethers";
+import { z } from "zod";
+import { auditChange, auditTarget } from "../audit/trail";
+import { MANAGER_ROLES, orgDB, requireMembership } from "./membership";
+
+// Invitations name the invitee's address; the invitee accepts after signing in
+// with it, which adds them to the organization.
+
+// Endpoint path constants
+const ORGANIZATION_INVITATIONS_PATH = "/org/organizations/:id/invitations";
+const MY_INVITATIONS_PATH = "/org/invitations";
+const ACCEPT_INVITATION_PATH = "/org/invitations/:id/accept";
+const INVITATION_PATH = "/org/invitations/:id";
+
+const DEFAULT_INVITATION_TTL_DAYS = 7;
+const MAX_INVITATION_TTL_DAYS = 30;
+
+// --- Type Definitions ---
+
+export interface Invitation {
+  id: number;
+  organizationId: number;
+  organizationName: string;
+  invitee: string;
+  role: "admin" | "member";
+  invitedBy: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const CreateInvitationSchema = z.object({
+  invitee: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invitee must be an address"),
+  role: z.enum(["admin", "member"]).optional().default("member"),
+  expiresInDays: z.number().int().min(1).max(MAX_INVITATION_TTL_DAYS).optional().default(DEFAULT_INVITATION_TTL_DAYS),
+});
+
+export type CreateInvitationRequest = z.input<typeof CreateInvitationSchema> & { id: number };
+
+export interface AcceptInvitationResponse {
+  organizationId: number;
+  role: "admin" | "member";
+}
+
+const INVITATION_FIELDS = `
+  i.id,
+  i.organization_id as "organizationId",
+  o.name as "organizationName",
+  i.invitee,
+  i.role,
+  i.invited_by as "invitedBy",
+  i.expires_at as "expiresAt",
+  i.created_at as "createdAt"
+`;
+
+// --- API Endpoints ---
+
+// Invite an address to an organization
+export const createInvitation = api<CreateInvitationRequest, Invitation>(
+  { expose: true, auth: true, method: "POST", path: ORGANIZATION_INVITATIONS_PATH, tags: ["scope:organizations:write", "audit:organization.invite"] },
+  async ({ id, ...req }) => {
+    auditTarget("organization", id);
+    const parsed = CreateInvitationSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const invitedBy = getAuthData()!.userID;
+    await requireMembership(id, invitedBy, MANAGER_ROLES);
+
+    // User ids are checksummed addresses, as issued at sign-in.
+    const invitee = getAddress(parsed.data.invitee.toLowerCase());
+    const existing = await orgDB.queryRow<{ role: string }>`
+      SELECT role FROM organization_members WHERE organization_id = ${id} AND user_id = ${invitee}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists(`${invitee} is already a member`);
+    }
+
+    // A new invitation replaces a pending one for the same address.
+    await orgDB.exec`
+      UPDATE organization_invitations SET revoked_at = NOW()
+      WHERE organization_id = ${id} AND invitee = ${invitee} AND accepted_at IS NULL AND revoked_at IS NULL
+    `;
+    const expiresAt = new Date(Date.now() + parsed.data.expiresInDays * 24 * 60 * 60_000);
+    const invitation = await orgDB.rawQueryRow<Invitation>(
+      `
+        WITH i AS (
+          INSERT INTO organization_invitations (organization_id, invitee, role, invited_by, expires_at)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING *
+        )
+        SELECT ${INVITATION_FIELDS} FROM i JOIN organizations o ON o.id = i.organization_id
+      `,
+      id,
+      invitee,
+      parsed.data.role,
+      invitedBy,
+      expiresAt
+    );
+    log.info("organization invitation created", { organizationId: id, invitee, role: parsed.data.role, invitedBy });
+    auditChange(null, { invitationId: invitation!.id, invitee, role: parsed.data.role });
+    return invitation!;
+  }
+);
+
+// List an organization's pending invitations
+export const listInvitations = api<{ id: number }, { invitations: Invitation[] }>(
+  { expose: true, auth: true, method: "GET", path: ORGANIZATION_INVITATIONS_PATH, tags: ["scope:organizations:read"] },
+  async ({ id }) => {
+    await requireMembership(id, getAuthData()!.userID, MANAGER_ROLES);
+    const invitations = await orgDB.rawQueryAll<Invitation>(
+      `
+        SELECT ${INVITATION_FIELDS}
+        FROM organization_invitations i
+        JOIN organizations o ON o.id = i.organization_id
+        WHERE i.organization_id = $1 AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW()
+        ORDER BY i.created_at DESC
+      `,
+      id
+    );
+    return { invitations };
+  }
+);
+
+// List invitations addressed to the caller
+export const listMyInvitations = api<void, { invitations: Invitation[] }>(
+  { expose: true, auth: true, method: "GET", path: MY_INVITATIONS_PATH, tags: ["scope:organizations:read"] },
+  async () => {
+    const invitations = await orgDB.rawQueryAll<Invitation>(
+      `
+        SELECT ${INVITATION_FIELDS}
+        FROM organization_invitations i
+        JOIN organizations o ON o.id = i.organization_id
+        WHERE i.invitee = $1 AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > NOW()
+        ORDER BY i.created_at DESC
+      `,
+      getAuthData()!.userID
+    );
+    return { invitations };
+  }
+);
+
+// Accept an invitation addressed to the caller
+export const acceptInvitation = api<{ id: number }, AcceptInvitationResponse>(
+  { expose: true, auth: true, method: "POST", path: ACCEPT_INVITATION_PATH, tags: ["scope:organizations:write"] },
+  async ({ id }) => {
+    const userId = getAuthData()!.userID;
+    const tx = await orgDB.begin();
+    let accepted: AcceptInvitationResponse;
+    try {
+      const invitation = await tx.queryRow<AcceptInvitationResponse>`
+        UPDATE organization_invitations SET accepted_at = NOW()
+        WHERE id = ${id} AND invitee = ${userId}
+          AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()
+        RETURNING organization_id as "organizationId", role
+      `;
+      if (!invitation) {
+        throw APIError.notFound("Invitation not found or no longer valid");
+      }
+      await tx.exec`
+        INSERT INTO organization_members (organization_id, user_id, role)
+        VALUES (${invitation.organizationId}, ${userId}, ${invitation.role})
+        ON CONFLICT (organization_id, user_id) DO NOTHING
+      `;
+      await tx.commit();
+      accepted = invitation;
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    log.info("organization invitation accepted", { invitationId: id, organizationId: accepted.organizationId, userId });
+    return accepted;
+  }
+);
+
+// Revoke an invitation, or decline one addressed to the caller
+export const revokeInvitation = api<{ id: number }, void>(
+  { expose: true, auth: true, method: "DELETE", path: INVITATION_PATH, tags: ["scope:organizations:write"] },
+  async ({ id }) => {
+    const userId = getAuthData()!.userID;
+    const invitation = await orgDB.queryRow<{ organizationId: number; invitee: string }>`
+      SELECT organization_id as "organizationId", invitee
+      FROM organization_invitations
+      WHERE id = ${id} AND accepted_at IS NULL AND revoked_at IS NULL
+    `;
+    if (!invitation) {
+      throw APIError.notFound("Invitation not found");
+    }
+    if (invitation.invitee !== userId) {
+      await requireMembership(invitation.organizationId, userId, MANAGER_ROLES);
+    }
+    await orgDB.exec`UPDATE organization_invitations SET revoked_at = NOW() WHERE id = ${id}`;
+    log.info("organization invitation revoked", { invitationId: id, organizationId: invitation.organizationId, userId });
+  }
+);
@@ -0,0 +1,29 @@
+import { APIError } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import type { OrganizationRole } from "../auth/tenancy";
+
+export const orgDB = SQLDatabase.named("blockchain");
+
+// Organization roles allowed to manage members, invitations and projects.
+export const MANAGER_ROLES: OrganizationRole[] = ["owner", "admin"];
+
+export const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+
+// The caller's role in the organization; non-members get a 404 so they can't probe for it.
+export async function requireMembership(
+  organizationId: number,
+  userId: string,
+  allowed?: OrganizationRole[]
+): Promise<OrganizationRole> {
+  const member = await orgDB.queryRow<{ role: OrganizationRole }>`
+    SELECT role FROM organization_members
+    WHERE organization_id = ${organizationId} AND user_id = ${userId}
+  `;
+  if (!member) {
+    throw APIError.notFound("Organization not found");
+  }
+  if (allowed && !allowed.includes(member.role)) {
+    throw APIError.permissionDenied(`Requires organization role: ${allowed.join(" or ")}`);
+  }
+  return member.role;
+}
@@ -0,0 +1,110 @@
+import { getAddress } from "ethers";
+import { afterAll, describe, expect, it } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { acceptInvitation, createInvitation, listInvitations, listMyInvitations, revokeInvitation } from "./invitations";
+import { createOrganization, listMembers, listOrganizations, removeMember, updateMemberRole } from "./organizations";
+import { createProject, listProjects } from "./projects";
+
+// User ids are checksummed addresses.
+const ALICE = getAddress("0x00000000000000000000000000000000000a11ce");
+const BOB = getAddress("0x0000000000000000000000000000000000000b0b");
+const CAROL = getAddress("0x00000000000000000000000000000000000ca401");
+
+function actAs(userId: string) {
+  setAuthData(signedIn(userId));
+}
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("organizations", () => {
+  it("creates an organization owned by the caller with a default project", async () => {
+    actAs(ALICE);
+
+    const org = await createOrganization({ name: "Acme", slug: "acme" });
+
+    expect((await listOrganizations()).organizations).toEqual([expect.objectContaining({ id: org.id, role: "owner" })]);
+    expect((await listProjects()).projects).toEqual([
+      expect.objectContaining({ organizationId: org.id, slug: "default", organizationRole: "owner" }),
+    ]);
+    await expect(createOrganization({ name: "Acme 2", slug: "acme" })).rejects.toMatchObject({ code: "already_exists" });
+    await expect(createOrganization({ name: "Bad", slug: "Not A Slug" })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+
+  it("adds invitees as members once they accept", async () => {
+    actAs(ALICE);
+    const org = await createOrganization({ name: "Invites", slug: "invites" });
+    const invitation = await createInvitation({ id: org.id, invitee: BOB.toLowerCase() });
+    expect(invitation).toMatchObject({ invitee: BOB, role: "member", organizationName: "Invites" });
+
+    actAs(BOB);
+    await expect(listMembers({ id: org.id })).rejects.toMatchObject({ code: "not_found" });
+    expect((await listMyInvitations()).invitations.map((i) => i.id)).toEqual([invitation.id]);
+    expect(await acceptInvitation({ id: invitation.id })).toEqual({ organizationId: org.id, role: "member" });
+    await expect(acceptInvitation({ id: invitation.id })).rejects.toMatchObject({ code: "not_found" });
+
+    expect((await listMembers({ id: org.id })).members.map((m) => [m.userId, m.role])).toEqual([
+      [ALICE, "owner"],
+      [BOB, "member"],
+    ]);
+    await expect(createInvitation({ id: org.id, invitee: CAROL })).rejects.toMatchObject({ code: "permission_denied" });
+
+    actAs(ALICE);
+    await expect(createInvitation({ id: org.id, invitee: BOB })).rejects.toMatchObject({ code: "already_exists" });
+  });
+
+  it("replaces and revokes pending invitations", async () => {
+    actAs(ALICE);
+    const org = await createOrganization({ name: "Pending", slug: "pending" });
+    const first = await createInvitation({ id: org.id, invitee: CAROL });
+    const second = await createInvitation({ id: org.id, invitee: CAROL, role: "admin" });
+
+    expect((await listInvitations({ id: org.id })).invitations.map((i) => i.id)).toEqual([second.id]);
+
+    actAs(CAROL);
+    await revokeInvitation({ id: second.id });
+    await expect(acceptInvitation({ id: first.id })).rejects.toMatchObject({ code: "not_found" });
+    await expect(acceptInvitation({ id: second.id })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("keeps at least one owner", async () => {
+    actAs(ALICE);
+    const org = await createOrganization({ name: "Owners", slug: "owners" });
+    const invitation = await createInvitation({ id: org.id, invitee: BOB, role: "admin" });
+    actAs(BOB);
+    await acceptInvitation({ id: invitation.id });
+
+    await expect(updateMemberRole({ id: org.id, userId: BOB, role: "owner" })).rejects.toMatchObject({
+      code: "permission_denied",
+    });
+    await expect(removeMember({ id: org.id, userId: ALICE })).rejects.toMatchObject({ code: "permission_denied" });
+
+    actAs(ALICE);
+    await expect(updateMemberRole({ id: org.id, userId: ALICE, role: "admin" })).rejects.toMatchObject({
+      code: "failed_precondition",
+    });
+    await expect(removeMember({ id: org.id, userId: ALICE })).rejects.toMatchObject({ code: "failed_precondition" });
+    await updateMemberRole({ id: org.id, userId: BOB, role: "owner" });
+    await removeMember({ id: org.id, userId: ALICE });
+
+    actAs(BOB);
+    expect((await listMembers({ id: org.id })).members.map((m) => [m.userId, m.role])).toEqual([[BOB, "owner"]]);
+  });
+
+  it("lets managers add projects", async () => {
+    actAs(ALICE);
+    const org = await createOrganization({ name: "Projects", slug: "projects" });
+
+    const project = await createProject({ id: org.id, name: "Staging", slug: "staging" });
+
+    expect(project).toMatchObject({ organizationId: org.id, slug: "staging" });
+    await expect(createProject({ id: org.id, name: "Again", slug: "staging" })).rejects.toMatchObject({
+      code: "already_exists",
+    });
+    actAs(BOB);
+    await expect(createProject({ id: org.id, name: "Mine", slug: "mine" })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
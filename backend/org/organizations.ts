@@ -0,0 +1,183 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { getAuthData } from "~encore/auth";
+import { z } from "zod";
+import type { OrganizationRole } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+import { MANAGER_ROLES, SLUG_PATTERN, orgDB, requireMembership } from "./membership";
+
+// Endpoint path constants
+const ORGANIZATIONS_PATH = "/org/organizations";
+const MEMBERS_PATH = "/org/organizations/:id/members";
+const MEMBER_PATH = "/org/organizations/:id/members/:userId";
+
+// --- Type Definitions ---
+
+export interface Organization {
+  id: number;
+  name: string;
+  slug: string;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface OrganizationWithRole extends Organization {
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+const CreateOrganizationSchema = z.object({
+  name: z.string().min(1).max(255),
+  slug: z.string().regex(SLUG_PATTERN, "Slug must be lowercase letters, digits and dashes"),
+});
+
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationSchema>;
+
+export interface UpdateMemberRoleRequest {
+  id: number;
+  userId: string;
+  role: OrganizationRole;
+}
+
+// --- Helper Functions ---
+
+async function ownerCount(organizationId: number): Promise<number> {
+  const row = await orgDB.queryRow<{ count: number }>`
+    SELECT COUNT(*)::int as count FROM organization_members
+    WHERE organization_id = ${organizationId} AND role = 'owner'
+  `;
+  return row!.count;
+}
+
+// --- API Endpoints ---
+
+// Create an organization owned by the caller, with a default project
+export const createOrganization = api<CreateOrganizationRequest, Organization>(
+  { expose: true, auth: true, method: "POST", path: ORGANIZATIONS_PATH, tags: ["scope:organizations:write"] },
+  async (req) => {
+    const parsed = CreateOrganizationSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const userId = getAuthData()!.userID;
+
+    const tx = await orgDB.begin();
+    let organization: Organization;
+    try {
+      const created = await tx.queryRow<Organization>`
+        INSERT INTO organizations (name, slug, created_by)
+        VALUES (${parsed.data.name}, ${parsed.data.slug}, ${userId})
+        ON CONFLICT (slug) DO NOTHING
+        RETURNING id, name, slug, created_by as "createdBy", created_at as "createdAt"
+      `;
+      if (!created) {
+        throw APIError.alreadyExists(`Organization slug ${parsed.data.slug} is taken`);
+      }
+      await tx.exec`
+        INSERT INTO organization_members (organization_id, user_id, role) VALUES (${created.id}, ${userId}, 'owner')
+      `;
+      await tx.exec`
+        INSERT INTO projects (organization_id, name, slug) VALUES (${created.id}, 'Default', 'default')
+      `;
+      await tx.commit();
+      organization = created;
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    log.info("organization created", { organizationId: organization.id, slug: organization.slug, userId });
+    return organization;
+  }
+);
+
+// List the organizations the caller belongs to
+export const listOrganizations = api<void, { organizations: OrganizationWithRole[] }>(
+  { expose: true, auth: true, method: "GET", path: ORGANIZATIONS_PATH, tags: ["scope:organizations:read"] },
+  async () => {
+    const organizations = await orgDB.queryAll<OrganizationWithRole>`
+      SELECT
+        o.id,
+        o.name,
+        o.slug,
+        o.created_by as "createdBy",
+        o.created_at as "createdAt",
+        m.role
+      FROM organizations o
+      JOIN organization_members m ON m.organization_id = o.id
+      WHERE m.user_id = ${getAuthData()!.userID}
+      ORDER BY m.created_at, o.id
+    `;
+    return { organizations };
+  }
+);
+
+// List an organization's members
+export const listMembers = api<{ id: number }, { members: OrganizationMember[] }>(
+  { expose: true, auth: true, method: "GET", path: MEMBERS_PATH, tags: ["scope:organizations:read"] },
+  async ({ id }) => {
+    await requireMembership(id, getAuthData()!.userID);
+    const members = await orgDB.queryAll<OrganizationMember>`
+      SELECT user_id as "userId", role, created_at as "createdAt"
+      FROM organization_members
+      WHERE organization_id = ${id}
+      ORDER BY created_at, user_id
+    `;
+    return { members };
+  }
+);
+
+// Change a member's role; only owners can grant or take away ownership
+export const updateMemberRole = api<UpdateMemberRoleRequest, OrganizationMember>(
+  { expose: true, auth: true, method: "PATCH", path: MEMBER_PATH, tags: ["scope:organizations:write", "audit:organization.update_member"] },
+  async ({ id, userId, role }) => {
+    auditTarget("organization_member", `${id}:${userId}`);
+    if (!["owner", "admin", "member"].includes(role)) {
+      throw APIError.invalidArgument("Role must be owner, admin or member");
+    }
+    const callerRole = await requireMembership(id, getAuthData()!.userID, MANAGER_ROLES);
+    const targetRole = await requireMembership(id, userId);
+    if ((role === "owner" || targetRole === "owner") && callerRole !== "owner") {
+      throw APIError.permissionDenied("Only owners can change ownership");
+    }
+    if (targetRole === "owner" && role !== "owner" && (await ownerCount(id)) <= 1) {
+      throw APIError.failedPrecondition("An organization needs at least one owner");
+    }
+    const member = await orgDB.queryRow<OrganizationMember>`
+      UPDATE organization_members SET role = ${role}
+      WHERE organization_id = ${id} AND user_id = ${userId}
+      RETURNING user_id as "userId", role, created_at as "createdAt"
+    `;
+    log.info("organization member role changed", { organizationId: id, userId, role });
+    auditChange({ role: targetRole }, { role });
+    return member!;
+  }
+);
+
+// Remove a member, or leave the organization when removing yourself
+export const removeMember = api<{ id: number; userId: string }, void>(
+  { expose: true, auth: true, method: "DELETE", path: MEMBER_PATH, tags: ["scope:organizations:write", "audit:organization.remove_member"] },
+  async ({ id, userId }) => {
+    auditTarget("organization_member", `${id}:${userId}`);
+    const caller = getAuthData()!.userID;
+    const callerRole = await requireMembership(id, caller, userId === caller ? undefined : MANAGER_ROLES);
+    const targetRole = await requireMembership(id, userId);
+    if (targetRole === "owner") {
+      if (callerRole !== "owner") {
+        throw APIError.permissionDenied("Only owners can remove owners");
+      }
+      if ((await ownerCount(id)) <= 1) {
+        throw APIError.failedPrecondition("An organization needs at least one owner");
+      }
+    }
+    await orgDB.exec`
+      DELETE FROM organization_members WHERE organization_id = ${id} AND user_id = ${userId}
+    `;
+    auditChange({ role: targetRole }, null);
+    log.info("organization member removed", { organizationId: id, userId, removedBy: caller });
+  }
+);
@@ -0,0 +1,90 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { getAuthData } from "~encore/auth";
+import { z } from "zod";
+import type { OrganizationRole } from "../auth/tenancy";
+import { MANAGER_ROLES, SLUG_PATTERN, orgDB, requireMembership } from "./membership";
+
+// Endpoint path constants
+const PROJECTS_PATH = "/org/projects";
+const ORGANIZATION_PROJECTS_PATH = "/org/organizations/:id/projects";
+
+// --- Type Definitions ---
+
+export interface Project {
+  id: number;
+  organizationId: number;
+  name: string;
+  slug: string;
+  createdAt: Date;
+}
+
+export interface AccessibleProject extends Project {
+  organizationName: string;
+  organizationRole: OrganizationRole;
+}
+
+const CreateProjectSchema = z.object({
+  name: z.string().min(1).max(255),
+  slug: z.string().regex(SLUG_PATTERN, "Slug must be lowercase letters, digits and dashes"),
+});
+
+export type CreateProjectRequest = z.input<typeof CreateProjectSchema> & { id: number };
+
+const PROJECT_FIELDS = `
+  p.id,
+  p.organization_id as "organizationId",
+  p.name,
+  p.slug,
+  p.created_at as "createdAt"
+`;
+
+// --- API Endpoints ---
+
+// List every project the caller can act in; pick one with the X-Project-Id header
+export const listProjects = api<void, { projects: AccessibleProject[] }>(
+  { expose: true, auth: true, method: "GET", path: PROJECTS_PATH, tags: ["scope:organizations:read"] },
+  async () => {
+    const projects = await orgDB.rawQueryAll<AccessibleProject>(
+      `
+        SELECT ${PROJECT_FIELDS}, o.name as "organizationName", m.role as "organizationRole"
+        FROM projects p
+        JOIN organizations o ON o.id = p.organization_id
+        JOIN organization_members m ON m.organization_id = p.organization_id
+        WHERE m.user_id = $1
+        ORDER BY m.created_at, p.id
+      `,
+      getAuthData()!.userID
+    );
+    return { projects };
+  }
+);
+
+// Create a project in an organization
+export const createProject = api<CreateProjectRequest, Project>(
+  { expose: true, auth: true, method: "POST", path: ORGANIZATION_PROJECTS_PATH, tags: ["scope:organizations:write"] },
+  async ({ id, ...req }) => {
+    const parsed = CreateProjectSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const userId = getAuthData()!.userID;
+    await requireMembership(id, userId, MANAGER_ROLES);
+    const project = await orgDB.rawQueryRow<Project>(
+      `
+        INSERT INTO projects AS p (organization_id, name, slug)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (organization_id, slug) DO NOTHING
+        RETURNING ${PROJECT_FIELDS}
+      `,
+      id,
+      parsed.data.name,
+      parsed.data.slug
+    );
+    if (!project) {
+      throw APIError.alreadyExists(`Project slug ${parsed.data.slug} is taken in this organization`);
+    }
+    log.info("project created", { organizationId: id, projectId: project.id, userId });
+    return project;
+  }
+);
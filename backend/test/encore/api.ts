@@ -0,0 +1,44 @@
+// Stand-in for encore.dev/api in unit tests. As in Encore, api() returns the
+// handler itself, so tests call endpoints as plain functions, and middleware()
+// returns the middleware function, called with a MiddlewareRequest and a next().
+export { APIError, ErrCode } from "../../node_modules/encore.dev/dist/api/error.js";
+
+export function api<Params, Response>(_options: unknown, fn: (params: Params) => Promise<Response>) {
+  return fn;
+}
+
+// Gateways only matter to the Encore runtime; the auth handler is called directly.
+export class Gateway {
+  constructor(_config: unknown) {}
+}
+
+export class ResponseHeader {
+  readonly headers: Record<string, string | string[]> = {};
+
+  set(key: string, value: string) {
+    this.headers[key] = value;
+  }
+
+  add(key: string, value: string) {
+    const prev = this.headers[key];
+    this.headers[key] = prev === undefined ? value : [prev, value].flat();
+  }
+}
+
+export class HandlerResponse {
+  readonly header = new ResponseHeader();
+  status?: number;
+
+  constructor(readonly payload: unknown) {}
+}
+
+export class MiddlewareRequest {
+  readonly data: Record<string, unknown> = {};
+}
+
+type Next = (req: MiddlewareRequest) => Promise<HandlerResponse>;
+type MiddlewareFn = (req: MiddlewareRequest, next: Next) => Promise<HandlerResponse>;
+
+export function middleware(a: MiddlewareFn | object, b?: MiddlewareFn): MiddlewareFn {
+  return (b ?? a) as MiddlewareFn;
+}
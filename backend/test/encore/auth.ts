@@ -0,0 +1,33 @@
+import type { AuthData } from "../../auth/auth";
+
+// Stand-in for the generated ~encore/auth module. Tests pick the caller of the
+// endpoints they call with setAuthData.
+let current: AuthData | null = null;
+
+export function getAuthData(): AuthData | null {
+  return current;
+}
+
+export function setAuthData(data: AuthData | null) {
+  current = data;
+}
+
+// Migration 15 moves existing data into this project of the "default"
+// organization; tests act in it unless they pick another.
+export const DEFAULT_PROJECT_ID = 1;
+export const DEFAULT_ORGANIZATION_ID = 1;
+
+// Auth data for a signed-in address. Endpoints called directly skip the scope
+// middleware, so the roles only matter to code that reads them.
+export function signedIn(address: string, sessionId = 1, roles = ["admin"], scopes = ["*"]): AuthData {
+  return {
+    userID: address,
+    roles,
+    scopes,
+    projectId: DEFAULT_PROJECT_ID,
+    organizationId: DEFAULT_ORGANIZATION_ID,
+    organizationRole: "owner",
+    address,
+    sessionId,
+  };
+}
@@ -0,0 +1,11 @@
+// Stand-in for encore.dev/config in unit tests: secrets are read from the
+// environment variable of the same name, so tests set them with vi.stubEnv.
+export function secret(name: string): () => string {
+  return () => {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`secret ${name} is not set`);
+    }
+    return value;
+  };
+}
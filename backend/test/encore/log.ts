@@ -0,0 +1,11 @@
+// Stand-in for encore.dev/log in unit tests: log lines are dropped.
+const log = {
+  trace: (..._args: unknown[]) => {},
+  debug: (..._args: unknown[]) => {},
+  info: (..._args: unknown[]) => {},
+  warn: (..._args: unknown[]) => {},
+  error: (..._args: unknown[]) => {},
+  with: () => log,
+};
+
+export default log;
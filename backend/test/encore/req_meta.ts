@@ -0,0 +1,15 @@
+import type { RequestMeta } from "encore.dev";
+
+// Stand-in for currentRequest from the encore.dev package root. Tests that run a
+// middleware set the metadata of the request it handles; outside of one it is
+// undefined, as in Encore.
+let current: RequestMeta | undefined;
+
+export function currentRequest(): RequestMeta | undefined {
+  return current;
+}
+
+// Takes only the fields the code under test reads.
+export function setCurrentRequest(meta: object | undefined) {
+  current = meta as RequestMeta | undefined;
+}
@@ -0,0 +1,139 @@
+import { PGlite } from "@electric-sql/pglite";
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+// Stand-in for encore.dev/storage/sqldb in unit tests. Every database is an
+// in-memory Postgres (PGlite) created on first use in a test file and migrated
+// from <backend>/<name>/migrations, the layout the services use.
+
+type Primitive = unknown;
+
+interface Queryable {
+  query<T>(query: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  exec(query: string): Promise<unknown>;
+}
+
+const BACKEND_DIR = path.resolve(__dirname, "../..");
+
+const databases = new Map<string, Promise<PGlite>>();
+// Per database, settles when the open transaction ends.
+const transactionsDone = new Map<string, Promise<void>>();
+
+async function migrate(name: string): Promise<PGlite> {
+  const db = new PGlite();
+  const dir = path.join(BACKEND_DIR, name, "migrations");
+  const migrations = readdirSync(dir)
+    .filter((file) => file.endsWith(".up.sql"))
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+  for (const file of migrations) {
+    await db.exec(readFileSync(path.join(dir, file), "utf8"));
+  }
+  return db;
+}
+
+function database(name: string): Promise<PGlite> {
+  let db = databases.get(name);
+  if (!db) {
+    db = migrate(name);
+    databases.set(name, db);
+  }
+  return db;
+}
+
+// Closes every database opened by the test file; call from afterAll.
+export async function closeDatabases() {
+  for (const db of databases.values()) {
+    await (await db).close();
+  }
+  databases.clear();
+  transactionsDone.clear();
+}
+
+function buildQuery(strings: TemplateStringsArray): string {
+  return strings.reduce((query, part, i) => query + (i > 0 ? `$${i}` : "") + part, "");
+}
+
+function buildParams(params: Primitive[]): unknown[] {
+  return params.map((param) => param ?? null);
+}
+
+class BaseQueryExecutor {
+  constructor(protected readonly connection: () => Promise<Queryable>) {}
+
+  async *query<T>(strings: TemplateStringsArray, ...params: Primitive[]): AsyncGenerator<T> {
+    yield* await this.queryAll<T>(strings, ...params);
+  }
+
+  async *rawQuery<T>(query: string, ...params: Primitive[]): AsyncGenerator<T> {
+    yield* await this.rawQueryAll<T>(query, ...params);
+  }
+
+  async queryAll<T>(strings: TemplateStringsArray, ...params: Primitive[]): Promise<T[]> {
+    return this.rawQueryAll<T>(buildQuery(strings), ...params);
+  }
+
+  async rawQueryAll<T>(query: string, ...params: Primitive[]): Promise<T[]> {
+    const result = await (await this.connection()).query<T>(query, buildParams(params));
+    return result.rows;
+  }
+
+  async queryRow<T>(strings: TemplateStringsArray, ...params: Primitive[]): Promise<T | null> {
+    return (await this.queryAll<T>(strings, ...params))[0] ?? null;
+  }
+
+  async rawQueryRow<T>(query: string, ...params: Primitive[]): Promise<T | null> {
+    return (await this.rawQueryAll<T>(query, ...params))[0] ?? null;
+  }
+
+  async exec(strings: TemplateStringsArray, ...params: Primitive[]): Promise<void> {
+    await this.queryAll(strings, ...params);
+  }
+
+  async rawExec(query: string, ...params: Primitive[]): Promise<void> {
+    await this.rawQueryAll(query, ...params);
+  }
+}
+
+export class SQLDatabase extends BaseQueryExecutor {
+  constructor(readonly name: string, _cfg?: unknown) {
+    super(() => database(name));
+  }
+
+  static named(name: string): SQLDatabase {
+    return new SQLDatabase(name);
+  }
+
+  // PGlite has a single connection, so a transaction is BEGIN/COMMIT on it. A
+  // transaction waits for the open one to end, as it would for that one's locks.
+  async begin(): Promise<Transaction> {
+    const previous = transactionsDone.get(this.name);
+    let end!: () => void;
+    transactionsDone.set(this.name, new Promise((resolve) => (end = resolve)));
+    await previous;
+    const tx = new Transaction(() => database(this.name), end);
+    await (await database(this.name)).exec("BEGIN");
+    return tx;
+  }
+}
+
+export class Transaction extends BaseQueryExecutor {
+  constructor(connection: () => Promise<Queryable>, private readonly end: () => void) {
+    super(connection);
+  }
+
+  async commit() {
+    try {
+      await (await this.connection()).exec("COMMIT");
+    } finally {
+      this.end();
+    }
+  }
+
+  async rollback() {
+    try {
+      await (await this.connection()).exec("ROLLBACK");
+    } finally {
+      this.end();
+    }
+  }
+}
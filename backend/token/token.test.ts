@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { burnToken, createToken, mintToken, transferToken } from "./token";
+
+const db = SQLDatabase.named("blockchain");
+const HOLDER = "0x00000000000000000000000000000000000000f1";
+const RECIPIENT = "0x00000000000000000000000000000000000000f2";
+let tokenId: number;
+
+async function balanceOf(address: string): Promise<string | undefined> {
+  const row = await db.queryRow<{ balance: string }>`
+    SELECT tb.balance::text FROM token_balances tb JOIN wallets w ON w.id = tb.wallet_id
+    WHERE w.address = ${address} AND tb.token_id = ${tokenId}
+  `;
+  return row?.balance;
+}
+
+beforeAll(async () => {
+  setAuthData(signedIn("0x00000000000000000000000000000000000a11ce"));
+  const contract = await db.queryRow<{ id: number }>`
+    WITH network AS (
+      INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+      VALUES ('Chain 9801', 9801, 'http://node-9801', 'ETH', ${DEFAULT_PROJECT_ID})
+      RETURNING id
+    )
+    INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+    SELECT 'Coin', '0x00000000000000000000000000000000000000c1', id, '[]', 'ERC20', ${DEFAULT_PROJECT_ID} FROM network
+    RETURNING id
+  `;
+  ({ id: tokenId } = await createToken({ contractId: contract!.id, symbol: "COIN", name: "Coin", tokenType: "ERC20" }));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("token balances", () => {
+  it("mints, transfers and burns", async () => {
+    await mintToken({ tokenId, toAddress: HOLDER, amount: "100" });
+    await transferToken({ tokenId, fromAddress: HOLDER, toAddress: RECIPIENT, amount: "30" });
+    await burnToken({ tokenId, fromAddress: RECIPIENT, amount: "10" });
+
+    expect(await balanceOf(HOLDER)).toBe("70");
+    expect(await balanceOf(RECIPIENT)).toBe("20");
+  });
+
+  it.each(["-5", "1.5", "1e3", "0x10"])("rejects the amount %s before writing", async (amount) => {
+    await expect(mintToken({ tokenId, toAddress: HOLDER, amount })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(transferToken({ tokenId, fromAddress: HOLDER, toAddress: RECIPIENT, amount })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+
+    expect(await balanceOf(HOLDER)).toBe("70");
+  });
+});
@@ -1,5 +1,8 @@
-import { api } from "encore.dev/api";
+import { APIError, api } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { IdempotentRequest } from "../auth/idempotency";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
 
 const tokenDB = SQLDatabase.named("blockchain");
 
@@ -33,19 +36,19 @@ export interface CreateTokenRequest {
   isBurnable?: boolean;
 }
 
-export interface MintTokenRequest {
+export interface MintTokenRequest extends IdempotentRequest {
   tokenId: number;
   toAddress: string;
   amount: string;
 }
 
-export interface BurnTokenRequest {
+export interface BurnTokenRequest extends IdempotentRequest {
   tokenId: number;
   fromAddress: string;
   amount: string;
 }
 
-export interface TransferTokenRequest {
+export interface TransferTokenRequest extends IdempotentRequest {
   tokenId: number;
   fromAddress: string;
   toAddress: string;
@@ -67,9 +70,17 @@ function generateMockTxHash(): string {
   return '0x' + Math.random().toString(16).substr(2, 64);
 }
 
-// List all tokens
+// Amounts are non-negative integers in the token's smallest unit.
+function parseAmount(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw APIError.invalidArgument("Amount must be a non-negative integer in the token's smallest unit");
+  }
+  return BigInt(value);
+}
+
+// List the project's tokens
 export const listTokens = api<void, ListTokensResponse>(
-  { expose: true, method: "GET", path: "/token/tokens" },
+  { expose: true, auth: true, method: "GET", path: "/token/tokens", tags: ["scope:tokens:read"] },
   async () => {
     const tokens = await tokenDB.queryAll<Token>`
       SELECT 
@@ -89,6 +100,7 @@ export const listTokens = api<void, ListTokensResponse>(
         sc.network_id as "networkId"
       FROM tokens t
       JOIN smart_contracts sc ON t.contract_id = sc.id
+      WHERE t.project_id = ${callerProjectId()} AND t.archived_at IS NULL
       ORDER BY t.created_at DESC
     `;
     return { tokens };
@@ -97,7 +109,7 @@ export const listTokens = api<void, ListTokensResponse>(
 
 // Get a specific token by ID
 export const getToken = api<{ id: number }, Token>(
-  { expose: true, method: "GET", path: "/token/tokens/:id" },
+  { expose: true, auth: true, method: "GET", path: "/token/tokens/:id", tags: ["scope:tokens:read"] },
   async ({ id }) => {
     const token = await tokenDB.queryRow<Token>`
       SELECT 
@@ -117,7 +129,7 @@ export const getToken = api<{ id: number }, Token>(
         sc.network_id as "networkId"
       FROM tokens t
       JOIN smart_contracts sc ON t.contract_id = sc.id
-      WHERE t.id = ${id}
+      WHERE t.id = ${id} AND t.project_id = ${callerProjectId()}
     `;
     if (!token) throw new Error("Token not found");
     return token;
@@ -126,13 +138,21 @@ export const getToken = api<{ id: number }, Token>(
 
 // Create a new token
 export const createToken = api<CreateTokenRequest, Token>(
-  { expose: true, method: "POST", path: "/token/tokens" },
+  { expose: true, auth: true, method: "POST", path: "/token/tokens", tags: ["scope:tokens:write"] },
   async (req) => {
     // Validate required fields
     if (!req.contractId || !req.symbol || !req.name || !req.tokenType) {
       throw new Error("Missing required token fields");
     }
 
+    const projectId = callerProjectId();
+    const contract = await tokenDB.queryRow<{ archived: boolean }>`
+      SELECT archived_at IS NOT NULL as archived FROM smart_contracts
+      WHERE id = ${req.contractId} AND project_id = ${projectId}
+    `;
+    if (!contract) throw new Error("Contract not found");
+    if (contract.archived) throw new Error("Contract is archived");
+
     const decimals = req.decimals ?? 18;
     const totalSupply = req.totalSupply ?? null;
     const maxSupply = req.maxSupply ?? null;
@@ -151,7 +171,8 @@ export const createToken = api<CreateTokenRequest, Token>(
         token_type,
         metadata_uri,
         is_mintable,
-        is_burnable
+        is_burnable,
+        project_id
       )
       VALUES (
         ${req.contractId},
@@ -163,7 +184,8 @@ export const createToken = api<CreateTokenRequest, Token>(
         ${req.tokenType},
         ${metadataUri},
         ${isMintable},
-        ${isBurnable}
+        ${isBurnable},
+        ${projectId}
       )
       RETURNING 
         id,
@@ -185,37 +207,47 @@ export const createToken = api<CreateTokenRequest, Token>(
 
 // Mint tokens (simulated - in real implementation this would interact with blockchain)
 export const mintToken = api<MintTokenRequest, TokenOperation>(
-  { expose: true, method: "POST", path: "/token/mint" },
+  { expose: true, auth: true, method: "POST", path: "/token/mint", tags: ["scope:tokens:mint", "audit:token.mint", "idempotent"] },
   async (req) => {
     if (!req.tokenId || !req.toAddress || !req.amount) {
       throw new Error("Missing required mint parameters");
     }
+    const amount = parseAmount(req.amount);
+    auditTarget("token", req.tokenId);
+    const projectId = callerProjectId();
 
-    const token = await tokenDB.queryRow<{ id: number; is_mintable: boolean }>`
-      SELECT id, is_mintable FROM tokens WHERE id = ${req.tokenId}
+    const token = await tokenDB.queryRow<{ id: number; is_mintable: boolean; archived: boolean }>`
+      SELECT id, is_mintable, archived_at IS NOT NULL as archived FROM tokens
+      WHERE id = ${req.tokenId} AND project_id = ${projectId}
     `;
     if (!token) throw new Error("Token not found");
+    if (token.archived) throw new Error("Token is archived");
     if (!token.is_mintable) throw new Error("Token is not mintable");
 
     // Get or create wallet
     let wallet = await tokenDB.queryRow<{ id: number }>`
-      SELECT id FROM wallets WHERE address = ${req.toAddress}
+      SELECT id FROM wallets WHERE address = ${req.toAddress} AND project_id = ${projectId}
     `;
     if (!wallet) {
       wallet = await tokenDB.queryRow<{ id: number }>`
-        INSERT INTO wallets (address, user_id, wallet_type)
-        VALUES (${req.toAddress}, 'system', 'EOA')
+        INSERT INTO wallets (address, user_id, wallet_type, project_id)
+        VALUES (${req.toAddress}, 'system', 'EOA', ${projectId})
         RETURNING id
       `;
     }
 
     // Update or create token balance
-    await tokenDB.exec`
+    const minted = await tokenDB.queryRow<{ balance: string }>`
       INSERT INTO token_balances (wallet_id, token_id, balance)
       VALUES (${wallet!.id}, ${req.tokenId}, ${req.amount})
       ON CONFLICT (wallet_id, token_id)
       DO UPDATE SET balance = token_balances.balance + ${req.amount}, updated_at = NOW()
+      RETURNING balance::text
     `;
+    auditChange(
+      { address: req.toAddress, balance: (BigInt(minted!.balance) - amount).toString() },
+      { address: req.toAddress, balance: minted!.balance }
+    );
 
     return {
       success: true,
@@ -227,16 +259,21 @@ export const mintToken = api<MintTokenRequest, TokenOperation>(
 
 // Burn tokens (simulated)
 export const burnToken = api<BurnTokenRequest, TokenOperation>(
-  { expose: true, method: "POST", path: "/token/burn" },
+  { expose: true, auth: true, method: "POST", path: "/token/burn", tags: ["scope:tokens:burn", "audit:token.burn", "idempotent"] },
   async (req) => {
     if (!req.tokenId || !req.fromAddress || !req.amount) {
       throw new Error("Missing required burn parameters");
     }
+    const amount = parseAmount(req.amount);
+    auditTarget("token", req.tokenId);
+    const projectId = callerProjectId();
 
-    const token = await tokenDB.queryRow<{ id: number; is_burnable: boolean }>`
-      SELECT id, is_burnable FROM tokens WHERE id = ${req.tokenId}
+    const token = await tokenDB.queryRow<{ id: number; is_burnable: boolean; archived: boolean }>`
+      SELECT id, is_burnable, archived_at IS NOT NULL as archived FROM tokens
+      WHERE id = ${req.tokenId} AND project_id = ${projectId}
     `;
     if (!token) throw new Error("Token not found");
+    if (token.archived) throw new Error("Token is archived");
     if (!token.is_burnable) throw new Error("Token is not burnable");
 
     // Get wallet and check balance
@@ -244,18 +281,23 @@ export const burnToken = api<BurnTokenRequest, TokenOperation>(
       SELECT tb.balance, w.id as wallet_id
       FROM token_balances tb
       JOIN wallets w ON tb.wallet_id = w.id
-      WHERE w.address = ${req.fromAddress} AND tb.token_id = ${req.tokenId}
+      WHERE w.address = ${req.fromAddress} AND w.project_id = ${projectId} AND tb.token_id = ${req.tokenId}
     `;
-    if (!balance || BigInt(balance.balance) < BigInt(req.amount)) {
+    if (!balance || BigInt(balance.balance) < amount) {
       throw new Error("Insufficient balance to burn");
     }
 
     // Update token balance
-    await tokenDB.exec`
+    const burned = await tokenDB.queryRow<{ balance: string }>`
       UPDATE token_balances 
       SET balance = balance - ${req.amount}, updated_at = NOW()
       WHERE wallet_id = ${balance.wallet_id} AND token_id = ${req.tokenId}
+      RETURNING balance::text
     `;
+    auditChange(
+      { address: req.fromAddress, balance: (BigInt(burned!.balance) + amount).toString() },
+      { address: req.fromAddress, balance: burned!.balance }
+    );
 
     return {
       success: true,
@@ -267,31 +309,41 @@ export const burnToken = api<BurnTokenRequest, TokenOperation>(
 
 // Transfer tokens (simulated)
 export const transferToken = api<TransferTokenRequest, TokenOperation>(
-  { expose: true, method: "POST", path: "/token/transfer" },
+  { expose: true, auth: true, method: "POST", path: "/token/transfer", tags: ["scope:tokens:transfer", "audit:token.transfer", "idempotent"] },
   async (req) => {
     if (!req.tokenId || !req.fromAddress || !req.toAddress || !req.amount) {
       throw new Error("Missing required transfer parameters");
     }
+    const amount = parseAmount(req.amount);
+    auditTarget("token", req.tokenId);
+    const projectId = callerProjectId();
+
+    const token = await tokenDB.queryRow<{ archived: boolean }>`
+      SELECT archived_at IS NOT NULL as archived FROM tokens
+      WHERE id = ${req.tokenId} AND project_id = ${projectId}
+    `;
+    if (!token) throw new Error("Token not found");
+    if (token.archived) throw new Error("Token is archived");
 
     // Get from wallet and check balance
     const fromBalance = await tokenDB.queryRow<{ balance: string; wallet_id: number }>`
       SELECT tb.balance, w.id as wallet_id
       FROM token_balances tb
       JOIN wallets w ON tb.wallet_id = w.id
-      WHERE w.address = ${req.fromAddress} AND tb.token_id = ${req.tokenId}
+      WHERE w.address = ${req.fromAddress} AND w.project_id = ${projectId} AND tb.token_id = ${req.tokenId}
     `;
-    if (!fromBalance || BigInt(fromBalance.balance) < BigInt(req.amount)) {
+    if (!fromBalance || BigInt(fromBalance.balance) < amount) {
       throw new Error("Insufficient balance to transfer");
     }
 
     // Get or create to wallet
     let toWallet = await tokenDB.queryRow<{ id: number }>`
-      SELECT id FROM wallets WHERE address = ${req.toAddress}
+      SELECT id FROM wallets WHERE address = ${req.toAddress} AND project_id = ${projectId}
     `;
     if (!toWallet) {
       toWallet = await tokenDB.queryRow<{ id: number }>`
-        INSERT INTO wallets (address, user_id, wallet_type)
-        VALUES (${req.toAddress}, 'system', 'EOA')
+        INSERT INTO wallets (address, user_id, wallet_type, project_id)
+        VALUES (${req.toAddress}, 'system', 'EOA', ${projectId})
         RETURNING id
       `;
     }
@@ -300,21 +352,30 @@ export const transferToken = api<TransferTokenRequest, TokenOperation>(
     await tokenDB.exec`BEGIN`;
     try {
       // Deduct from sender
-      await tokenDB.exec`
+      const sent = await tokenDB.queryRow<{ balance: string }>`
         UPDATE token_balances 
         SET balance = balance - ${req.amount}, updated_at = NOW()
         WHERE wallet_id = ${fromBalance.wallet_id} AND token_id = ${req.tokenId}
+        RETURNING balance::text
       `;
 
       // Add to receiver
-      await tokenDB.exec`
+      const received = await tokenDB.queryRow<{ balance: string }>`
         INSERT INTO token_balances (wallet_id, token_id, balance)
         VALUES (${toWallet!.id}, ${req.tokenId}, ${req.amount})
         ON CONFLICT (wallet_id, token_id)
         DO UPDATE SET balance = token_balances.balance + ${req.amount}, updated_at = NOW()
+        RETURNING balance::text
       `;
 
       await tokenDB.exec`COMMIT`;
+      auditChange(
+        {
+          [req.fromAddress]: (BigInt(sent!.balance) + amount).toString(),
+          [req.toAddress]: (BigInt(received!.balance) - amount).toString(),
+        },
+        { [req.fromAddress]: sent!.balance, [req.toAddress]: received!.balance }
+      );
 
       return {
         success: true,
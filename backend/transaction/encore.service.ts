@@ -1,3 +1,9 @@
 import { Service } from "encore.dev/service";
+import { auditTrail } from "../audit/trail";
+import { requireScopes } from "../auth/authorization";
+import { idempotency } from "../auth/idempotency";
+import { apiKeyRateLimit } from "../auth/rate_limit";
 
-export default new Service("transaction");
+export default new Service("transaction", {
+  middlewares: [apiKeyRateLimit, auditTrail, requireScopes, idempotency],
+});
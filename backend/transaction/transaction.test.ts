@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { createTransaction, getTransaction, getTransactionStats, updateTransaction } from "./transaction";
+
+const db = SQLDatabase.named("blockchain");
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+const FROM = "0x00000000000000000000000000000000000000f1";
+let networkId: number;
+
+function hashOf(n: number): string {
+  return `0x${n.toString(16).padStart(64, "0")}`;
+}
+
+beforeAll(async () => {
+  setAuthData(ALICE);
+  const network = await db.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 9701', 9701, 'http://node-9701', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("transactions", () => {
+  it("records a transaction and its confirmation", async () => {
+    const created = await createTransaction({
+      hash: hashOf(1),
+      networkId,
+      fromAddress: FROM,
+      value: "1000000000000000000",
+      transactionType: "transfer",
+    });
+    expect(created).toMatchObject({ hash: hashOf(1), status: "pending", value: "1000000000000000000", logs: [] });
+
+    const confirmed = await updateTransaction({ hash: hashOf(1), status: "confirmed", blockNumber: 12, gasUsed: 21000, logs: [] });
+
+    expect(confirmed).toMatchObject({ status: "confirmed", blockNumber: 12, gasUsed: 21000 });
+    expect(confirmed.confirmedAt).toBeInstanceOf(Date);
+    expect(await getTransaction({ hash: hashOf(1) })).toEqual(confirmed);
+    expect(await getTransactionStats({ networkId })).toMatchObject({ totalTransactions: 1, confirmedTransactions: 1 });
+  });
+
+  it("rejects networks of other projects", async () => {
+    setAuthData({ ...ALICE, projectId: DEFAULT_PROJECT_ID + 1000 });
+    try {
+      await expect(
+        createTransaction({ hash: hashOf(2), networkId, fromAddress: FROM, value: "0", transactionType: "transfer" })
+      ).rejects.toMatchObject({ code: "not_found" });
+    } finally {
+      setAuthData(ALICE);
+    }
+  });
+});
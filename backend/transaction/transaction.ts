@@ -1,5 +1,7 @@
-import { api } from "encore.dev/api";
+import { APIError, api } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { IdempotentRequest } from "../auth/idempotency";
+import { callerProjectId } from "../auth/tenancy";
 
 const transactionDB = SQLDatabase.named("blockchain");
 
@@ -47,11 +49,69 @@ function safeJsonParse(str: string): any {
 }
 
 // Types
-export interface Transaction { /* ...as before... */ }
-export interface CreateTransactionRequest { /* ...as before... */ }
-export interface UpdateTransactionRequest { /* ...as before... */ }
-export interface ListTransactionsResponse { /* ...as before... */ }
-export interface TransactionStats { /* ...as before... */ }
+export type TransactionStatus = "pending" | "confirmed" | "failed";
+export type TransactionType = "transfer" | "contract_call" | "contract_deploy";
+
+export interface Transaction {
+  id: number;
+  hash: string;
+  networkId: number;
+  fromAddress: string;
+  toAddress: string | null;
+  value: string;
+  gasPrice: string | null;
+  gasLimit: number | null;
+  gasUsed: number | null;
+  nonce: number | null;
+  blockNumber: number | null;
+  blockHash: string | null;
+  transactionIndex: number | null;
+  status: TransactionStatus;
+  transactionType: TransactionType;
+  contractAddress: string | null;
+  logs: any[];
+  errorMessage: string | null;
+  createdAt: Date;
+  confirmedAt: Date | null;
+}
+
+export interface CreateTransactionRequest extends IdempotentRequest {
+  hash: string;
+  networkId: number;
+  fromAddress: string;
+  toAddress?: string;
+  // Amounts are decimal strings in wei.
+  value: string;
+  gasPrice?: string;
+  gasLimit?: number;
+  nonce?: number;
+  transactionType: TransactionType;
+  contractAddress?: string;
+}
+
+export interface UpdateTransactionRequest {
+  hash: string;
+  status: TransactionStatus;
+  blockNumber?: number;
+  blockHash?: string;
+  transactionIndex?: number;
+  gasUsed?: number;
+  logs?: any[];
+  errorMessage?: string;
+}
+
+export interface ListTransactionsResponse {
+  transactions: Transaction[];
+  total: number;
+}
+
+export interface TransactionStats {
+  totalTransactions: number;
+  pendingTransactions: number;
+  confirmedTransactions: number;
+  failedTransactions: number;
+  totalValue: string;
+}
 
 // List transactions with pagination and filters
 export const listTransactions = api<{
@@ -61,15 +121,15 @@ export const listTransactions = api<{
   networkId?: number;
   status?: string;
 }, ListTransactionsResponse>(
-  { expose: true, method: "GET", path: "/transaction/transactions" },
+  { expose: true, auth: true, method: "GET", path: "/transaction/transactions", tags: ["scope:transactions:read"] },
   async (req) => {
     const page = req.page ?? DEFAULT_PAGE;
     const limit = req.limit ?? DEFAULT_LIMIT;
     const offset = (page - 1) * limit;
 
-    let whereClause = "WHERE 1=1";
-    const params: any[] = [];
-    let paramIndex = 1;
+    let whereClause = "WHERE project_id = $1";
+    const params: any[] = [callerProjectId()];
+    let paramIndex = 2;
 
     if (req.address) {
       whereClause += ` AND (from_address = $${paramIndex} OR to_address = $${paramIndex})`;
@@ -113,14 +173,14 @@ export const listTransactions = api<{
 
 // Get specific transaction by hash
 export const getTransaction = api<{ hash: string }, Transaction>(
-  { expose: true, method: "GET", path: "/transaction/:hash" },
+  { expose: true, auth: true, method: "GET", path: "/transaction/:hash", tags: ["scope:transactions:read"] },
   async ({ hash }) => {
     const query = `
       SELECT ${TRANSACTION_SELECT_FIELDS}
       FROM transactions 
-      WHERE hash = $1
+      WHERE hash = $1 AND project_id = $2
     `;
-    const transaction = await transactionDB.rawQueryRow<Transaction>(query, hash);
+    const transaction = await transactionDB.rawQueryRow<Transaction>(query, hash, callerProjectId());
 
     if (!transaction) {
       throw new Error("Transaction not found");
@@ -132,14 +192,22 @@ export const getTransaction = api<{ hash: string }, Transaction>(
 
 // Create a new transaction record
 export const createTransaction = api<CreateTransactionRequest, Transaction>(
-  { expose: true, method: "POST", path: "/transaction/transactions" },
+  { expose: true, auth: true, method: "POST", path: "/transaction/transactions", tags: ["scope:transactions:write", "idempotent"] },
   async (req) => {
+    const projectId = callerProjectId();
+    const network = await transactionDB.queryRow<{ id: number }>`
+      SELECT id FROM networks WHERE id = ${req.networkId} AND project_id = ${projectId}
+    `;
+    if (!network) {
+      throw APIError.notFound("Network not found");
+    }
     const query = `
       INSERT INTO transactions (
-        hash, network_id, from_address, to_address, value, gas_price, gas_limit, nonce, transaction_type, contract_address
+        hash, network_id, from_address, to_address, value, gas_price, gas_limit, nonce, transaction_type, contract_address,
+        project_id
       )
       VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
       )
       RETURNING ${TRANSACTION_SELECT_FIELDS}
     `;
@@ -154,16 +222,19 @@ export const createTransaction = api<CreateTransactionRequest, Transaction>(
       req.nonce || null,
       req.transactionType,
       req.contractAddress || null,
+      projectId,
     ];
     const transaction = await transactionDB.rawQueryRow<Transaction>(query, ...params);
-
-    return transaction ? parseTransactionRow(transaction) : null;
+    if (!transaction) {
+      throw APIError.internal("Failed to create transaction");
+    }
+    return parseTransactionRow(transaction);
   }
 );
 
 // Update transaction status (when confirmed on blockchain)
 export const updateTransaction = api<UpdateTransactionRequest, Transaction>(
-  { expose: true, method: "PATCH", path: "/transaction/update" },
+  { expose: true, auth: true, method: "PATCH", path: "/transaction/update", tags: ["scope:transactions:write"] },
   async (req) => {
     const setParts: string[] = [];
     const params: any[] = [];
@@ -203,10 +274,10 @@ export const updateTransaction = api<UpdateTransactionRequest, Transaction>(
     const query = `
       UPDATE transactions 
       SET ${setParts.join(', ')}
-      WHERE hash = $${paramIndex}
+      WHERE hash = $${paramIndex} AND project_id = $${paramIndex + 1}
       RETURNING ${TRANSACTION_SELECT_FIELDS}
     `;
-    params.push(req.hash);
+    params.push(req.hash, callerProjectId());
     const transaction = await transactionDB.rawQueryRow<Transaction>(query, ...params);
 
     if (!transaction) {
@@ -218,12 +289,12 @@ export const updateTransaction = api<UpdateTransactionRequest, Transaction>(
 
 // Get transaction statistics
 export const getTransactionStats = api<{ networkId?: number }, TransactionStats>(
-  { expose: true, method: "GET", path: "/transaction/stats" },
+  { expose: true, auth: true, method: "GET", path: "/transaction/stats", tags: ["scope:transactions:read"] },
   async (req) => {
-    let whereClause = "";
-    const params: any[] = [];
+    let whereClause = "WHERE project_id = $1";
+    const params: any[] = [callerProjectId()];
     if (req.networkId) {
-      whereClause = "WHERE network_id = $1";
+      whereClause += " AND network_id = $2";
       params.push(req.networkId);
     }
 
@@ -261,27 +332,28 @@ export const getTransactionsByAddress = api<{
   page?: number;
   limit?: number;
 }, ListTransactionsResponse>(
-  { expose: true, method: "GET", path: "/transaction/address/:address" },
+  { expose: true, auth: true, method: "GET", path: "/transaction/address/:address", tags: ["scope:transactions:read"] },
   async (req) => {
     const page = req.page ?? DEFAULT_PAGE;
     const limit = req.limit ?? DEFAULT_LIMIT;
     const offset = (page - 1) * limit;
+    const projectId = callerProjectId();
 
     const query = `
       SELECT ${TRANSACTION_SELECT_FIELDS}
       FROM transactions 
-      WHERE from_address = $1 OR to_address = $1
+      WHERE (from_address = $1 OR to_address = $1) AND project_id = $4
       ORDER BY created_at DESC
       LIMIT $2 OFFSET $3
     `;
-    const transactions = await transactionDB.rawQueryAll<Transaction>(query, req.address, limit, offset);
+    const transactions = await transactionDB.rawQueryAll<Transaction>(query, req.address, limit, offset, projectId);
 
     const countQuery = `
       SELECT COUNT(*) as count 
       FROM transactions 
-      WHERE from_address = $1 OR to_address = $1
+      WHERE (from_address = $1 OR to_address = $1) AND project_id = $2
     `;
-    const countResult = await transactionDB.rawQueryRow<{ count: number }>(countQuery, req.address);
+    const countResult = await transactionDB.rawQueryRow<{ count: number }>(countQuery, req.address, projectId);
 
     return {
       transactions: transactions.map(parseTransactionRow),
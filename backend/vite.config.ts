@@ -0,0 +1,25 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// The Encore runtime is not available under vitest, so its modules resolve to
+// the stand-ins in test/encore.
+const fake = (module: string) => path.resolve(__dirname, "test/encore", module);
+
+export default defineConfig({
+  resolve: {
+    alias: [
+      // The package root only; a plain string would also catch encore.dev/cron and /auth.
+      { find: /^encore\.dev$/, replacement: fake("req_meta.ts") },
+      { find: "encore.dev/api", replacement: fake("api.ts") },
+      { find: "encore.dev/config", replacement: fake("config.ts") },
+      { find: "encore.dev/log", replacement: fake("log.ts") },
+      { find: "encore.dev/storage/sqldb", replacement: fake("sqldb.ts") },
+      { find: "~encore/auth", replacement: fake("auth.ts") },
+    ],
+  },
+  test: {
+    // The first query in a file creates and migrates its database.
+    testTimeout: 30_000,
+    hookTimeout: 30_000,
+  },
+});
@@ -0,0 +1,183 @@
+import { Interface, Transaction, Wallet as Signer } from "ethers";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { RpcError } from "../chain/rpc";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { previewContractWrite, writeContract } from "./contract_writes";
+import { encryptPrivateKey } from "./custody";
+
+const db = SQLDatabase.named("blockchain");
+const TOKEN = "0x00000000000000000000000000000000000000a1";
+const iface = new Interface([
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function deposit() payable",
+  "function balanceOf(address owner) view returns (uint256)",
+  "error InsufficientBalance(uint256 needed, uint256 available)",
+]);
+const RECIPIENT = "0x00000000000000000000000000000000000000b2";
+
+const OWNER = "0x00000000000000000000000000000000000a11ce";
+const signer = Signer.createRandom();
+let chain: FakeChain;
+let contractId: number;
+
+beforeAll(async () => {
+  setAuthData(signedIn(OWNER));
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+  const network = await db.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 7001', 7001, 'http://node-7001', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  const contract = await db.queryRow<{ id: number }>`
+    INSERT INTO smart_contracts (name, address, network_id, abi, contract_type, project_id)
+    VALUES ('Token', ${TOKEN}, ${network!.id}, ${iface.formatJson()}, 'ERC20', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  contractId = contract!.id;
+  await db.exec`
+    INSERT INTO wallets (address, user_id, is_custodial, encrypted_private_key, project_id)
+    VALUES (${signer.address}, ${OWNER}, true, ${await encryptPrivateKey(signer.privateKey)}, ${DEFAULT_PROJECT_ID})
+  `;
+  await db.exec`
+    INSERT INTO wallets (address, user_id, project_id) VALUES ('0x00000000000000000000000000000000000000c3', ${OWNER}, ${DEFAULT_PROJECT_ID})
+  `;
+});
+
+beforeEach(() => {
+  chain = new FakeChain({ chainId: 7001 });
+  chain.setCode(TOKEN, "0x6000");
+  chain.onCall(TOKEN, () => iface.encodeFunctionResult("transfer", [true]));
+  setTransportFactory(() => chain);
+});
+
+afterEach(() => {
+  resetTransportFactory();
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+const transfer = { address: signer.address, contractId: 0, function: "transfer", args: [RECIPIENT, "1000"] };
+
+describe("previewContractWrite", () => {
+  it("fills gas, nonce and EIP-1559 fees without signing", async () => {
+    const prepared = await previewContractWrite({ ...transfer, contractId });
+
+    expect(prepared).toMatchObject({
+      contractAddress: TOKEN,
+      chainId: 7001,
+      signature: "transfer(address,uint256)",
+      selector: "0xa9059cbb",
+      args: [
+        { name: "to", type: "address", value: "0x00000000000000000000000000000000000000b2" },
+        { name: "amount", type: "uint256", value: "1000" },
+      ],
+      nonce: 0,
+      fees: { type: "eip1559", maxFeePerGas: "3000000000", maxPriorityFeePerGas: "1000000000" },
+    });
+    // 21000 + 16 gas per calldata byte, plus the 20% buffer.
+    expect(prepared.gasLimit).toBe(String(Math.floor((21_000 + 16 * 68) * 1.2)));
+    expect(prepared.maxCost).toBe((BigInt(prepared.gasLimit) * BigInt(3_000_000_000)).toString());
+    expect(chain.received.flat().map((req) => req.method)).not.toContain("eth_sendRawTransaction");
+  });
+
+  it("rejects view functions, value on non-payable functions and non-custodial wallets", async () => {
+    await expect(previewContractWrite({ ...transfer, contractId, function: "balanceOf", args: [RECIPIENT] })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "balanceOf(address) is view; use the contract call endpoint to read it",
+    });
+    await expect(previewContractWrite({ ...transfer, contractId, value: "1" })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "transfer(address,uint256) is not payable",
+    });
+    await expect(
+      previewContractWrite({ ...transfer, contractId, address: "0x00000000000000000000000000000000000000c3" })
+    ).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(previewContractWrite({ ...transfer, contractId: 9999 })).rejects.toMatchObject({ code: "not_found" });
+  });
+
+  it("reports a call that would revert", async () => {
+    chain.onCall(TOKEN, () => {
+      throw new Error("execution reverted");
+    });
+
+    await expect(previewContractWrite({ ...transfer, contractId })).rejects.toMatchObject({
+      code: "failed_precondition",
+      message: "Transaction would revert: execution reverted",
+    });
+  });
+});
+
+describe("writeContract", () => {
+  it("signs with the custodial key, broadcasts and records a pending transaction", async () => {
+    const first = await writeContract({ ...transfer, contractId });
+    const second = await writeContract({ ...transfer, contractId, function: "deposit", args: [], value: "5" });
+
+    expect([first.nonce, second.nonce]).toEqual([0, 1]);
+    const sent = chain.received.flat().filter((req) => req.method === "eth_sendRawTransaction");
+    const tx = Transaction.from(String(sent[0].params![0]));
+    expect([tx.from, tx.to?.toLowerCase(), tx.chainId, tx.type, tx.data]).toEqual([signer.address, TOKEN, BigInt(7001), 2, first.data]);
+    expect(first.hash).toBe(tx.hash);
+
+    const row = await db.queryRow<{ status: string; nonce: number; type: string; value: string }>`
+      SELECT status, nonce, transaction_type as type, value::text FROM transactions WHERE id = ${second.transactionId}
+    `;
+    expect(row).toEqual({ status: "pending", nonce: 1, type: "contract_call", value: "5" });
+  });
+
+  it("gives concurrent writes from one wallet consecutive nonces", async () => {
+    const writes = await Promise.all(
+      ["1", "2", "3"].map((amount) => writeContract({ ...transfer, contractId, args: [RECIPIENT, amount] }))
+    );
+
+    expect(writes.map((write) => write.nonce).sort()).toEqual([0, 1, 2]);
+  });
+
+  it("keeps a broadcast whose response was lost", async () => {
+    // The node mines the transaction but the response is lost; the retry is answered with "nonce too low".
+    chain.failNextCall("eth_sendRawTransaction", "lose");
+
+    const write = await writeContract({ ...transfer, contractId, args: [RECIPIENT, "4"] });
+
+    const methods = chain.received.flat().map((req) => req.method);
+    expect(methods.filter((method) => method === "eth_sendRawTransaction")).toHaveLength(2);
+    expect(methods).toContain("eth_getTransactionReceipt");
+    const row = await db.queryRow<{ hash: string; status: string }>`
+      SELECT hash, status FROM transactions WHERE id = ${write.transactionId}
+    `;
+    expect(row).toEqual({ hash: write.hash, status: "pending" });
+  });
+
+  it("records a broadcast the node rejected as failed", async () => {
+    chain.failNextCall("eth_sendRawTransaction", new RpcError(-32000, "insufficient funds for gas * price + value"));
+
+    await expect(writeContract({ ...transfer, contractId, args: [RECIPIENT, "5"] })).rejects.toMatchObject({
+      code: "unavailable",
+      message: "Broadcast failed: insufficient funds for gas * price + value",
+    });
+    const rows = await db.queryAll<{ status: string; error: string }>`
+      SELECT status, error_message as error FROM transactions WHERE status = 'failed'
+    `;
+    expect(rows).toEqual([{ status: "failed", error: "insufficient funds for gas * price + value" }]);
+  });
+
+  it("leaves a broadcast that never got an answer pending", async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      chain.failNextCall("eth_sendRawTransaction");
+    }
+
+    const err = await writeContract({ ...transfer, contractId, args: [RECIPIENT, "6"] }).catch((e) => e);
+
+    expect(err).toMatchObject({ code: "unavailable" });
+    const row = await db.queryRow<{ status: string }>`
+      SELECT status FROM transactions WHERE id = ${Number(/pending transaction (\d+)/.exec(err.message)![1])}
+    `;
+    expect(row).toEqual({ status: "pending" });
+  });
+});
@@ -0,0 +1,224 @@
+import { APIError, api } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { FunctionFragment, Interface } from "ethers";
+import { callerProjectId } from "../auth/tenancy";
+import { getRpcClient } from "../chain/clients";
+import { RpcClient } from "../chain/rpc";
+import { effectiveContractAbi } from "../chain/proxy";
+import {
+  AbiCallError,
+  DecodedValue,
+  decodeFunctionArgs,
+  encodeFunctionCall,
+  resolveFunction,
+} from "../chain/abi";
+import {
+  CustodialWallet,
+  TransactionFees,
+  loadCustodialWallet,
+  maxCost,
+  padGasLimit,
+  parseWei,
+  rpcFailure,
+  sendFromCustodialWallet,
+  suggestFees,
+} from "./tx_builder";
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const CONTRACT_WRITE_PATH = "/wallet/:address/contract-writes";
+const CONTRACT_WRITE_PREVIEW_PATH = "/wallet/:address/contract-writes/preview";
+
+// --- Type Definitions ---
+
+export interface ContractWriteRequest {
+  // Custodial wallet that signs and pays for the transaction.
+  address: string;
+  contractId: number;
+  // Function name, or full signature for overloaded functions.
+  function: string;
+  args?: any[];
+  // Native currency to send along, in wei.
+  value?: string;
+}
+
+export interface PreparedContractWrite {
+  contractId: number;
+  contractAddress: string;
+  networkId: number;
+  chainId: number;
+  from: string;
+  signature: string;
+  selector: string;
+  // The arguments as they will be encoded, for confirmation before signing.
+  args: DecodedValue[];
+  data: string;
+  value: string;
+  nonce: number;
+  gasLimit: string;
+  fees: TransactionFees;
+  // gasLimit times the highest price per gas the transaction may pay, in wei.
+  maxCost: string;
+}
+
+export interface ContractWriteResponse extends PreparedContractWrite {
+  transactionId: number;
+  hash: string;
+  status: "pending";
+}
+
+interface WriteTarget {
+  id: number;
+  address: string;
+  abi: string;
+  // ABI of the linked implementation when the contract is a proxy.
+  implementationAbi: string | null;
+  networkId: number;
+  chainId: number;
+  supportsEip1559: boolean;
+  networkActive: boolean;
+  archived: boolean;
+}
+
+// --- Helper Functions ---
+
+async function loadWriteTarget(contractId: number): Promise<WriteTarget> {
+  const target = await walletDB.queryRow<WriteTarget>`
+    SELECT
+      sc.id,
+      sc.address,
+      sc.abi,
+      impl.abi as "implementationAbi",
+      sc.network_id as "networkId",
+      n.chain_id as "chainId",
+      n.supports_eip1559 as "supportsEip1559",
+      n.is_active as "networkActive",
+      sc.archived_at IS NOT NULL as archived
+    FROM smart_contracts sc
+    JOIN networks n ON n.id = sc.network_id
+    LEFT JOIN smart_contracts impl ON impl.id = sc.implementation_contract_id
+    WHERE sc.id = ${contractId} AND sc.project_id = ${callerProjectId()} AND sc.deleted_at IS NULL
+  `;
+  if (!target) {
+    throw APIError.notFound("Smart contract not found");
+  }
+  if (target.archived) {
+    throw APIError.failedPrecondition("The contract is archived");
+  }
+  if (!target.networkActive) {
+    throw APIError.invalidArgument("The contract's network is inactive");
+  }
+  return target;
+}
+
+// Encodes the call and fills gas, nonce and fees; nothing is signed.
+async function prepareContractWrite(
+  req: ContractWriteRequest,
+  wallet: CustodialWallet
+): Promise<{ prepared: PreparedContractWrite; client: RpcClient; iface: Interface }> {
+  const target = await loadWriteTarget(req.contractId);
+  let iface: Interface;
+  try {
+    iface = new Interface(effectiveContractAbi(target.abi, target.implementationAbi));
+  } catch (err) {
+    throw APIError.failedPrecondition(`Stored ABI is invalid: ${(err as Error).message}`);
+  }
+
+  const value = parseWei(req.value ?? "0");
+  let fn: FunctionFragment;
+  let data: string;
+  try {
+    fn = resolveFunction(iface, req.function);
+    data = encodeFunctionCall(iface, fn, req.args ?? []);
+  } catch (err) {
+    if (err instanceof AbiCallError) {
+      throw APIError.invalidArgument(err.message);
+    }
+    throw err;
+  }
+  if (fn.constant) {
+    throw APIError.invalidArgument(`${fn.format("sighash")} is ${fn.stateMutability}; use the contract call endpoint to read it`);
+  }
+  if (value > BigInt(0) && !fn.payable) {
+    throw APIError.invalidArgument(`${fn.format("sighash")} is not payable`);
+  }
+
+  const client = await getRpcClient(target.networkId);
+  let estimate: bigint;
+  let nonce: number;
+  let fees: TransactionFees;
+  try {
+    estimate = await client.estimateGas({ to: target.address, data, from: wallet.address, value });
+  } catch (err) {
+    throw rpcFailure(err, "Gas estimation", iface);
+  }
+  try {
+    [nonce, fees] = await Promise.all([
+      client.getTransactionCount(wallet.address, "pending"),
+      suggestFees(client, target.supportsEip1559),
+    ]);
+  } catch (err) {
+    throw APIError.unavailable(`Fetching nonce and fees failed: ${(err as Error).message}`);
+  }
+
+  const gasLimit = padGasLimit(estimate);
+  return {
+    client,
+    iface,
+    prepared: {
+      contractId: target.id,
+      contractAddress: target.address,
+      networkId: target.networkId,
+      chainId: target.chainId,
+      from: wallet.address,
+      signature: fn.format("sighash"),
+      selector: fn.selector,
+      args: decodeFunctionArgs(iface, fn, data),
+      data,
+      value: value.toString(),
+      nonce,
+      gasLimit: gasLimit.toString(),
+      fees,
+      maxCost: maxCost({ gasLimit, fees, value }).toString(),
+    },
+  };
+}
+
+// --- API Endpoints ---
+
+// Build a contract write for a custodial wallet without signing it, for confirmation
+export const previewContractWrite = api<ContractWriteRequest, PreparedContractWrite>(
+  { expose: true, auth: true, method: "POST", path: CONTRACT_WRITE_PREVIEW_PATH, tags: ["scope:contracts:read"] },
+  async (req) => {
+    const wallet = await loadCustodialWallet(req.address);
+    const { prepared } = await prepareContractWrite(req, wallet);
+    return prepared;
+  }
+);
+
+// Sign a contract write with a custodial wallet's key, broadcast it and record it as pending
+export const writeContract = api<ContractWriteRequest, ContractWriteResponse>(
+  { expose: true, auth: true, method: "POST", path: CONTRACT_WRITE_PATH, tags: ["scope:wallets:sign"] },
+  async (req) => {
+    const wallet = await loadCustodialWallet(req.address);
+    const { prepared: draft, client, iface } = await prepareContractWrite(req, wallet);
+
+    const sent = await sendFromCustodialWallet(
+      client,
+      wallet,
+      draft.networkId,
+      {
+        chainId: draft.chainId,
+        to: draft.contractAddress,
+        data: draft.data,
+        value: BigInt(draft.value),
+        gasLimit: BigInt(draft.gasLimit),
+        fees: draft.fees,
+      },
+      iface
+    );
+    // The draft's nonce may have been taken by a concurrent send; the sent one was read under the wallet's lock.
+    return { ...draft, nonce: sent.nonce, transactionId: sent.transactionId, hash: sent.hash, status: "pending" };
+  }
+);
@@ -0,0 +1,122 @@
+import { createCipheriv, randomBytes } from "node:crypto";
+import { Wallet as Signer } from "ethers";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+const OLD_KEY = "11".repeat(32);
+const NEW_KEY = "22".repeat(32);
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+// The master key provider is cached per module instance, so each key ring gets
+// a fresh import.
+async function custodyWithKeys(walletEncryptionKey: string) {
+  vi.stubEnv("WalletEncryptionKey", walletEncryptionKey);
+  vi.resetModules();
+  return import("./custody");
+}
+
+// A v1 payload: the key sealed directly under the master key.
+function legacyPayload(privateKey: string, masterKeyHex: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", Buffer.from(masterKeyHex, "hex"), iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey, "utf8"), cipher.final()]);
+  return ["v1", iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+describe("custodial key sealing", () => {
+  const signer = Signer.createRandom();
+
+  it("seals a key under the current master key and opens it again", async () => {
+    const { decryptPrivateKey, encryptPrivateKey } = await custodyWithKeys(`old:${OLD_KEY}`);
+
+    const payload = await encryptPrivateKey(signer.privateKey);
+
+    expect(payload.split(".")).toHaveLength(8);
+    expect(payload.startsWith("v2.old.")).toBe(true);
+    expect(payload).not.toContain(signer.privateKey.slice(2));
+    await expect(decryptPrivateKey(payload)).resolves.toBe(signer.privateKey);
+  });
+
+  it("seals every key under its own data key", async () => {
+    const { encryptPrivateKey } = await custodyWithKeys(OLD_KEY);
+
+    const [first, second] = await Promise.all([encryptPrivateKey(signer.privateKey), encryptPrivateKey(signer.privateKey)]);
+
+    expect(first.split(".")[4]).not.toBe(second.split(".")[4]);
+    expect(first.split(".")[7]).not.toBe(second.split(".")[7]);
+  });
+
+  it("rejects tampered ciphertext", async () => {
+    const { CustodialKeyError, decryptPrivateKey, encryptPrivateKey } = await custodyWithKeys(OLD_KEY);
+    const parts = (await encryptPrivateKey(signer.privateKey)).split(".");
+    const ciphertext = Buffer.from(parts[7], "base64");
+    ciphertext[0] ^= 0xff;
+    parts[7] = ciphertext.toString("base64");
+
+    await expect(decryptPrivateKey(parts.join("."))).rejects.toBeInstanceOf(CustodialKeyError);
+  });
+
+  it("rejects payloads in an unknown format", async () => {
+    const { CustodialKeyError, decryptPrivateKey } = await custodyWithKeys(OLD_KEY);
+
+    await expect(decryptPrivateKey("v3.a.b.c")).rejects.toBeInstanceOf(CustodialKeyError);
+    await expect(decryptPrivateKey(signer.privateKey)).rejects.toBeInstanceOf(CustodialKeyError);
+  });
+
+  it("reads legacy v1 payloads as sealed under the default master key", async () => {
+    const { decryptPrivateKey } = await custodyWithKeys(OLD_KEY);
+
+    await expect(decryptPrivateKey(legacyPayload(signer.privateKey, OLD_KEY))).resolves.toBe(signer.privateKey);
+  });
+});
+
+describe("master key rotation", () => {
+  const signer = Signer.createRandom();
+
+  it("re-wraps the data key under the new master key without changing the sealed key", async () => {
+    const before = await custodyWithKeys(`old:${OLD_KEY}`);
+    const payload = await before.encryptPrivateKey(signer.privateKey);
+
+    const after = await custodyWithKeys(`new:${NEW_KEY},old:${OLD_KEY}`);
+    const rewrapped = await after.rewrapPrivateKey(payload);
+
+    expect(rewrapped).not.toBeNull();
+    const [version, keyId, , , , iv, tag, ciphertext] = rewrapped!.split(".");
+    expect([version, keyId]).toEqual(["v2", "new"]);
+    expect([iv, tag, ciphertext]).toEqual(payload.split(".").slice(5));
+    await expect(after.decryptPrivateKey(rewrapped!)).resolves.toBe(signer.privateKey);
+    await expect(after.rewrapPrivateKey(rewrapped!)).resolves.toBeNull();
+  });
+
+  it("re-seals legacy payloads in the current format", async () => {
+    const { decryptPrivateKey, rewrapPrivateKey } = await custodyWithKeys(`new:${NEW_KEY},default:${OLD_KEY}`);
+
+    const rewrapped = await rewrapPrivateKey(legacyPayload(signer.privateKey, OLD_KEY));
+
+    expect(rewrapped!.startsWith("v2.new.")).toBe(true);
+    await expect(decryptPrivateKey(rewrapped!)).resolves.toBe(signer.privateKey);
+  });
+
+  it("fails with a custody error once the old master key is gone", async () => {
+    const before = await custodyWithKeys(`old:${OLD_KEY}`);
+    const payload = await before.encryptPrivateKey(signer.privateKey);
+
+    const after = await custodyWithKeys(`new:${NEW_KEY}`);
+
+    await expect(after.rewrapPrivateKey(payload)).rejects.toBeInstanceOf(after.CustodialKeyError);
+    await expect(after.decryptPrivateKey(payload)).rejects.toThrow('Master key "old" is not configured');
+  });
+});
+
+describe("loadSigner", () => {
+  it("refuses a sealed key that does not control the wallet address", async () => {
+    const { CustodialKeyError, encryptPrivateKey, loadSigner } = await custodyWithKeys(OLD_KEY);
+    const signer = Signer.createRandom();
+    const sealed = await encryptPrivateKey(signer.privateKey);
+
+    expect((await loadSigner(sealed, signer.address.toLowerCase())).address).toBe(signer.address);
+    await expect(loadSigner(sealed, Signer.createRandom().address)).rejects.toBeInstanceOf(CustodialKeyError);
+  });
+});
@@ -0,0 +1,123 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { Wallet as Signer } from "ethers";
+import { DEFAULT_MASTER_KEY_ID, MasterKeyError, WrappedKey, masterKeyProvider } from "./kms";
+
+// Custodial secrets (private keys, HD mnemonics) use envelope encryption: each
+// is sealed with AES-256-GCM under its own random data key, and the data key is
+// wrapped by the master key provider (see kms.ts). Stored format, base64 parts:
+//   v2.<masterKeyId>.<wrapIv>.<wrapTag>.<wrappedDataKey>.<iv>.<tag>.<ciphertext>
+// Legacy "v1.<iv>.<tag>.<ciphertext>" payloads were sealed directly under the
+// master key; they read as a data key wrapped under the "default" master key.
+// Decrypted keys only exist inside this service, for the duration of a signature.
+
+const KEY_FORMAT_VERSION = "v2";
+const LEGACY_KEY_FORMAT_VERSION = "v1";
+
+export class CustodialKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CustodialKeyError";
+  }
+}
+
+interface SealedKey {
+  wrappedKey: WrappedKey;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+function parsePayload(payload: string): SealedKey | WrappedKey {
+  const [version, ...parts] = payload.split(".");
+  const buffers = (encoded: string[]) => encoded.map((part) => Buffer.from(part, "base64"));
+  if (version === LEGACY_KEY_FORMAT_VERSION && parts.length === 3 && parts.every(Boolean)) {
+    const [iv, tag, ciphertext] = buffers(parts);
+    return { keyId: DEFAULT_MASTER_KEY_ID, iv, tag, ciphertext };
+  }
+  if (version === KEY_FORMAT_VERSION && parts.length === 7 && parts.every(Boolean)) {
+    const [wrapIv, wrapTag, wrappedDataKey, iv, tag, ciphertext] = buffers(parts.slice(1));
+    return { wrappedKey: { keyId: parts[0], iv: wrapIv, tag: wrapTag, ciphertext: wrappedDataKey }, iv, tag, ciphertext };
+  }
+  throw new CustodialKeyError("Unsupported encrypted key format");
+}
+
+function formatPayload(sealed: SealedKey): string {
+  const { keyId, iv: wrapIv, tag: wrapTag, ciphertext: wrappedDataKey } = sealed.wrappedKey;
+  return [KEY_FORMAT_VERSION, keyId, ...[wrapIv, wrapTag, wrappedDataKey, sealed.iv, sealed.tag, sealed.ciphertext].map((part) => part.toString("base64"))]
+    .join(".");
+}
+
+// Provider failures (missing master key, wrong key) surface as custody errors.
+async function withMasterKey<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (err) {
+    if (err instanceof MasterKeyError) throw new CustodialKeyError(err.message);
+    throw err;
+  }
+}
+
+export async function encryptPrivateKey(privateKey: string): Promise<string> {
+  const dataKey = randomBytes(32);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", dataKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey, "utf8"), cipher.final()]);
+  const wrappedKey = await withMasterKey(() => masterKeyProvider().wrap(dataKey));
+  return formatPayload({ wrappedKey, iv, tag: cipher.getAuthTag(), ciphertext });
+}
+
+export async function decryptPrivateKey(payload: string): Promise<string> {
+  const sealed = parsePayload(payload);
+  if (!("wrappedKey" in sealed)) {
+    const plaintext = await withMasterKey(() => masterKeyProvider().unwrap(sealed));
+    return plaintext.toString("utf8");
+  }
+  const dataKey = await withMasterKey(() => masterKeyProvider().unwrap(sealed.wrappedKey));
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", dataKey, sealed.iv);
+    decipher.setAuthTag(sealed.tag);
+    return Buffer.concat([decipher.update(sealed.ciphertext), decipher.final()]).toString("utf8");
+  } catch {
+    throw new CustodialKeyError("Encrypted key could not be decrypted");
+  }
+}
+
+// SQL expression for the master key id of a sealed payload column, NULL when the
+// payload is not in a recognized format; mirrors parsePayload so rows can be filtered in SQL.
+export function sealingKeyIdSql(column: string): string {
+  return `CASE
+    WHEN ${column} ~ '^${LEGACY_KEY_FORMAT_VERSION}(\\.[^.]+){3}$' THEN '${DEFAULT_MASTER_KEY_ID}'
+    WHEN ${column} ~ '^${KEY_FORMAT_VERSION}(\\.[^.]+){7}$' THEN split_part(${column}, '.', 2)
+  END`;
+}
+
+// Re-wraps a payload's data key under the current master key; null when it already is.
+// The sealed secret itself is not decrypted, except for legacy payloads which are re-sealed.
+export async function rewrapPrivateKey(payload: string): Promise<string | null> {
+  const sealed = parsePayload(payload);
+  const provider = masterKeyProvider();
+  if (!("wrappedKey" in sealed)) {
+    return encryptPrivateKey(await decryptPrivateKey(payload));
+  }
+  if (sealed.wrappedKey.keyId === provider.currentKeyId()) {
+    return null;
+  }
+  const dataKey = await withMasterKey(() => provider.unwrap(sealed.wrappedKey));
+  const wrappedKey = await withMasterKey(() => provider.wrap(dataKey));
+  return formatPayload({ ...sealed, wrappedKey });
+}
+
+// Unseals a stored key and checks that it controls the expected address.
+export async function loadSigner(encryptedPrivateKey: string, address: string): Promise<Signer> {
+  const privateKey = await decryptPrivateKey(encryptedPrivateKey);
+  let signer: Signer;
+  try {
+    signer = new Signer(privateKey);
+  } catch {
+    throw new CustodialKeyError("Decrypted data is not a valid private key");
+  }
+  if (signer.address.toLowerCase() !== address.toLowerCase()) {
+    throw new CustodialKeyError(`Custodial key does not control ${address}`);
+  }
+  return signer;
+}
@@ -0,0 +1,128 @@
+import { AbiCoder, Wallet as Signer, getCreateAddress } from "ethers";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetTransportFactory, setTransportFactory } from "../chain/clients";
+import { FakeChain } from "../chain/fake_chain";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { encryptPrivateKey } from "./custody";
+import { deployContract } from "./deployments";
+
+const db = SQLDatabase.named("blockchain");
+const ABI = JSON.stringify([
+  { type: "constructor", inputs: [{ name: "supply", type: "uint256" }], stateMutability: "nonpayable" },
+  { type: "function", name: "totalSupply", inputs: [], outputs: [{ name: "", type: "uint256" }], stateMutability: "view" },
+]);
+const BYTECODE = "0x6080604052";
+
+const OWNER = "0x00000000000000000000000000000000000a11ce";
+const signer = Signer.createRandom();
+let chain: FakeChain;
+let networkId: number;
+
+beforeAll(async () => {
+  setAuthData(signedIn(OWNER));
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+  const network = await db.queryRow<{ id: number }>`
+    INSERT INTO networks (name, chain_id, rpc_url, native_currency, project_id)
+    VALUES ('Chain 8001', 8001, 'http://node-8001', 'ETH', ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  networkId = network!.id;
+  await db.exec`
+    INSERT INTO wallets (address, user_id, is_custodial, encrypted_private_key, project_id)
+    VALUES (${signer.address}, ${OWNER}, true, ${await encryptPrivateKey(signer.privateKey)}, ${DEFAULT_PROJECT_ID})
+  `;
+});
+
+beforeEach(() => {
+  chain = new FakeChain({ chainId: 8001 });
+  setTransportFactory(() => chain);
+});
+
+afterEach(() => {
+  resetTransportFactory();
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+function deploy(overrides: Record<string, unknown> = {}) {
+  return deployContract({
+    address: signer.address,
+    name: "Supply Token",
+    networkId,
+    abi: ABI,
+    bytecode: BYTECODE,
+    constructorArgs: AbiCoder.defaultAbiCoder().encode(["uint256"], [1000]),
+    contractType: "ERC20",
+    ...overrides,
+  });
+}
+
+describe("deployContract", () => {
+  it("registers the contract at its CREATE address once mined", async () => {
+    const result = await deploy();
+
+    const address = getCreateAddress({ from: signer.address, nonce: 0 });
+    expect(result.contract).toMatchObject({
+      name: "Supply Token",
+      address,
+      networkId,
+      bytecode: BYTECODE,
+      deployedBy: signer.address,
+    });
+    expect(result.blockNumber).toBe(1);
+    const transaction = await db.queryRow<{ status: string; contractAddress: string }>`
+      SELECT status, contract_address as "contractAddress" FROM transactions WHERE id = ${result.transactionId}
+    `;
+    expect(transaction).toEqual({ status: "confirmed", contractAddress: address });
+    const selectors = await db.queryAll<{ signature: string }>`
+      SELECT signature FROM contract_abi_entries WHERE contract_id = ${result.contract.id}
+    `;
+    expect(selectors).toEqual([{ signature: "totalSupply()" }]);
+  });
+
+  it("deploys concurrently from one wallet at distinct addresses", async () => {
+    const deployer = Signer.createRandom();
+    await db.exec`
+      INSERT INTO wallets (address, user_id, is_custodial, encrypted_private_key, project_id)
+      VALUES (${deployer.address}, ${OWNER}, true, ${await encryptPrivateKey(deployer.privateKey)}, ${DEFAULT_PROJECT_ID})
+    `;
+
+    const results = await Promise.all(
+      ["First Token", "Second Token"].map((name) => deploy({ address: deployer.address, name }))
+    );
+
+    expect(results.map((result) => result.contract.address).sort()).toEqual(
+      [0, 1].map((nonce) => getCreateAddress({ from: deployer.address, nonce })).sort()
+    );
+  });
+
+  it("checks constructor arguments and value against the ABI", async () => {
+    await expect(deploy({ constructorArgs: "0x" })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: expect.stringMatching(/^Constructor arguments do not match constructor\(uint256\)/),
+    });
+    await expect(deploy({ constructorArgs: AbiCoder.defaultAbiCoder().encode(["uint256", "bool"], [1, true]) })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(deploy({ value: "1" })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "The constructor is not payable",
+    });
+    await expect(deploy({ bytecode: "0x" })).rejects.toMatchObject({ code: "invalid_argument" });
+    expect(chain.received).toEqual([]);
+  });
+
+  it("refuses inactive networks", async () => {
+    await db.exec`UPDATE networks SET is_active = false WHERE id = ${networkId}`;
+    try {
+      await expect(deploy()).rejects.toMatchObject({ code: "invalid_argument", message: "Network is inactive" });
+    } finally {
+      await db.exec`UPDATE networks SET is_active = true WHERE id = ${networkId}`;
+    }
+  });
+});
@@ -0,0 +1,282 @@
+import { APIError, api } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { AbiCoder, Interface } from "ethers";
+import { z } from "zod";
+import { callerProjectId } from "../auth/tenancy";
+import { getRpcClient } from "../chain/clients";
+import { RpcClient, TransactionReceipt } from "../chain/rpc";
+import { AbiValidationError, ParsedAbi, parseAbi } from "../chain/abi";
+import { indexContractAbi } from "../chain/abi_index";
+import { recordContractVersion } from "../chain/contract_versions";
+import type { SmartContract } from "../blockchain/smart_contracts";
+import {
+  TransactionFees,
+  loadCustodialWallet,
+  padGasLimit,
+  parseWei,
+  rpcFailure,
+  sendFromCustodialWallet,
+  suggestFees,
+} from "./tx_builder";
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const DEPLOY_PATH = "/wallet/:address/deployments";
+
+// How long a deploy request waits for the creation transaction to be mined.
+const RECEIPT_TIMEOUT_MS = 120_000;
+const RECEIPT_POLL_INTERVAL_MS = 2_000;
+
+// --- Type Definitions ---
+
+const DeployContractSchema = z.object({
+  name: z.string().min(3).max(128),
+  networkId: z.number().int().positive(),
+  abi: z.string().min(2),
+  // Creation (init) bytecode as produced by the compiler.
+  bytecode: z.string().regex(/^0x([0-9a-fA-F]{2})+$/, "Bytecode must be non-empty hex"),
+  // ABI-encoded constructor arguments, appended to the bytecode.
+  constructorArgs: z.string().regex(/^0x([0-9a-fA-F]{2})*$/, "Constructor arguments must be hex").optional(),
+  value: z.string().optional(),
+  version: z.string().optional().default("1.0.0"),
+  contractType: z.string().min(1).max(64),
+});
+
+export type DeployContractRequest = { address: string } & z.input<typeof DeployContractSchema>;
+
+export interface DeployContractResponse {
+  contract: SmartContract;
+  transactionId: number;
+  hash: string;
+  blockNumber: number;
+  gasUsed: string;
+}
+
+interface DeployNetwork {
+  id: number;
+  chainId: number;
+  supportsEip1559: boolean;
+  isActive: boolean;
+}
+
+// --- Helper Functions ---
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function parseDeployAbi(json: string): ParsedAbi {
+  try {
+    return parseAbi(json);
+  } catch (err) {
+    if (err instanceof AbiValidationError) {
+      throw APIError.invalidArgument(err.message);
+    }
+    throw err;
+  }
+}
+
+// Decoding the arguments against the constructor inputs catches encodings for the wrong constructor.
+function checkConstructorArgs(abiJson: string, args: string) {
+  const inputs = new Interface(abiJson).deploy.inputs;
+  if (inputs.length === 0) {
+    if (args !== "0x") {
+      throw APIError.invalidArgument("The ABI's constructor takes no arguments");
+    }
+    return;
+  }
+  try {
+    const decoded = AbiCoder.defaultAbiCoder().decode(inputs, args);
+    // Re-encoding must reproduce the input exactly, otherwise there is trailing or malformed data.
+    if (AbiCoder.defaultAbiCoder().encode(inputs, decoded).toLowerCase() !== args.toLowerCase()) {
+      throw new Error("unexpected trailing data");
+    }
+  } catch (err) {
+    const signature = `constructor(${inputs.map((input) => input.format("sighash")).join(",")})`;
+    throw APIError.invalidArgument(`Constructor arguments do not match ${signature}: ${(err as Error).message}`);
+  }
+}
+
+async function loadDeployNetwork(networkId: number): Promise<DeployNetwork> {
+  const network = await walletDB.queryRow<DeployNetwork>`
+    SELECT
+      id,
+      chain_id as "chainId",
+      supports_eip1559 as "supportsEip1559",
+      is_active as "isActive"
+    FROM networks
+    WHERE id = ${networkId} AND project_id = ${callerProjectId()}
+  `;
+  if (!network) {
+    throw APIError.notFound("Network not found");
+  }
+  if (!network.isActive) {
+    throw APIError.invalidArgument("Network is inactive");
+  }
+  return network;
+}
+
+async function waitForReceipt(client: RpcClient, hash: string): Promise<TransactionReceipt | null> {
+  const deadline = Date.now() + RECEIPT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const receipt = await client.getTransactionReceipt(hash).catch(() => null);
+    if (receipt) return receipt;
+    await sleep(RECEIPT_POLL_INTERVAL_MS);
+  }
+  return null;
+}
+
+async function markDeployFailed(transactionId: number, receipt: TransactionReceipt | null, message: string) {
+  await walletDB.exec`
+    UPDATE transactions
+    SET
+      status = 'failed',
+      block_number = ${receipt?.blockNumber ?? null},
+      block_hash = ${receipt?.blockHash ?? null},
+      transaction_index = ${receipt?.transactionIndex ?? null},
+      gas_used = ${receipt?.gasUsed ?? null},
+      error_message = ${message},
+      confirmed_at = ${receipt ? new Date() : null}
+    WHERE id = ${transactionId}
+  `;
+}
+
+// --- API Endpoints ---
+
+// Deploy a contract from a custodial wallet, wait for it to be mined and register it
+export const deployContract = api<DeployContractRequest, DeployContractResponse>(
+  { expose: true, auth: true, method: "POST", path: DEPLOY_PATH, tags: ["scope:contracts:write", "scope:wallets:sign"] },
+  async ({ address, ...body }) => {
+    const parsed = DeployContractSchema.safeParse(body);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const input = parsed.data;
+    const abi = parseDeployAbi(input.abi);
+    const constructorArgs = input.constructorArgs ?? "0x";
+    checkConstructorArgs(input.abi, constructorArgs);
+    const value = parseWei(input.value ?? "0");
+    if (value > BigInt(0) && !abi.payableConstructor) {
+      throw APIError.invalidArgument("The constructor is not payable");
+    }
+
+    const wallet = await loadCustodialWallet(address);
+    const network = await loadDeployNetwork(input.networkId);
+    const client = await getRpcClient(network.id);
+    const data = input.bytecode + constructorArgs.slice(2);
+
+    let estimate: bigint;
+    try {
+      estimate = await client.estimateGas({ from: wallet.address, data, value });
+    } catch (err) {
+      throw rpcFailure(err, "Gas estimation");
+    }
+    let fees: TransactionFees;
+    try {
+      fees = await suggestFees(client, network.supportsEip1559);
+    } catch (err) {
+      throw APIError.unavailable(`Fetching fees failed: ${(err as Error).message}`);
+    }
+    const gasLimit = padGasLimit(estimate);
+
+    // The wallet's lock is held until the broadcast returns, not while waiting for the receipt.
+    const { hash, transactionId, contractAddress: expectedAddress } = await sendFromCustodialWallet(
+      client,
+      wallet,
+      network.id,
+      { chainId: network.chainId, data, value, gasLimit, fees }
+    );
+
+    const receipt = await waitForReceipt(client, hash);
+    if (!receipt) {
+      throw APIError.deadlineExceeded(
+        `Deployment ${hash} was not mined within ${RECEIPT_TIMEOUT_MS / 1000}s; it is recorded as pending transaction ${transactionId}`
+      );
+    }
+    if (receipt.status === "reverted") {
+      await markDeployFailed(transactionId, receipt, "Contract creation reverted");
+      throw APIError.failedPrecondition(`Deployment ${hash} reverted in block ${receipt.blockNumber}`);
+    }
+    if (receipt.contractAddress && receipt.contractAddress.toLowerCase() !== expectedAddress.toLowerCase()) {
+      const message = `Receipt reports contract address ${receipt.contractAddress}, expected ${expectedAddress}`;
+      await markDeployFailed(transactionId, receipt, message);
+      throw APIError.unavailable(message);
+    }
+
+    let block;
+    let code: string;
+    try {
+      [block, code] = await Promise.all([
+        client.getBlock(receipt.blockNumber),
+        client.getCode(expectedAddress, receipt.blockNumber),
+      ]);
+    } catch (err) {
+      throw APIError.unavailable(`Deployment ${hash} was mined but could not be verified: ${(err as Error).message}`);
+    }
+    if (code === "0x") {
+      await markDeployFailed(transactionId, receipt, `No code at ${expectedAddress} after deployment`);
+      throw APIError.failedPrecondition(`Deployment ${hash} left no code at ${expectedAddress}`);
+    }
+    const deployedAt = block ? new Date(block.timestamp * 1000) : new Date();
+
+    const tx = await walletDB.begin();
+    let contract: SmartContract | null;
+    try {
+      await tx.exec`
+        UPDATE transactions
+        SET
+          status = 'confirmed',
+          block_number = ${receipt.blockNumber},
+          block_hash = ${receipt.blockHash},
+          transaction_index = ${receipt.transactionIndex},
+          gas_used = ${receipt.gasUsed},
+          contract_address = ${expectedAddress},
+          confirmed_at = ${deployedAt}
+        WHERE id = ${transactionId}
+      `;
+      contract = await tx.queryRow<SmartContract>`
+        INSERT INTO smart_contracts (
+          name, address, network_id, abi, bytecode, version, contract_type, deployed_at, deployed_by, project_id
+        )
+        VALUES (
+          ${input.name},
+          ${expectedAddress},
+          ${network.id},
+          ${input.abi},
+          ${input.bytecode},
+          ${input.version},
+          ${input.contractType},
+          ${deployedAt},
+          ${wallet.address},
+          ${callerProjectId()}
+        )
+        RETURNING
+          id,
+          name,
+          address,
+          network_id as "networkId",
+          abi,
+          bytecode,
+          version,
+          contract_type as "contractType",
+          is_verified as "isVerified",
+          deployed_at as "deployedAt",
+          deployed_by as "deployedBy",
+          created_at as "createdAt"
+      `;
+      await recordContractVersion(tx, contract!.id, "deploy", wallet.address);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    await indexContractAbi(contract!.id, abi);
+
+    return {
+      contract: contract!,
+      transactionId,
+      hash,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+    };
+  }
+);
@@ -0,0 +1,81 @@
+import { HDNodeWallet, Mnemonic } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { decryptPrivateKey } from "./custody";
+import { createHdSeed, deriveNextHdWallet, listHdSeeds } from "./hd_wallets";
+
+const db = SQLDatabase.named("blockchain");
+
+// Callers are the addresses they signed in with.
+function actAs(user: string) {
+  setAuthData(signedIn(`0x${user.padStart(40, "0")}`));
+}
+
+async function mnemonicOf(seedId: number): Promise<Mnemonic> {
+  const row = await db.queryRow<{ sealed: string }>`SELECT encrypted_mnemonic as sealed FROM hd_seeds WHERE id = ${seedId}`;
+  return Mnemonic.fromPhrase(await decryptPrivateKey(row!.sealed));
+}
+
+beforeAll(() => {
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+describe("HD wallets", () => {
+  it("derives consecutive accounts of a sealed mnemonic", async () => {
+    actAs("a11ce");
+    const { seed, wallet } = await createHdSeed({ label: "Main", wordCount: 24 });
+    const next = await deriveNextHdWallet({ seedId: seed.id });
+
+    const mnemonic = await mnemonicOf(seed.id);
+    expect(mnemonic.phrase.split(" ")).toHaveLength(24);
+    expect(seed).toMatchObject({ label: "Main", wordCount: 24, fingerprint: HDNodeWallet.fromMnemonic(mnemonic, "m").fingerprint });
+    expect(wallet).toMatchObject({
+      address: HDNodeWallet.fromMnemonic(mnemonic, "m/44'/60'/0'/0/0").address,
+      isCustodial: true,
+      hdSeedId: seed.id,
+      derivationPath: "m/44'/60'/0'/0/0",
+      accountIndex: 0,
+    });
+    expect(next.wallet).toMatchObject({
+      address: HDNodeWallet.fromMnemonic(mnemonic, "m/44'/60'/0'/0/1").address,
+      accountIndex: 1,
+    });
+    expect(next.seed).toMatchObject({ nextIndex: 2, walletCount: 2 });
+  });
+
+  it("derives at the account level when the template says so", async () => {
+    actAs("b0b");
+    const { wallet } = await createHdSeed({ pathTemplate: "m/44'/60'/{index}'/0/0" });
+
+    expect(wallet.derivationPath).toBe("m/44'/60'/0'/0/0");
+  });
+
+  it("creates a seed on first derivation and uses the oldest one afterwards", async () => {
+    actAs("ca201");
+    const first = await deriveNextHdWallet({});
+    await createHdSeed({});
+    const second = await deriveNextHdWallet({});
+
+    expect(second.seed.id).toBe(first.seed.id);
+    expect(second.wallet.accountIndex).toBe(1);
+    expect((await listHdSeeds()).seeds.map((seed) => seed.walletCount)).toEqual([2, 1]);
+  });
+
+  it("rejects malformed path templates and other users' seeds", async () => {
+    actAs("da7e");
+    for (const pathTemplate of ["m/44'/60'/0'/0", "m/49'/60'/0'/0/{index}", "m/44'/60'/0/0/{index}", "m/44'/60'/{index}/0/0"]) {
+      await expect(createHdSeed({ pathTemplate })).rejects.toMatchObject({ code: "invalid_argument" });
+    }
+    const { seed } = await createHdSeed({});
+
+    actAs("e217");
+    await expect(deriveNextHdWallet({ seedId: seed.id })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
@@ -0,0 +1,299 @@
+import { APIError, api } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { HDNodeWallet, Mnemonic, getAddress, randomBytes } from "ethers";
+import { z } from "zod";
+import { getAuthData } from "~encore/auth";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+import { decryptPrivateKey, encryptPrivateKey } from "./custody";
+import type { Wallet } from "./wallet";
+
+// Custodial wallets generated by the platform: each seed is a BIP-39 mnemonic
+// from which accounts are derived on a BIP-44 path, one wallet per account index.
+// The mnemonic and the derived keys are sealed like any other custodial key.
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const HD_SEEDS_PATH = "/wallet/wallets/hd-seeds";
+const HD_DERIVE_NEXT_PATH = "/wallet/wallets/hd-next";
+
+const DEFAULT_PATH_TEMPLATE = "m/44'/60'/0'/0/{index}";
+// Entropy size per mnemonic length (BIP-39: 32 bits of entropy per 3 words).
+const ENTROPY_BYTES: Record<number, number> = { 12: 16, 15: 20, 18: 24, 21: 28, 24: 32 };
+// Largest non-hardened BIP-32 child index.
+const MAX_ACCOUNT_INDEX = 0x7fffffff;
+
+// --- Type Definitions ---
+
+const CreateHdSeedSchema = z.object({
+  label: z.string().max(128).optional(),
+  wordCount: z.union([z.literal(12), z.literal(15), z.literal(18), z.literal(21), z.literal(24)]).optional().default(12),
+  // BIP-44 path with an {index} placeholder, either at the account or the address index level.
+  pathTemplate: z.string().optional().default(DEFAULT_PATH_TEMPLATE),
+});
+
+export type CreateHdSeedRequest = z.input<typeof CreateHdSeedSchema>;
+
+export interface DeriveNextWalletRequest {
+  // Seed to derive from; defaults to the user's oldest seed, which is created when missing.
+  seedId?: number;
+}
+
+export interface HdSeed {
+  id: number;
+  userId: string;
+  label?: string;
+  wordCount: number;
+  pathTemplate: string;
+  fingerprint: string;
+  nextIndex: number;
+  walletCount: number;
+  createdAt: Date;
+}
+
+export interface HdWalletResponse {
+  seed: HdSeed;
+  wallet: Wallet;
+}
+
+export interface ListHdSeedsResponse {
+  seeds: HdSeed[];
+}
+
+interface SealedSeed {
+  id: number;
+  encryptedMnemonic: string;
+  pathTemplate: string;
+  index: number;
+}
+
+const SEED_FIELDS = `
+  s.id,
+  s.user_id as "userId",
+  s.label,
+  s.word_count as "wordCount",
+  s.path_template as "pathTemplate",
+  s.fingerprint,
+  s.next_index as "nextIndex",
+  (SELECT COUNT(*)::int FROM wallets w WHERE w.hd_seed_id = s.id) as "walletCount",
+  s.created_at as "createdAt"
+`;
+
+// --- Helper Functions ---
+
+// A BIP-44 path m/purpose'/coin_type'/account'/change/address_index where exactly
+// one of account or address_index is the {index} placeholder.
+function validatePathTemplate(template: string): string | null {
+  const segments = template.split("/");
+  if (segments.length !== 6 || segments[0] !== "m") {
+    return "Path must have the form m/44'/coin_type'/account'/change/address_index";
+  }
+  if (segments[1] !== "44'") {
+    return "Path purpose must be 44'";
+  }
+  const placeholders = segments.filter((segment) => segment.startsWith("{index}"));
+  if (placeholders.length !== 1 || !(segments[3] === "{index}'" || segments[5] === "{index}")) {
+    return "Path must contain one {index} placeholder, at the account (hardened) or address index level";
+  }
+  for (const [position, segment] of segments.slice(2).entries()) {
+    if (segment.startsWith("{index}")) continue;
+    const match = /^(\d+)(')?$/.exec(segment);
+    if (!match || Number(match[1]) > MAX_ACCOUNT_INDEX) {
+      return `Invalid path segment "${segment}"`;
+    }
+    // coin_type and account are hardened, change and address_index are not.
+    if ((match[2] === "'") !== position < 2) {
+      return `Path segment "${segment}" has the wrong hardening`;
+    }
+  }
+  return null;
+}
+
+function derivationPath(template: string, index: number): string {
+  return template.replace("{index}", String(index));
+}
+
+function deriveAccount(mnemonic: Mnemonic, template: string, index: number) {
+  const path = derivationPath(template, index);
+  const node = HDNodeWallet.fromMnemonic(mnemonic, path);
+  return {
+    path,
+    address: getAddress(node.address),
+    publicKey: node.publicKey,
+    privateKey: node.privateKey,
+  };
+}
+
+async function loadSeed(id: number): Promise<HdSeed> {
+  const seed = await walletDB.rawQueryRow<HdSeed>(`SELECT ${SEED_FIELDS} FROM hd_seeds s WHERE s.id = $1`, id);
+  if (!seed) {
+    throw APIError.notFound("HD seed not found");
+  }
+  return seed;
+}
+
+async function insertSeed(db: SQLDatabase | Transaction, userId: string, req: z.output<typeof CreateHdSeedSchema>): Promise<number> {
+  const mnemonic = Mnemonic.fromEntropy(randomBytes(ENTROPY_BYTES[req.wordCount]));
+  const root = HDNodeWallet.fromMnemonic(mnemonic, "m");
+  const encryptedMnemonic = await encryptPrivateKey(mnemonic.phrase);
+  const seed = await db.queryRow<{ id: number }>`
+    INSERT INTO hd_seeds (user_id, project_id, label, encrypted_mnemonic, word_count, path_template, fingerprint)
+    VALUES (
+      ${userId},
+      ${callerProjectId()},
+      ${req.label ?? null},
+      ${encryptedMnemonic},
+      ${req.wordCount},
+      ${req.pathTemplate},
+      ${root.fingerprint}
+    )
+    RETURNING id
+  `;
+  return seed!.id;
+}
+
+// Reserves the seed's next account index, derives it and stores it as a custodial wallet.
+async function deriveNextWallet(tx: Transaction, seedId: number, userId: string): Promise<Wallet> {
+  const seed = await tx.queryRow<SealedSeed>`
+    UPDATE hd_seeds
+    SET next_index = next_index + 1
+    WHERE id = ${seedId} AND user_id = ${userId} AND project_id = ${callerProjectId()}
+    RETURNING
+      id,
+      encrypted_mnemonic as "encryptedMnemonic",
+      path_template as "pathTemplate",
+      next_index - 1 as "index"
+  `;
+  if (!seed) {
+    throw APIError.notFound("HD seed not found");
+  }
+  if (seed.index > MAX_ACCOUNT_INDEX) {
+    throw APIError.failedPrecondition("HD seed has no account indexes left");
+  }
+
+  const phrase = await decryptPrivateKey(seed.encryptedMnemonic);
+  const account = deriveAccount(Mnemonic.fromPhrase(phrase), seed.pathTemplate, seed.index);
+  const encryptedPrivateKey = await encryptPrivateKey(account.privateKey);
+  const existing = await tx.queryRow<{ id: number }>`
+    SELECT id FROM wallets WHERE LOWER(address) = LOWER(${account.address}) AND project_id = ${callerProjectId()}
+  `;
+  if (existing) {
+    throw APIError.alreadyExists(`Derived address ${account.address} is already registered as wallet ${existing.id}`);
+  }
+
+  const wallet = await tx.queryRow<Wallet>`
+    INSERT INTO wallets (
+      address,
+      user_id,
+      wallet_type,
+      is_custodial,
+      encrypted_private_key,
+      public_key,
+      hd_seed_id,
+      derivation_path,
+      account_index,
+      project_id
+    )
+    VALUES (
+      ${account.address},
+      ${userId},
+      'EOA',
+      true,
+      ${encryptedPrivateKey},
+      ${account.publicKey},
+      ${seed.id},
+      ${account.path},
+      ${seed.index},
+      ${callerProjectId()}
+    )
+    RETURNING
+      id,
+      address,
+      user_id as "userId",
+      wallet_type as "walletType",
+      is_custodial as "isCustodial",
+      public_key as "publicKey",
+      hd_seed_id as "hdSeedId",
+      derivation_path as "derivationPath",
+      account_index as "accountIndex",
+      created_at as "createdAt",
+      last_used_at as "lastUsedAt"
+  `;
+  return wallet!;
+}
+
+// --- API Endpoints ---
+
+// List the caller's HD seeds
+export const listHdSeeds = api<void, ListHdSeedsResponse>(
+  { expose: true, auth: true, method: "GET", path: HD_SEEDS_PATH, tags: ["scope:wallets:read"] },
+  async () => {
+    const userId = getAuthData()!.userID;
+    const seeds = await walletDB.rawQueryAll<HdSeed>(
+      `SELECT ${SEED_FIELDS} FROM hd_seeds s WHERE s.user_id = $1 AND s.project_id = $2 ORDER BY s.created_at, s.id`,
+      userId,
+      callerProjectId()
+    );
+    return { seeds };
+  }
+);
+
+// Generate a new mnemonic and derive its first custodial wallet
+export const createHdSeed = api<CreateHdSeedRequest, HdWalletResponse>(
+  { expose: true, auth: true, method: "POST", path: HD_SEEDS_PATH, tags: ["scope:wallets:write", "audit:wallet.create_hd_seed"] },
+  async (req) => {
+    const userId = getAuthData()!.userID;
+    const parsed = CreateHdSeedSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const pathError = validatePathTemplate(parsed.data.pathTemplate);
+    if (pathError) {
+      throw APIError.invalidArgument(pathError);
+    }
+
+    const tx = await walletDB.begin();
+    let seedId: number;
+    let wallet: Wallet;
+    try {
+      seedId = await insertSeed(tx, userId, parsed.data);
+      wallet = await deriveNextWallet(tx, seedId, userId);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    auditTarget("hd_seed", seedId);
+    auditChange(null, { firstWallet: wallet.address, pathTemplate: parsed.data.pathTemplate });
+    return { seed: await loadSeed(seedId), wallet };
+  }
+);
+
+// Derive the next account of one of the caller's seeds as a new custodial wallet
+export const deriveNextHdWallet = api<DeriveNextWalletRequest, HdWalletResponse>(
+  { expose: true, auth: true, method: "POST", path: HD_DERIVE_NEXT_PATH, tags: ["scope:wallets:write"] },
+  async ({ seedId }) => {
+    const userId = getAuthData()!.userID;
+
+    const tx = await walletDB.begin();
+    let wallet: Wallet;
+    try {
+      let targetSeedId = seedId;
+      if (targetSeedId === undefined) {
+        const oldest = await tx.queryRow<{ id: number }>`
+          SELECT id FROM hd_seeds
+          WHERE user_id = ${userId} AND project_id = ${callerProjectId()}
+          ORDER BY created_at, id LIMIT 1
+        `;
+        targetSeedId = oldest?.id ?? (await insertSeed(tx, userId, CreateHdSeedSchema.parse({})));
+      }
+      wallet = await deriveNextWallet(tx, targetSeedId, userId);
+      await tx.commit();
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+    return { seed: await loadSeed(wallet.hdSeedId!), wallet };
+  }
+);
@@ -0,0 +1,96 @@
+import { createCipheriv, randomBytes } from "node:crypto";
+import { Wallet as Signer } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROJECT_ID } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { decryptPrivateKey, encryptPrivateKey } from "./custody";
+import { getMasterKeyStatus, rotateMasterKey } from "./key_rotation";
+
+const db = SQLDatabase.named("blockchain");
+
+const OLD_KEY = "11".repeat(32);
+const NEW_KEY = "22".repeat(32);
+
+// A v2 payload sealed under a master key the provider may not know about.
+function sealUnder(keyId: string, masterKeyHex: string, secret: string): string {
+  const seal = (key: Buffer, plaintext: Buffer) => {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext];
+  };
+  const dataKey = randomBytes(32);
+  const parts = [...seal(Buffer.from(masterKeyHex, "hex"), dataKey), ...seal(dataKey, Buffer.from(secret, "utf8"))];
+  return ["v2", keyId, ...parts.map((part) => part.toString("base64"))].join(".");
+}
+
+async function wallet(payload: string): Promise<number> {
+  const row = await db.queryRow<{ id: number }>`
+    INSERT INTO wallets (address, user_id, is_custodial, encrypted_private_key, project_id)
+    VALUES (${Signer.createRandom().address}, 'user-1', true, ${payload}, ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  return row!.id;
+}
+
+async function payloadOf(id: number): Promise<string> {
+  const row = await db.queryRow<{ payload: string }>`SELECT encrypted_private_key as payload FROM wallets WHERE id = ${id}`;
+  return row!.payload;
+}
+
+beforeAll(() => {
+  vi.stubEnv("WalletEncryptionKey", `new:${NEW_KEY},old:${OLD_KEY}`);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+describe("master key rotation", () => {
+  const signer = Signer.createRandom();
+
+  it("re-wraps stale keys in batches and reports keys it cannot unwrap", async () => {
+    const stale = [
+      await wallet(sealUnder("old", OLD_KEY, signer.privateKey)),
+      await wallet(sealUnder("old", OLD_KEY, signer.privateKey)),
+    ];
+    const current = await wallet(await encryptPrivateKey(signer.privateKey));
+    const lost = await wallet(sealUnder("gone", "33".repeat(32), signer.privateKey));
+    await wallet("not a sealed key");
+    const untouched = await payloadOf(current);
+
+    expect(await getMasterKeyStatus()).toEqual({
+      provider: "secret",
+      currentKeyId: "new",
+      usage: [
+        { keyId: "new", wallets: 1, hdSeeds: 0 },
+        { keyId: "old", wallets: 2, hdSeeds: 0 },
+        { keyId: "gone", wallets: 1, hdSeeds: 0 },
+      ],
+      unreadable: 1,
+    });
+
+    const first = await rotateMasterKey({ batchSize: 2 });
+    expect(first).toMatchObject({ currentKeyId: "new", rewrapped: { wallets: 2, hdSeeds: 0 }, failures: [], remaining: 1 });
+
+    const second = await rotateMasterKey({ batchSize: 2 });
+    expect(second).toMatchObject({
+      rewrapped: { wallets: 0, hdSeeds: 0 },
+      failures: [{ kind: "wallet", id: lost, error: expect.stringContaining('Master key "gone"') }],
+      remaining: 1,
+    });
+
+    for (const id of stale) {
+      const payload = await payloadOf(id);
+      expect(payload.split(".").slice(0, 2)).toEqual(["v2", "new"]);
+      await expect(decryptPrivateKey(payload)).resolves.toBe(signer.privateKey);
+    }
+    expect(await payloadOf(current)).toBe(untouched);
+  });
+
+  it("validates the batch size", async () => {
+    await expect(rotateMasterKey({ batchSize: 0 })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(rotateMasterKey({ batchSize: 1001 })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+});
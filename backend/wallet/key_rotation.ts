@@ -0,0 +1,170 @@
+import { APIError, api } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { CustodialKeyError, rewrapPrivateKey, sealingKeyIdSql } from "./custody";
+import { masterKeyProvider } from "./kms";
+import { auditChange, auditTarget } from "../audit/trail";
+
+// Master key rotation: after a new master key becomes current in the key ring,
+// stored data keys are re-wrapped under it. Sealed private keys and mnemonics are
+// not decrypted (legacy v1 payloads excepted) and nothing secret is returned.
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const MASTER_KEYS_PATH = "/wallet/master-keys";
+const MASTER_KEYS_ROTATE_PATH = "/wallet/master-keys/rotate";
+
+const DEFAULT_BATCH_SIZE = 100;
+const MAX_BATCH_SIZE = 1000;
+
+// --- Type Definitions ---
+
+// Stored sealed secrets, by the table and column holding them.
+const SEALED_COLUMNS = [
+  { kind: "wallet", table: "wallets", column: "encrypted_private_key" },
+  { kind: "hdSeed", table: "hd_seeds", column: "encrypted_mnemonic" },
+] as const;
+
+type SealedKind = (typeof SEALED_COLUMNS)[number]["kind"];
+
+export interface MasterKeyUsage {
+  keyId: string;
+  wallets: number;
+  hdSeeds: number;
+}
+
+export interface MasterKeyStatusResponse {
+  provider: string;
+  currentKeyId: string;
+  usage: MasterKeyUsage[];
+  // Payloads that are not in a recognized sealed format.
+  unreadable: number;
+}
+
+export interface RotateMasterKeyRequest {
+  // Maximum rows re-wrapped per table in this call; call again until remaining is 0.
+  batchSize?: number;
+}
+
+export interface RotationFailure {
+  kind: SealedKind;
+  id: number;
+  error: string;
+}
+
+export interface RotateMasterKeyResponse {
+  currentKeyId: string;
+  rewrapped: { wallets: number; hdSeeds: number };
+  failures: RotationFailure[];
+  // Rows still sealed under another master key.
+  remaining: number;
+}
+
+interface SealedRow {
+  id: number;
+  payload: string;
+}
+
+interface KeyIdCount {
+  keyId: string | null;
+  count: number;
+}
+
+// --- Helper Functions ---
+
+function currentKeyId(): string {
+  try {
+    return masterKeyProvider().currentKeyId();
+  } catch (err) {
+    throw APIError.internal(`Master key provider unavailable: ${(err as Error).message}`);
+  }
+}
+
+// Sealed payloads per master key id; unrecognized payloads are counted under null.
+async function keyIdCounts(table: string, column: string): Promise<KeyIdCount[]> {
+  return walletDB.rawQueryAll<KeyIdCount>(
+    `SELECT ${sealingKeyIdSql(column)} as "keyId", COUNT(*)::int as count
+     FROM ${table} WHERE ${column} IS NOT NULL GROUP BY 1`
+  );
+}
+
+// Rows sealed under a master key other than keyId, oldest first.
+async function staleRows(table: string, column: string, keyId: string, limit: number): Promise<SealedRow[]> {
+  return walletDB.rawQueryAll<SealedRow>(
+    `SELECT id, ${column} as payload FROM ${table} WHERE ${sealingKeyIdSql(column)} <> $1 ORDER BY id LIMIT $2`,
+    keyId,
+    limit
+  );
+}
+
+async function countStaleRows(table: string, column: string, keyId: string): Promise<number> {
+  const row = await walletDB.rawQueryRow<{ count: number }>(
+    `SELECT COUNT(*)::int as count FROM ${table} WHERE ${sealingKeyIdSql(column)} <> $1`,
+    keyId
+  );
+  return row?.count ?? 0;
+}
+
+// --- API Endpoints ---
+
+// Count sealed keys per master key
+export const getMasterKeyStatus = api<void, MasterKeyStatusResponse>(
+  { expose: true, auth: true, method: "GET", path: MASTER_KEYS_PATH, tags: ["scope:custody:read"] },
+  async () => {
+    const current = currentKeyId();
+    const usage = new Map<string, MasterKeyUsage>([[current, { keyId: current, wallets: 0, hdSeeds: 0 }]]);
+    let unreadable = 0;
+    for (const { kind, table, column } of SEALED_COLUMNS) {
+      for (const { keyId, count } of await keyIdCounts(table, column)) {
+        if (keyId === null) {
+          unreadable += count;
+          continue;
+        }
+        const entry = usage.get(keyId) ?? { keyId, wallets: 0, hdSeeds: 0 };
+        entry[kind === "wallet" ? "wallets" : "hdSeeds"] += count;
+        usage.set(keyId, entry);
+      }
+    }
+    return { provider: masterKeyProvider().name, currentKeyId: current, usage: [...usage.values()], unreadable };
+  }
+);
+
+// Re-wrap data keys sealed under older master keys with the current one
+export const rotateMasterKey = api<RotateMasterKeyRequest, RotateMasterKeyResponse>(
+  { expose: true, auth: true, method: "POST", path: MASTER_KEYS_ROTATE_PATH, tags: ["scope:custody:rotate", "audit:custody.rotate_master_key"] },
+  async ({ batchSize = DEFAULT_BATCH_SIZE }) => {
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+      throw APIError.invalidArgument(`batchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`);
+    }
+    const current = currentKeyId();
+    const rewrapped = { wallets: 0, hdSeeds: 0 };
+    const failures: RotationFailure[] = [];
+    let remaining = 0;
+
+    for (const { kind, table, column } of SEALED_COLUMNS) {
+      for (const row of await staleRows(table, column, current, batchSize)) {
+        let payload: string | null;
+        try {
+          payload = await rewrapPrivateKey(row.payload);
+        } catch (err) {
+          if (!(err instanceof CustodialKeyError)) throw err;
+          failures.push({ kind, id: row.id, error: err.message });
+          continue;
+        }
+        if (payload === null) continue;
+        // Compare-and-swap so a concurrent rotation or key import is not overwritten.
+        const updated = await walletDB.rawQueryRow<{ id: number }>(
+          `UPDATE ${table} SET ${column} = $1 WHERE id = $2 AND ${column} = $3 RETURNING id`,
+          payload,
+          row.id,
+          row.payload
+        );
+        if (updated) rewrapped[kind === "wallet" ? "wallets" : "hdSeeds"]++;
+      }
+      remaining += await countStaleRows(table, column, current);
+    }
+    auditTarget("master_key", current);
+    auditChange(null, { rewrapped, failures: failures.length, remaining });
+    return { currentKeyId: current, rewrapped, failures, remaining };
+  }
+);
@@ -0,0 +1,72 @@
+import { Wallet as Signer, encryptKeystoreJson } from "ethers";
+import { describe, expect, it } from "vitest";
+import { KeystoreFormatError, keystoreAddress, validateKeystore } from "./keystore_format";
+
+// Cheap scrypt parameters keep the round-trips fast; the bounds are checked on
+// hand-edited kdfparams, which are validated before anything is decrypted.
+const signer = Signer.createRandom();
+const ethersKeystore = await encryptKeystoreJson({ address: signer.address, privateKey: signer.privateKey }, "correct horse", { scrypt: { N: 2 ** 10 } });
+// ethers writes "Crypto"; the Web3 Secret Storage spec spells it "crypto".
+const { Crypto: crypto, ...fields } = JSON.parse(ethersKeystore);
+const keystore = JSON.stringify({ ...fields, crypto });
+
+function withKdfParams(json: string, kdfparams: Record<string, unknown>, kdf?: string): string {
+  const data = JSON.parse(json);
+  data.crypto.kdfparams = { ...data.crypto.kdfparams, ...kdfparams };
+  if (kdf) data.crypto.kdf = kdf;
+  return JSON.stringify(data);
+}
+
+describe("keystore round-trip", () => {
+  it("accepts a keystore written by ethers and decrypts it to the same key", async () => {
+    expect(validateKeystore(keystore)).toBe("scrypt");
+    expect(keystoreAddress(keystore)).toBe(signer.address);
+
+    const decrypted = await Signer.fromEncryptedJson(keystore, "correct horse");
+    expect(decrypted.privateKey).toBe(signer.privateKey);
+  });
+
+  it("does not decrypt with the wrong password", async () => {
+    await expect(Signer.fromEncryptedJson(keystore, "wrong horse")).rejects.toThrow();
+  });
+
+  it("accepts the capitalized Crypto key written by ethers and older tools", () => {
+    expect(validateKeystore(ethersKeystore)).toBe("scrypt");
+  });
+
+  it("returns null for keystores without an address", () => {
+    const { address: _address, ...rest } = JSON.parse(keystore);
+    expect(keystoreAddress(JSON.stringify(rest))).toBeNull();
+  });
+});
+
+describe("keystore format bounds", () => {
+  it("accepts geth's standard scrypt parameters", () => {
+    expect(validateKeystore(withKdfParams(keystore, { n: 2 ** 18, r: 8, p: 1 }))).toBe("scrypt");
+  });
+
+  it.each([
+    ["N beyond the memory bound", { n: 2 ** 19, r: 8, p: 1 }],
+    ["r beyond the memory bound", { n: 2 ** 14, r: 2 ** 10, p: 1 }],
+    ["p beyond the parallelization bound", { n: 2 ** 10, r: 8, p: 16 }],
+    ["non-numeric parameters", { n: "lots", r: 8, p: 1 }],
+  ])("rejects scrypt with %s", (_case, kdfparams) => {
+    expect(() => validateKeystore(withKdfParams(keystore, kdfparams))).toThrow(KeystoreFormatError);
+  });
+
+  it("bounds pbkdf2 iterations and requires hmac-sha256", () => {
+    const pbkdf2 = (kdfparams: Record<string, unknown>) => withKdfParams(keystore, kdfparams, "pbkdf2");
+
+    expect(validateKeystore(pbkdf2({ c: 262_144, prf: "hmac-sha256" }))).toBe("pbkdf2");
+    expect(() => validateKeystore(pbkdf2({ c: 100_000_000, prf: "hmac-sha256" }))).toThrow(KeystoreFormatError);
+    expect(() => validateKeystore(pbkdf2({ c: 262_144, prf: "hmac-sha512" }))).toThrow(KeystoreFormatError);
+  });
+
+  it("rejects files that are not version 3 keystores", () => {
+    expect(() => validateKeystore("not json")).toThrow(KeystoreFormatError);
+    expect(() => validateKeystore(JSON.stringify({ ...JSON.parse(keystore), version: 1 }))).toThrow(KeystoreFormatError);
+    expect(() => keystoreAddress(JSON.stringify({ ...JSON.parse(keystore), address: "0x1234" }))).toThrow(
+      KeystoreFormatError
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { getAddress } from "ethers";
+import { z } from "zod";
+
+// Checks on Web3 Secret Storage (V3 keystore) files before they are decrypted:
+// the format, and the KDF work a keystore may ask the server to do.
+
+// Upper bounds on the KDF work a keystore may ask for. scrypt needs 128*N*r bytes of
+// memory, so that is bounded directly; geth's "standard" N=2^18, r=8, p=1 is at the limit.
+export const MAX_SCRYPT_MEMORY_BYTES = 256 * 1024 * 1024;
+export const MAX_SCRYPT_P = 8;
+export const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+export type KeystoreKdf = "scrypt" | "pbkdf2";
+
+export class KeystoreFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeystoreFormatError";
+  }
+}
+
+const KeystoreSchema = z
+  .object({
+    version: z.literal(3),
+    address: z.string().optional(),
+    crypto: z
+      .object({
+        cipher: z.literal("aes-128-ctr"),
+        kdf: z.enum(["scrypt", "pbkdf2"]),
+        kdfparams: z.record(z.unknown()),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+// Returns the keystore's KDF after checking its format and cost parameters.
+export function validateKeystore(json: string): KeystoreKdf {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new KeystoreFormatError("Keystore is not valid JSON");
+  }
+  // Some tools (older geth, MyEtherWallet) write "Crypto" instead of "crypto".
+  if (data && typeof data === "object" && !("crypto" in data) && "Crypto" in data) {
+    data = { ...data, crypto: (data as { Crypto: unknown }).Crypto };
+  }
+  const parsed = KeystoreSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new KeystoreFormatError("Not a version 3 keystore with an aes-128-ctr cipher and a scrypt or pbkdf2 KDF");
+  }
+  const { kdf, kdfparams } = parsed.data.crypto;
+  const param = (name: string) => Number(kdfparams[name]);
+  if (kdf === "scrypt") {
+    if (!(128 * param("n") * param("r") <= MAX_SCRYPT_MEMORY_BYTES)) {
+      throw new KeystoreFormatError(`Keystore scrypt parameters need more than ${MAX_SCRYPT_MEMORY_BYTES / 2 ** 20} MiB (128*N*r)`);
+    }
+    if (!(param("p") <= MAX_SCRYPT_P)) {
+      throw new KeystoreFormatError(`Keystore scrypt parallelization exceeds p=${MAX_SCRYPT_P}`);
+    }
+  } else {
+    if (kdfparams.prf !== "hmac-sha256") {
+      throw new KeystoreFormatError("Keystore pbkdf2 must use hmac-sha256");
+    }
+    if (!(param("c") <= MAX_PBKDF2_ITERATIONS)) {
+      throw new KeystoreFormatError(`Keystore pbkdf2 iterations exceed ${MAX_PBKDF2_ITERATIONS}`);
+    }
+  }
+  return kdf;
+}
+
+// The checksummed address a keystore declares, or null when it has none.
+export function keystoreAddress(json: string): string | null {
+  const address = (JSON.parse(json) as { address?: string }).address;
+  if (!address) return null;
+  try {
+    return getAddress(address.startsWith("0x") ? address : `0x${address}`);
+  } catch {
+    throw new KeystoreFormatError("Keystore address is not a valid address");
+  }
+}
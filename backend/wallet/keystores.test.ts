@@ -0,0 +1,57 @@
+import { Wallet as Signer, encryptKeystoreJson } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases } from "../test/encore/sqldb";
+import { exportKeystore, importKeystore } from "./keystores";
+
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+const BOB = signedIn("0x0000000000000000000000000000000000000b0b");
+const signer = Signer.createRandom();
+const keystore = await encryptKeystoreJson(
+  { address: signer.address, privateKey: signer.privateKey },
+  "correct horse",
+  { scrypt: { N: 2 ** 10 } }
+);
+
+beforeAll(() => {
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+describe("keystore import and export", () => {
+  it("imports a keystore as a custodial wallet and exports it under a new password", async () => {
+    setAuthData(ALICE);
+    const wallet = await importKeystore({ keystore, password: "correct horse" });
+    expect(wallet).toMatchObject({ address: signer.address, userId: ALICE.userID, isCustodial: true });
+
+    const exported = await exportKeystore({ address: signer.address.toLowerCase(), password: "battery staple" });
+
+    expect(exported.address).toBe(signer.address);
+    expect((await Signer.fromEncryptedJson(exported.keystore, "battery staple")).privateKey).toBe(signer.privateKey);
+    await expect(importKeystore({ keystore, password: "correct horse" })).rejects.toMatchObject({
+      code: "already_exists",
+    });
+  });
+
+  it("rejects wrong passwords and other users' exports", async () => {
+    setAuthData(BOB);
+    await expect(importKeystore({ keystore, password: "wrong horse" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(importKeystore({ keystore: "{}", password: "correct horse" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+    await expect(exportKeystore({ address: signer.address, password: "battery staple" })).rejects.toMatchObject({
+      code: "not_found",
+    });
+    setAuthData(ALICE);
+    await expect(exportKeystore({ address: signer.address, password: "short" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { Wallet as Signer } from "ethers";
+import { z } from "zod";
+import { getAuthData } from "~encore/auth";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+import { CustodialKeyError, encryptPrivateKey, loadSigner } from "./custody";
+import { KeystoreFormatError, KeystoreKdf, keystoreAddress, validateKeystore } from "./keystore_format";
+import { loadCustodialWallet } from "./tx_builder";
+import type { Wallet } from "./wallet";
+
+// Web3 Secret Storage (V3 keystore) import and export, the format used by geth
+// and MetaMask. Imported keys are re-sealed like any other custodial key; exports
+// are encrypted under a password chosen by the caller. Every attempt is logged.
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const KEYSTORE_IMPORT_PATH = "/wallet/wallets/keystore";
+const KEYSTORE_EXPORT_PATH = "/wallet/:address/keystore";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// --- Type Definitions ---
+
+const ImportKeystoreSchema = z.object({
+  // Keystore file contents, as a JSON string.
+  keystore: z.string().min(2).max(16_384),
+  password: z.string().min(1),
+  walletType: z.string().optional().default("EOA"),
+});
+
+export type ImportKeystoreRequest = z.input<typeof ImportKeystoreSchema>;
+
+export interface ExportKeystoreRequest {
+  address: string;
+  // Password the exported keystore is encrypted under.
+  password: string;
+}
+
+export interface ExportKeystoreResponse {
+  address: string;
+  // Keystore file contents, as a JSON string.
+  keystore: string;
+}
+
+// --- Helper Functions ---
+
+// A malformed keystore, or one asking for too much KDF work, is the caller's error.
+function checkKeystore(json: string): { kdf: KeystoreKdf; declaredAddress: string | null } {
+  try {
+    return { kdf: validateKeystore(json), declaredAddress: keystoreAddress(json) };
+  } catch (err) {
+    if (err instanceof KeystoreFormatError) {
+      throw APIError.invalidArgument(err.message);
+    }
+    throw err;
+  }
+}
+
+// --- API Endpoints ---
+
+// Import a V3 keystore as a custodial wallet
+export const importKeystore = api<ImportKeystoreRequest, Wallet>(
+  { expose: true, auth: true, method: "POST", path: KEYSTORE_IMPORT_PATH, sensitive: true, tags: ["scope:wallets:write", "audit:wallet.import_keystore"] },
+  async (req) => {
+    const userId = getAuthData()!.userID;
+    const parsed = ImportKeystoreSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const { keystore, password, walletType } = parsed.data;
+    const { kdf, declaredAddress } = checkKeystore(keystore);
+    if (declaredAddress) auditTarget("wallet", declaredAddress);
+
+    let signer: Signer;
+    try {
+      const decrypted = await Signer.fromEncryptedJson(keystore, password);
+      signer = new Signer(decrypted.privateKey);
+    } catch {
+      log.warn("wallet keystore import rejected", { userId, address: declaredAddress, kdf, reason: "decryption failed" });
+      throw APIError.invalidArgument("Keystore could not be decrypted; check the password");
+    }
+    if (declaredAddress && signer.address !== declaredAddress) {
+      log.warn("wallet keystore import rejected", { userId, address: declaredAddress, kdf, reason: "address mismatch" });
+      throw APIError.invalidArgument(`Keystore key controls ${signer.address}, not ${declaredAddress}`);
+    }
+
+    const existing = await walletDB.queryRow<{ id: number }>`
+      SELECT id FROM wallets WHERE LOWER(address) = LOWER(${signer.address}) AND project_id = ${callerProjectId()}
+    `;
+    if (existing) {
+      throw APIError.alreadyExists(`Address ${signer.address} is already registered as wallet ${existing.id}`);
+    }
+
+    const wallet = await walletDB.queryRow<Wallet>`
+      INSERT INTO wallets (
+        address,
+        user_id,
+        wallet_type,
+        is_custodial,
+        encrypted_private_key,
+        public_key,
+        project_id
+      )
+      VALUES (
+        ${signer.address},
+        ${userId},
+        ${walletType},
+        true,
+        ${await encryptPrivateKey(signer.privateKey)},
+        ${signer.signingKey.publicKey},
+        ${callerProjectId()}
+      )
+      RETURNING
+        id,
+        address,
+        user_id as "userId",
+        wallet_type as "walletType",
+        is_custodial as "isCustodial",
+        public_key as "publicKey",
+        hd_seed_id as "hdSeedId",
+        derivation_path as "derivationPath",
+        account_index as "accountIndex",
+        created_at as "createdAt",
+        last_used_at as "lastUsedAt"
+    `;
+    log.info("wallet keystore imported", { userId, address: wallet!.address, walletId: wallet!.id, kdf });
+    auditTarget("wallet", wallet!.address);
+    auditChange(null, { walletType: wallet!.walletType, isCustodial: true, kdf });
+    return wallet!;
+  }
+);
+
+// Export a custodial wallet as a V3 keystore encrypted under a new password
+export const exportKeystore = api<ExportKeystoreRequest, ExportKeystoreResponse>(
+  { expose: true, auth: true, method: "POST", path: KEYSTORE_EXPORT_PATH, sensitive: true, tags: ["scope:wallets:export", "audit:wallet.export_keystore"] },
+  async ({ address, password }) => {
+    auditTarget("wallet", address);
+    const userId = getAuthData()!.userID;
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+      throw APIError.invalidArgument(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    const wallet = await loadCustodialWallet(address);
+
+    // loadSigner checks the decrypted key against the wallet address before anything is encrypted.
+    let keystore: string;
+    try {
+      const signer = await loadSigner(wallet.encryptedPrivateKey!, wallet.address);
+      keystore = await signer.encrypt(password);
+    } catch (err) {
+      if (err instanceof CustodialKeyError) {
+        throw APIError.internal(`Cannot export ${wallet.address}: ${err.message}`);
+      }
+      throw err;
+    }
+    log.info("wallet keystore exported", { userId, address: wallet.address, walletId: wallet.id });
+    return { address: wallet.address, keystore };
+  }
+);
@@ -0,0 +1,126 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { secret } from "encore.dev/config";
+
+// Master key providers for envelope encryption of custodial keys. A provider
+// wraps and unwraps per-key data keys; master keys never leave it, so a cloud
+// KMS can implement the same interface with remote wrap/unwrap calls.
+//
+// WalletEncryptionKey selects and configures the provider:
+//   - 64 hex chars: a single master key with id "default";
+//   - "<id>:<hex>,<id>:<hex>,...": a key ring whose first key is current;
+//   - "file:<path>": a local JSON file { "current": "<id>", "keys": { "<id>": "<hex>" } }.
+
+const walletEncryptionKey = secret("WalletEncryptionKey");
+
+export const DEFAULT_MASTER_KEY_ID = "default";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Data key sealed under a master key; iv, tag and ciphertext are AES-256-GCM parts.
+export interface WrappedKey {
+  keyId: string;
+  iv: Buffer;
+  tag: Buffer;
+  ciphertext: Buffer;
+}
+
+export interface MasterKeyProvider {
+  readonly name: string;
+  // Master key used to wrap new data keys.
+  currentKeyId(): string;
+  wrap(dataKey: Buffer): Promise<WrappedKey>;
+  unwrap(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+export class MasterKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MasterKeyError";
+  }
+}
+
+// Master keys held in memory, loaded from the secret or a local key file.
+class KeyRingProvider implements MasterKeyProvider {
+  constructor(
+    readonly name: string,
+    private readonly current: string,
+    private readonly keys: Map<string, Buffer>
+  ) {}
+
+  currentKeyId(): string {
+    return this.current;
+  }
+
+  async wrap(dataKey: Buffer): Promise<WrappedKey> {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.masterKey(this.current), iv);
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return { keyId: this.current, iv, tag: cipher.getAuthTag(), ciphertext };
+  }
+
+  async unwrap(wrapped: WrappedKey): Promise<Buffer> {
+    const decipher = createDecipheriv("aes-256-gcm", this.masterKey(wrapped.keyId), wrapped.iv);
+    decipher.setAuthTag(wrapped.tag);
+    try {
+      return Buffer.concat([decipher.update(wrapped.ciphertext), decipher.final()]);
+    } catch {
+      throw new MasterKeyError(`Data key could not be unwrapped with master key "${wrapped.keyId}"`);
+    }
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new MasterKeyError(`Master key "${keyId}" is not configured in ${this.name}`);
+    }
+    return key;
+  }
+}
+
+function parseMasterKey(keyId: string, hex: string, source: string): [string, Buffer] {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new MasterKeyError(`Invalid master key id "${keyId}" in ${source}`);
+  }
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new MasterKeyError(`Master key "${keyId}" in ${source} must be 32 bytes of hex`);
+  }
+  return [keyId, Buffer.from(hex, "hex")];
+}
+
+function secretKeyRing(value: string): KeyRingProvider {
+  const entries = /^[0-9a-fA-F]{64}$/.test(value)
+    ? [parseMasterKey(DEFAULT_MASTER_KEY_ID, value, "WalletEncryptionKey")]
+    : value.split(",").map((entry) => {
+        const [keyId, hex = ""] = entry.trim().split(":");
+        return parseMasterKey(keyId, hex, "WalletEncryptionKey");
+      });
+  return new KeyRingProvider("secret", entries[0][0], new Map(entries));
+}
+
+function fileKeyRing(path: string): KeyRingProvider {
+  let config: { current?: unknown; keys?: Record<string, unknown> };
+  try {
+    config = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new MasterKeyError(`Cannot read master key file ${path}: ${(err as Error).message}`);
+  }
+  const keys = new Map(
+    Object.entries(config.keys ?? {}).map(([keyId, hex]) => parseMasterKey(keyId, String(hex), path))
+  );
+  if (typeof config.current !== "string" || !keys.has(config.current)) {
+    throw new MasterKeyError(`Master key file ${path} must name one of its keys as "current"`);
+  }
+  return new KeyRingProvider(`file ${path}`, config.current, keys);
+}
+
+let provider: MasterKeyProvider | null = null;
+
+// Loaded once per process; restart the service after changing the key ring.
+export function masterKeyProvider(): MasterKeyProvider {
+  if (!provider) {
+    const value = walletEncryptionKey().trim();
+    provider = value.startsWith("file:") ? fileKeyRing(value.slice("file:".length)) : secretKeyRing(value);
+  }
+  return provider;
+}
@@ -0,0 +1,105 @@
+import { Wallet as Signer, TypedDataEncoder, hashMessage, verifyMessage, verifyTypedData } from "ethers";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROJECT_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { encryptPrivateKey } from "./custody";
+import { signMessage, signTypedData, verifySignature } from "./signing";
+
+const db = SQLDatabase.named("blockchain");
+const signer = Signer.createRandom();
+const ALICE = signedIn("0x00000000000000000000000000000000000a11ce");
+let walletId: number;
+
+const typedData = {
+  domain: { name: "Mail", version: "1", chainId: 1, verifyingContract: "0x00000000000000000000000000000000000000a1" },
+  types: {
+    EIP712Domain: [
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" },
+    ],
+    Person: [{ name: "wallet", type: "address" }],
+    Mail: [{ name: "to", type: "Person" }, { name: "contents", type: "string" }],
+  },
+  primaryType: "Mail",
+  message: { to: { wallet: "0x00000000000000000000000000000000000000b2" }, contents: "hi" },
+};
+const { EIP712Domain: _, ...types } = typedData.types;
+
+beforeAll(async () => {
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+  const wallet = await db.queryRow<{ id: number }>`
+    INSERT INTO wallets (address, user_id, is_custodial, encrypted_private_key, project_id)
+    VALUES (${signer.address}, ${ALICE.userID}, true, ${await encryptPrivateKey(signer.privateKey)}, ${DEFAULT_PROJECT_ID})
+    RETURNING id
+  `;
+  walletId = wallet!.id;
+});
+
+beforeEach(() => {
+  setAuthData(ALICE);
+});
+
+afterAll(async () => {
+  setAuthData(null);
+  vi.unstubAllEnvs();
+  await closeDatabases();
+});
+
+describe("message signing", () => {
+  it("signs personal_sign messages that verify against the wallet address", async () => {
+    const signed = await signMessage({ address: signer.address.toLowerCase(), message: "hello" });
+
+    expect(signed).toMatchObject({ address: signer.address, digest: hashMessage("hello") });
+    expect(verifyMessage("hello", signed.signature)).toBe(signer.address);
+    expect(await verifySignature({ signature: signed.signature, message: "hello", address: signer.address })).toEqual({
+      recoveredAddress: signer.address,
+      matches: true,
+      walletId,
+      isCustodial: true,
+    });
+    expect((await verifySignature({ signature: signed.signature, message: "hello!", address: signer.address })).matches).toBe(false);
+  });
+
+  it("signs the bytes of hex messages", async () => {
+    const signed = await signMessage({ address: signer.address, message: "0xdeadbeef", encoding: "hex" });
+
+    expect(verifyMessage(new Uint8Array([0xde, 0xad, 0xbe, 0xef]), signed.signature)).toBe(signer.address);
+    await expect(signMessage({ address: signer.address, message: "dead", encoding: "hex" })).rejects.toMatchObject({
+      code: "invalid_argument",
+    });
+  });
+
+  it("does not sign with other users' wallets", async () => {
+    setAuthData(signedIn("0x0000000000000000000000000000000000000b0b"));
+    await expect(signMessage({ address: signer.address, message: "hello" })).rejects.toMatchObject({
+      code: "not_found",
+    });
+  });
+});
+
+describe("typed data signing", () => {
+  it("signs EIP-712 typed data that verifies against the wallet address", async () => {
+    const signed = await signTypedData({ address: signer.address, typedData });
+
+    expect(signed.digest).toBe(TypedDataEncoder.hash(typedData.domain, types, typedData.message));
+    expect(verifyTypedData(typedData.domain, types, typedData.message, signed.signature)).toBe(signer.address);
+    expect((await verifySignature({ signature: signed.signature, typedData })).recoveredAddress).toBe(signer.address);
+  });
+
+  it("rejects payloads whose primaryType does not match their types", async () => {
+    for (const primaryType of ["Person", "Letter"]) {
+      await expect(
+        signTypedData({ address: signer.address, typedData: { ...typedData, primaryType } })
+      ).rejects.toMatchObject({ code: "invalid_argument" });
+    }
+  });
+
+  it("requires exactly one of message or typedData to verify", async () => {
+    const { signature } = await signMessage({ address: signer.address, message: "hello" });
+
+    await expect(verifySignature({ signature })).rejects.toMatchObject({ code: "invalid_argument" });
+    await expect(verifySignature({ signature, message: "hello", typedData })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+});
@@ -0,0 +1,224 @@
+import { APIError, api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import {
+  Wallet as Signer,
+  TypedDataDomain,
+  TypedDataEncoder,
+  TypedDataField,
+  getBytes,
+  hashMessage,
+  isHexString,
+  verifyMessage,
+  verifyTypedData,
+} from "ethers";
+import { z } from "zod";
+import { getAuthData } from "~encore/auth";
+import { callerProjectId } from "../auth/tenancy";
+import { CustodialKeyError, loadSigner } from "./custody";
+import { CustodialWallet, loadCustodialWallet, touchWallet } from "./tx_builder";
+
+// Off-chain signatures: EIP-191 personal_sign messages and EIP-712 (eth_signTypedData_v4)
+// typed data, signed with a custodial key or verified for any address.
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Endpoint path constants
+const SIGN_MESSAGE_PATH = "/wallet/:address/sign/message";
+const SIGN_TYPED_DATA_PATH = "/wallet/:address/sign/typed-data";
+const VERIFY_PATH = "/wallet/verify";
+
+const MAX_MESSAGE_LENGTH = 16_384;
+
+// --- Type Definitions ---
+
+const MessageSchema = z.object({
+  message: z.string().max(MAX_MESSAGE_LENGTH),
+  // "hex" signs the bytes of a 0x-prefixed message, as personal_sign does for hex input.
+  encoding: z.enum(["utf8", "hex"]).optional().default("utf8"),
+});
+
+// eth_signTypedData_v4 payload; types may include EIP712Domain, which is derived from the domain.
+const TypedDataSchema = z.object({
+  domain: z.record(z.unknown()),
+  types: z.record(z.array(z.object({ name: z.string(), type: z.string() }))),
+  primaryType: z.string().min(1),
+  message: z.record(z.unknown()),
+});
+
+export type TypedData = z.input<typeof TypedDataSchema>;
+
+export interface SignMessageRequest {
+  address: string;
+  message: string;
+  encoding?: "utf8" | "hex";
+}
+
+export interface SignTypedDataRequest {
+  address: string;
+  typedData: TypedData;
+}
+
+export interface SignatureResponse {
+  address: string;
+  signature: string;
+  // EIP-191 or EIP-712 digest that was signed.
+  digest: string;
+}
+
+const VerifySchema = z
+  .object({
+    signature: z.string().regex(/^0x[0-9a-fA-F]{130}$/, "Signature must be 65 bytes of hex"),
+    message: z.string().max(MAX_MESSAGE_LENGTH).optional(),
+    encoding: z.enum(["utf8", "hex"]).optional().default("utf8"),
+    typedData: TypedDataSchema.optional(),
+    // Expected signer; when set, the response says whether it matches.
+    address: z.string().optional(),
+  })
+  .refine((req) => (req.message === undefined) !== (req.typedData === undefined), {
+    message: "Provide exactly one of message or typedData",
+  });
+
+export type VerifySignatureRequest = z.input<typeof VerifySchema>;
+
+export interface VerifySignatureResponse {
+  recoveredAddress: string;
+  // Set when an expected address was given.
+  matches?: boolean;
+  // Registered wallet for the recovered address, custodial or not.
+  walletId?: number;
+  isCustodial?: boolean;
+}
+
+// --- Helper Functions ---
+
+function messagePayload({ message, encoding }: z.output<typeof MessageSchema>): string | Uint8Array {
+  if (encoding === "utf8") {
+    return message;
+  }
+  if (!isHexString(message)) {
+    throw APIError.invalidArgument("Hex message must be 0x-prefixed hex bytes");
+  }
+  return getBytes(message);
+}
+
+interface TypedDataParts {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: Record<string, unknown>;
+}
+
+// Splits a v4 payload into what ethers expects and checks it encodes.
+function typedDataParts(typedData: z.output<typeof TypedDataSchema>): TypedDataParts {
+  const { EIP712Domain: _, ...types } = typedData.types;
+  if (!types[typedData.primaryType]) {
+    throw APIError.invalidArgument(`Typed data has no type definition for primaryType ${typedData.primaryType}`);
+  }
+  const parts = { domain: typedData.domain as TypedDataDomain, types, value: typedData.message };
+  try {
+    // ethers picks the primary type itself; it must agree with the payload's.
+    const encoder = TypedDataEncoder.from(types);
+    if (encoder.primaryType !== typedData.primaryType) {
+      throw new Error(`types describe primaryType ${encoder.primaryType}`);
+    }
+    TypedDataEncoder.hash(parts.domain, types, parts.value);
+  } catch (err) {
+    throw APIError.invalidArgument(`Invalid typed data: ${(err as Error).message}`);
+  }
+  return parts;
+}
+
+// The decrypted key only lives for the duration of sign().
+async function signWith(wallet: CustodialWallet, sign: (signer: Signer) => Promise<string>): Promise<string> {
+  try {
+    return await sign(await loadSigner(wallet.encryptedPrivateKey!, wallet.address));
+  } catch (err) {
+    if (err instanceof CustodialKeyError) {
+      throw APIError.internal(`Cannot sign for ${wallet.address}: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+// --- API Endpoints ---
+
+// Sign a message with EIP-191 personal_sign using the wallet's custodial key
+export const signMessage = api<SignMessageRequest, SignatureResponse>(
+  { expose: true, auth: true, method: "POST", path: SIGN_MESSAGE_PATH, tags: ["scope:wallets:sign"] },
+  async ({ address, ...req }) => {
+    const userId = getAuthData()!.userID;
+    const parsed = MessageSchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const payload = messagePayload(parsed.data);
+    const wallet = await loadCustodialWallet(address);
+    const signature = await signWith(wallet, (signer) => signer.signMessage(payload));
+    await touchWallet(wallet.id);
+    log.info("wallet message signed", { userId, address: wallet.address, walletId: wallet.id, kind: "personal_sign" });
+    return { address: wallet.address, signature, digest: hashMessage(payload) };
+  }
+);
+
+// Sign EIP-712 typed data (eth_signTypedData_v4) using the wallet's custodial key
+export const signTypedData = api<SignTypedDataRequest, SignatureResponse>(
+  { expose: true, auth: true, method: "POST", path: SIGN_TYPED_DATA_PATH, tags: ["scope:wallets:sign"] },
+  async ({ address, typedData }) => {
+    const userId = getAuthData()!.userID;
+    const parsed = TypedDataSchema.safeParse(typedData);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const { domain, types, value } = typedDataParts(parsed.data);
+    const wallet = await loadCustodialWallet(address);
+    const signature = await signWith(wallet, (signer) => signer.signTypedData(domain, types, value));
+    await touchWallet(wallet.id);
+    log.info("wallet typed data signed", {
+      userId,
+      address: wallet.address,
+      walletId: wallet.id,
+      kind: "typed_data_v4",
+      primaryType: parsed.data.primaryType,
+      verifyingContract: domain.verifyingContract ?? null,
+      chainId: domain.chainId?.toString() ?? null,
+    });
+    return { address: wallet.address, signature, digest: TypedDataEncoder.hash(domain, types, value) };
+  }
+);
+
+// Recover the signer of a personal_sign message or EIP-712 typed data
+export const verifySignature = api<VerifySignatureRequest, VerifySignatureResponse>(
+  { expose: true, auth: true, method: "POST", path: VERIFY_PATH, tags: ["scope:wallets:read"] },
+  async (req) => {
+    const parsed = VerifySchema.safeParse(req);
+    if (!parsed.success) {
+      throw APIError.invalidArgument(`Invalid input: ${parsed.error.message}`);
+    }
+    const { signature, message, encoding, typedData, address } = parsed.data;
+
+    let recoveredAddress: string;
+    try {
+      if (typedData) {
+        const { domain, types, value } = typedDataParts(typedData);
+        recoveredAddress = verifyTypedData(domain, types, value, signature);
+      } else {
+        recoveredAddress = verifyMessage(messagePayload({ message: message!, encoding }), signature);
+      }
+    } catch (err) {
+      if (err instanceof APIError) throw err;
+      throw APIError.invalidArgument(`Signature could not be verified: ${(err as Error).message}`);
+    }
+
+    const wallet = await walletDB.queryRow<{ id: number; isCustodial: boolean }>`
+      SELECT id, is_custodial as "isCustodial"
+      FROM wallets
+      WHERE LOWER(address) = LOWER(${recoveredAddress}) AND project_id = ${callerProjectId()}
+    `;
+    return {
+      recoveredAddress,
+      matches: address === undefined ? undefined : address.toLowerCase() === recoveredAddress.toLowerCase(),
+      walletId: wallet?.id,
+      isCustodial: wallet?.isCustodial,
+    };
+  }
+);
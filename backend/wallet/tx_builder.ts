@@ -0,0 +1,282 @@
+import { APIError } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { Interface, Transaction, TransactionRequest, getCreateAddress } from "ethers";
+import { getAuthData } from "~encore/auth";
+import { callerProjectId } from "../auth/tenancy";
+import { RpcClient, RpcError } from "../chain/rpc";
+import { describeRevert } from "../chain/abi";
+import { CustodialKeyError, loadSigner } from "./custody";
+
+// Shared steps for transactions sent from custodial wallets: fee suggestion,
+// gas padding, signing, recording and broadcasting, and mapping node failures to
+// API errors.
+
+const walletDB = SQLDatabase.named("blockchain");
+
+// Node errors for a transaction it already has.
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+// Node error for a nonce that a mined transaction has used.
+const NONCE_TOO_LOW = /nonce too low/i;
+
+// Estimates are padded so small state changes between estimate and inclusion don't run out of gas.
+const GAS_LIMIT_BUFFER_PERCENT = BigInt(20);
+// Tip used when the node does not implement eth_maxPriorityFeePerGas.
+const FALLBACK_PRIORITY_FEE = BigInt(1_500_000_000);
+// First key of the per-wallet advisory locks (the second is the wallet id), so they
+// stay apart from other advisory locks.
+const WALLET_LOCK_CLASS = 0x6e6f6e63;
+
+export interface TransactionFees {
+  type: "eip1559" | "legacy";
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export interface CustodialWallet {
+  id: number;
+  address: string;
+  isCustodial: boolean;
+  encryptedPrivateKey: string | null;
+}
+
+export interface SentTransaction {
+  transactionId: number;
+  hash: string;
+  nonce: number;
+  // The contract called, or the address a contract creation deploys to.
+  contractAddress: string;
+}
+
+// Fully populated transaction, ready to be signed.
+export interface UnsignedTransaction {
+  chainId: number;
+  from: string;
+  // Omitted for contract creation.
+  to?: string;
+  data: string;
+  value: bigint;
+  nonce: number;
+  gasLimit: bigint;
+  fees: TransactionFees;
+}
+
+// Loads one of the caller's custodial wallets; other users' wallets read as missing.
+export async function loadCustodialWallet(address: string): Promise<CustodialWallet> {
+  const wallet = await walletDB.queryRow<CustodialWallet>`
+    SELECT
+      id,
+      address,
+      is_custodial as "isCustodial",
+      encrypted_private_key as "encryptedPrivateKey"
+    FROM wallets
+    WHERE LOWER(address) = LOWER(${address})
+      AND project_id = ${callerProjectId()}
+      AND user_id = ${getAuthData()!.userID}
+  `;
+  if (!wallet) {
+    throw APIError.notFound("Wallet not found");
+  }
+  if (!wallet.isCustodial || !wallet.encryptedPrivateKey) {
+    throw APIError.invalidArgument("Wallet is not custodial; transactions must be signed by its owner");
+  }
+  return wallet;
+}
+
+export async function touchWallet(walletId: number) {
+  await walletDB.exec`
+    UPDATE wallets SET last_used_at = NOW() WHERE id = ${walletId}
+  `;
+}
+
+// Runs fn holding the wallet's lock, so concurrent sends from one wallet read the pending
+// nonce one after another. fn should return once its transaction has been broadcast.
+async function withWalletLock<T>(walletId: number, fn: () => Promise<T>): Promise<T> {
+  const lock = await walletDB.begin();
+  try {
+    await lock.exec`SELECT pg_advisory_xact_lock(${WALLET_LOCK_CLASS}, ${walletId})`;
+    return await fn();
+  } finally {
+    // The transaction only holds the lock; ending it releases the lock.
+    await lock.commit();
+  }
+}
+
+// The wallet's next nonce, counting transactions still in the node's pool.
+async function pendingNonce(client: RpcClient, address: string): Promise<number> {
+  try {
+    return await client.getTransactionCount(address, "pending");
+  } catch (err) {
+    throw APIError.unavailable(`Fetching the nonce failed: ${(err as Error).message}`);
+  }
+}
+
+export function parseWei(value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw APIError.invalidArgument("Value must be a non-negative integer amount of wei");
+  }
+  return BigInt(value);
+}
+
+export async function suggestFees(client: RpcClient, supportsEip1559: boolean): Promise<TransactionFees> {
+  if (!supportsEip1559) {
+    return { type: "legacy", gasPrice: (await client.gasPrice()).toString() };
+  }
+  const [head, tip] = await Promise.all([
+    client.getBlock("latest"),
+    client.maxPriorityFeePerGas().catch(() => FALLBACK_PRIORITY_FEE),
+  ]);
+  if (head?.baseFeePerGas === undefined) {
+    // Flagged as EIP-1559 but the node reports no base fee.
+    return { type: "legacy", gasPrice: (await client.gasPrice()).toString() };
+  }
+  // Twice the base fee keeps the transaction includable through several full blocks.
+  const maxFee = head.baseFeePerGas * BigInt(2) + tip;
+  return { type: "eip1559", maxFeePerGas: maxFee.toString(), maxPriorityFeePerGas: tip.toString() };
+}
+
+export function padGasLimit(estimate: bigint): bigint {
+  return estimate + (estimate * GAS_LIMIT_BUFFER_PERCENT) / BigInt(100);
+}
+
+// Highest price per gas the transaction may pay: maxFeePerGas or the legacy gasPrice.
+export function maxPricePerGas(fees: TransactionFees): string {
+  return fees.maxFeePerGas ?? fees.gasPrice ?? "0";
+}
+
+// gasLimit times the highest price per gas, plus the value sent, in wei.
+export function maxCost(tx: Pick<UnsignedTransaction, "gasLimit" | "fees" | "value">): bigint {
+  return tx.gasLimit * BigInt(maxPricePerGas(tx.fees)) + tx.value;
+}
+
+function toTransactionRequest(tx: UnsignedTransaction): TransactionRequest {
+  const base: TransactionRequest = {
+    chainId: tx.chainId,
+    from: tx.from,
+    to: tx.to ?? null,
+    data: tx.data,
+    value: tx.value,
+    nonce: tx.nonce,
+    gasLimit: tx.gasLimit,
+  };
+  if (tx.fees.type === "eip1559") {
+    return {
+      ...base,
+      type: 2,
+      maxFeePerGas: BigInt(tx.fees.maxFeePerGas!),
+      maxPriorityFeePerGas: BigInt(tx.fees.maxPriorityFeePerGas!),
+    };
+  }
+  return { ...base, type: 0, gasPrice: BigInt(tx.fees.gasPrice!) };
+}
+
+// Signs with the wallet's custodial key; the decrypted key never leaves this call.
+export async function signWithCustodialKey(wallet: CustodialWallet, tx: UnsignedTransaction): Promise<string> {
+  try {
+    const signer = await loadSigner(wallet.encryptedPrivateKey!, wallet.address);
+    return await signer.signTransaction(toTransactionRequest(tx));
+  } catch (err) {
+    if (err instanceof CustodialKeyError) {
+      throw APIError.internal(`Cannot sign for ${wallet.address}: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+// Reverts become a failed precondition with the decoded reason; anything else is an upstream failure.
+export function rpcFailure(err: unknown, action: string, iface?: Interface) {
+  if (err instanceof RpcError && (err.code === 3 || /revert/i.test(err.message))) {
+    const data = typeof err.data === "string" ? err.data : undefined;
+    return APIError.failedPrecondition(`Transaction would revert: ${describeRevert(iface ?? new Interface([]), data)}`);
+  }
+  return APIError.unavailable(`${action} failed: ${(err as Error).message}`);
+}
+
+async function markBroadcastFailed(transactionId: number, message: string) {
+  await walletDB.exec`
+    UPDATE transactions SET status = 'failed', error_message = ${message} WHERE id = ${transactionId}
+  `;
+}
+
+// Settles the recorded transaction after sendRawTransaction threw; returns when the node
+// has the transaction after all, e.g. a timed-out broadcast that got through before the retry.
+async function settleBroadcastError(
+  client: RpcClient,
+  sent: SentTransaction,
+  err: unknown,
+  iface?: Interface
+): Promise<void> {
+  if (!(err instanceof RpcError)) {
+    throw APIError.unavailable(
+      `Broadcast of ${sent.hash} did not complete: ${(err as Error).message}; it is recorded as pending transaction ${sent.transactionId}`
+    );
+  }
+  if (ALREADY_KNOWN.test(err.message)) {
+    return;
+  }
+  if (NONCE_TOO_LOW.test(err.message)) {
+    let receipt;
+    try {
+      receipt = await client.getTransactionReceipt(sent.hash);
+    } catch (lookupErr) {
+      throw APIError.unavailable(
+        `Broadcast of ${sent.hash} was answered with "${err.message}" and its receipt could not be read: ${(lookupErr as Error).message}; it is recorded as pending transaction ${sent.transactionId}`
+      );
+    }
+    if (receipt) {
+      return;
+    }
+    await markBroadcastFailed(sent.transactionId, `Nonce ${sent.nonce} was used by another transaction`);
+    throw APIError.aborted(`Nonce ${sent.nonce} was used by another transaction; retry to send with a new nonce`);
+  }
+  await markBroadcastFailed(sent.transactionId, err.message);
+  throw rpcFailure(err, "Broadcast", iface);
+}
+
+// Signs with the wallet's next nonce, records the transaction as pending and broadcasts it,
+// holding the wallet's lock. The row is written before the broadcast, so a transaction the
+// node may have received is recorded whatever the broadcast returns.
+export async function sendFromCustodialWallet(
+  client: RpcClient,
+  wallet: CustodialWallet,
+  networkId: number,
+  tx: Omit<UnsignedTransaction, "from" | "nonce">,
+  iface?: Interface
+): Promise<SentTransaction> {
+  return withWalletLock(wallet.id, async () => {
+    const nonce = await pendingNonce(client, wallet.address);
+    const signedTx = await signWithCustodialKey(wallet, { ...tx, from: wallet.address, nonce });
+    const hash = Transaction.from(signedTx).hash!;
+    const contractAddress = tx.to ?? getCreateAddress({ from: wallet.address, nonce });
+
+    const row = await walletDB.queryRow<{ id: number }>`
+      INSERT INTO transactions (
+        hash, network_id, from_address, to_address, value, gas_price, gas_limit,
+        nonce, status, transaction_type, contract_address, project_id
+      )
+      VALUES (
+        ${hash},
+        ${networkId},
+        ${wallet.address},
+        ${tx.to ?? null},
+        ${tx.value.toString()}::numeric,
+        ${maxPricePerGas(tx.fees)}::numeric,
+        ${tx.gasLimit.toString()}::bigint,
+        ${nonce},
+        'pending',
+        ${tx.to ? "contract_call" : "contract_deploy"},
+        ${contractAddress},
+        ${callerProjectId()}
+      )
+      RETURNING id
+    `;
+    const sent = { transactionId: row!.id, hash, nonce, contractAddress };
+    try {
+      await client.sendRawTransaction(signedTx);
+    } catch (err) {
+      await settleBroadcastError(client, sent, err, iface);
+    }
+    await touchWallet(wallet.id);
+    return sent;
+  });
+}
@@ -0,0 +1,63 @@
+import { Wallet as Signer } from "ethers";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { DEFAULT_ORGANIZATION_ID, setAuthData, signedIn } from "../test/encore/auth";
+import { closeDatabases, SQLDatabase } from "../test/encore/sqldb";
+import { createWallet, getWallet } from "./wallet";
+
+const OWNER = "0x00000000000000000000000000000000000a11ce";
+
+beforeAll(() => {
+  vi.stubEnv("WalletEncryptionKey", "11".repeat(32));
+  setAuthData(signedIn(OWNER));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  setAuthData(null);
+  await closeDatabases();
+});
+
+describe("createWallet", () => {
+  it("stores an imported private key as a custodial wallet", async () => {
+    const signer = Signer.createRandom();
+
+    const wallet = await createWallet({ address: signer.address, privateKey: signer.privateKey });
+
+    expect(wallet).toMatchObject({ address: signer.address, userId: OWNER, isCustodial: true });
+    expect((await getWallet({ address: signer.address })).id).toBe(wallet.id);
+  });
+
+  it("rejects keys that are invalid or control another address", async () => {
+    const signer = Signer.createRandom();
+
+    await expect(createWallet({ address: signer.address, privateKey: "0x1234" })).rejects.toMatchObject({
+      code: "invalid_argument",
+      message: "Invalid private key",
+    });
+    await expect(
+      createWallet({ address: signer.address, privateKey: Signer.createRandom().privateKey })
+    ).rejects.toMatchObject({ code: "invalid_argument", message: `Private key does not control ${signer.address}` });
+    await expect(createWallet({ address: "" })).rejects.toMatchObject({ code: "invalid_argument" });
+  });
+
+  it("registers an address once per project", async () => {
+    const signer = Signer.createRandom();
+    const project = await SQLDatabase.named("blockchain").queryRow<{ id: number }>`
+      INSERT INTO projects (organization_id, name, slug) VALUES (${DEFAULT_ORGANIZATION_ID}, 'Other', 'other') RETURNING id
+    `;
+    await createWallet({ address: signer.address, isCustodial: false });
+
+    setAuthData({ ...signedIn(OWNER), projectId: project!.id });
+    try {
+      await expect(createWallet({ address: signer.address, isCustodial: false })).resolves.toMatchObject({
+        address: signer.address,
+      });
+    } finally {
+      setAuthData(signedIn(OWNER));
+    }
+  });
+
+  it("reports unknown wallets as not found", async () => {
+    await expect(getWallet({ address: Signer.createRandom().address })).rejects.toMatchObject({ code: "not_found" });
+  });
+});
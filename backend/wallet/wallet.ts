@@ -1,5 +1,11 @@
-import { api } from "encore.dev/api";
+import { APIError, api } from "encore.dev/api";
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { Wallet as Signer } from "ethers";
+import { getAuthData } from "~encore/auth";
+import { IdempotentRequest } from "../auth/idempotency";
+import { callerProjectId } from "../auth/tenancy";
+import { auditChange, auditTarget } from "../audit/trail";
+import { encryptPrivateKey } from "./custody";
 
 // Endpoint path constants
 const WALLET_PATH = "/wallet/wallets";
@@ -17,16 +23,20 @@ export interface Wallet {
   walletType: string;
   isCustodial: boolean;
   publicKey?: string;
+  // Set for wallets derived from an HD seed.
+  hdSeedId?: number;
+  derivationPath?: string;
+  accountIndex?: number;
   createdAt: Date;
   lastUsedAt: Date;
 }
 
-export interface CreateWalletRequest {
+export interface CreateWalletRequest extends IdempotentRequest {
   address: string;
-  userId: string;
   walletType?: string;
   isCustodial?: boolean;
-  encryptedPrivateKey?: string;
+  // Hex private key for a custodial wallet; sealed by the wallet service, never stored as sent.
+  privateKey?: string;
   publicKey?: string;
 }
 
@@ -56,13 +66,11 @@ function toISODateFields<T extends { createdAt: Date, lastUsedAt: Date }>(obj: T
   };
 }
 
-// List all wallets for a user
-export const listWallets = api<{ userId: string }, ListWalletsResponse>(
-  { expose: true, method: "GET", path: WALLET_PATH },
-  async ({ userId }) => {
-    if (!userId) {
-      throw api.error("Missing userId", 400);
-    }
+// List the caller's wallets
+export const listWallets = api<void, ListWalletsResponse>(
+  { expose: true, auth: true, method: "GET", path: WALLET_PATH, tags: ["scope:wallets:read"] },
+  async () => {
+    const userId = getAuthData()!.userID;
     const wallets = await walletDB.queryAll<Wallet>`
       SELECT 
         id,
@@ -71,10 +79,13 @@ export const listWallets = api<{ userId: string }, ListWalletsResponse>(
         wallet_type as "walletType",
         is_custodial as "isCustodial",
         public_key as "publicKey",
+        hd_seed_id as "hdSeedId",
+        derivation_path as "derivationPath",
+        account_index as "accountIndex",
         created_at as "createdAt",
         last_used_at as "lastUsedAt"
       FROM wallets 
-      WHERE user_id = ${userId}
+      WHERE user_id = ${userId} AND project_id = ${callerProjectId()}
       ORDER BY created_at DESC
     `;
     // Format date fields
@@ -84,10 +95,10 @@ export const listWallets = api<{ userId: string }, ListWalletsResponse>(
 
 // Get a specific wallet by address
 export const getWallet = api<{ address: string }, Wallet>(
-  { expose: true, method: "GET", path: WALLET_BY_ADDRESS_PATH },
+  { expose: true, auth: true, method: "GET", path: WALLET_BY_ADDRESS_PATH, tags: ["scope:wallets:read"] },
   async ({ address }) => {
     if (!address) {
-      throw api.error("Missing wallet address", 400);
+      throw APIError.invalidArgument("Missing wallet address");
     }
     const wallet = await walletDB.queryRow<Wallet>`
       SELECT 
@@ -97,29 +108,44 @@ export const getWallet = api<{ address: string }, Wallet>(
         wallet_type as "walletType",
         is_custodial as "isCustodial",
         public_key as "publicKey",
+        hd_seed_id as "hdSeedId",
+        derivation_path as "derivationPath",
+        account_index as "accountIndex",
         created_at as "createdAt",
         last_used_at as "lastUsedAt"
       FROM wallets 
-      WHERE address = ${address}
+      WHERE address = ${address} AND project_id = ${callerProjectId()}
     `;
     if (!wallet) {
-      throw api.error("Wallet not found", 404);
+      throw APIError.notFound("Wallet not found");
     }
     return toISODateFields(wallet);
   }
 );
 
-// Create a new wallet
+// Create a new wallet for the caller
 export const createWallet = api<CreateWalletRequest, Wallet>(
-  { expose: true, method: "POST", path: WALLET_PATH },
+  { expose: true, auth: true, method: "POST", path: WALLET_PATH, sensitive: true, tags: ["scope:wallets:write", "audit:wallet.create", "idempotent"] },
   async (req) => {
+    const userId = getAuthData()!.userID;
     // Validate required fields
-    if (!req.address || !req.userId) {
-      throw api.error("Missing required fields: address or userId", 400);
+    if (!req.address) {
+      throw APIError.invalidArgument("Missing required field: address");
     }
-    // Validate optional: encryptedPrivateKey should be encrypted before arrival
-    if (req.encryptedPrivateKey && req.encryptedPrivateKey.length < 32) {
-      throw api.error("Encrypted private key is too short or not securely encrypted", 400);
+    let encryptedPrivateKey: string | null = null;
+    let publicKey = req.publicKey || null;
+    if (req.privateKey) {
+      let signer: Signer;
+      try {
+        signer = new Signer(req.privateKey);
+      } catch {
+        throw APIError.invalidArgument("Invalid private key");
+      }
+      if (signer.address.toLowerCase() !== req.address.toLowerCase()) {
+        throw APIError.invalidArgument(`Private key does not control ${req.address}`);
+      }
+      encryptedPrivateKey = await encryptPrivateKey(signer.privateKey);
+      publicKey = signer.signingKey.publicKey;
     }
     const wallet = await walletDB.queryRow<Wallet>`
       INSERT INTO wallets (
@@ -128,15 +154,17 @@ export const createWallet = api<CreateWalletRequest, Wallet>(
         wallet_type, 
         is_custodial, 
         encrypted_private_key, 
-        public_key
+        public_key,
+        project_id
       )
       VALUES (
         ${req.address}, 
-        ${req.userId}, 
+        ${userId}, 
         ${req.walletType || 'EOA'}, 
-        ${req.isCustodial ?? false}, 
-        ${req.encryptedPrivateKey || null}, 
-        ${req.publicKey || null}
+        ${req.isCustodial ?? encryptedPrivateKey !== null}, 
+        ${encryptedPrivateKey}, 
+        ${publicKey},
+        ${callerProjectId()}
       )
       RETURNING 
         id,
@@ -145,22 +173,27 @@ export const createWallet = api<CreateWalletRequest, Wallet>(
         wallet_type as "walletType",
         is_custodial as "isCustodial",
         public_key as "publicKey",
+        hd_seed_id as "hdSeedId",
+        derivation_path as "derivationPath",
+        account_index as "accountIndex",
         created_at as "createdAt",
         last_used_at as "lastUsedAt"
     `;
     if (!wallet) {
-      throw api.error("Failed to create wallet", 500);
+      throw APIError.internal("Failed to create wallet");
     }
+    auditTarget("wallet", wallet.address);
+    auditChange(null, { walletType: wallet.walletType, isCustodial: wallet.isCustodial, keyImported: encryptedPrivateKey !== null });
     return toISODateFields(wallet);
   }
 );
 
 // Get wallet balances (tokens)
 export const getWalletBalance = api<{ address: string }, WalletBalanceResponse>(
-  { expose: true, method: "GET", path: WALLET_BALANCE_PATH },
+  { expose: true, auth: true, method: "GET", path: WALLET_BALANCE_PATH, tags: ["scope:wallets:read"] },
   async ({ address }) => {
     if (!address) {
-      throw api.error("Missing wallet address", 400);
+      throw APIError.invalidArgument("Missing wallet address");
     }
     const balances = await walletDB.queryAll<WalletBalanceItem>`
       SELECT 
@@ -174,6 +207,7 @@ export const getWalletBalance = api<{ address: string }, WalletBalanceResponse>(
       JOIN tokens t ON tb.token_id = t.id
       JOIN smart_contracts sc ON t.contract_id = sc.id
       WHERE w.address = ${address}
+        AND w.project_id = ${callerProjectId()}
         AND tb.balance > 0
       ORDER BY t.symbol
     `;
@@ -186,15 +220,15 @@ export const getWalletBalance = api<{ address: string }, WalletBalanceResponse>(
 
 // Update wallet last used timestamp
 export const updateWalletLastUsed = api<{ address: string }, void>(
-  { expose: true, method: "PATCH", path: WALLET_UPDATE_USAGE_PATH },
+  { expose: true, auth: true, method: "PATCH", path: WALLET_UPDATE_USAGE_PATH, tags: ["scope:wallets:write"] },
   async ({ address }) => {
     if (!address) {
-      throw api.error("Missing wallet address", 400);
+      throw APIError.invalidArgument("Missing wallet address");
     }
     await walletDB.exec`
       UPDATE wallets 
       SET last_used_at = NOW() 
-      WHERE address = ${address}
+      WHERE address = ${address} AND project_id = ${callerProjectId()}
     `;
   }
 );
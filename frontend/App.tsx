@@ -1,5 +1,5 @@
-import React from 'react';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { Toaster } from '@/components/ui/toaster';
 import Sidebar from './components/layout/Sidebar';
@@ -13,8 +13,20 @@ import NFTMarketplace from './pages/NFTMarketplace';
 import Transactions from './pages/Transactions';
 import Analytics from './pages/Analytics';
 import Events from './pages/Events';
+import Audit from './pages/Audit';
+import Login from './pages/Login';
+import { APIError } from './client';
+import { loadSession, onSessionChange, saveSession } from './lib/session';
 
 const queryClient = new QueryClient({
+  // A session revoked or expired on the server signs the user out.
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error instanceof APIError && error.status === 401) {
+        saveSession(null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       retry: 1,
@@ -24,13 +36,31 @@ const queryClient = new QueryClient({
 });
 
 function AppInner() {
+  const [session, setSession] = useState(loadSession);
+
+  useEffect(() => onSessionChange((next) => {
+    if (!next) {
+      queryClient.clear();
+    }
+    setSession(next);
+  }), []);
+
+  if (!session) {
+    return (
+      <>
+        <Login />
+        <Toaster />
+      </>
+    );
+  }
+
   return (
     <Router>
       <div className="min-h-screen bg-background">
         <div className="flex">
           <Sidebar />
           <div className="flex-1 flex flex-col">
-            <Header />
+            <Header address={session.address} />
             <main className="flex-1 p-6 overflow-auto">
               <Routes>
                 <Route path="/" element={<Dashboard />} />
@@ -42,6 +72,7 @@ function AppInner() {
                 <Route path="/transactions" element={<Transactions />} />
                 <Route path="/analytics" element={<Analytics />} />
                 <Route path="/events" element={<Events />} />
+                <Route path="/audit" element={<Audit />} />
               </Routes>
             </main>
           </div>
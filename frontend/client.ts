@@ -34,9 +34,12 @@ const BROWSER = typeof globalThis === "object" && ("window" in globalThis);
  */
 export class Client {
     public readonly analytics: analytics.ServiceClient
+    public readonly audit: audit.ServiceClient
+    public readonly auth: auth.ServiceClient
     public readonly blockchain: blockchain.ServiceClient
     public readonly events: events.ServiceClient
     public readonly nft: nft.ServiceClient
+    public readonly org: org.ServiceClient
     public readonly token: token.ServiceClient
     public readonly transaction: transaction.ServiceClient
     public readonly wallet: wallet.ServiceClient
@@ -55,9 +58,12 @@ export class Client {
         this.options = options ?? {}
         const base = new BaseClient(this.target, this.options)
         this.analytics = new analytics.ServiceClient(base)
+        this.audit = new audit.ServiceClient(base)
+        this.auth = new auth.ServiceClient(base)
         this.blockchain = new blockchain.ServiceClient(base)
         this.events = new events.ServiceClient(base)
         this.nft = new nft.ServiceClient(base)
+        this.org = new org.ServiceClient(base)
         this.token = new token.ServiceClient(base)
         this.transaction = new transaction.ServiceClient(base)
         this.wallet = new wallet.ServiceClient(base)
@@ -89,6 +95,13 @@ export interface ClientOptions {
 
     /** Default RequestInit to be used for the client */
     requestInit?: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+
+    /**
+     * Allows you to set the authentication data to be used for each
+     * request either by passing in a static object or by passing in
+     * a function which returns a new object for each request.
+     */
+    auth?: RequestType<typeof api_auth_auth_auth> | AuthDataGenerator
 }
 
 /**
@@ -187,12 +200,285 @@ export namespace analytics {
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
+import {
+    exportAuditEvents as api_audit_events_exportAuditEvents,
+    listAuditEvents as api_audit_events_listAuditEvents,
+    verifyAuditChain as api_audit_events_verifyAuditChain
+} from "~backend/audit/events";
+
+export namespace audit {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.exportAuditEvents = this.exportAuditEvents.bind(this)
+            this.listAuditEvents = this.listAuditEvents.bind(this)
+            this.verifyAuditChain = this.verifyAuditChain.bind(this)
+        }
+
+        /**
+         * Export the project's audit trail as JSON or CSV
+         */
+        public async exportAuditEvents(params: RequestType<typeof api_audit_events_exportAuditEvents>): Promise<ResponseType<typeof api_audit_events_exportAuditEvents>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                actor:      params.actor,
+                apiKeyId:   params.apiKeyId === undefined ? undefined : String(params.apiKeyId),
+                format:     params.format === undefined ? undefined : String(params.format),
+                from:       params.from,
+                operation:  params.operation,
+                result:     params.result === undefined ? undefined : String(params.result),
+                targetId:   params.targetId,
+                targetType: params.targetType,
+                to:         params.to,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/audit/events/export`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_audit_events_exportAuditEvents>
+        }
+
+        /**
+         * Query the project's audit trail
+         */
+        public async listAuditEvents(params: RequestType<typeof api_audit_events_listAuditEvents>): Promise<ResponseType<typeof api_audit_events_listAuditEvents>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                actor:      params.actor,
+                apiKeyId:   params.apiKeyId === undefined ? undefined : String(params.apiKeyId),
+                from:       params.from,
+                limit:      params.limit === undefined ? undefined : String(params.limit),
+                operation:  params.operation,
+                page:       params.page === undefined ? undefined : String(params.page),
+                result:     params.result === undefined ? undefined : String(params.result),
+                targetId:   params.targetId,
+                targetType: params.targetType,
+                to:         params.to,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/audit/events`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_audit_events_listAuditEvents>
+        }
+
+        /**
+         * Recompute the hash chain over every entry and report the first break
+         */
+        public async verifyAuditChain(): Promise<ResponseType<typeof api_audit_events_verifyAuditChain>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/audit/verify`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_audit_events_verifyAuditChain>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import {
+    createApiKey as api_auth_api_keys_createApiKey,
+    listApiKeys as api_auth_api_keys_listApiKeys,
+    revokeApiKey as api_auth_api_keys_revokeApiKey,
+    rotateApiKey as api_auth_api_keys_rotateApiKey
+} from "~backend/auth/api_keys";
+import {
+    getMyPermissions as api_auth_roles_getMyPermissions,
+    listRoles as api_auth_roles_listRoles,
+    setUserRoles as api_auth_roles_setUserRoles
+} from "~backend/auth/roles";
+import {
+    getNonce as api_auth_sessions_getNonce,
+    getSession as api_auth_sessions_getSession,
+    logout as api_auth_sessions_logout,
+    verifySiwe as api_auth_sessions_verifySiwe
+} from "~backend/auth/sessions";
+
+export namespace auth {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.createApiKey = this.createApiKey.bind(this)
+            this.getMyPermissions = this.getMyPermissions.bind(this)
+            this.getNonce = this.getNonce.bind(this)
+            this.getSession = this.getSession.bind(this)
+            this.listApiKeys = this.listApiKeys.bind(this)
+            this.listRoles = this.listRoles.bind(this)
+            this.logout = this.logout.bind(this)
+            this.revokeApiKey = this.revokeApiKey.bind(this)
+            this.rotateApiKey = this.rotateApiKey.bind(this)
+            this.setUserRoles = this.setUserRoles.bind(this)
+            this.verifySiwe = this.verifySiwe.bind(this)
+        }
+
+        /**
+         * Issue an API key for the caller; the key is only returned in this response
+         */
+        public async createApiKey(params: RequestType<typeof api_auth_api_keys_createApiKey>): Promise<ResponseType<typeof api_auth_api_keys_createApiKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/api-keys`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_api_keys_createApiKey>
+        }
+
+        /**
+         * Get the caller's roles and scopes
+         */
+        public async getMyPermissions(): Promise<ResponseType<typeof api_auth_roles_getMyPermissions>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/permissions`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_roles_getMyPermissions>
+        }
+
+        /**
+         * Issue a single-use nonce for a SIWE message
+         */
+        public async getNonce(): Promise<ResponseType<typeof api_auth_sessions_getNonce>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/siwe/nonce`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_sessions_getNonce>
+        }
+
+        /**
+         * Get the caller's session
+         */
+        public async getSession(): Promise<ResponseType<typeof api_auth_sessions_getSession>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/session`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_sessions_getSession>
+        }
+
+        /**
+         * List the caller's API keys, without the keys themselves
+         */
+        public async listApiKeys(): Promise<ResponseType<typeof api_auth_api_keys_listApiKeys>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/api-keys`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_api_keys_listApiKeys>
+        }
+
+        /**
+         * List roles and the scopes they grant
+         */
+        public async listRoles(): Promise<ResponseType<typeof api_auth_roles_listRoles>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/roles`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_roles_listRoles>
+        }
+
+        /**
+         * End the caller's session
+         */
+        public async logout(): Promise<void> {
+            await this.baseClient.callTypedAPI(`/auth/logout`, {method: "POST", body: undefined})
+        }
+
+        /**
+         * Revoke one of the caller's API keys
+         */
+        public async revokeApiKey(params: { id: number }): Promise<ResponseType<typeof api_auth_api_keys_revokeApiKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/api-keys/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_api_keys_revokeApiKey>
+        }
+
+        /**
+         * Replace an API key with a new one carrying the same name, permissions and limits
+         */
+        public async rotateApiKey(params: RequestType<typeof api_auth_api_keys_rotateApiKey>): Promise<ResponseType<typeof api_auth_api_keys_rotateApiKey>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                graceSeconds: params.graceSeconds,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/api-keys/${encodeURIComponent(params.id)}/rotate`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_api_keys_rotateApiKey>
+        }
+
+        /**
+         * Replace a user's role assignments; an empty list falls back to the default roles
+         */
+        public async setUserRoles(params: RequestType<typeof api_auth_roles_setUserRoles>): Promise<ResponseType<typeof api_auth_roles_setUserRoles>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                roles: params.roles,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/users/${encodeURIComponent(params.userId)}/roles`, {method: "PUT", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_roles_setUserRoles>
+        }
+
+        /**
+         * Verify a signed SIWE message and start a session for its address
+         */
+        public async verifySiwe(params: RequestType<typeof api_auth_sessions_verifySiwe>): Promise<ResponseType<typeof api_auth_sessions_verifySiwe>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/auth/siwe/verify`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_auth_sessions_verifySiwe>
+        }
+    }
+}
+
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import {
+    getContractAbi as api_blockchain_abi_getContractAbi,
+    lookupSelector as api_blockchain_abi_lookupSelector
+} from "~backend/blockchain/abi";
+import {
+    getBlock as api_blockchain_blocks_getBlock,
+    listBlocks as api_blockchain_blocks_listBlocks,
+    syncBlocks as api_blockchain_blocks_syncBlocks
+} from "~backend/blockchain/blocks";
+import {
+    archiveContract as api_blockchain_contract_archive_archiveContract,
+    getContractDependencies as api_blockchain_contract_archive_getContractDependencies,
+    restoreContract as api_blockchain_contract_archive_restoreContract
+} from "~backend/blockchain/contract_archive";
+import {
+    callContract as api_blockchain_contract_calls_callContract
+} from "~backend/blockchain/contract_calls";
+import {
+    importContracts as api_blockchain_contract_import_importContracts
+} from "~backend/blockchain/contract_import";
+import {
+    diffContractVersions as api_blockchain_contract_versions_diffContractVersions,
+    getContractVersion as api_blockchain_contract_versions_getContractVersion,
+    listContractVersions as api_blockchain_contract_versions_listContractVersions
+} from "~backend/blockchain/contract_versions";
+import {
+    createEndpoint as api_blockchain_endpoints_createEndpoint,
+    deleteEndpoint as api_blockchain_endpoints_deleteEndpoint,
+    listEndpoints as api_blockchain_endpoints_listEndpoints,
+    updateEndpoint as api_blockchain_endpoints_updateEndpoint
+} from "~backend/blockchain/endpoints";
+import {
+    checkNetworkHealth as api_blockchain_health_checkNetworkHealth,
+    getNetworkHealth as api_blockchain_health_getNetworkHealth,
+    listNetworkHealth as api_blockchain_health_listNetworkHealth
+} from "~backend/blockchain/health";
 import {
     createNetwork as api_blockchain_networks_createNetwork,
+    deleteNetwork as api_blockchain_networks_deleteNetwork,
     getNetwork as api_blockchain_networks_getNetwork,
     listNetworks as api_blockchain_networks_listNetworks,
-    toggleNetworkStatus as api_blockchain_networks_toggleNetworkStatus
+    toggleNetworkStatus as api_blockchain_networks_toggleNetworkStatus,
+    updateNetwork as api_blockchain_networks_updateNetwork
 } from "~backend/blockchain/networks";
+import {
+    getContractProxy as api_blockchain_proxies_getContractProxy,
+    refreshContractProxy as api_blockchain_proxies_refreshContractProxy
+} from "~backend/blockchain/proxies";
+import {
+    exportNetworks as api_blockchain_registry_exportNetworks,
+    importNetworks as api_blockchain_registry_importNetworks
+} from "~backend/blockchain/registry";
 import {
     createContract as api_blockchain_smart_contracts_createContract,
     deleteContract as api_blockchain_smart_contracts_deleteContract,
@@ -200,6 +486,12 @@ import {
     listContracts as api_blockchain_smart_contracts_listContracts,
     updateContract as api_blockchain_smart_contracts_updateContract
 } from "~backend/blockchain/smart_contracts";
+import {
+    getContractSource as api_blockchain_verification_getContractSource,
+    getVerification as api_blockchain_verification_getVerification,
+    listVerifications as api_blockchain_verification_listVerifications,
+    verifyContract as api_blockchain_verification_verifyContract
+} from "~backend/blockchain/verification";
 
 export namespace blockchain {
 
@@ -208,15 +500,87 @@ export namespace blockchain {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
+            this.archiveContract = this.archiveContract.bind(this)
+            this.callContract = this.callContract.bind(this)
+            this.checkNetworkHealth = this.checkNetworkHealth.bind(this)
             this.createContract = this.createContract.bind(this)
+            this.createEndpoint = this.createEndpoint.bind(this)
             this.createNetwork = this.createNetwork.bind(this)
             this.deleteContract = this.deleteContract.bind(this)
+            this.deleteEndpoint = this.deleteEndpoint.bind(this)
+            this.deleteNetwork = this.deleteNetwork.bind(this)
+            this.diffContractVersions = this.diffContractVersions.bind(this)
+            this.exportNetworks = this.exportNetworks.bind(this)
+            this.getBlock = this.getBlock.bind(this)
             this.getContract = this.getContract.bind(this)
+            this.getContractAbi = this.getContractAbi.bind(this)
+            this.getContractDependencies = this.getContractDependencies.bind(this)
+            this.getContractProxy = this.getContractProxy.bind(this)
+            this.getContractSource = this.getContractSource.bind(this)
+            this.getContractVersion = this.getContractVersion.bind(this)
             this.getNetwork = this.getNetwork.bind(this)
+            this.getNetworkHealth = this.getNetworkHealth.bind(this)
+            this.getVerification = this.getVerification.bind(this)
+            this.importContracts = this.importContracts.bind(this)
+            this.importNetworks = this.importNetworks.bind(this)
+            this.listBlocks = this.listBlocks.bind(this)
+            this.listContractVersions = this.listContractVersions.bind(this)
             this.listContracts = this.listContracts.bind(this)
+            this.listEndpoints = this.listEndpoints.bind(this)
+            this.listNetworkHealth = this.listNetworkHealth.bind(this)
             this.listNetworks = this.listNetworks.bind(this)
+            this.listVerifications = this.listVerifications.bind(this)
+            this.lookupSelector = this.lookupSelector.bind(this)
+            this.refreshContractProxy = this.refreshContractProxy.bind(this)
+            this.restoreContract = this.restoreContract.bind(this)
+            this.syncBlocks = this.syncBlocks.bind(this)
             this.toggleNetworkStatus = this.toggleNetworkStatus.bind(this)
             this.updateContract = this.updateContract.bind(this)
+            this.updateEndpoint = this.updateEndpoint.bind(this)
+            this.updateNetwork = this.updateNetwork.bind(this)
+            this.verifyContract = this.verifyContract.bind(this)
+        }
+
+        /**
+         * Hide a contract from listings; cascade also archives its tokens
+         */
+        public async archiveContract(params: RequestType<typeof api_blockchain_contract_archive_archiveContract>): Promise<ResponseType<typeof api_blockchain_contract_archive_archiveContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                archivedBy: params.archivedBy,
+                cascade:    params.cascade,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/archive`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_archive_archiveContract>
+        }
+
+        /**
+         * ABI-encode a function call, run it with eth_call and decode the result.
+         * State-changing functions are simulated; nothing is sent to the chain.
+         */
+        public async callContract(params: RequestType<typeof api_blockchain_contract_calls_callContract>): Promise<ResponseType<typeof api_blockchain_contract_calls_callContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                args:     params.args,
+                blockTag: params.blockTag,
+                from:     params.from,
+                function: params.function,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/call`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_calls_callContract>
+        }
+
+        /**
+         * Probe a network's RPC immediately
+         */
+        public async checkNetworkHealth(params: { id: number }): Promise<ResponseType<typeof api_blockchain_health_checkNetworkHealth>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/health`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_health_checkNetworkHealth>
         }
 
         /**
@@ -228,6 +592,24 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_createContract>
         }
 
+        /**
+         * Add an RPC endpoint to a network
+         */
+        public async createEndpoint(params: RequestType<typeof api_blockchain_endpoints_createEndpoint>): Promise<ResponseType<typeof api_blockchain_endpoints_createEndpoint>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                priority:           params.priority,
+                rateLimitPerSecond: params.rateLimitPerSecond,
+                role:               params.role,
+                url:                params.url,
+                weight:             params.weight,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/endpoints`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_endpoints_createEndpoint>
+        }
+
         /**
          * Create a new blockchain network
          */
@@ -238,46 +620,290 @@ export namespace blockchain {
         }
 
         /**
-         * Delete a smart contract
+         * Soft-delete a smart contract
+         */
+        public async deleteContract(params: { id: number, cascade?: boolean }): Promise<void> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                cascade: params.cascade === undefined ? undefined : String(params.cascade),
+            })
+
+            await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}`, {query, method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Remove an RPC endpoint from a network
+         */
+        public async deleteEndpoint(params: { id: number, endpointId: number }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/endpoints/${encodeURIComponent(params.endpointId)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Delete a network that nothing references any more.
+         * Health history and RPC endpoints are removed along with it.
+         */
+        public async deleteNetwork(params: { id: number }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Functions and events added, removed or changed between two versions, with breaking changes
+         */
+        public async diffContractVersions(params: RequestType<typeof api_blockchain_contract_versions_diffContractVersions>): Promise<ResponseType<typeof api_blockchain_contract_versions_diffContractVersions>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from: params.from === undefined ? undefined : String(params.from),
+                to:   params.to === undefined ? undefined : String(params.to),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/version-diff`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_versions_diffContractVersions>
+        }
+
+        /**
+         * Export all networks as a chainlist-style document
+         */
+        public async exportNetworks(): Promise<ResponseType<typeof api_blockchain_registry_exportNetworks>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/registry/export`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_registry_exportNetworks>
+        }
+
+        /**
+         * A single block header by number or hash
+         */
+        public async getBlock(params: { id: number, block: string }): Promise<ResponseType<typeof api_blockchain_blocks_getBlock>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/blocks/${encodeURIComponent(params.block)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_blocks_getBlock>
+        }
+
+        /**
+         * Get a specific smart contract by ID
+         */
+        public async getContract(params: { id: number }): Promise<ResponseType<typeof api_blockchain_smart_contracts_getContract>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_getContract>
+        }
+
+        /**
+         * Structured functions, events and errors of a contract's ABI
+         */
+        public async getContractAbi(params: { id: number }): Promise<ResponseType<typeof api_blockchain_abi_getContractAbi>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/abi`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_abi_getContractAbi>
+        }
+
+        /**
+         * Tokens, NFTs, events and transactions that reference a contract
+         */
+        public async getContractDependencies(params: { id: number }): Promise<ResponseType<typeof api_blockchain_contract_archive_getContractDependencies>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/dependencies`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_archive_getContractDependencies>
+        }
+
+        /**
+         * Proxy type, current implementation and upgrade history of a contract
+         */
+        public async getContractProxy(params: { id: number }): Promise<ResponseType<typeof api_blockchain_proxies_getContractProxy>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/proxy`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_proxies_getContractProxy>
+        }
+
+        /**
+         * Verified sources of a contract: the latest successful verification
+         */
+        public async getContractSource(params: { id: number }): Promise<ResponseType<typeof api_blockchain_verification_getContractSource>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/source`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_verification_getContractSource>
+        }
+
+        /**
+         * A single version snapshot with its ABI and bytecode
+         */
+        public async getContractVersion(params: { id: number, versionNumber: number }): Promise<ResponseType<typeof api_blockchain_contract_versions_getContractVersion>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/versions/${encodeURIComponent(params.versionNumber)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_versions_getContractVersion>
+        }
+
+        /**
+         * Get a specific network by ID
+         */
+        public async getNetwork(params: { id: number }): Promise<ResponseType<typeof api_blockchain_networks_getNetwork>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_networks_getNetwork>
+        }
+
+        /**
+         * Latest health check and recent history for a network
+         */
+        public async getNetworkHealth(params: RequestType<typeof api_blockchain_health_getNetworkHealth>): Promise<ResponseType<typeof api_blockchain_health_getNetworkHealth>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                limit: params.limit === undefined ? undefined : String(params.limit),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/health`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_health_getNetworkHealth>
+        }
+
+        /**
+         * A verification attempt with its sources and compiler settings
+         */
+        public async getVerification(params: { id: number }): Promise<ResponseType<typeof api_blockchain_verification_getVerification>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/verifications/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_verification_getVerification>
+        }
+
+        /**
+         * Create or update contracts from Hardhat/Foundry artifacts and deployment records
+         */
+        public async importContracts(params: RequestType<typeof api_blockchain_contract_import_importContracts>): Promise<ResponseType<typeof api_blockchain_contract_import_importContracts>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/artifacts/import`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_import_importContracts>
+        }
+
+        /**
+         * Upsert networks by chainId from a chainlist-style document
+         */
+        public async importNetworks(params: RequestType<typeof api_blockchain_registry_importNetworks>): Promise<ResponseType<typeof api_blockchain_registry_importNetworks>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/registry/import`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_registry_importNetworks>
+        }
+
+        /**
+         * Recent block headers for a network, newest first
+         */
+        public async listBlocks(params: RequestType<typeof api_blockchain_blocks_listBlocks>): Promise<ResponseType<typeof api_blockchain_blocks_listBlocks>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                before: params.before === undefined ? undefined : String(params.before),
+                limit:  params.limit === undefined ? undefined : String(params.limit),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/blocks`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_blocks_listBlocks>
+        }
+
+        /**
+         * Version timeline of a contract with a change summary per version
+         */
+        public async listContractVersions(params: { id: number }): Promise<ResponseType<typeof api_blockchain_contract_versions_listContractVersions>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/versions`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_versions_listContractVersions>
+        }
+
+        /**
+         * List all smart contracts (with pagination); archived ones only when asked for
+         */
+        public async listContracts(params: RequestType<typeof api_blockchain_smart_contracts_listContracts>): Promise<ResponseType<typeof api_blockchain_smart_contracts_listContracts>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                includeArchived: params.includeArchived === undefined ? undefined : String(params.includeArchived),
+                page:            params.page === undefined ? undefined : String(params.page),
+                perPage:         params.perPage === undefined ? undefined : String(params.perPage),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_listContracts>
+        }
+
+        /**
+         * List the RPC endpoints configured for a network
+         */
+        public async listEndpoints(params: { id: number }): Promise<ResponseType<typeof api_blockchain_endpoints_listEndpoints>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/endpoints`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_endpoints_listEndpoints>
+        }
+
+        /**
+         * Latest health check for every network
+         */
+        public async listNetworkHealth(): Promise<ResponseType<typeof api_blockchain_health_listNetworkHealth>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/health/networks`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_health_listNetworkHealth>
+        }
+
+        /**
+         * List all blockchain networks
+         */
+        public async listNetworks(): Promise<ResponseType<typeof api_blockchain_networks_listNetworks>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_networks_listNetworks>
+        }
+
+        /**
+         * Verification attempts of a contract, newest first
          */
-        public async deleteContract(params: { id: number }): Promise<void> {
-            await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        public async listVerifications(params: { id: number }): Promise<ResponseType<typeof api_blockchain_verification_listVerifications>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/verifications`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_verification_listVerifications>
         }
 
         /**
-         * Get a specific smart contract by ID
+         * Find the contracts whose ABI declares a selector or event topic
          */
-        public async getContract(params: { id: number }): Promise<ResponseType<typeof api_blockchain_smart_contracts_getContract>> {
+        public async lookupSelector(params: RequestType<typeof api_blockchain_abi_lookupSelector>): Promise<ResponseType<typeof api_blockchain_abi_lookupSelector>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                address:   params.address,
+                networkId: params.networkId === undefined ? undefined : String(params.networkId),
+            })
+
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
-            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_getContract>
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/abi/selectors/${encodeURIComponent(params.selector)}`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_abi_lookupSelector>
         }
 
         /**
-         * Get a specific network by ID
+         * Re-read the proxy slots of a contract and scan for new Upgraded events
          */
-        public async getNetwork(params: { id: number }): Promise<ResponseType<typeof api_blockchain_networks_getNetwork>> {
+        public async refreshContractProxy(params: { id: number }): Promise<ResponseType<typeof api_blockchain_proxies_refreshContractProxy>> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}`, {method: "GET", body: undefined})
-            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_networks_getNetwork>
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/proxy/refresh`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_proxies_refreshContractProxy>
         }
 
         /**
-         * List all smart contracts
+         * Bring an archived contract back; cascade also restores the tokens archived with it
          */
-        public async listContracts(): Promise<ResponseType<typeof api_blockchain_smart_contracts_listContracts>> {
+        public async restoreContract(params: RequestType<typeof api_blockchain_contract_archive_restoreContract>): Promise<ResponseType<typeof api_blockchain_contract_archive_restoreContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                cascade: params.cascade,
+            }
+
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts`, {method: "GET", body: undefined})
-            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_listContracts>
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/restore`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contract_archive_restoreContract>
         }
 
         /**
-         * List all blockchain networks
+         * Ingest new blocks for a network immediately
          */
-        public async listNetworks(): Promise<ResponseType<typeof api_blockchain_networks_listNetworks>> {
+        public async syncBlocks(params: { id: number }): Promise<ResponseType<typeof api_blockchain_blocks_syncBlocks>> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks`, {method: "GET", body: undefined})
-            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_networks_listNetworks>
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/blocks/sync`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_blocks_syncBlocks>
         }
 
         /**
@@ -295,16 +921,75 @@ export namespace blockchain {
         public async updateContract(params: RequestType<typeof api_blockchain_smart_contracts_updateContract>): Promise<ResponseType<typeof api_blockchain_smart_contracts_updateContract>> {
             // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
             const body: Record<string, any> = {
-                abi:        params.abi,
-                isVerified: params.isVerified,
-                name:       params.name,
-                version:    params.version,
+                abi:       params.abi,
+                changedBy: params.changedBy,
+                name:      params.name,
+                version:   params.version,
             }
 
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}`, {method: "PATCH", body: JSON.stringify(body)})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_smart_contracts_updateContract>
         }
+
+        /**
+         * Update an RPC endpoint
+         */
+        public async updateEndpoint(params: RequestType<typeof api_blockchain_endpoints_updateEndpoint>): Promise<ResponseType<typeof api_blockchain_endpoints_updateEndpoint>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                isActive:           params.isActive,
+                priority:           params.priority,
+                rateLimitPerSecond: params.rateLimitPerSecond,
+                role:               params.role,
+                url:                params.url,
+                weight:             params.weight,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}/endpoints/${encodeURIComponent(params.endpointId)}`, {method: "PATCH", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_endpoints_updateEndpoint>
+        }
+
+        /**
+         * Update a network's configuration and metadata
+         */
+        public async updateNetwork(params: RequestType<typeof api_blockchain_networks_updateNetwork>): Promise<ResponseType<typeof api_blockchain_networks_updateNetwork>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                blockTimeTargetMs:      params.blockTimeTargetMs,
+                chainId:                params.chainId,
+                confirmationDepth:      params.confirmationDepth,
+                description:            params.description,
+                explorerUrl:            params.explorerUrl,
+                isTestnet:              params.isTestnet,
+                name:                   params.name,
+                nativeCurrency:         params.nativeCurrency,
+                nativeCurrencyDecimals: params.nativeCurrencyDecimals,
+                rpcUrl:                 params.rpcUrl,
+                supportsEip1559:        params.supportsEip1559,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/networks/${encodeURIComponent(params.id)}`, {method: "PATCH", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_networks_updateNetwork>
+        }
+
+        /**
+         * Submit Solidity standard-JSON input for verification against the deployed bytecode
+         */
+        public async verifyContract(params: RequestType<typeof api_blockchain_verification_verifyContract>): Promise<ResponseType<typeof api_blockchain_verification_verifyContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                compilerVersion: params.compilerVersion,
+                contractName:    params.contractName,
+                input:           params.input,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/blockchain/contracts/${encodeURIComponent(params.id)}/verifications`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_verification_verifyContract>
+        }
     }
 }
 
@@ -529,6 +1214,173 @@ export namespace nft {
     }
 }
 
+/**
+ * Import the endpoint handlers to derive the types for the client.
+ */
+import {
+    acceptInvitation as api_org_invitations_acceptInvitation,
+    createInvitation as api_org_invitations_createInvitation,
+    listInvitations as api_org_invitations_listInvitations,
+    listMyInvitations as api_org_invitations_listMyInvitations,
+    revokeInvitation as api_org_invitations_revokeInvitation
+} from "~backend/org/invitations";
+import {
+    createOrganization as api_org_organizations_createOrganization,
+    listMembers as api_org_organizations_listMembers,
+    listOrganizations as api_org_organizations_listOrganizations,
+    removeMember as api_org_organizations_removeMember,
+    updateMemberRole as api_org_organizations_updateMemberRole
+} from "~backend/org/organizations";
+import {
+    createProject as api_org_projects_createProject,
+    listProjects as api_org_projects_listProjects
+} from "~backend/org/projects";
+
+export namespace org {
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.acceptInvitation = this.acceptInvitation.bind(this)
+            this.createInvitation = this.createInvitation.bind(this)
+            this.createOrganization = this.createOrganization.bind(this)
+            this.createProject = this.createProject.bind(this)
+            this.listInvitations = this.listInvitations.bind(this)
+            this.listMembers = this.listMembers.bind(this)
+            this.listMyInvitations = this.listMyInvitations.bind(this)
+            this.listOrganizations = this.listOrganizations.bind(this)
+            this.listProjects = this.listProjects.bind(this)
+            this.removeMember = this.removeMember.bind(this)
+            this.revokeInvitation = this.revokeInvitation.bind(this)
+            this.updateMemberRole = this.updateMemberRole.bind(this)
+        }
+
+        /**
+         * Accept an invitation addressed to the caller
+         */
+        public async acceptInvitation(params: { id: number }): Promise<ResponseType<typeof api_org_invitations_acceptInvitation>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/invitations/${encodeURIComponent(params.id)}/accept`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_invitations_acceptInvitation>
+        }
+
+        /**
+         * Invite an address to an organization
+         */
+        public async createInvitation(params: RequestType<typeof api_org_invitations_createInvitation>): Promise<ResponseType<typeof api_org_invitations_createInvitation>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                expiresInDays: params.expiresInDays,
+                invitee:       params.invitee,
+                role:          params.role,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/invitations`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_invitations_createInvitation>
+        }
+
+        /**
+         * Create an organization owned by the caller, with a default project
+         */
+        public async createOrganization(params: RequestType<typeof api_org_organizations_createOrganization>): Promise<ResponseType<typeof api_org_organizations_createOrganization>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_organizations_createOrganization>
+        }
+
+        /**
+         * Create a project in an organization
+         */
+        public async createProject(params: RequestType<typeof api_org_projects_createProject>): Promise<ResponseType<typeof api_org_projects_createProject>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                name: params.name,
+                slug: params.slug,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/projects`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_projects_createProject>
+        }
+
+        /**
+         * List an organization's pending invitations
+         */
+        public async listInvitations(params: { id: number }): Promise<ResponseType<typeof api_org_invitations_listInvitations>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/invitations`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_invitations_listInvitations>
+        }
+
+        /**
+         * List an organization's members
+         */
+        public async listMembers(params: { id: number }): Promise<ResponseType<typeof api_org_organizations_listMembers>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/members`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_organizations_listMembers>
+        }
+
+        /**
+         * List invitations addressed to the caller
+         */
+        public async listMyInvitations(): Promise<ResponseType<typeof api_org_invitations_listMyInvitations>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/invitations`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_invitations_listMyInvitations>
+        }
+
+        /**
+         * List the organizations the caller belongs to
+         */
+        public async listOrganizations(): Promise<ResponseType<typeof api_org_organizations_listOrganizations>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_organizations_listOrganizations>
+        }
+
+        /**
+         * List every project the caller can act in; pick one with the X-Project-Id header
+         */
+        public async listProjects(): Promise<ResponseType<typeof api_org_projects_listProjects>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/projects`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_projects_listProjects>
+        }
+
+        /**
+         * Remove a member, or leave the organization when removing yourself
+         */
+        public async removeMember(params: { id: number, userId: string }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/members/${encodeURIComponent(params.userId)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Revoke an invitation, or decline one addressed to the caller
+         */
+        public async revokeInvitation(params: { id: number }): Promise<void> {
+            await this.baseClient.callTypedAPI(`/org/invitations/${encodeURIComponent(params.id)}`, {method: "DELETE", body: undefined})
+        }
+
+        /**
+         * Change a member's role; only owners can grant or take away ownership
+         */
+        public async updateMemberRole(params: RequestType<typeof api_org_organizations_updateMemberRole>): Promise<ResponseType<typeof api_org_organizations_updateMemberRole>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                role: params.role,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/org/organizations/${encodeURIComponent(params.id)}/members/${encodeURIComponent(params.userId)}`, {method: "PATCH", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_org_organizations_updateMemberRole>
+        }
+    }
+}
+
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
@@ -718,6 +1570,31 @@ export namespace transaction {
 /**
  * Import the endpoint handlers to derive the types for the client.
  */
+import {
+    previewContractWrite as api_wallet_contract_writes_previewContractWrite,
+    writeContract as api_wallet_contract_writes_writeContract
+} from "~backend/wallet/contract_writes";
+import {
+    deployContract as api_wallet_deployments_deployContract
+} from "~backend/wallet/deployments";
+import {
+    createHdSeed as api_wallet_hd_wallets_createHdSeed,
+    deriveNextHdWallet as api_wallet_hd_wallets_deriveNextHdWallet,
+    listHdSeeds as api_wallet_hd_wallets_listHdSeeds
+} from "~backend/wallet/hd_wallets";
+import {
+    getMasterKeyStatus as api_wallet_key_rotation_getMasterKeyStatus,
+    rotateMasterKey as api_wallet_key_rotation_rotateMasterKey
+} from "~backend/wallet/key_rotation";
+import {
+    exportKeystore as api_wallet_keystores_exportKeystore,
+    importKeystore as api_wallet_keystores_importKeystore
+} from "~backend/wallet/keystores";
+import {
+    signMessage as api_wallet_signing_signMessage,
+    signTypedData as api_wallet_signing_signTypedData,
+    verifySignature as api_wallet_signing_verifySignature
+} from "~backend/wallet/signing";
 import {
     createWallet as api_wallet_wallet_createWallet,
     getWallet as api_wallet_wallet_getWallet,
@@ -733,15 +1610,37 @@ export namespace wallet {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
+            this.createHdSeed = this.createHdSeed.bind(this)
             this.createWallet = this.createWallet.bind(this)
+            this.deployContract = this.deployContract.bind(this)
+            this.deriveNextHdWallet = this.deriveNextHdWallet.bind(this)
+            this.exportKeystore = this.exportKeystore.bind(this)
+            this.getMasterKeyStatus = this.getMasterKeyStatus.bind(this)
             this.getWallet = this.getWallet.bind(this)
             this.getWalletBalance = this.getWalletBalance.bind(this)
+            this.importKeystore = this.importKeystore.bind(this)
+            this.listHdSeeds = this.listHdSeeds.bind(this)
             this.listWallets = this.listWallets.bind(this)
+            this.previewContractWrite = this.previewContractWrite.bind(this)
+            this.rotateMasterKey = this.rotateMasterKey.bind(this)
+            this.signMessage = this.signMessage.bind(this)
+            this.signTypedData = this.signTypedData.bind(this)
             this.updateWalletLastUsed = this.updateWalletLastUsed.bind(this)
+            this.verifySignature = this.verifySignature.bind(this)
+            this.writeContract = this.writeContract.bind(this)
+        }
+
+        /**
+         * Generate a new mnemonic and derive its first custodial wallet
+         */
+        public async createHdSeed(params: RequestType<typeof api_wallet_hd_wallets_createHdSeed>): Promise<ResponseType<typeof api_wallet_hd_wallets_createHdSeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets/hd-seeds`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_hd_wallets_createHdSeed>
         }
 
         /**
-         * Create a new wallet
+         * Create a new wallet for the caller
          */
         public async createWallet(params: RequestType<typeof api_wallet_wallet_createWallet>): Promise<ResponseType<typeof api_wallet_wallet_createWallet>> {
             // Now make the actual call to the API
@@ -749,6 +1648,59 @@ export namespace wallet {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_wallet_createWallet>
         }
 
+        /**
+         * Deploy a contract from a custodial wallet, wait for it to be mined and register it
+         */
+        public async deployContract(params: RequestType<typeof api_wallet_deployments_deployContract>): Promise<ResponseType<typeof api_wallet_deployments_deployContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                abi:             params.abi,
+                bytecode:        params.bytecode,
+                constructorArgs: params.constructorArgs,
+                contractType:    params.contractType,
+                name:            params.name,
+                networkId:       params.networkId,
+                value:           params.value,
+                version:         params.version,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/deployments`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_deployments_deployContract>
+        }
+
+        /**
+         * Derive the next account of one of the caller's seeds as a new custodial wallet
+         */
+        public async deriveNextHdWallet(params: RequestType<typeof api_wallet_hd_wallets_deriveNextHdWallet>): Promise<ResponseType<typeof api_wallet_hd_wallets_deriveNextHdWallet>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets/hd-next`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_hd_wallets_deriveNextHdWallet>
+        }
+
+        /**
+         * Export a custodial wallet as a V3 keystore encrypted under a new password
+         */
+        public async exportKeystore(params: RequestType<typeof api_wallet_keystores_exportKeystore>): Promise<ResponseType<typeof api_wallet_keystores_exportKeystore>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                password: params.password,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/keystore`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_keystores_exportKeystore>
+        }
+
+        /**
+         * Count sealed keys per master key
+         */
+        public async getMasterKeyStatus(): Promise<ResponseType<typeof api_wallet_key_rotation_getMasterKeyStatus>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/master-keys`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_key_rotation_getMasterKeyStatus>
+        }
+
         /**
          * Get a specific wallet by address
          */
@@ -768,25 +1720,119 @@ export namespace wallet {
         }
 
         /**
-         * List all wallets for a user
+         * Import a V3 keystore as a custodial wallet
          */
-        public async listWallets(params: RequestType<typeof api_wallet_wallet_listWallets>): Promise<ResponseType<typeof api_wallet_wallet_listWallets>> {
-            // Convert our params into the objects we need for the request
-            const query = makeRecord<string, string | string[]>({
-                userId: params.userId,
-            })
+        public async importKeystore(params: RequestType<typeof api_wallet_keystores_importKeystore>): Promise<ResponseType<typeof api_wallet_keystores_importKeystore>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets/keystore`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_keystores_importKeystore>
+        }
+
+        /**
+         * List the caller's HD seeds
+         */
+        public async listHdSeeds(): Promise<ResponseType<typeof api_wallet_hd_wallets_listHdSeeds>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets/hd-seeds`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_hd_wallets_listHdSeeds>
+        }
 
+        /**
+         * List the caller's wallets
+         */
+        public async listWallets(): Promise<ResponseType<typeof api_wallet_wallet_listWallets>> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets`, {query, method: "GET", body: undefined})
+            const resp = await this.baseClient.callTypedAPI(`/wallet/wallets`, {method: "GET", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_wallet_listWallets>
         }
 
+        /**
+         * Build a contract write for a custodial wallet without signing it, for confirmation
+         */
+        public async previewContractWrite(params: RequestType<typeof api_wallet_contract_writes_previewContractWrite>): Promise<ResponseType<typeof api_wallet_contract_writes_previewContractWrite>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                args:       params.args,
+                contractId: params.contractId,
+                function:   params.function,
+                value:      params.value,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/contract-writes/preview`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_contract_writes_previewContractWrite>
+        }
+
+        /**
+         * Re-wrap data keys sealed under older master keys with the current one
+         */
+        public async rotateMasterKey(params: RequestType<typeof api_wallet_key_rotation_rotateMasterKey>): Promise<ResponseType<typeof api_wallet_key_rotation_rotateMasterKey>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/master-keys/rotate`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_key_rotation_rotateMasterKey>
+        }
+
+        /**
+         * Sign a message with EIP-191 personal_sign using the wallet's custodial key
+         */
+        public async signMessage(params: RequestType<typeof api_wallet_signing_signMessage>): Promise<ResponseType<typeof api_wallet_signing_signMessage>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                encoding: params.encoding,
+                message:  params.message,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/sign/message`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_signing_signMessage>
+        }
+
+        /**
+         * Sign EIP-712 typed data (eth_signTypedData_v4) using the wallet's custodial key
+         */
+        public async signTypedData(params: RequestType<typeof api_wallet_signing_signTypedData>): Promise<ResponseType<typeof api_wallet_signing_signTypedData>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                typedData: params.typedData,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/sign/typed-data`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_signing_signTypedData>
+        }
+
         /**
          * Update wallet last used timestamp
          */
         public async updateWalletLastUsed(params: { address: string }): Promise<void> {
             await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/update-usage`, {method: "PATCH", body: undefined})
         }
+
+        /**
+         * Recover the signer of a personal_sign message or EIP-712 typed data
+         */
+        public async verifySignature(params: RequestType<typeof api_wallet_signing_verifySignature>): Promise<ResponseType<typeof api_wallet_signing_verifySignature>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/verify`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_signing_verifySignature>
+        }
+
+        /**
+         * Sign a contract write with a custodial wallet's key, broadcast it and record it as pending
+         */
+        public async writeContract(params: RequestType<typeof api_wallet_contract_writes_writeContract>): Promise<ResponseType<typeof api_wallet_contract_writes_writeContract>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                args:       params.args,
+                contractId: params.contractId,
+                function:   params.function,
+                value:      params.value,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/wallet/${encodeURIComponent(params.address)}/contract-writes`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_wallet_contract_writes_writeContract>
+        }
     }
 }
 
@@ -1048,6 +2094,17 @@ type CallParameters = Omit<RequestInit, "headers"> & {
 // A fetcher is the prototype for the inbuilt Fetch function
 export type Fetcher = typeof fetch;
 
+/**
+ * Import the auth handler to be able to derive the auth type
+ */
+import type { auth as api_auth_auth_auth } from "~backend/auth/auth";
+
+// AuthDataGenerator is a function that returns a new instance of the authentication data required by this API
+export type AuthDataGenerator = () =>
+  | RequestType<typeof api_auth_auth_auth>
+  | Promise<RequestType<typeof api_auth_auth_auth> | undefined>
+  | undefined;
+
 const boundFetch = fetch.bind(this);
 
 class BaseClient {
@@ -1055,6 +2112,7 @@ class BaseClient {
     readonly fetcher: Fetcher
     readonly headers: Record<string, string>
     readonly requestInit: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+    readonly authGenerator?: AuthDataGenerator
 
     constructor(baseURL: string, options: ClientOptions) {
         this.baseURL = baseURL
@@ -1074,9 +2132,42 @@ class BaseClient {
         } else {
             this.fetcher = boundFetch
         }
+
+        // Setup an authentication data generator using the auth data token option
+        if (options.auth !== undefined) {
+            const auth = options.auth
+            if (typeof auth === "function") {
+                this.authGenerator = auth
+            } else {
+                this.authGenerator = () => auth
+            }
+        }
     }
 
     async getAuthData(): Promise<CallParameters | undefined> {
+        let authData: RequestType<typeof api_auth_auth_auth> | undefined;
+
+        // If authorization data generator is present, call it and add the returned data to the request
+        if (this.authGenerator) {
+            const mayBePromise = this.authGenerator();
+            if (mayBePromise instanceof Promise) {
+                authData = await mayBePromise;
+            } else {
+                authData = mayBePromise;
+            }
+        }
+
+        if (authData) {
+            const data: CallParameters = {};
+
+            data.headers = makeRecord<string, string>({
+                authorization:  authData.authorization,
+                "x-project-id": authData.projectId,
+            });
+
+            return data;
+        }
+
         return undefined;
     }
 
@@ -1483,4 +2574,6 @@ export enum ErrCode {
     Unauthenticated = "unauthenticated",
 }
 
-export default new Client(import.meta.env.VITE_CLIENT_TARGET, { requestInit: { credentials: "include" } });
+import { sessionAuth } from "@/lib/session";
+
+export default new Client(import.meta.env.VITE_CLIENT_TARGET, { requestInit: { credentials: "include" }, auth: sessionAuth });
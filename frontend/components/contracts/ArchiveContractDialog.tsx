@@ -0,0 +1,131 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { SmartContract } from '~backend/blockchain/smart_contracts';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ArchiveContractDialogProps {
+  contract: SmartContract | null;
+  onClose: () => void;
+}
+
+export default function ArchiveContractDialog({ contract, onClose }: ArchiveContractDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['contract-dependencies', contract?.id],
+    queryFn: () => backend.blockchain.getContractDependencies({ id: contract!.id }),
+    enabled: contract !== null,
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: (cascade: boolean) => backend.blockchain.archiveContract({ id: contract!.id, cascade }),
+    onSuccess: (result) => {
+      toast({
+        title: 'Contract archived',
+        description: result.archivedTokenIds.length > 0
+          ? `${result.archivedTokenIds.length} token(s) archived, ${result.cancelledListings} listing(s) cancelled`
+          : 'The contract is hidden from the contract list.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      queryClient.invalidateQueries({ queryKey: ['tokens'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to archive contract',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const activeTokens = report?.tokens.filter((token) => !token.archivedAt) ?? [];
+
+  return (
+    <Dialog open={contract !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Archive {contract?.name}</DialogTitle>
+          <DialogDescription>
+            Archived contracts are hidden from the contract list and can no longer be written to.
+            Events and transactions are kept; the contract can be restored later.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !report ? (
+          <div>Loading dependencies...</div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-muted-foreground">Events</div>
+                <div className="font-mono">{report.eventCount}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Transactions</div>
+                <div className="font-mono">
+                  {report.transactionCount}
+                  {report.pendingTransactionCount > 0 && ` (${report.pendingTransactionCount} pending)`}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Proxies using it</div>
+                <div className="font-mono">{report.proxies.length}</div>
+              </div>
+            </div>
+
+            {report.tokens.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="font-semibold">Tokens</h4>
+                {report.tokens.map((token) => (
+                  <div key={token.id} className="flex items-center justify-between text-xs">
+                    <span>{token.name} ({token.symbol})</span>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-muted-foreground">
+                        {token.nftCount} NFTs · {token.activeListings} active listings
+                      </span>
+                      {token.archivedAt ? <Badge variant="outline">Archived</Badge> : <Badge>{token.tokenType}</Badge>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.blockers.map((blocker) => (
+              <p key={blocker} className="text-xs text-destructive">{blocker}</p>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => archiveMutation.mutate(false)}
+            disabled={!report || report.blockers.length > 0 || archiveMutation.isPending}
+          >
+            Archive
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => archiveMutation.mutate(true)}
+            disabled={!report || activeTokens.length === 0 || archiveMutation.isPending}
+          >
+            Archive with {activeTokens.length} token(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
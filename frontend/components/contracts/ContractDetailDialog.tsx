@@ -0,0 +1,121 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { SmartContract } from '~backend/blockchain/smart_contracts';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import ProxyTab from './ProxyTab';
+import ReadContractTab from './ReadContractTab';
+import SourceTab from './SourceTab';
+import VersionsTab from './VersionsTab';
+import WriteContractTab from './WriteContractTab';
+
+interface ContractDetailDialogProps {
+  contract: SmartContract | null;
+  onClose: () => void;
+}
+
+export default function ContractDetailDialog({ contract, onClose }: ContractDetailDialogProps) {
+  const { data: abi, isLoading, error } = useQuery({
+    queryKey: ['contract-abi', contract?.id],
+    queryFn: () => backend.blockchain.getContractAbi({ id: contract!.id }),
+    enabled: contract !== null,
+  });
+
+  return (
+    <Dialog open={contract !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{contract?.name}</DialogTitle>
+          <DialogDescription className="font-mono text-xs">{contract?.address}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div>Loading ABI...</div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load the contract ABI'}
+          </p>
+        ) : abi && contract && (
+          <Tabs defaultValue="overview" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="read">Read Contract</TabsTrigger>
+              <TabsTrigger value="write">Write Contract</TabsTrigger>
+              <TabsTrigger value="source">Source</TabsTrigger>
+              <TabsTrigger value="versions">Versions</TabsTrigger>
+              <TabsTrigger value="proxy">Proxy</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview" className="max-h-[60vh] overflow-auto space-y-4">
+              {abi.implementationContractId && (
+                <p className="text-xs text-muted-foreground">
+                  Proxy: functions and events come from the implementation contract #{abi.implementationContractId}.
+                </p>
+              )}
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Functions ({abi.functions.length})</h4>
+                {abi.functions.map((fn) => (
+                  <div key={fn.signature} className="flex items-center justify-between text-xs">
+                    <span className="font-mono truncate">{fn.signature}</span>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{fn.stateMutability}</Badge>
+                      <span className="font-mono text-muted-foreground">{fn.selector}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold">Events ({abi.events.length})</h4>
+                {abi.events.map((event) => (
+                  <div key={event.signature} className="text-xs">
+                    <div className="font-mono">{event.signature}</div>
+                    <div className="font-mono text-muted-foreground truncate">{event.topic0}</div>
+                  </div>
+                ))}
+              </div>
+              {abi.errors.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-semibold">Errors ({abi.errors.length})</h4>
+                  {abi.errors.map((err) => (
+                    <div key={err.signature} className="flex items-center justify-between text-xs">
+                      <span className="font-mono">{err.signature}</span>
+                      <span className="font-mono text-muted-foreground">{err.selector}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="read">
+              <ReadContractTab contractId={contract.id} functions={abi.functions} />
+            </TabsContent>
+
+            <TabsContent value="write">
+              <WriteContractTab contractId={contract.id} functions={abi.functions} />
+            </TabsContent>
+
+            <TabsContent value="source">
+              <SourceTab contractId={contract.id} contractName={contract.name} />
+            </TabsContent>
+
+            <TabsContent value="versions">
+              <VersionsTab contractId={contract.id} />
+            </TabsContent>
+
+            <TabsContent value="proxy">
+              <ProxyTab contractId={contract.id} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
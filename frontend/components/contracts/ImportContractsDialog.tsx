@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { BuildFile } from '~backend/chain/artifacts';
+import type { ImportContractsResponse } from '~backend/blockchain/contract_import';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ImportContractsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Only artifacts and deployment records are sent; debug output and dependencies are left out.
+const isBuildFile = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  if (name === '.chainId') return true;
+  return name.endsWith('.json')
+    && !name.endsWith('.dbg.json')
+    && !path.includes('build-info/')
+    && !path.includes('node_modules/');
+};
+
+const readBuildFiles = async (fileList: FileList): Promise<BuildFile[]> => {
+  const files = Array.from(fileList)
+    .map((file) => ({ file, path: file.webkitRelativePath || file.name }))
+    .filter(({ path }) => isBuildFile(path));
+  return Promise.all(files.map(async ({ file, path }) => ({ path, content: await file.text() })));
+};
+
+export default function ImportContractsDialog({ open, onOpenChange }: ImportContractsDialogProps) {
+  const [files, setFiles] = useState<BuildFile[]>([]);
+  const [preview, setPreview] = useState<ImportContractsResponse | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => backend.blockchain.importContracts({ files, dryRun }),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: 'Import complete',
+        description: `${result.created.length} created, ${result.updated.length} updated, ${result.skipped.length} skipped`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Failed to import contracts:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import contracts',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFiles([]);
+      setPreview(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList) return;
+    setFiles(await readBuildFiles(fileList));
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Contracts</DialogTitle>
+          <DialogDescription>
+            Upload Hardhat or Foundry build output: artifacts/ or out/ for ABIs and bytecode, and
+            deployments/, ignition/deployments/ or broadcast/ for addresses. Contracts are matched by
+            chain ID and address; preview the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="artifactFolder">Project or build folder</Label>
+              <Input
+                id="artifactFolder"
+                type="file"
+                multiple
+                {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="artifactFiles">Or individual files</Label>
+              <Input
+                id="artifactFiles"
+                type="file"
+                multiple
+                accept="application/json,.json,.chainId"
+                onChange={(e) => handleFiles(e.target.files)}
+              />
+            </div>
+          </div>
+          {files.length > 0 && (
+            <p className="text-sm text-muted-foreground">{files.length} build files selected.</p>
+          )}
+
+          {preview && (
+            <div className="max-h-64 overflow-auto space-y-2 border-t pt-4 text-sm">
+              {preview.created.map((contract) => (
+                <div key={`created-${contract.networkId}-${contract.address}`} className="flex items-center space-x-2">
+                  <Badge className="bg-green-100 text-green-800">Create</Badge>
+                  <span>{contract.name}</span>
+                  <span className="font-mono text-xs text-muted-foreground truncate">{contract.address}</span>
+                  <span className="font-mono text-muted-foreground">#{contract.chainId}</span>
+                </div>
+              ))}
+              {preview.updated.map((contract) => (
+                <div key={`updated-${contract.networkId}-${contract.address}`} className="flex items-center space-x-2">
+                  <Badge className="bg-blue-100 text-blue-800">Update</Badge>
+                  <span>{contract.name}</span>
+                  <span className="font-mono text-muted-foreground">#{contract.chainId}</span>
+                  <span className="text-muted-foreground">{contract.changes?.join(', ')}</span>
+                </div>
+              ))}
+              {preview.skipped.map((skipped, index) => (
+                <div key={`skipped-${index}`} className="flex items-center space-x-2">
+                  <Badge variant="outline">Skip</Badge>
+                  <span className="truncate">{skipped.name ?? skipped.path}</span>
+                  <span className="text-muted-foreground">{skipped.reason}</span>
+                </div>
+              ))}
+              {preview.undeployedArtifacts.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No deployment found for: {preview.undeployedArtifacts.join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={files.length === 0 || importMutation.isPending}
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!preview || importMutation.isPending}
+          >
+            {importMutation.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
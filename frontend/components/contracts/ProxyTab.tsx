@@ -0,0 +1,110 @@
+import React from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+interface ProxyTabProps {
+  contractId: number;
+}
+
+const PROXY_TYPE_LABELS: Record<string, string> = {
+  eip1967: 'EIP-1967',
+  'eip1967-beacon': 'EIP-1967 beacon',
+  eip1822: 'EIP-1822 (UUPS)',
+};
+
+export default function ProxyTab({ contractId }: ProxyTabProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: proxy, isLoading } = useQuery({
+    queryKey: ['contract-proxy', contractId],
+    queryFn: () => backend.blockchain.getContractProxy({ id: contractId }),
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: () => backend.blockchain.refreshContractProxy({ id: contractId }),
+    onSuccess: (status) => {
+      queryClient.setQueryData(['contract-proxy', contractId], status);
+      // The effective ABI changes when the implementation does.
+      queryClient.invalidateQueries({ queryKey: ['contract-abi', contractId] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check proxy slots',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading || !proxy) return <div>Loading proxy status...</div>;
+
+  return (
+    <div className="max-h-[60vh] overflow-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {proxy.isProxy ? (
+            <Badge>{PROXY_TYPE_LABELS[proxy.proxyType!] ?? proxy.proxyType} proxy</Badge>
+          ) : (
+            <Badge variant="outline">Not a proxy</Badge>
+          )}
+          <span className="text-xs text-muted-foreground">
+            {proxy.checkedAt ? `Checked ${new Date(proxy.checkedAt).toLocaleString()}` : 'Not checked yet'}
+          </span>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+          {refreshMutation.isPending ? 'Checking...' : 'Check Slots'}
+        </Button>
+      </div>
+
+      {proxy.isProxy && (
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Implementation:</span>
+            <span className="font-mono text-xs">{proxy.implementationAddress}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">ABI source:</span>
+            <span className="text-xs">
+              {proxy.implementationContractId
+                ? `${proxy.implementationName} (#${proxy.implementationContractId})`
+                : 'Proxy ABI (implementation not registered)'}
+            </span>
+          </div>
+          {proxy.admin && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Admin:</span>
+              <span className="font-mono text-xs">{proxy.admin}</span>
+            </div>
+          )}
+          {proxy.beacon && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Beacon:</span>
+              <span className="font-mono text-xs">{proxy.beacon}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {proxy.upgrades.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Upgrade History</h4>
+          {proxy.upgrades.map((upgrade) => (
+            <div key={upgrade.id} className="text-xs space-y-1 border-b pb-2">
+              <div className="flex items-center justify-between">
+                <span className="font-mono">{upgrade.implementationAddress}</span>
+                <span className="text-muted-foreground">block {upgrade.blockNumber}</span>
+              </div>
+              <div className="font-mono text-muted-foreground truncate">
+                {upgrade.source === 'event' ? upgrade.transactionHash : 'read from storage slot'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
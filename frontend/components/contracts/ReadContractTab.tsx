@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { AbiFunction, AbiParam } from '~backend/chain/abi';
+import type { CallContractResponse } from '~backend/blockchain/contract_calls';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ReadContractTabProps {
+  contractId: number;
+  functions: AbiFunction[];
+}
+
+// Arrays and tuples are entered as JSON; everything else as plain text.
+export const paramPlaceholder = (param: AbiParam) =>
+  param.type.startsWith('tuple') || param.type.endsWith(']') ? `${param.type} as JSON` : param.type;
+
+export const formatOutput = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+function ReadFunction({ contractId, fn, blockTag }: { contractId: number; fn: AbiFunction; blockTag: string }) {
+  const [args, setArgs] = useState<string[]>(fn.inputs.map(() => ''));
+  const [result, setResult] = useState<CallContractResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const callMutation = useMutation({
+    mutationFn: () => backend.blockchain.callContract({
+      id: contractId,
+      function: fn.signature,
+      args,
+      blockTag: blockTag || undefined,
+    }),
+    onSuccess: (response) => {
+      setResult(response);
+      setError(null);
+    },
+    onError: (err) => {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Call failed');
+    },
+  });
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-sm font-medium">{fn.name}</span>
+        <span className="font-mono text-xs text-muted-foreground">{fn.selector}</span>
+      </div>
+      {fn.inputs.map((input, index) => (
+        <div key={index}>
+          <Label className="text-xs">{input.name || `arg${index}`}</Label>
+          <Input
+            placeholder={paramPlaceholder(input)}
+            value={args[index]}
+            onChange={(e) => setArgs(prev => prev.map((arg, i) => (i === index ? e.target.value : arg)))}
+          />
+        </div>
+      ))}
+      <Button size="sm" variant="outline" onClick={() => callMutation.mutate()} disabled={callMutation.isPending}>
+        {callMutation.isPending ? 'Querying...' : 'Query'}
+      </Button>
+      {result && (
+        <div className="space-y-1">
+          {result.outputs.map((output, index) => (
+            <div key={index} className="text-xs">
+              <span className="text-muted-foreground">
+                {output.name || `[${index}]`} ({output.type}):
+              </span>
+              <pre className="font-mono whitespace-pre-wrap break-all">{formatOutput(output.value)}</pre>
+            </div>
+          ))}
+          {result.outputs.length === 0 && <p className="text-xs text-muted-foreground">No return values.</p>}
+        </div>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export default function ReadContractTab({ contractId, functions }: ReadContractTabProps) {
+  const [blockTag, setBlockTag] = useState('latest');
+  const readFunctions = functions.filter((fn) => fn.stateMutability === 'view' || fn.stateMutability === 'pure');
+
+  if (readFunctions.length === 0) {
+    return <p className="text-muted-foreground text-center py-6">This ABI has no view or pure functions.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Label htmlFor="blockTag" className="whitespace-nowrap">Block</Label>
+        <Input
+          id="blockTag"
+          className="max-w-48"
+          placeholder="latest or block number"
+          value={blockTag}
+          onChange={(e) => setBlockTag(e.target.value)}
+        />
+      </div>
+      <div className="max-h-[60vh] overflow-auto space-y-3">
+        {readFunctions.map((fn) => (
+          <ReadFunction key={fn.signature} contractId={contractId} fn={fn} blockTag={blockTag} />
+        ))}
+      </div>
+    </div>
+  );
+}
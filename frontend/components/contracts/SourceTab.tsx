@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { ContractVerification } from '~backend/blockchain/verification';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+
+interface SourceTabProps {
+  contractId: number;
+  contractName: string;
+}
+
+const statusBadge = (verification: ContractVerification) => {
+  switch (verification.status) {
+    case 'verified':
+      return <Badge className="bg-green-100 text-green-800">Verified ({verification.matchType} match)</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="outline">{verification.status}</Badge>;
+  }
+};
+
+function VerifiedSource({ contractId }: { contractId: number }) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const { data: source, isLoading } = useQuery({
+    queryKey: ['contract-source', contractId],
+    queryFn: () => backend.blockchain.getContractSource({ id: contractId }),
+    retry: false,
+  });
+
+  if (isLoading || !source) return null;
+  const fileNames = Object.keys(source.sources);
+  const current = selected ?? fileNames[0];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold">{source.contractName}</h4>
+        <span className="text-xs text-muted-foreground">solc {source.compilerVersion}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {fileNames.map((name) => (
+          <Button
+            key={name}
+            size="sm"
+            variant={name === current ? 'default' : 'outline'}
+            className="font-mono text-xs"
+            onClick={() => setSelected(name)}
+          >
+            {name}
+          </Button>
+        ))}
+      </div>
+      <pre className="font-mono text-xs whitespace-pre overflow-auto max-h-64 p-2 border rounded">
+        {source.sources[current]?.content}
+      </pre>
+      <details className="text-xs">
+        <summary className="cursor-pointer text-muted-foreground">Compiler settings</summary>
+        <pre className="font-mono whitespace-pre-wrap">{JSON.stringify(source.settings, null, 2)}</pre>
+      </details>
+    </div>
+  );
+}
+
+export default function SourceTab({ contractId, contractName }: SourceTabProps) {
+  const [form, setForm] = useState({ compilerVersion: '', contractName, input: '' });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['contract-verifications', contractId],
+    queryFn: () => backend.blockchain.listVerifications({ id: contractId }),
+    // Poll while a job is queued or compiling.
+    refetchInterval: (query) =>
+      query.state.data?.verifications.some((v) => v.status === 'pending' || v.status === 'running') ? 3000 : false,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => backend.blockchain.verifyContract({
+      id: contractId,
+      compilerVersion: form.compilerVersion || data!.bundledCompilerVersion,
+      contractName: form.contractName,
+      input: JSON.parse(form.input),
+    }),
+    onSuccess: () => {
+      toast({ title: 'Verification submitted', description: 'The sources are being compiled.' });
+      queryClient.invalidateQueries({ queryKey: ['contract-verifications', contractId] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to submit verification',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const verifications = data?.verifications ?? [];
+  const isVerified = verifications.some((v) => v.status === 'verified');
+
+  return (
+    <div className="max-h-[60vh] overflow-auto space-y-4">
+      {isVerified && <VerifiedSource contractId={contractId} />}
+
+      <div className="space-y-3 p-3 border rounded-lg">
+        <h4 className="text-sm font-semibold">Verify Source</h4>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="compilerVersion">Compiler version</Label>
+            <Input
+              id="compilerVersion"
+              placeholder={data?.bundledCompilerVersion}
+              value={form.compilerVersion}
+              onChange={(e) => setForm({ ...form, compilerVersion: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="verifyContractName">Contract name</Label>
+            <Input
+              id="verifyContractName"
+              placeholder="Name or path/To.sol:Name"
+              value={form.contractName}
+              onChange={(e) => setForm({ ...form, contractName: e.target.value })}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="standardJsonFile">Standard-JSON input</Label>
+          <Input
+            id="standardJsonFile"
+            type="file"
+            accept="application/json,.json"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) setForm({ ...form, input: await file.text() });
+            }}
+          />
+          <Textarea
+            className="font-mono text-xs h-32 mt-2"
+            placeholder='{ "language": "Solidity", "sources": { ... }, "settings": { ... } }'
+            value={form.input}
+            onChange={(e) => setForm({ ...form, input: e.target.value })}
+          />
+        </div>
+        <Button
+          size="sm"
+          onClick={() => verifyMutation.mutate()}
+          disabled={!form.input || !form.contractName || !data || verifyMutation.isPending}
+        >
+          {verifyMutation.isPending ? 'Submitting...' : 'Verify'}
+        </Button>
+      </div>
+
+      {verifications.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Attempts</h4>
+          {verifications.map((verification) => (
+            <div key={verification.id} className="text-xs space-y-1 border-b pb-2">
+              <div className="flex items-center justify-between">
+                <span className="font-mono">{verification.contractName}</span>
+                {statusBadge(verification)}
+              </div>
+              <div className="text-muted-foreground">
+                solc {verification.compilerVersion} · {new Date(verification.createdAt).toLocaleString()}
+              </div>
+              {verification.errorMessage && (
+                <pre className="text-destructive whitespace-pre-wrap break-all">{verification.errorMessage}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { AbiSectionDiff } from '~backend/chain/abi_diff';
+import type { ContractVersionEntry } from '~backend/blockchain/contract_versions';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface VersionsTabProps {
+  contractId: number;
+}
+
+const changeSummary = (entry: ContractVersionEntry) => {
+  if (!entry.changes) return null;
+  const { added, removed, changed } = entry.changes;
+  const parts = [
+    added > 0 && `+${added}`,
+    removed > 0 && `-${removed}`,
+    changed > 0 && `~${changed}`,
+    entry.bytecodeChanged && 'bytecode',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : 'no ABI changes';
+};
+
+function SectionDiff({ title, section }: { title: string; section: AbiSectionDiff }) {
+  if (section.added.length + section.removed.length + section.changed.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {section.added.map((signature) => (
+        <div key={`added-${signature}`} className="font-mono text-xs text-green-700">+ {signature}</div>
+      ))}
+      {section.removed.map((signature) => (
+        <div key={`removed-${signature}`} className="font-mono text-xs text-red-700">- {signature}</div>
+      ))}
+      {section.changed.map((change) => (
+        <div key={`changed-${change.from}-${change.to}`} className="text-xs">
+          <div className="flex items-center space-x-2">
+            <span className="font-mono">~ {change.from}</span>
+            {change.breaking && <Badge variant="destructive">Breaking</Badge>}
+          </div>
+          {change.changes.map((description) => (
+            <div key={description} className="pl-4 text-muted-foreground">{description}</div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function VersionsTab({ contractId }: VersionsTabProps) {
+  const [selected, setSelected] = useState<{ from?: number; to?: number }>({});
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['contract-versions', contractId],
+    queryFn: () => backend.blockchain.listContractVersions({ id: contractId }),
+  });
+
+  const versions = data?.versions ?? [];
+  const to = selected.to ?? versions[0]?.versionNumber;
+  const from = selected.from ?? (to !== undefined && to > 1 ? to - 1 : undefined);
+
+  const { data: diff, error: diffError } = useQuery({
+    queryKey: ['contract-version-diff', contractId, from, to],
+    queryFn: () => backend.blockchain.diffContractVersions({ id: contractId, from, to }),
+    enabled: from !== undefined && to !== undefined && from !== to,
+    retry: false,
+  });
+
+  if (isLoading) return <div>Loading versions...</div>;
+
+  return (
+    <div className="max-h-[60vh] overflow-auto space-y-4">
+      <div className="space-y-2">
+        {versions.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            className={`w-full text-left text-xs p-2 border rounded-lg ${entry.versionNumber === to ? 'border-primary' : ''}`}
+            onClick={() => setSelected({ to: entry.versionNumber })}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="font-semibold">#{entry.versionNumber}</span>
+                <span className="font-mono">{entry.version}</span>
+                <Badge variant="outline">{entry.changeSource}</Badge>
+                {entry.changes && entry.changes.breaking > 0 && (
+                  <Badge variant="destructive">{entry.changes.breaking} breaking</Badge>
+                )}
+              </div>
+              <span className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between text-muted-foreground mt-1">
+              <span>{entry.changedBy ?? 'unknown'}</span>
+              <span className="font-mono">{changeSummary(entry)}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {versions.length > 1 && to !== undefined && (
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center space-x-2">
+            <Label>Compare</Label>
+            <Select
+              value={from === undefined ? undefined : String(from)}
+              onValueChange={(value) => setSelected({ from: Number(value), to })}
+            >
+              <SelectTrigger className="w-24">
+                <SelectValue placeholder="From" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.filter((entry) => entry.versionNumber !== to).map((entry) => (
+                  <SelectItem key={entry.id} value={String(entry.versionNumber)}>#{entry.versionNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm">→ #{to}</span>
+          </div>
+
+          {diffError && (
+            <p className="text-sm text-destructive">
+              {diffError instanceof Error ? diffError.message : 'Failed to compare versions'}
+            </p>
+          )}
+          {diff && (
+            <div className="space-y-3">
+              {diff.diff.breakingChanges.length === 0 ? (
+                <Badge className="bg-green-100 text-green-800">No breaking changes</Badge>
+              ) : (
+                <Badge variant="destructive">{diff.diff.breakingChanges.length} breaking changes</Badge>
+              )}
+              {diff.bytecodeChanged && <p className="text-xs text-muted-foreground">Bytecode changed.</p>}
+              <SectionDiff title="Functions" section={diff.diff.functions} />
+              <SectionDiff title="Events" section={diff.diff.events} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { AbiFunction } from '~backend/chain/abi';
+import type { PreparedContractWrite } from '~backend/wallet/contract_writes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatOutput, paramPlaceholder } from './ReadContractTab';
+
+interface WriteContractTabProps {
+  contractId: number;
+  functions: AbiFunction[];
+}
+
+interface WriteFunctionProps {
+  contractId: number;
+  fn: AbiFunction;
+  from: string;
+  onPrepared: (prepared: PreparedContractWrite, args: string[]) => void;
+}
+
+function WriteFunction({ contractId, fn, from, onPrepared }: WriteFunctionProps) {
+  const [args, setArgs] = useState<string[]>(fn.inputs.map(() => ''));
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: () => backend.wallet.previewContractWrite({
+      address: from,
+      contractId,
+      function: fn.signature,
+      args,
+      value: value || undefined,
+    }),
+    onSuccess: (prepared) => {
+      setError(null);
+      onPrepared(prepared, args);
+    },
+    onError: (err) => {
+      setError(err instanceof Error ? err.message : 'Could not prepare the transaction');
+    },
+  });
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-sm font-medium">{fn.name}</span>
+        <span className="font-mono text-xs text-muted-foreground">{fn.selector}</span>
+      </div>
+      {fn.inputs.map((input, index) => (
+        <div key={index}>
+          <Label className="text-xs">{input.name || `arg${index}`}</Label>
+          <Input
+            placeholder={paramPlaceholder(input)}
+            value={args[index]}
+            onChange={(e) => setArgs(prev => prev.map((arg, i) => (i === index ? e.target.value : arg)))}
+          />
+        </div>
+      ))}
+      {fn.stateMutability === 'payable' && (
+        <div>
+          <Label className="text-xs">value (wei)</Label>
+          <Input placeholder="0" value={value} onChange={(e) => setValue(e.target.value)} />
+        </div>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => previewMutation.mutate()}
+        disabled={!from || previewMutation.isPending}
+      >
+        {previewMutation.isPending ? 'Preparing...' : 'Write'}
+      </Button>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export default function WriteContractTab({ contractId, functions }: WriteContractTabProps) {
+  const [from, setFrom] = useState('');
+  const [pending, setPending] = useState<{ prepared: PreparedContractWrite; args: string[] } | null>(null);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: walletsData } = useQuery({
+    queryKey: ['wallets'],
+    queryFn: () => backend.wallet.listWallets(),
+  });
+  const custodialWallets = walletsData?.wallets.filter((wallet) => wallet.isCustodial) ?? [];
+
+  const writeMutation = useMutation({
+    mutationFn: ({ prepared, args }: { prepared: PreparedContractWrite; args: string[] }) =>
+      backend.wallet.writeContract({
+        address: prepared.from,
+        contractId,
+        function: prepared.signature,
+        args,
+        value: prepared.value,
+      }),
+    onSuccess: (response) => {
+      toast({
+        title: 'Transaction sent',
+        description: `${response.signature} submitted as ${response.hash}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      setPending(null);
+    },
+    onError: (err) => {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to send the transaction',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const writeFunctions = functions.filter((fn) => fn.stateMutability === 'nonpayable' || fn.stateMutability === 'payable');
+
+  if (writeFunctions.length === 0) {
+    return <p className="text-muted-foreground text-center py-6">This ABI has no state-changing functions.</p>;
+  }
+
+  const prepared = pending?.prepared;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <Label className="whitespace-nowrap">From</Label>
+        <Select value={from} onValueChange={setFrom}>
+          <SelectTrigger className="font-mono text-xs">
+            <SelectValue placeholder="Select a custodial wallet" />
+          </SelectTrigger>
+          <SelectContent>
+            {custodialWallets.map((wallet) => (
+              <SelectItem key={wallet.id} value={wallet.address} className="font-mono text-xs">
+                {wallet.address}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {walletsData && custodialWallets.length === 0 && (
+        <p className="text-xs text-muted-foreground">No custodial wallets available to sign with.</p>
+      )}
+      <div className="max-h-[60vh] overflow-auto space-y-3">
+        {writeFunctions.map((fn) => (
+          <WriteFunction
+            key={fn.signature}
+            contractId={contractId}
+            fn={fn}
+            from={from}
+            onPrepared={(p, args) => setPending({ prepared: p, args })}
+          />
+        ))}
+      </div>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Confirm Transaction</DialogTitle>
+            <DialogDescription>
+              This transaction will be signed with the custodial key of the selected wallet and broadcast.
+            </DialogDescription>
+          </DialogHeader>
+          {prepared && (
+            <div className="space-y-3 text-sm">
+              <div className="font-mono font-medium break-all">{prepared.signature}</div>
+              <div className="space-y-1">
+                {prepared.args.map((arg, index) => (
+                  <div key={index} className="text-xs">
+                    <span className="text-muted-foreground">{arg.name || `arg${index}`} ({arg.type}):</span>
+                    <pre className="font-mono whitespace-pre-wrap break-all">{formatOutput(arg.value)}</pre>
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <span className="text-muted-foreground">From</span>
+                <span className="font-mono truncate">{prepared.from}</span>
+                <span className="text-muted-foreground">To</span>
+                <span className="font-mono truncate">{prepared.contractAddress}</span>
+                <span className="text-muted-foreground">Value (wei)</span>
+                <span className="font-mono">{prepared.value}</span>
+                <span className="text-muted-foreground">Nonce</span>
+                <span className="font-mono">{prepared.nonce}</span>
+                <span className="text-muted-foreground">Gas limit</span>
+                <span className="font-mono">{prepared.gasLimit}</span>
+                {prepared.fees.type === 'eip1559' ? (
+                  <>
+                    <span className="text-muted-foreground">Max fee / priority fee</span>
+                    <span className="font-mono">
+                      {prepared.fees.maxFeePerGas} / {prepared.fees.maxPriorityFeePerGas}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-muted-foreground">Gas price</span>
+                    <span className="font-mono">{prepared.fees.gasPrice}</span>
+                  </>
+                )}
+                <span className="text-muted-foreground">Max cost (wei)</span>
+                <span className="font-mono">{prepared.maxCost}</span>
+              </div>
+              <details className="text-xs">
+                <summary className="cursor-pointer text-muted-foreground">Calldata</summary>
+                <pre className="font-mono whitespace-pre-wrap break-all">{prepared.data}</pre>
+              </details>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => pending && writeMutation.mutate(pending)} disabled={writeMutation.isPending}>
+              {writeMutation.isPending ? 'Sending...' : 'Sign & Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
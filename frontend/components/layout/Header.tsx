@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Bell, Search, User } from 'lucide-react';
+import backend from '~backend/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,8 +13,40 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { loadProjectId, saveProjectId, saveSession } from '@/lib/session';
+
+interface HeaderProps {
+  address: string;
+}
+
+export default function Header({ address }: HeaderProps) {
+  const queryClient = useQueryClient();
+  const [projectId, setProjectId] = useState(loadProjectId);
+
+  const { data: projects } = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => backend.org.listProjects(),
+  });
+
+  // Without a stored choice the server acts in the user's first project, which is listed first.
+  const selectedProjectId = projectId ?? projects?.projects[0]?.id.toString();
+
+  const handleProjectChange = (value: string) => {
+    saveProjectId(value);
+    setProjectId(value);
+    // Everything else on screen belongs to the previous project.
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== 'projects' });
+  };
+
+  const handleLogout = async () => {
+    try {
+      await backend.auth.logout();
+    } finally {
+      // Signed out locally even if the server could not be reached.
+      saveSession(null);
+    }
+  };
 
-export default function Header() {
   return (
     <header className="bg-card border-b border-border px-6 py-4">
       <div className="flex items-center justify-between">
@@ -26,6 +61,21 @@ export default function Header() {
         </div>
         
         <div className="flex items-center space-x-4">
+          {projects && projects.projects.length > 0 && (
+            <Select value={selectedProjectId} onValueChange={handleProjectChange}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.projects.map((project) => (
+                  <SelectItem key={project.id} value={project.id.toString()}>
+                    {project.organizationName} / {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           <Button variant="ghost" size="icon">
             <Bell className="h-5 w-5" />
           </Button>
@@ -37,12 +87,17 @@ export default function Header() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuLabel>My Account</DropdownMenuLabel>
+              <DropdownMenuLabel>
+                My Account
+                <div className="font-mono text-xs font-normal text-muted-foreground">
+                  {address.slice(0, 6)}...{address.slice(-4)}
+                </div>
+              </DropdownMenuLabel>
               <DropdownMenuSeparator />
               <DropdownMenuItem>Profile</DropdownMenuItem>
               <DropdownMenuItem>Settings</DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem>Log out</DropdownMenuItem>
+              <DropdownMenuItem onClick={handleLogout}>Log out</DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
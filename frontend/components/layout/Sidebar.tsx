@@ -11,6 +11,7 @@ import {
   Activity,
   BarChart3,
   Zap,
+  ScrollText,
   Settings
 } from 'lucide-react';
 
@@ -24,6 +25,7 @@ const navigation = [
   { name: 'Transactions', href: '/transactions', icon: Activity },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
   { name: 'Events', href: '/events', icon: Zap },
+  { name: 'Audit', href: '/audit', icon: ScrollText },
 ];
 
 export default function Sidebar() {
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RefreshCw } from 'lucide-react';
+
+interface BlocksDialogProps {
+  network: { id: number; name: string } | null;
+  onClose: () => void;
+}
+
+const formatGwei = (wei?: string) => (wei ? `${(Number(wei) / 1e9).toFixed(2)} gwei` : '—');
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+export default function BlocksDialog({ network, onClose }: BlocksDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['network-blocks', network?.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => backend.blockchain.listBlocks({ id: network!.id, limit: 50 }),
+    enabled: network !== null,
+    refetchInterval: 30_000,
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => backend.blockchain.syncBlocks({ id: network!.id }),
+    onSuccess: (result) => {
+      toast({
+        title: 'Blocks synced',
+        description: result.reorg
+          ? `Reorg of depth ${result.reorg.depth} resolved; ${result.ingested} blocks ingested`
+          : `${result.ingested} blocks ingested`,
+      });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      console.error('Failed to sync blocks:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to sync blocks',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={network !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Blocks</DialogTitle>
+          <DialogDescription>
+            Block headers ingested from {network?.name}, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            {syncMutation.isPending ? 'Syncing...' : 'Sync now'}
+          </Button>
+        </div>
+
+        {data && data.reorgs.length > 0 && (
+          <div className="space-y-1">
+            {data.reorgs.map((reorg) => (
+              <div key={reorg.id} className="flex items-center space-x-2 text-xs">
+                <Badge variant="destructive">Reorg</Badge>
+                <span>
+                  {reorg.depth} block(s) from #{reorg.forkBlockNumber.toLocaleString()} replaced
+                </span>
+                <span className="text-muted-foreground">{new Date(reorg.detectedAt).toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div>Loading blocks...</div>
+        ) : (
+          <div className="max-h-96 overflow-auto space-y-2">
+            {data?.blocks.map((block) => (
+              <div key={block.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                <div className="space-y-1">
+                  <div className="font-mono font-medium">#{block.number.toLocaleString()}</div>
+                  <div className="font-mono text-xs text-muted-foreground">{shortHash(block.hash)}</div>
+                </div>
+                <div className="text-right text-xs space-y-1">
+                  <div>{new Date(block.timestamp).toLocaleTimeString()} · {block.transactionCount} txs</div>
+                  <div className="text-muted-foreground">
+                    base fee {formatGwei(block.baseFeePerGas)} · gas {Number(block.gasUsed).toLocaleString()}
+                    {block.blockTimeSeconds != null ? ` · ${block.blockTimeSeconds}s` : ''}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {data?.blocks.length === 0 && (
+              <p className="text-muted-foreground text-center py-6">No blocks ingested yet.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { Network } from '~backend/blockchain/networks';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface EditNetworkDialogProps {
+  network: Network | null;
+  onClose: () => void;
+}
+
+const toForm = (network: Network | null) => ({
+  name: network?.name ?? '',
+  chainId: network ? String(network.chainId) : '',
+  rpcUrl: network?.rpcUrl ?? '',
+  explorerUrl: network?.explorerUrl ?? '',
+  nativeCurrency: network?.nativeCurrency ?? '',
+  nativeCurrencyDecimals: network ? String(network.nativeCurrencyDecimals) : '18',
+  description: network?.description ?? '',
+  isTestnet: network?.isTestnet ?? false,
+  blockTimeTargetMs: network?.blockTimeTargetMs ? String(network.blockTimeTargetMs) : '',
+  confirmationDepth: network ? String(network.confirmationDepth) : '12',
+  supportsEip1559: network?.supportsEip1559 ?? true,
+});
+
+export default function EditNetworkDialog({ network, onClose }: EditNetworkDialogProps) {
+  const [form, setForm] = useState(toForm(network));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setForm(toForm(network));
+  }, [network]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: typeof form) => backend.blockchain.updateNetwork({
+      id: network!.id,
+      name: data.name,
+      chainId: parseInt(data.chainId),
+      rpcUrl: data.rpcUrl,
+      explorerUrl: data.explorerUrl || null,
+      nativeCurrency: data.nativeCurrency,
+      nativeCurrencyDecimals: parseInt(data.nativeCurrencyDecimals),
+      description: data.description || null,
+      isTestnet: data.isTestnet,
+      blockTimeTargetMs: data.blockTimeTargetMs ? parseInt(data.blockTimeTargetMs) : null,
+      confirmationDepth: parseInt(data.confirmationDepth),
+      supportsEip1559: data.supportsEip1559,
+    }),
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Network updated successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: ['networks'] });
+      onClose();
+    },
+    onError: (error) => {
+      console.error('Failed to update network:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update network',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!form.name || !form.chainId || !form.rpcUrl || !form.nativeCurrency) {
+      toast({
+        title: 'Error',
+        description: 'Please fill in all required fields',
+        variant: 'destructive',
+      });
+      return;
+    }
+    updateMutation.mutate(form);
+  };
+
+  return (
+    <Dialog open={network !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Network</DialogTitle>
+          <DialogDescription>
+            Update the connection settings and chain metadata for {network?.name}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editName">Network Name</Label>
+              <Input
+                id="editName"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="editChainId">Chain ID</Label>
+              <Input
+                id="editChainId"
+                type="number"
+                value={form.chainId}
+                onChange={(e) => setForm(prev => ({ ...prev, chainId: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="editRpcUrl">RPC URL</Label>
+            <Input
+              id="editRpcUrl"
+              placeholder="https://..."
+              value={form.rpcUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, rpcUrl: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="editExplorerUrl">Block Explorer URL (Optional)</Label>
+            <Input
+              id="editExplorerUrl"
+              placeholder="https://..."
+              value={form.explorerUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, explorerUrl: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="editDescription">Description (Optional)</Label>
+            <Textarea
+              id="editDescription"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="editNativeCurrency">Native Currency</Label>
+              <Input
+                id="editNativeCurrency"
+                value={form.nativeCurrency}
+                onChange={(e) => setForm(prev => ({ ...prev, nativeCurrency: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="editDecimals">Currency Decimals</Label>
+              <Input
+                id="editDecimals"
+                type="number"
+                value={form.nativeCurrencyDecimals}
+                onChange={(e) => setForm(prev => ({ ...prev, nativeCurrencyDecimals: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="editBlockTime">Block Time Target (ms)</Label>
+              <Input
+                id="editBlockTime"
+                type="number"
+                placeholder="e.g., 12000"
+                value={form.blockTimeTargetMs}
+                onChange={(e) => setForm(prev => ({ ...prev, blockTimeTargetMs: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="editConfirmations">Confirmation Depth</Label>
+              <Input
+                id="editConfirmations"
+                type="number"
+                value={form.confirmationDepth}
+                onChange={(e) => setForm(prev => ({ ...prev, confirmationDepth: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex space-x-6">
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isTestnet}
+                onChange={(e) => setForm(prev => ({ ...prev, isTestnet: e.target.checked }))}
+              />
+              <span>Testnet</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.supportsEip1559}
+                onChange={(e) => setForm(prev => ({ ...prev, supportsEip1559: e.target.checked }))}
+              />
+              <span>Supports EIP-1559 fees</span>
+            </label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2, Power } from 'lucide-react';
+
+interface EndpointsDialogProps {
+  network: { id: number; name: string; rpcUrl: string } | null;
+  onClose: () => void;
+}
+
+const emptyEndpoint = {
+  url: '',
+  role: 'read' as 'read' | 'write' | 'archive',
+  priority: '0',
+  weight: '1',
+  rateLimitPerSecond: '',
+};
+
+const getCircuitBadge = (state?: string) => {
+  switch (state) {
+    case 'closed':
+      return <Badge className="bg-green-100 text-green-800">OK</Badge>;
+    case 'half_open':
+      return <Badge className="bg-yellow-100 text-yellow-800">Recovering</Badge>;
+    case 'stale':
+      return <Badge className="bg-yellow-100 text-yellow-800">Stale head</Badge>;
+    case 'open':
+      return <Badge variant="destructive">Circuit open</Badge>;
+    default:
+      return <Badge variant="outline">Unused</Badge>;
+  }
+};
+
+export default function EndpointsDialog({ network, onClose }: EndpointsDialogProps) {
+  const [newEndpoint, setNewEndpoint] = useState(emptyEndpoint);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['network-endpoints', network?.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => backend.blockchain.listEndpoints({ id: network!.id }),
+    enabled: network !== null,
+  });
+
+  const onError = (action: string) => (error: unknown) => {
+    console.error(`Failed to ${action}:`, error);
+    toast({
+      title: 'Error',
+      description: `Failed to ${action}`,
+      variant: 'destructive',
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (endpoint: typeof newEndpoint) => backend.blockchain.createEndpoint({
+      id: network!.id,
+      url: endpoint.url,
+      role: endpoint.role,
+      priority: parseInt(endpoint.priority) || 0,
+      weight: parseInt(endpoint.weight) || 1,
+      rateLimitPerSecond: endpoint.rateLimitPerSecond ? parseInt(endpoint.rateLimitPerSecond) : undefined,
+    }),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'RPC endpoint added' });
+      queryClient.invalidateQueries({ queryKey });
+      setNewEndpoint(emptyEndpoint);
+    },
+    onError: onError('add RPC endpoint'),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (endpoint: { id: number; isActive: boolean }) => backend.blockchain.updateEndpoint({
+      id: network!.id,
+      endpointId: endpoint.id,
+      isActive: !endpoint.isActive,
+    }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: onError('update RPC endpoint'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (endpointId: number) => backend.blockchain.deleteEndpoint({ id: network!.id, endpointId }),
+    onSuccess: () => {
+      toast({ title: 'Success', description: 'RPC endpoint removed' });
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: onError('remove RPC endpoint'),
+  });
+
+  const handleAdd = () => {
+    if (!newEndpoint.url) {
+      toast({
+        title: 'Error',
+        description: 'Please enter an endpoint URL',
+        variant: 'destructive',
+      });
+      return;
+    }
+    createMutation.mutate(newEndpoint);
+  };
+
+  return (
+    <Dialog open={network !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>RPC Endpoints</DialogTitle>
+          <DialogDescription>
+            Endpoints for {network?.name} are tried in priority order and balanced by weight.
+            When none are configured, {network?.rpcUrl} is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div>Loading endpoints...</div>
+        ) : (
+          <div className="max-h-72 overflow-auto space-y-2">
+            {data?.endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">{endpoint.role}</Badge>
+                    {endpoint.isActive ? getCircuitBadge(endpoint.circuitState) : (
+                      <Badge variant="secondary">Disabled</Badge>
+                    )}
+                  </div>
+                  <div className="font-mono text-xs truncate">{endpoint.url}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Priority {endpoint.priority} · Weight {endpoint.weight}
+                    {endpoint.rateLimitPerSecond ? ` · ${endpoint.rateLimitPerSecond} req/s` : ''}
+                    {endpoint.observedHead !== undefined ? ` · Head ${endpoint.observedHead.toLocaleString()}` : ''}
+                  </div>
+                  {endpoint.lastError && (
+                    <div className="text-xs text-destructive truncate">{endpoint.lastError}</div>
+                  )}
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => toggleMutation.mutate(endpoint)}
+                    disabled={toggleMutation.isPending}
+                  >
+                    <Power className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => deleteMutation.mutate(endpoint.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {data?.endpoints.length === 0 && (
+              <p className="text-muted-foreground text-center py-6">No additional endpoints configured.</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div>
+            <Label htmlFor="endpointUrl">Endpoint URL</Label>
+            <Input
+              id="endpointUrl"
+              placeholder="https://..."
+              value={newEndpoint.url}
+              onChange={(e) => setNewEndpoint(prev => ({ ...prev, url: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label>Role</Label>
+              <Select
+                value={newEndpoint.role}
+                onValueChange={(value) => setNewEndpoint(prev => ({ ...prev, role: value as typeof prev.role }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read">Read</SelectItem>
+                  <SelectItem value="write">Write</SelectItem>
+                  <SelectItem value="archive">Archive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="endpointPriority">Priority</Label>
+              <Input
+                id="endpointPriority"
+                type="number"
+                value={newEndpoint.priority}
+                onChange={(e) => setNewEndpoint(prev => ({ ...prev, priority: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="endpointWeight">Weight</Label>
+              <Input
+                id="endpointWeight"
+                type="number"
+                value={newEndpoint.weight}
+                onChange={(e) => setNewEndpoint(prev => ({ ...prev, weight: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="endpointRateLimit">Rate limit (req/s)</Label>
+              <Input
+                id="endpointRateLimit"
+                type="number"
+                placeholder="None"
+                value={newEndpoint.rateLimitPerSecond}
+                onChange={(e) => setNewEndpoint(prev => ({ ...prev, rateLimitPerSecond: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Button onClick={handleAdd} disabled={createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            {createMutation.isPending ? 'Adding...' : 'Add Endpoint'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
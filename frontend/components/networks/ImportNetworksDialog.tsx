@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import type { ChainRegistryEntry, ImportNetworksResponse } from '~backend/blockchain/registry';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ImportNetworksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Accepts either a bare chains.json array or an exported { chains: [...] } document.
+const parseChains = (text: string): ChainRegistryEntry[] => {
+  const parsed = JSON.parse(text);
+  const chains = Array.isArray(parsed) ? parsed : parsed?.chains;
+  if (!Array.isArray(chains)) {
+    throw new Error('Expected an array of chains or an object with a "chains" array');
+  }
+  return chains;
+};
+
+export default function ImportNetworksDialog({ open, onOpenChange }: ImportNetworksDialogProps) {
+  const [registryJson, setRegistryJson] = useState('');
+  const [preview, setPreview] = useState<ImportNetworksResponse | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => backend.blockchain.importNetworks({
+      chains: parseChains(registryJson),
+      dryRun,
+    }),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: 'Import complete',
+        description: `${result.added.length} added, ${result.updated.length} updated, ${result.skipped.length} skipped`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['networks'] });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      console.error('Failed to import networks:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import networks',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setRegistryJson('');
+      setPreview(null);
+    }
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setRegistryJson(await file.text());
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Networks</DialogTitle>
+          <DialogDescription>
+            Upload or paste a chainlist-style JSON document. Networks are matched by chain ID;
+            preview the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="registryFile">JSON file</Label>
+            <Input
+              id="registryFile"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div>
+            <Label htmlFor="registryDocument">Or paste JSON</Label>
+            <Textarea
+              id="registryDocument"
+              className="font-mono text-xs h-40"
+              placeholder='[{ "name": "...", "chainId": 1, "rpc": ["https://..."], "nativeCurrency": { ... } }]'
+              value={registryJson}
+              onChange={(e) => {
+                setRegistryJson(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+
+          {preview && (
+            <div className="max-h-64 overflow-auto space-y-2 border-t pt-4 text-sm">
+              {preview.added.map((network) => (
+                <div key={`added-${network.chainId}`} className="flex items-center space-x-2">
+                  <Badge className="bg-green-100 text-green-800">Add</Badge>
+                  <span>{network.name}</span>
+                  <span className="font-mono text-muted-foreground">#{network.chainId}</span>
+                </div>
+              ))}
+              {preview.updated.map((network) => (
+                <div key={`updated-${network.chainId}`} className="flex items-center space-x-2">
+                  <Badge className="bg-blue-100 text-blue-800">Update</Badge>
+                  <span>{network.name}</span>
+                  <span className="text-muted-foreground">{network.changes?.join(', ')}</span>
+                </div>
+              ))}
+              {preview.skipped.map((network, index) => (
+                <div key={`skipped-${index}`} className="flex items-center space-x-2">
+                  <Badge variant="outline">Skip</Badge>
+                  <span>{network.name ?? network.chainId}</span>
+                  <span className="text-muted-foreground">{network.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => importMutation.mutate(true)}
+            disabled={!registryJson || importMutation.isPending}
+          >
+            Preview
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate(false)}
+            disabled={!preview || importMutation.isPending}
+          >
+            {importMutation.isPending ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ExportKeystoreDialogProps {
+  address: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Saves the keystore under geth's file naming convention.
+function downloadKeystore(address: string, keystore: string) {
+  const timestamp = new Date().toISOString().replace(/:/g, '-');
+  const url = URL.createObjectURL(new Blob([keystore], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `UTC--${timestamp}--${address.slice(2).toLowerCase()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportKeystoreDialog({ address, open, onOpenChange }: ExportKeystoreDialogProps) {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: () => backend.wallet.exportKeystore({ address, password }),
+    onSuccess: (result) => {
+      downloadKeystore(result.address, result.keystore);
+      toast({
+        title: 'Keystore exported',
+        description: `Keystore for ${result.address} downloaded`,
+      });
+      setPassword('');
+      setConfirmation('');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export keystore',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const passwordError = password.length < MIN_PASSWORD_LENGTH
+    ? `At least ${MIN_PASSWORD_LENGTH} characters`
+    : password !== confirmation ? 'Passwords do not match' : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Keystore</DialogTitle>
+          <DialogDescription>
+            Download <span className="font-mono">{address}</span> as a V3 keystore for MetaMask
+            or geth. Anyone with the file and its password controls the wallet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="exportPassword">New Password</Label>
+            <Input
+              id="exportPassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="exportPasswordConfirm">Confirm Password</Label>
+            <Input
+              id="exportPasswordConfirm"
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+            {password && passwordError && (
+              <p className="text-sm text-destructive mt-1">{passwordError}</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={passwordError !== null || exportMutation.isPending}
+          >
+            {exportMutation.isPending ? 'Encrypting...' : 'Export Keystore'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface GenerateWalletDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerated: (address: string) => void;
+}
+
+const NEW_SEED = 'new';
+const WORD_COUNTS = ['12', '15', '18', '21', '24'];
+const PATH_PRESETS = [
+  { value: "m/44'/60'/0'/0/{index}", label: 'Address index (MetaMask)' },
+  { value: "m/44'/60'/{index}'/0/0", label: 'Account index (Ledger Live)' },
+];
+
+export default function GenerateWalletDialog({ open, onOpenChange, onGenerated }: GenerateWalletDialogProps) {
+  const [seedId, setSeedId] = useState<string>('');
+  const [label, setLabel] = useState('');
+  const [wordCount, setWordCount] = useState('12');
+  const [pathTemplate, setPathTemplate] = useState(PATH_PRESETS[0].value);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: seeds } = useQuery({
+    queryKey: ['hd-seeds'],
+    queryFn: () => backend.wallet.listHdSeeds(),
+    enabled: open,
+  });
+
+  const selectedSeed = seedId || (seeds?.seeds.length ? String(seeds.seeds[0].id) : NEW_SEED);
+
+  const generateMutation = useMutation({
+    mutationFn: () => selectedSeed === NEW_SEED
+      ? backend.wallet.createHdSeed({
+          label: label || undefined,
+          wordCount: Number(wordCount) as 12 | 15 | 18 | 21 | 24,
+          pathTemplate,
+        })
+      : backend.wallet.deriveNextHdWallet({ seedId: Number(selectedSeed) }),
+    onSuccess: ({ wallet }) => {
+      toast({
+        title: 'Wallet generated',
+        description: `${wallet.address} derived at ${wallet.derivationPath}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['wallets'] });
+      queryClient.invalidateQueries({ queryKey: ['hd-seeds'] });
+      setSeedId('');
+      setLabel('');
+      onGenerated(wallet.address);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to generate wallet',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Generate Custodial Wallet</DialogTitle>
+          <DialogDescription>
+            Derive a new account from one of your HD seeds, or create a new seed.
+            Mnemonics and private keys are stored encrypted and never shown.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Seed</Label>
+            <Select value={selectedSeed} onValueChange={setSeedId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select seed" />
+              </SelectTrigger>
+              <SelectContent>
+                {seeds?.seeds.map((seed) => (
+                  <SelectItem key={seed.id} value={String(seed.id)}>
+                    {seed.label || `Seed ${seed.fingerprint}`} · {seed.pathTemplate} · next #{seed.nextIndex}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_SEED}>New seed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedSeed === NEW_SEED && (
+            <>
+              <div>
+                <Label htmlFor="seedLabel">Label (Optional)</Label>
+                <Input
+                  id="seedLabel"
+                  placeholder="Treasury"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Mnemonic Length</Label>
+                <Select value={wordCount} onValueChange={setWordCount}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORD_COUNTS.map((count) => (
+                      <SelectItem key={count} value={count}>{count} words</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pathTemplate">Derivation Path</Label>
+                <Select value={PATH_PRESETS.some((p) => p.value === pathTemplate) ? pathTemplate : ''} onValueChange={setPathTemplate}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Custom" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PATH_PRESETS.map((preset) => (
+                      <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="pathTemplate"
+                  className="mt-2 font-mono"
+                  value={pathTemplate}
+                  onChange={(e) => setPathTemplate(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+            {generateMutation.isPending ? 'Generating...' : 'Generate Wallet'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ImportKeystoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (address: string) => void;
+}
+
+export default function ImportKeystoreDialog({ open, onOpenChange, onImported }: ImportKeystoreDialogProps) {
+  const [keystore, setKeystore] = useState('');
+  const [password, setPassword] = useState('');
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const reset = () => {
+    setKeystore('');
+    setPassword('');
+  };
+
+  const importMutation = useMutation({
+    mutationFn: () => backend.wallet.importKeystore({ keystore, password }),
+    onSuccess: (wallet) => {
+      toast({
+        title: 'Wallet imported',
+        description: `${wallet.address} is now a custodial wallet`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['wallets'] });
+      reset();
+      onImported(wallet.address);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import keystore',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setKeystore(await file.text());
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Keystore</DialogTitle>
+          <DialogDescription>
+            Import a V3 keystore file from MetaMask or geth. The key is decrypted with its
+            password and stored encrypted as a custodial wallet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="keystoreFile">Keystore File</Label>
+            <Input
+              id="keystoreFile"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div>
+            <Label htmlFor="keystoreJson">Keystore JSON</Label>
+            <Textarea
+              id="keystoreJson"
+              className="font-mono text-xs"
+              rows={6}
+              placeholder='{"version":3,"crypto":{...}}'
+              value={keystore}
+              onChange={(e) => setKeystore(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="keystorePassword">Password</Label>
+            <Input
+              id="keystorePassword"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!keystore || !password || importMutation.isPending}
+          >
+            {importMutation.isPending ? 'Importing...' : 'Import Wallet'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+// The SIWE session token, kept in localStorage so it survives reloads.
+
+const STORAGE_KEY = "indoblockforge.session";
+// The project requests act in; unset means the server's default for the user.
+const PROJECT_STORAGE_KEY = "indoblockforge.project";
+
+export interface StoredSession {
+  token: string;
+  address: string;
+  expiresAt: string;
+}
+
+type Listener = (session: StoredSession | null) => void;
+const listeners = new Set<Listener>();
+
+export function loadSession(): StoredSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as StoredSession | null;
+    if (session && new Date(session.expiresAt).getTime() > Date.now()) {
+      return session;
+    }
+  } catch {
+    // Unreadable entries are treated as signed out.
+  }
+  return null;
+}
+
+export function saveSession(session: StoredSession | null) {
+  if (session) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(PROJECT_STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener(session));
+}
+
+export function onSessionChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function loadProjectId(): string | undefined {
+  return localStorage.getItem(PROJECT_STORAGE_KEY) ?? undefined;
+}
+
+export function saveProjectId(projectId: string | undefined) {
+  if (projectId) {
+    localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+  } else {
+    localStorage.removeItem(PROJECT_STORAGE_KEY);
+  }
+}
+
+// Auth data for the generated client: the bearer token and selected project while signed in.
+export function sessionAuth() {
+  const session = loadSession();
+  return session ? { authorization: `Bearer ${session.token}`, projectId: loadProjectId() } : undefined;
+}
@@ -0,0 +1,27 @@
+// Builds EIP-4361 (Sign-In with Ethereum) messages for the connected wallet.
+
+export interface SiweFields {
+  address: string;
+  chainId: number;
+  nonce: string;
+  statement?: string;
+  expirationTime?: Date;
+}
+
+export function buildSiweMessage({ address, chainId, nonce, statement, expirationTime }: SiweFields): string {
+  const lines = [
+    `${window.location.host} wants you to sign in with your Ethereum account:`,
+    address,
+    '',
+    ...(statement ? [statement, ''] : ['']),
+    `URI: ${window.location.origin}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date().toISOString()}`,
+  ];
+  if (expirationTime) {
+    lines.push(`Expiration Time: ${expirationTime.toISOString()}`);
+  }
+  return lines.join('\n');
+}
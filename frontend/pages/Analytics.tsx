@@ -273,6 +273,29 @@ export default function Analytics() {
                         <span className="text-muted-foreground">Last Activity:</span>
                         <span className="text-xs">{new Date(network.lastActivity).toLocaleDateString()}</span>
                       </div>
+
+                      {network.headBlock != null && (
+                        <>
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Head Block:</span>
+                            <span className="font-mono">#{network.headBlock.toLocaleString()}</span>
+                          </div>
+
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Block Time:</span>
+                            <span className="font-medium">
+                              {network.avgBlockTime != null ? `${network.avgBlockTime.toFixed(1)}s` : '—'}
+                            </span>
+                          </div>
+
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Base Fee:</span>
+                            <span className="font-medium">
+                              {network.baseFeePerGas ? `${(Number(network.baseFeePerGas) / 1e9).toFixed(2)} gwei` : '—'}
+                            </span>
+                          </div>
+                        </>
+                      )}
                     </div>
                   </div>
                 </CardContent>
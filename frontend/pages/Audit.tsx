@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import backend from '~backend/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ScrollText, Download, Filter, Search, ShieldCheck } from 'lucide-react';
+
+const emptyFilters = {
+  operation: '',
+  actor: '',
+  targetType: '',
+  targetId: '',
+  result: '',
+  from: '',
+  to: '',
+};
+
+export default function Audit() {
+  const [form, setForm] = useState(emptyFilters);
+  const [filters, setFilters] = useState({ ...emptyFilters, page: 1, limit: 25 });
+  const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('csv');
+
+  const { toast } = useToast();
+
+  // Empty fields are left out; datetime-local values are sent as ISO timestamps.
+  const queryFilters = () => ({
+    operation: filters.operation || undefined,
+    actor: filters.actor || undefined,
+    targetType: filters.targetType || undefined,
+    targetId: filters.targetId || undefined,
+    result: (filters.result || undefined) as 'success' | 'denied' | 'failure' | undefined,
+    from: filters.from ? new Date(filters.from).toISOString() : undefined,
+    to: filters.to ? new Date(filters.to).toISOString() : undefined,
+  });
+
+  const { data: audit, isLoading } = useQuery({
+    queryKey: ['audit-events', filters],
+    queryFn: () => backend.audit.listAuditEvents({
+      ...queryFilters(),
+      page: filters.page,
+      limit: filters.limit,
+    }),
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => backend.audit.verifyAuditChain(),
+    onSuccess: (report) => {
+      toast({
+        title: report.valid ? 'Audit trail intact' : 'Audit trail tampered',
+        description: report.valid
+          ? `${report.checked} entries verified`
+          : `Entry #${report.firstInvalidId}: ${report.reason}`,
+        variant: report.valid ? undefined : 'destructive',
+      });
+    },
+    onError: (error) => {
+      console.error('Failed to verify audit trail:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to verify audit trail',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleSearch = () => {
+    setFilters(prev => ({ ...prev, ...form, page: 1 }));
+  };
+
+  const handleExport = async () => {
+    try {
+      const exported = await backend.audit.exportAuditEvents({ ...queryFilters(), format: exportFormat });
+      const type = exportFormat === 'csv' ? 'text/csv' : 'application/json';
+      const url = URL.createObjectURL(new Blob([exported.content], { type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exported.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export audit events:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export audit events',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const resultVariant = (result: string) => {
+    switch (result) {
+      case 'success':
+        return 'default';
+      case 'denied':
+        return 'secondary';
+      default:
+        return 'destructive';
+    }
+  };
+
+  const formatState = (state: any) => {
+    try {
+      return JSON.stringify(state, null, 2);
+    } catch {
+      return String(state);
+    }
+  };
+
+  if (isLoading) {
+    return <div>Loading audit trail...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Who minted, moved keys or changed configuration in this project, and when.
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => verifyMutation.mutate()}
+            disabled={verifyMutation.isPending}
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {verifyMutation.isPending ? 'Verifying...' : 'Verify Chain'}
+          </Button>
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as 'json' | 'csv')}>
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV</SelectItem>
+              <SelectItem value="json">JSON</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-4">
+            <div>
+              <Label htmlFor="operation">Operation</Label>
+              <Input
+                id="operation"
+                placeholder="token.mint, network.toggle..."
+                value={form.operation}
+                onChange={(e) => setForm(prev => ({ ...prev, operation: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="actor">Actor</Label>
+              <Input
+                id="actor"
+                placeholder="0x..."
+                value={form.actor}
+                onChange={(e) => setForm(prev => ({ ...prev, actor: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="targetType">Target Type</Label>
+              <Input
+                id="targetType"
+                placeholder="token, contract, wallet..."
+                value={form.targetType}
+                onChange={(e) => setForm(prev => ({ ...prev, targetType: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="targetId">Target ID</Label>
+              <Input
+                id="targetId"
+                value={form.targetId}
+                onChange={(e) => setForm(prev => ({ ...prev, targetId: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="result">Result</Label>
+              <Select
+                value={form.result}
+                onValueChange={(value) => setForm(prev => ({ ...prev, result: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All results" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">All Results</SelectItem>
+                  <SelectItem value="success">Success</SelectItem>
+                  <SelectItem value="denied">Denied</SelectItem>
+                  <SelectItem value="failure">Failure</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="from">From</Label>
+              <Input
+                id="from"
+                type="datetime-local"
+                value={form.from}
+                onChange={(e) => setForm(prev => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="to">To</Label>
+              <Input
+                id="to"
+                type="datetime-local"
+                value={form.to}
+                onChange={(e) => setForm(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex items-end">
+              <Button onClick={handleSearch} className="w-full">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Trail</CardTitle>
+          <CardDescription>
+            {audit?.total || 0} entries found
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {audit?.events.map((event) => (
+              <div key={event.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">{event.operation}</Badge>
+                      <Badge variant={resultVariant(event.result)}>{event.result}</Badge>
+                      {event.targetType && (
+                        <span className="text-sm text-muted-foreground">
+                          {event.targetType} {event.targetId}
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Actor: </span>
+                      <span className="font-mono">{event.actor ?? 'anonymous'}</span>
+                      {event.apiKeyId !== undefined && (
+                        <span className="text-muted-foreground"> via API key #{event.apiKeyId}</span>
+                      )}
+                      {event.ipAddress && (
+                        <span className="text-muted-foreground"> from {event.ipAddress}</span>
+                      )}
+                    </div>
+
+                    {event.errorMessage && (
+                      <div className="text-sm text-destructive">{event.errorMessage}</div>
+                    )}
+
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {event.hash.slice(0, 16)}...
+                    </div>
+                  </div>
+
+                  <div className="text-right text-sm text-muted-foreground">
+                    <div>{new Date(event.createdAt).toLocaleDateString()}</div>
+                    <div>{new Date(event.createdAt).toLocaleTimeString()}</div>
+                  </div>
+                </div>
+
+                {(event.before || event.after) && (
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <Label className="text-sm font-medium">Before:</Label>
+                      <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
+                        {event.before ? formatState(event.before) : '—'}
+                      </pre>
+                    </div>
+                    <div>
+                      <Label className="text-sm font-medium">After:</Label>
+                      <pre className="mt-1 p-2 bg-muted rounded text-xs overflow-x-auto">
+                        {event.after ? formatState(event.after) : '—'}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {audit?.events.length === 0 && (
+            <div className="text-center py-12">
+              <ScrollText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No audit entries found</h3>
+              <p className="text-muted-foreground">
+                Privileged operations such as minting, key exports and network changes are recorded here.
+              </p>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {audit && audit.total > filters.limit && (
+            <div className="flex items-center justify-between pt-4">
+              <div className="text-sm text-muted-foreground">
+                Showing {((filters.page - 1) * filters.limit) + 1} to {Math.min(filters.page * filters.limit, audit.total)} of {audit.total} results
+              </div>
+
+              <div className="flex space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFilters(prev => ({ ...prev, page: Math.max(1, prev.page - 1) }))}
+                  disabled={filters.page <= 1}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFilters(prev => ({ ...prev, page: prev.page + 1 }))}
+                  disabled={filters.page * filters.limit >= audit.total}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -190,6 +190,12 @@ export default function Dashboard() {
                     {parseFloat(healthMetrics.avgGasPrice).toFixed(0)} gwei
                   </span>
                 </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Avg Base Fee</span>
+                  <span className="text-sm text-muted-foreground">
+                    {(Number(healthMetrics.avgBaseFee) / 1e9).toFixed(2)} gwei
+                  </span>
+                </div>
               </>
             )}
           </CardContent>
@@ -56,7 +56,7 @@ export default function Events() {
 
   const { data: contracts } = useQuery({
     queryKey: ['contracts'],
-    queryFn: () => backend.blockchain.listContracts(),
+    queryFn: () => backend.blockchain.listContracts({}),
   });
 
   const { data: networks } = useQuery({
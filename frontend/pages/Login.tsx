@@ -0,0 +1,83 @@
+import React from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { getAddress, hexlify, toUtf8Bytes } from 'ethers';
+import backend from '~backend/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { buildSiweMessage } from '@/lib/siwe';
+import { saveSession } from '@/lib/session';
+import { LogIn } from 'lucide-react';
+
+interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<any>;
+}
+
+declare global {
+  interface Window {
+    ethereum?: EthereumProvider;
+  }
+}
+
+const SIWE_STATEMENT = 'Sign in to IndoBlockForge.';
+
+async function signIn() {
+  const ethereum = window.ethereum;
+  if (!ethereum) {
+    throw new Error('No Ethereum wallet found. Install MetaMask or another browser wallet.');
+  }
+  const [account] = await ethereum.request({ method: 'eth_requestAccounts' }) as string[];
+  const chainId = Number(await ethereum.request({ method: 'eth_chainId' }));
+  const address = getAddress(account);
+
+  const { nonce } = await backend.auth.getNonce();
+  const message = buildSiweMessage({ address, chainId, nonce, statement: SIWE_STATEMENT });
+  const signature = await ethereum.request({
+    method: 'personal_sign',
+    params: [hexlify(toUtf8Bytes(message)), address],
+  }) as string;
+
+  const session = await backend.auth.verifySiwe({ message, signature });
+  saveSession({ token: session.token, address: session.address, expiresAt: String(session.expiresAt) });
+}
+
+export default function Login() {
+  const { toast } = useToast();
+
+  const signInMutation = useMutation({
+    mutationFn: signIn,
+    onError: (error) => {
+      toast({
+        title: 'Sign-in failed',
+        description: error instanceof Error ? error.message : 'Failed to sign in',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center space-x-2 mb-2">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <span className="text-primary-foreground font-bold text-sm">IB</span>
+            </div>
+            <span className="text-xl font-bold text-foreground">IndoBlockForge</span>
+          </div>
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>
+            Sign a message with your Ethereum wallet to prove you own its address.
+            No transaction is sent and no gas is spent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full" onClick={() => signInMutation.mutate()} disabled={signInMutation.isPending}>
+            <LogIn className="h-4 w-4 mr-2" />
+            {signInMutation.isPending ? 'Waiting for wallet...' : 'Sign in with Ethereum'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,10 +16,35 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Network, Plus, ExternalLink, Power } from 'lucide-react';
+import { Network, Plus, ExternalLink, Power, Activity, History, Server, Pencil, Trash2, Upload, Download, Boxes } from 'lucide-react';
+import EndpointsDialog from '@/components/networks/EndpointsDialog';
+import EditNetworkDialog from '@/components/networks/EditNetworkDialog';
+import ImportNetworksDialog from '@/components/networks/ImportNetworksDialog';
+import BlocksDialog from '@/components/networks/BlocksDialog';
+
+const getHealthBadge = (status?: string) => {
+  switch (status) {
+    case 'healthy':
+      return <Badge className="bg-green-100 text-green-800">Healthy</Badge>;
+    case 'degraded':
+      return <Badge className="bg-yellow-100 text-yellow-800">Degraded</Badge>;
+    case 'down':
+      return <Badge variant="destructive">Down</Badge>;
+    case 'chain_mismatch':
+      return <Badge variant="destructive">Chain ID mismatch</Badge>;
+    default:
+      return <Badge variant="outline">Unchecked</Badge>;
+  }
+};
 
 export default function Networks() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [historyNetworkId, setHistoryNetworkId] = useState<number | null>(null);
+  const [endpointsNetworkId, setEndpointsNetworkId] = useState<number | null>(null);
+  const [blocksNetworkId, setBlocksNetworkId] = useState<number | null>(null);
+  const [editNetworkId, setEditNetworkId] = useState<number | null>(null);
+  const [deleteNetworkId, setDeleteNetworkId] = useState<number | null>(null);
   const [newNetwork, setNewNetwork] = useState({
     name: '',
     chainId: '',
@@ -36,6 +61,22 @@ export default function Networks() {
     queryFn: () => backend.blockchain.listNetworks(),
   });
 
+  const { data: networkHealth } = useQuery({
+    queryKey: ['network-health'],
+    queryFn: () => backend.blockchain.listNetworkHealth(),
+    refetchInterval: 60_000,
+  });
+
+  const { data: healthHistory, isLoading: isHistoryLoading } = useQuery({
+    queryKey: ['network-health', historyNetworkId],
+    queryFn: () => backend.blockchain.getNetworkHealth({ id: historyNetworkId!, limit: 50 }),
+    enabled: historyNetworkId !== null,
+  });
+
+  const healthByNetwork = new Map(
+    (networkHealth?.health ?? []).map((check) => [check.networkId, check])
+  );
+
   const createNetworkMutation = useMutation({
     mutationFn: (data: typeof newNetwork) => backend.blockchain.createNetwork({
       name: data.name,
@@ -88,6 +129,47 @@ export default function Networks() {
     },
   });
 
+  const checkHealthMutation = useMutation({
+    mutationFn: (id: number) => backend.blockchain.checkNetworkHealth({ id }),
+    onSuccess: (check) => {
+      toast({
+        title: 'Health check complete',
+        description: check.errorMessage ?? `Status: ${check.status}`,
+        variant: check.status === 'healthy' ? 'default' : 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: ['network-health'] });
+    },
+    onError: (error) => {
+      console.error('Failed to check network health:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to check network health',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteNetworkMutation = useMutation({
+    mutationFn: (id: number) => backend.blockchain.deleteNetwork({ id }),
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Network deleted',
+      });
+      queryClient.invalidateQueries({ queryKey: ['networks'] });
+      queryClient.invalidateQueries({ queryKey: ['network-health'] });
+      setDeleteNetworkId(null);
+    },
+    onError: (error) => {
+      console.error('Failed to delete network:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete network',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleCreateNetwork = () => {
     if (!newNetwork.name || !newNetwork.chainId || !newNetwork.rpcUrl || !newNetwork.nativeCurrency) {
       toast({
@@ -105,6 +187,26 @@ export default function Networks() {
     toggleNetworkMutation.mutate(id);
   };
 
+  const handleExportNetworks = async () => {
+    try {
+      const registry = await backend.blockchain.exportNetworks();
+      const blob = new Blob([JSON.stringify(registry.chains, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'networks.json';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export networks:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to export networks',
+        variant: 'destructive',
+      });
+    }
+  };
+
   if (isLoading) {
     return <div>Loading networks...</div>;
   }
@@ -119,94 +221,112 @@ export default function Networks() {
           </p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Network
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Network</DialogTitle>
-              <DialogDescription>
-                Configure a new blockchain network connection.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="name">Network Name</Label>
-                <Input
-                  id="name"
-                  placeholder="e.g., Ethereum Mainnet"
-                  value={newNetwork.name}
-                  onChange={(e) => setNewNetwork(prev => ({ ...prev, name: e.target.value }))}
-                />
-              </div>
-              <div>
-                <Label htmlFor="chainId">Chain ID</Label>
-                <Input
-                  id="chainId"
-                  type="number"
-                  placeholder="e.g., 1"
-                  value={newNetwork.chainId}
-                  onChange={(e) => setNewNetwork(prev => ({ ...prev, chainId: e.target.value }))}
-                />
-              </div>
-              <div>
-                <Label htmlFor="rpcUrl">RPC URL</Label>
-                <Input
-                  id="rpcUrl"
-                  placeholder="https://..."
-                  value={newNetwork.rpcUrl}
-                  onChange={(e) => setNewNetwork(prev => ({ ...prev, rpcUrl: e.target.value }))}
-                />
-              </div>
-              <div>
-                <Label htmlFor="explorerUrl">Block Explorer URL (Optional)</Label>
-                <Input
-                  id="explorerUrl"
-                  placeholder="https://..."
-                  value={newNetwork.explorerUrl}
-                  onChange={(e) => setNewNetwork(prev => ({ ...prev, explorerUrl: e.target.value }))}
-                />
-              </div>
-              <div>
-                <Label htmlFor="nativeCurrency">Native Currency</Label>
-                <Input
-                  id="nativeCurrency"
-                  placeholder="e.g., ETH"
-                  value={newNetwork.nativeCurrency}
-                  onChange={(e) => setNewNetwork(prev => ({ ...prev, nativeCurrency: e.target.value }))}
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button
-                type="submit"
-                onClick={handleCreateNetwork}
-                disabled={createNetworkMutation.isPending}
-              >
-                {createNetworkMutation.isPending ? 'Creating...' : 'Create Network'}
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={handleExportNetworks}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Network
               </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Network</DialogTitle>
+                <DialogDescription>
+                  Configure a new blockchain network connection.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Network Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="e.g., Ethereum Mainnet"
+                    value={newNetwork.name}
+                    onChange={(e) => setNewNetwork(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="chainId">Chain ID</Label>
+                  <Input
+                    id="chainId"
+                    type="number"
+                    placeholder="e.g., 1"
+                    value={newNetwork.chainId}
+                    onChange={(e) => setNewNetwork(prev => ({ ...prev, chainId: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rpcUrl">RPC URL</Label>
+                  <Input
+                    id="rpcUrl"
+                    placeholder="https://..."
+                    value={newNetwork.rpcUrl}
+                    onChange={(e) => setNewNetwork(prev => ({ ...prev, rpcUrl: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="explorerUrl">Block Explorer URL (Optional)</Label>
+                  <Input
+                    id="explorerUrl"
+                    placeholder="https://..."
+                    value={newNetwork.explorerUrl}
+                    onChange={(e) => setNewNetwork(prev => ({ ...prev, explorerUrl: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="nativeCurrency">Native Currency</Label>
+                  <Input
+                    id="nativeCurrency"
+                    placeholder="e.g., ETH"
+                    value={newNetwork.nativeCurrency}
+                    onChange={(e) => setNewNetwork(prev => ({ ...prev, nativeCurrency: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  onClick={handleCreateNetwork}
+                  disabled={createNetworkMutation.isPending}
+                >
+                  {createNetworkMutation.isPending ? 'Creating...' : 'Create Network'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <ImportNetworksDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {networks?.networks.map((network) => (
+        {networks?.networks.map((network) => {
+          const health = healthByNetwork.get(network.id);
+          return (
           <Card key={network.id}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <div className="flex items-center space-x-2">
                 <Network className="h-5 w-5 text-primary" />
                 <CardTitle className="text-lg">{network.name}</CardTitle>
+                {network.isTestnet && <Badge variant="outline">Testnet</Badge>}
               </div>
-              <Badge variant={network.isActive ? 'default' : 'secondary'}>
-                {network.isActive ? 'Active' : 'Inactive'}
-              </Badge>
+              {network.isActive ? getHealthBadge(health?.status) : (
+                <Badge variant="secondary">Inactive</Badge>
+              )}
             </CardHeader>
             <CardContent className="space-y-4">
+              {network.description && (
+                <p className="text-sm text-muted-foreground">{network.description}</p>
+              )}
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Chain ID:</span>
@@ -216,15 +336,42 @@ export default function Networks() {
                   <span className="text-muted-foreground">Currency:</span>
                   <span className="font-mono">{network.nativeCurrency}</span>
                 </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Block time / confirmations:</span>
+                  <span className="font-mono">
+                    {network.blockTimeTargetMs ? `${network.blockTimeTargetMs / 1000}s` : '—'} / {network.confirmationDepth}
+                  </span>
+                </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">RPC:</span>
                   <span className="font-mono text-xs truncate max-w-32">
                     {network.rpcUrl}
                   </span>
                 </div>
+                {health && (
+                  <>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Latest block:</span>
+                      <span className="font-mono">{health.blockHeight?.toLocaleString() ?? '—'}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Latency / head lag:</span>
+                      <span className="font-mono">
+                        {health.latencyMs ?? '—'}ms / {health.headLagSeconds ?? '—'}s
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Checked:</span>
+                      <span>{new Date(health.checkedAt).toLocaleTimeString()}</span>
+                    </div>
+                    {health.errorMessage && (
+                      <p className="text-xs text-destructive">{health.errorMessage}</p>
+                    )}
+                  </>
+                )}
               </div>
               
-              <div className="flex space-x-2">
+              <div className="flex flex-wrap gap-2">
                 <Button
                   size="sm"
                   variant={network.isActive ? 'destructive' : 'default'}
@@ -234,6 +381,61 @@ export default function Networks() {
                   <Power className="h-4 w-4 mr-1" />
                   {network.isActive ? 'Disable' : 'Enable'}
                 </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => checkHealthMutation.mutate(network.id)}
+                  disabled={checkHealthMutation.isPending}
+                >
+                  <Activity className="h-4 w-4 mr-1" />
+                  Check
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setHistoryNetworkId(network.id)}
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  History
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEndpointsNetworkId(network.id)}
+                >
+                  <Server className="h-4 w-4 mr-1" />
+                  Endpoints
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setBlocksNetworkId(network.id)}
+                >
+                  <Boxes className="h-4 w-4 mr-1" />
+                  Blocks
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditNetworkId(network.id)}
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDeleteNetworkId(network.id)}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
                 
                 {network.explorerUrl && (
                   <Button
@@ -248,9 +450,84 @@ export default function Networks() {
               </div>
             </CardContent>
           </Card>
-        ))}
+          );
+        })}
       </div>
 
+      <Dialog open={historyNetworkId !== null} onOpenChange={(open) => !open && setHistoryNetworkId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Health History</DialogTitle>
+            <DialogDescription>
+              Most recent RPC probes for {networks?.networks.find((n) => n.id === historyNetworkId)?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          {isHistoryLoading ? (
+            <div>Loading health history...</div>
+          ) : (
+            <div className="max-h-96 overflow-auto space-y-2">
+              {healthHistory?.history.map((check) => (
+                <div key={check.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div className="flex items-center space-x-2">
+                    {getHealthBadge(check.status)}
+                    <span className="text-muted-foreground">
+                      {new Date(check.checkedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="font-mono text-xs text-right">
+                    <div>block {check.blockHeight?.toLocaleString() ?? '—'}</div>
+                    <div>{check.latencyMs ?? '—'}ms · lag {check.headLagSeconds ?? '—'}s</div>
+                  </div>
+                </div>
+              ))}
+              {healthHistory?.history.length === 0 && (
+                <p className="text-muted-foreground text-center py-6">No health checks recorded yet.</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <EndpointsDialog
+        network={networks?.networks.find((n) => n.id === endpointsNetworkId) ?? null}
+        onClose={() => setEndpointsNetworkId(null)}
+      />
+
+      <BlocksDialog
+        network={networks?.networks.find((n) => n.id === blocksNetworkId) ?? null}
+        onClose={() => setBlocksNetworkId(null)}
+      />
+
+      <EditNetworkDialog
+        network={networks?.networks.find((n) => n.id === editNetworkId) ?? null}
+        onClose={() => setEditNetworkId(null)}
+      />
+
+      <Dialog open={deleteNetworkId !== null} onOpenChange={(open) => !open && setDeleteNetworkId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Network</DialogTitle>
+            <DialogDescription>
+              Delete {networks?.networks.find((n) => n.id === deleteNetworkId)?.name} along with its RPC endpoints
+              and health history. Networks that still have contracts, transactions or events cannot be deleted;
+              disable them instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteNetworkId(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteNetworkMutation.mutate(deleteNetworkId!)}
+              disabled={deleteNetworkMutation.isPending}
+            >
+              {deleteNetworkMutation.isPending ? 'Deleting...' : 'Delete Network'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {networks?.networks.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
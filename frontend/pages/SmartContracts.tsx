@@ -18,10 +18,17 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { FileCode2, Plus, ExternalLink, CheckCircle, XCircle } from 'lucide-react';
+import { FileCode2, Plus, ExternalLink, CheckCircle, XCircle, Upload, Archive, ArchiveRestore } from 'lucide-react';
+import ArchiveContractDialog from '@/components/contracts/ArchiveContractDialog';
+import ContractDetailDialog from '@/components/contracts/ContractDetailDialog';
+import ImportContractsDialog from '@/components/contracts/ImportContractsDialog';
 
 export default function SmartContracts() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [detailContractId, setDetailContractId] = useState<number | null>(null);
+  const [archiveContractId, setArchiveContractId] = useState<number | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [newContract, setNewContract] = useState({
     name: '',
     address: '',
@@ -37,8 +44,8 @@ export default function SmartContracts() {
   const queryClient = useQueryClient();
 
   const { data: contracts, isLoading } = useQuery({
-    queryKey: ['contracts'],
-    queryFn: () => backend.blockchain.listContracts(),
+    queryKey: ['contracts', showArchived],
+    queryFn: () => backend.blockchain.listContracts({ includeArchived: showArchived }),
   });
 
   const { data: networks } = useQuery({
@@ -85,6 +92,22 @@ export default function SmartContracts() {
     },
   });
 
+  const restoreContractMutation = useMutation({
+    mutationFn: (id: number) => backend.blockchain.restoreContract({ id, cascade: true }),
+    onSuccess: () => {
+      toast({ title: 'Contract restored' });
+      queryClient.invalidateQueries({ queryKey: ['contracts'] });
+      queryClient.invalidateQueries({ queryKey: ['tokens'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to restore contract',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleCreateContract = () => {
     if (!newContract.name || !newContract.address || !newContract.networkId || !newContract.abi) {
       toast({
@@ -119,135 +142,145 @@ export default function SmartContracts() {
           </p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Contract
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Add Smart Contract</DialogTitle>
-              <DialogDescription>
-                Register an existing smart contract or deploy a new one.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 max-h-96 overflow-y-auto">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="name">Contract Name</Label>
-                  <Input
-                    id="name"
-                    placeholder="e.g., My Token Contract"
-                    value={newContract.name}
-                    onChange={(e) => setNewContract(prev => ({ ...prev, name: e.target.value }))}
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="address">Contract Address</Label>
-                  <Input
-                    id="address"
-                    placeholder="0x..."
-                    value={newContract.address}
-                    onChange={(e) => setNewContract(prev => ({ ...prev, address: e.target.value }))}
-                  />
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+            <Archive className="h-4 w-4 mr-2" />
+            {showArchived ? 'Hide Archived' : 'Show Archived'}
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Artifacts
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Contract
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add Smart Contract</DialogTitle>
+                <DialogDescription>
+                  Register an existing smart contract or deploy a new one.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 max-h-96 overflow-y-auto">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="name">Contract Name</Label>
+                    <Input
+                      id="name"
+                      placeholder="e.g., My Token Contract"
+                      value={newContract.name}
+                      onChange={(e) => setNewContract(prev => ({ ...prev, name: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="address">Contract Address</Label>
+                    <Input
+                      id="address"
+                      placeholder="0x..."
+                      value={newContract.address}
+                      onChange={(e) => setNewContract(prev => ({ ...prev, address: e.target.value }))}
+                    />
+                  </div>
                 </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="network">Network</Label>
-                  <Select 
-                    value={newContract.networkId} 
-                    onValueChange={(value) => setNewContract(prev => ({ ...prev, networkId: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select network" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {networks?.networks.filter(n => n.isActive).map((network) => (
-                        <SelectItem key={network.id} value={network.id.toString()}>
-                          {network.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="network">Network</Label>
+                    <Select 
+                      value={newContract.networkId} 
+                      onValueChange={(value) => setNewContract(prev => ({ ...prev, networkId: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select network" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {networks?.networks.filter(n => n.isActive).map((network) => (
+                          <SelectItem key={network.id} value={network.id.toString()}>
+                            {network.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="contractType">Contract Type</Label>
+                    <Select 
+                      value={newContract.contractType} 
+                      onValueChange={(value) => setNewContract(prev => ({ ...prev, contractType: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {contractTypes.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="contractType">Contract Type</Label>
-                  <Select 
-                    value={newContract.contractType} 
-                    onValueChange={(value) => setNewContract(prev => ({ ...prev, contractType: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select type" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {contractTypes.map((type) => (
-                        <SelectItem key={type.value} value={type.value}>
-                          {type.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="version">Version</Label>
+                    <Input
+                      id="version"
+                      placeholder="1.0.0"
+                      value={newContract.version}
+                      onChange={(e) => setNewContract(prev => ({ ...prev, version: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="deployedBy">Deployed By (Optional)</Label>
+                    <Input
+                      id="deployedBy"
+                      placeholder="0x..."
+                      value={newContract.deployedBy}
+                      onChange={(e) => setNewContract(prev => ({ ...prev, deployedBy: e.target.value }))}
+                    />
+                  </div>
                 </div>
-              </div>
-              
-              <div className="grid grid-cols-2 gap-4">
+                
                 <div>
-                  <Label htmlFor="version">Version</Label>
-                  <Input
-                    id="version"
-                    placeholder="1.0.0"
-                    value={newContract.version}
-                    onChange={(e) => setNewContract(prev => ({ ...prev, version: e.target.value }))}
+                  <Label htmlFor="abi">Contract ABI (JSON)</Label>
+                  <Textarea
+                    id="abi"
+                    placeholder='[{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"}]'
+                    value={newContract.abi}
+                    onChange={(e) => setNewContract(prev => ({ ...prev, abi: e.target.value }))}
+                    className="min-h-24"
                   />
                 </div>
+                
                 <div>
-                  <Label htmlFor="deployedBy">Deployed By (Optional)</Label>
-                  <Input
-                    id="deployedBy"
-                    placeholder="0x..."
-                    value={newContract.deployedBy}
-                    onChange={(e) => setNewContract(prev => ({ ...prev, deployedBy: e.target.value }))}
+                  <Label htmlFor="bytecode">Bytecode (Optional)</Label>
+                  <Textarea
+                    id="bytecode"
+                    placeholder="0x608060405234801561001057600080fd5b50..."
+                    value={newContract.bytecode}
+                    onChange={(e) => setNewContract(prev => ({ ...prev, bytecode: e.target.value }))}
+                    className="min-h-16"
                   />
                 </div>
               </div>
-              
-              <div>
-                <Label htmlFor="abi">Contract ABI (JSON)</Label>
-                <Textarea
-                  id="abi"
-                  placeholder='[{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"}]'
-                  value={newContract.abi}
-                  onChange={(e) => setNewContract(prev => ({ ...prev, abi: e.target.value }))}
-                  className="min-h-24"
-                />
-              </div>
-              
-              <div>
-                <Label htmlFor="bytecode">Bytecode (Optional)</Label>
-                <Textarea
-                  id="bytecode"
-                  placeholder="0x608060405234801561001057600080fd5b50..."
-                  value={newContract.bytecode}
-                  onChange={(e) => setNewContract(prev => ({ ...prev, bytecode: e.target.value }))}
-                  className="min-h-16"
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button
-                type="submit"
-                onClick={handleCreateContract}
-                disabled={createContractMutation.isPending}
-              >
-                {createContractMutation.isPending ? 'Adding...' : 'Add Contract'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  onClick={handleCreateContract}
+                  disabled={createContractMutation.isPending}
+                >
+                  {createContractMutation.isPending ? 'Adding...' : 'Add Contract'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -259,6 +292,7 @@ export default function SmartContracts() {
                 <CardTitle className="text-lg truncate">{contract.name}</CardTitle>
               </div>
               <div className="flex items-center space-x-2">
+                {contract.archivedAt && <Badge variant="outline">Archived</Badge>}
                 <Badge variant={contract.isVerified ? 'default' : 'secondary'}>
                   {contract.contractType}
                 </Badge>
@@ -298,15 +332,43 @@ export default function SmartContracts() {
                   <ExternalLink className="h-4 w-4 mr-1" />
                   View
                 </Button>
-                <Button size="sm" variant="outline">
+                <Button size="sm" variant="outline" onClick={() => setDetailContractId(contract.id)}>
                   Interact
                 </Button>
+                {contract.archivedAt ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => restoreContractMutation.mutate(contract.id)}
+                    disabled={restoreContractMutation.isPending}
+                  >
+                    <ArchiveRestore className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setArchiveContractId(contract.id)}>
+                    <Archive className="h-4 w-4 mr-1" />
+                    Archive
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      <ImportContractsDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+
+      <ArchiveContractDialog
+        contract={contracts?.contracts.find((c) => c.id === archiveContractId) ?? null}
+        onClose={() => setArchiveContractId(null)}
+      />
+
+      <ContractDetailDialog
+        contract={contracts?.contracts.find((c) => c.id === detailContractId) ?? null}
+        onClose={() => setDetailContractId(null)}
+      />
+
       {contracts?.contracts.length === 0 && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
@@ -55,7 +55,7 @@ export default function Tokens() {
 
   const { data: contracts } = useQuery({
     queryKey: ['contracts'],
-    queryFn: () => backend.blockchain.listContracts(),
+    queryFn: () => backend.blockchain.listContracts({}),
   });
 
   const createTokenMutation = useMutation({
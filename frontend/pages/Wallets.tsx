@@ -17,14 +17,19 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Wallet, Plus, Eye, Copy, ExternalLink } from 'lucide-react';
+import { Wallet, Plus, Eye, Copy, ExternalLink, KeyRound, Upload, Download } from 'lucide-react';
+import GenerateWalletDialog from '@/components/wallets/GenerateWalletDialog';
+import ImportKeystoreDialog from '@/components/wallets/ImportKeystoreDialog';
+import ExportKeystoreDialog from '@/components/wallets/ExportKeystoreDialog';
 
 export default function Wallets() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isGenerateDialogOpen, setIsGenerateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [selectedWallet, setSelectedWallet] = useState<string>('');
   const [newWallet, setNewWallet] = useState({
     address: '',
-    userId: 'demo-user',
     walletType: 'EOA',
     isCustodial: false,
     publicKey: '',
@@ -34,8 +39,8 @@ export default function Wallets() {
   const queryClient = useQueryClient();
 
   const { data: wallets, isLoading } = useQuery({
-    queryKey: ['wallets', 'demo-user'],
-    queryFn: () => backend.wallet.listWallets({ userId: 'demo-user' }),
+    queryKey: ['wallets'],
+    queryFn: () => backend.wallet.listWallets(),
   });
 
   const { data: walletBalance } = useQuery({
@@ -44,6 +49,8 @@ export default function Wallets() {
     enabled: !!selectedWallet,
   });
 
+  const selectedWalletInfo = wallets?.wallets.find((wallet) => wallet.address === selectedWallet);
+
   const createWalletMutation = useMutation({
     mutationFn: (data: typeof newWallet) => backend.wallet.createWallet(data),
     onSuccess: () => {
@@ -55,7 +62,6 @@ export default function Wallets() {
       setIsCreateDialogOpen(false);
       setNewWallet({
         address: '',
-        userId: 'demo-user',
         walletType: 'EOA',
         isCustodial: false,
         publicKey: '',
@@ -119,91 +125,113 @@ export default function Wallets() {
           </p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Wallet
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Wallet</DialogTitle>
-              <DialogDescription>
-                Connect an existing wallet or create a new one.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div>
-                <Label htmlFor="address">Wallet Address</Label>
-                <div className="flex space-x-2">
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setIsGenerateDialogOpen(true)}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Generate Wallet
+          </Button>
+          <GenerateWalletDialog
+            open={isGenerateDialogOpen}
+            onOpenChange={setIsGenerateDialogOpen}
+            onGenerated={setSelectedWallet}
+          />
+
+          <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import Keystore
+          </Button>
+          <ImportKeystoreDialog
+            open={isImportDialogOpen}
+            onOpenChange={setIsImportDialogOpen}
+            onImported={setSelectedWallet}
+          />
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Wallet
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Wallet</DialogTitle>
+                <DialogDescription>
+                  Connect an existing wallet or create a new one.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="address">Wallet Address</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="address"
+                      placeholder="0x..."
+                      value={newWallet.address}
+                      onChange={(e) => setNewWallet(prev => ({ ...prev, address: e.target.value }))}
+                    />
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      onClick={generateRandomAddress}
+                    >
+                      Generate
+                    </Button>
+                  </div>
+                </div>
+                
+                <div>
+                  <Label htmlFor="walletType">Wallet Type</Label>
+                  <Select 
+                    value={newWallet.walletType} 
+                    onValueChange={(value) => setNewWallet(prev => ({ ...prev, walletType: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select wallet type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {walletTypes.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                <div>
+                  <Label htmlFor="publicKey">Public Key (Optional)</Label>
                   <Input
-                    id="address"
+                    id="publicKey"
                     placeholder="0x..."
-                    value={newWallet.address}
-                    onChange={(e) => setNewWallet(prev => ({ ...prev, address: e.target.value }))}
+                    value={newWallet.publicKey}
+                    onChange={(e) => setNewWallet(prev => ({ ...prev, publicKey: e.target.value }))}
                   />
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={generateRandomAddress}
-                  >
-                    Generate
-                  </Button>
+                </div>
+                
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="isCustodial"
+                    checked={newWallet.isCustodial}
+                    onChange={(e) => setNewWallet(prev => ({ ...prev, isCustodial: e.target.checked }))}
+                    className="rounded"
+                  />
+                  <Label htmlFor="isCustodial">Custodial Wallet</Label>
                 </div>
               </div>
-              
-              <div>
-                <Label htmlFor="walletType">Wallet Type</Label>
-                <Select 
-                  value={newWallet.walletType} 
-                  onValueChange={(value) => setNewWallet(prev => ({ ...prev, walletType: value }))}
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  onClick={handleCreateWallet}
+                  disabled={createWalletMutation.isPending}
                 >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select wallet type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {walletTypes.map((type) => (
-                      <SelectItem key={type.value} value={type.value}>
-                        {type.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              
-              <div>
-                <Label htmlFor="publicKey">Public Key (Optional)</Label>
-                <Input
-                  id="publicKey"
-                  placeholder="0x..."
-                  value={newWallet.publicKey}
-                  onChange={(e) => setNewWallet(prev => ({ ...prev, publicKey: e.target.value }))}
-                />
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="isCustodial"
-                  checked={newWallet.isCustodial}
-                  onChange={(e) => setNewWallet(prev => ({ ...prev, isCustodial: e.target.checked }))}
-                  className="rounded"
-                />
-                <Label htmlFor="isCustodial">Custodial Wallet</Label>
-              </div>
-            </div>
-            <DialogFooter>
-              <Button
-                type="submit"
-                onClick={handleCreateWallet}
-                disabled={createWalletMutation.isPending}
-              >
-                {createWalletMutation.isPending ? 'Adding...' : 'Add Wallet'}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+                  {createWalletMutation.isPending ? 'Adding...' : 'Add Wallet'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -231,6 +259,9 @@ export default function Wallets() {
                         </div>
                         <div className="text-sm text-muted-foreground">
                           {wallet.walletType}
+                          {wallet.derivationPath && (
+                            <span className="ml-2 font-mono text-xs">{wallet.derivationPath}</span>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -357,7 +388,18 @@ export default function Wallets() {
                       <ExternalLink className="h-4 w-4 mr-2" />
                       Explorer
                     </Button>
+                    {selectedWalletInfo?.isCustodial && (
+                      <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export Keystore
+                      </Button>
+                    )}
                   </div>
+                  <ExportKeystoreDialog
+                    address={selectedWallet}
+                    open={isExportDialogOpen}
+                    onOpenChange={setIsExportDialogOpen}
+                  />
                 </CardContent>
               </Card>
             </div>